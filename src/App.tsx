@@ -1,53 +1,56 @@
 import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom';
-import { useState, useEffect } from 'react';
-import { supabase } from './supabaseClient';
+import { ProtectedRoute } from './ProtectedRoute';
 import LoginPage from './pages/LoginPage';
+import ResetPasswordPage from './pages/ResetPasswordPage';
 import DashboardPage from './pages/DashboardPage';
 import AppLayout from './components/AppLayout';
-import type { Session } from '@supabase/supabase-js';
 import AccountsPage from './pages/AccountsPage';
 import CategoriesPage from './pages/CategoriesPage';
+import TransactionsPage from './pages/TransactionsPage';
+import StatsPage from './pages/StatsPage';
+import ImportPage from './pages/ImportPage';
+import BudgetsPage from './pages/BudgetsPage';
+import RecurringPage from './pages/RecurringPage';
+import GoalsPage from './pages/GoalsPage';
+import ReconcilePage from './pages/ReconcilePage';
+import RulesPage from './pages/RulesPage';
+import WalletPage from './pages/WalletPage';
+import SettingsPage from './pages/SettingsPage';
+import ActivityPage from './pages/ActivityPage';
 
+// La sesión viene de AuthProvider (main.tsx); ProtectedRoute decide el acceso
 function App() {
-  const [session, setSession] = useState<Session | null>(null);
-
-  useEffect(() => {
-    supabase.auth.getSession().then(({ data: { session } }) => {
-      setSession(session);
-    });
-
-    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
-      setSession(session);
-    });
-
-    return () => subscription.unsubscribe();
-  }, []);
-
   return (
     <BrowserRouter>
-      <Routes> {/* <-- El contenedor principal de rutas */}
-        
-        {/* Ruta pública */}
-        <Route path="/" element={!session ? <LoginPage /> : <Navigate to="/dashboard" />} />
-        
+      <Routes>
+        {/* Rutas públicas */}
+        <Route path="/" element={<LoginPage />} />
+        <Route path="/reset-password" element={<ResetPasswordPage />} />
+
         {/* Rutas Protegidas */}
-        <Route 
-          path="/dashboard" 
-          element={session ? <AppLayout><DashboardPage /></AppLayout> : <Navigate to="/" />} 
-        />
-        <Route 
-          path="/accounts"
-          element={session ? <AppLayout><AccountsPage /></AppLayout> : <Navigate to="/" />} 
-        />
-        {/* --- SOLUCIÓN: La ruta de categorías debe estar aquí dentro --- */}
-        <Route 
-          path="/categories"
-          element={session ? <AppLayout><CategoriesPage /></AppLayout> : <Navigate to="/" />} 
-        />
-        
-      </Routes> {/* <-- Aquí cierra el contenedor de rutas */}
+        <Route element={<ProtectedRoute />}>
+          <Route element={<AppLayout />}>
+            <Route path="/dashboard" element={<DashboardPage />} />
+            <Route path="/accounts" element={<AccountsPage />} />
+            <Route path="/accounts/:accountId/reconcile" element={<ReconcilePage />} />
+            <Route path="/categories" element={<CategoriesPage />} />
+            <Route path="/categories/rules" element={<RulesPage />} />
+            <Route path="/budgets" element={<BudgetsPage />} />
+            <Route path="/transactions" element={<TransactionsPage />} />
+            <Route path="/transactions/import" element={<ImportPage />} />
+            <Route path="/recurring" element={<RecurringPage />} />
+            <Route path="/goals" element={<GoalsPage />} />
+            <Route path="/stats" element={<StatsPage />} />
+            <Route path="/wallet" element={<WalletPage />} />
+            <Route path="/activity" element={<ActivityPage />} />
+            <Route path="/settings" element={<SettingsPage />} />
+          </Route>
+        </Route>
+
+        <Route path="*" element={<Navigate to="/dashboard" replace />} />
+      </Routes>
     </BrowserRouter>
   );
 }
 
-export default App;
\ No newline at end of file
+export default App;
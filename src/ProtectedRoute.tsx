@@ -1,19 +1,23 @@
 import { useAuth } from "@/hooks/useAuth";
-import { Navigate, Outlet } from "react-router-dom";
+import { Navigate, Outlet, useLocation } from "react-router-dom";
+import { t } from "@/libs/i18n";
 
+// Ruta de layout para todo lo que requiere sesión. Sin ella se vuelve al inicio de
+// sesión recordando la página pedida, para regresar ahí al entrar.
 export const ProtectedRoute = () => {
   const { user, isLoading } = useAuth();
+  const location = useLocation();
 
   if (isLoading) {
     return (
-      <div className="min-h-screen flex items-center justify-center">
+      <div className="min-h-screen bg-gray-900 flex items-center justify-center">
         <div className="flex flex-col items-center">
           <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-indigo-600 mb-4"></div>
-          <p className="text-gray-600">Checking authentication...</p>
+          <p className="text-gray-400">{t("auth.verifyingSession")}</p>
         </div>
       </div>
     );
   }
 
-  return user ? <Outlet /> : <Navigate to="/login" replace />;
+  return user ? <Outlet /> : <Navigate to="/" replace state={{ from: location }} />;
 };
@@ -1,25 +1,62 @@
-import React, { useState } from 'react';
-import { NavLink, useNavigate } from 'react-router-dom';
-import { supabase } from '../supabaseClient';
+import React, { useState, useEffect } from 'react';
+import { NavLink, Outlet, useNavigate } from 'react-router-dom';
+import { ToastContainer } from 'react-toastify';
+import { useQueryClient } from '@tanstack/react-query';
+import { generateDueOccurrences } from '../libs/recurring';
+import { invalidateRecords } from '../libs/queryKeys';
+import { t, type TranslationKey } from '../libs/i18n';
+import { useOfflineSync } from '../hooks/useOfflineSync';
+import { useAuth } from '../hooks/useAuth';
+import { useSignOut } from '../hooks/useSignOut';
+import { useCurrentWallet } from '../hooks/useCurrentWallet';
+import { useSwitchWallet } from '../hooks/useSwitchWallet';
 // prettier-ignore
-import { FiHome, FiList, FiPieChart, FiTag, FiCreditCard, FiSettings, FiLogOut, FiMenu } from 'react-icons/fi'; // <-- SOLUCIÓN: Añadimos los iconos que faltaban
+import { FiHome, FiList, FiPieChart, FiTag, FiCreditCard, FiSettings, FiLogOut, FiMenu, FiTarget, FiRepeat, FiFlag, FiUsers, FiClock } from 'react-icons/fi'; // <-- SOLUCIÓN: Añadimos los iconos que faltaban
 
-// Items del menú (sin cambios)
-const navItems = [
-  { icon: FiHome, text: 'Inicio', path: '/dashboard' },
-  { icon: FiCreditCard, text: 'Cuentas', path: '/accounts' },
-  { icon: FiTag, text: 'Categorías', path: '/categories' },
-  { icon: FiList, text: 'Registros', path: '/transactions' },
-  { icon: FiPieChart, text: 'Estadísticas', path: '/stats' },
+// Items del menú; el texto es una clave del catálogo
+const navItems: { icon: typeof FiHome; text: TranslationKey; path: string }[] = [
+  { icon: FiHome, text: 'nav.dashboard', path: '/dashboard' },
+  { icon: FiCreditCard, text: 'nav.accounts', path: '/accounts' },
+  { icon: FiTag, text: 'nav.categories', path: '/categories' },
+  { icon: FiTarget, text: 'nav.budgets', path: '/budgets' },
+  { icon: FiFlag, text: 'nav.goals', path: '/goals' },
+  { icon: FiList, text: 'nav.transactions', path: '/transactions' },
+  { icon: FiRepeat, text: 'nav.recurring', path: '/recurring' },
+  { icon: FiPieChart, text: 'nav.stats', path: '/stats' },
+  { icon: FiUsers, text: 'nav.wallet', path: '/wallet' },
+  { icon: FiClock, text: 'nav.activity', path: '/activity' },
 ];
 
-const AppLayout: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+// Layout de las rutas protegidas; la página activa se muestra en el <Outlet />
+const AppLayout: React.FC = () => {
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const navigate = useNavigate();
+  const { user } = useAuth();
+  const signOut = useSignOut();
+  const { wallet, wallets, canEdit } = useCurrentWallet();
+  const switchWallet = useSwitchWallet();
+  const queryClient = useQueryClient();
+  const walletId = wallet?.id;
 
-  const handleLogout = async () => {
-    await supabase.auth.signOut();
-    navigate('/');
+  // Al abrir la app y al cambiar de billetera se registran las ocurrencias recurrentes
+  // que ya vencieron. Un lector no puede registrarlas: las genera quien sí puede editar.
+  useEffect(() => {
+    if (!walletId || !canEdit) return;
+    generateDueOccurrences()
+      .then((generated) => {
+        if (generated > 0) invalidateRecords(queryClient);
+      })
+      .catch((err) => console.error('Error generando recurrentes:', err));
+  }, [walletId, canEdit, queryClient]);
+
+  // Los registros capturados sin conexión se envían en cuanto hay red
+  useOfflineSync();
+
+  const handleLogout = () => {
+    signOut.mutate(undefined, {
+      onSuccess: () => navigate('/'),
+      onError: (error) => alert(t('nav.signOutError', { message: error.message })),
+    });
   };
 
   const SidebarContent = () => (
@@ -40,19 +77,27 @@ const AppLayout: React.FC<{ children: React.ReactNode }> = ({ children }) => {
             }
           >
             <item.icon className="mr-4 text-xl" />
-            <span>{item.text}</span>
+            <span>{t(item.text)}</span>
           </NavLink>
         ))}
       </nav>
       <div className="p-4 border-t border-gray-700">
-        <button className="flex items-center w-full px-4 py-3 rounded-lg hover:bg-gray-700 transition-colors duration-200">
-          <FiSettings className="mr-4 text-xl" /> Configuración
-        </button>
+        <NavLink
+          to="/settings"
+          onClick={() => setSidebarOpen(false)}
+          className={({ isActive }) =>
+            `flex items-center w-full px-4 py-3 rounded-lg transition-colors duration-200 ${
+              isActive ? 'bg-indigo-600 font-semibold' : 'hover:bg-gray-700'
+            }`
+          }
+        >
+          <FiSettings className="mr-4 text-xl" /> {t('nav.settings')}
+        </NavLink>
         <button
           onClick={handleLogout}
           className="flex items-center w-full px-4 py-3 mt-2 text-red-400 rounded-lg hover:bg-red-900/50 transition-colors duration-200"
         >
-          <FiLogOut className="mr-4 text-xl" /> Cerrar Sesión
+          <FiLogOut className="mr-4 text-xl" /> {t('nav.signOut')}
         </button>
       </div>
     </div>
@@ -88,10 +133,27 @@ const AppLayout: React.FC<{ children: React.ReactNode }> = ({ children }) => {
           <button onClick={() => setSidebarOpen(true)} className="md:hidden text-2xl text-white">
             <FiMenu />
           </button>
-          <div className="text-white">dhreyes03@gmail.com</div>
+          <div className="flex items-center gap-4">
+            {/* Solo hace falta elegir cuando el usuario pertenece a varias billeteras */}
+            {wallets.length > 1 && wallet && (
+              <select
+                value={wallet.id}
+                onChange={(e) => switchWallet.mutate(e.target.value, { onError: (error) => alert(error.message) })}
+                disabled={switchWallet.isPending}
+                className="bg-gray-700 border-gray-600 rounded-lg py-2 px-3 text-white"
+              >
+                {wallets.map((w) => (<option key={w.id} value={w.id}>{w.name}</option>))}
+              </select>
+            )}
+            <div className="text-white">{user?.email}</div>
+          </div>
         </header>
-        <main className="flex-1 p-6 overflow-y-auto">{children}</main>
+        {/* Al cambiar de billetera las páginas se montan de nuevo y vuelven a cargar sus datos */}
+        <main key={wallet?.id} className="flex-1 p-6 overflow-y-auto"><Outlet /></main>
       </div>
+
+      {/* Avisos con opción de deshacer (eliminaciones de cuentas y categorías) */}
+      <ToastContainer position="bottom-right" theme="dark" />
     </div>
   );
 };
@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { FiPaperclip, FiFileText, FiX } from 'react-icons/fi';
+import { t } from '../libs/i18n';
+import { ACCEPTED_ATTACHMENT_TYPES, MAX_ATTACHMENT_SIZE, isImage, prepareAttachment, type Attachment } from '../libs/attachments';
+import { useAttachments } from '../hooks/useAttachments';
+import { useUploadAttachments } from '../hooks/useUploadAttachments';
+import { useDeleteAttachment } from '../hooks/useDeleteAttachment';
+
+interface AttachmentsFieldProps {
+  // Transacción ya guardada: los archivos se suben al elegirlos
+  transactionId: string | null;
+  // Transacción nueva: los archivos esperan a que se guarde el registro
+  pending: File[];
+  onPendingChange: (files: File[]) => void;
+}
+
+// Comprobantes de la transacción (fotos de recibos y facturas en PDF)
+const AttachmentsField: React.FC<AttachmentsFieldProps> = ({ transactionId, pending, onPendingChange }) => {
+  const { data: attachments = [] } = useAttachments(transactionId);
+  const upload = useUploadAttachments();
+  const remove = useDeleteAttachment();
+  const [preparing, setPreparing] = useState(false);
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (selected.length === 0) return;
+
+    setPreparing(true);
+    try {
+      const files = await Promise.all(selected.map(prepareAttachment));
+      if (transactionId) await upload.mutateAsync({ transactionId, files });
+      else onPendingChange([...pending, ...files]);
+    } catch (error: any) {
+      alert(t('common.error', { message: error.message }));
+    } finally {
+      setPreparing(false);
+    }
+  };
+
+  const deleteAttachment = (attachment: Attachment) => {
+    if (!transactionId || !window.confirm(t('attachments.confirmDelete', { name: attachment.file_name }))) return;
+    remove.mutate({ transactionId, attachment }, {
+      onError: (error) => alert(t('common.deleteError', { message: error.message })),
+    });
+  };
+
+  return (
+    <div>
+      <label className="text-sm font-medium">{t('attachments.label')}</label>
+
+      {(attachments.length > 0 || pending.length > 0) && (
+        <div className="mt-2 flex flex-wrap gap-2">
+          {attachments.map((attachment) => (
+            <div key={attachment.id} className="relative">
+              <a href={attachment.url ?? undefined} target="_blank" rel="noreferrer" title={attachment.file_name}>
+                {isImage(attachment.mime_type) && attachment.url ? (
+                  <img src={attachment.url} alt={attachment.file_name} className="w-16 h-16 object-cover rounded-lg" />
+                ) : (
+                  <span className="w-16 h-16 bg-gray-700 rounded-lg flex items-center justify-center text-gray-300">
+                    <FiFileText size={24} />
+                  </span>
+                )}
+              </a>
+              <button
+                type="button"
+                onClick={() => deleteAttachment(attachment)}
+                className="absolute -top-2 -right-2 bg-gray-900 rounded-full p-1 text-gray-400 hover:text-red-500"
+              >
+                <FiX size={12} />
+              </button>
+            </div>
+          ))}
+          {pending.map((file, index) => (
+            <span key={`${file.name}-${index}`} className="flex items-center gap-1 bg-gray-700 rounded-lg px-3 py-2 text-sm">
+              {file.name}
+              <button
+                type="button"
+                onClick={() => onPendingChange(pending.filter((_, i) => i !== index))}
+                className="text-gray-400 hover:text-red-500"
+              >
+                <FiX size={12} />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      <label className="mt-2 flex items-center gap-2 text-sm text-indigo-400 hover:text-indigo-300 cursor-pointer">
+        <FiPaperclip />
+        {preparing ? t('attachments.processing') : t('attachments.attach')}
+        <input
+          type="file"
+          multiple
+          accept={ACCEPTED_ATTACHMENT_TYPES.join(',')}
+          onChange={handleFiles}
+          disabled={preparing}
+          className="hidden"
+        />
+      </label>
+      <p className="text-xs text-gray-500 mt-1">
+        {t('attachments.hint', { size: MAX_ATTACHMENT_SIZE / 1024 / 1024 })}
+      </p>
+    </div>
+  );
+};
+
+export default AttachmentsField;
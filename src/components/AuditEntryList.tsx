@@ -0,0 +1,162 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { FiClock, FiRotateCcw } from 'react-icons/fi';
+import { formatDate, formatDateTime, formatMoney } from '../libs/format';
+import { t } from '../libs/i18n';
+import { getChanges, getVersion, type AuditField } from '../libs/audit';
+import { useAccounts } from '../hooks/useAccounts';
+import { useCategories } from '../hooks/useCategories';
+import { useGoals } from '../hooks/useGoals';
+import { useCurrentWallet } from '../hooks/useCurrentWallet';
+import { useWalletMembers } from '../hooks/useWalletMembers';
+import { useRestoreTransactionVersion } from '../hooks/useRestoreTransactionVersion';
+import type { AccountType } from '../types/account';
+import type { AuditEntry } from '../types/audit';
+
+const ACTION_COLORS: Record<AuditEntry['action'], string> = {
+  insert: 'text-green-400',
+  update: 'text-yellow-400',
+  delete: 'text-red-400',
+};
+
+const MONEY_FIELDS: AuditField[] = ['amount', 'to_amount', 'opening_balance', 'credit_limit'];
+
+interface AuditEntryListProps {
+  entries: AuditEntry[];
+  // En el historial global cada entrada enlaza al historial de su registro
+  showRecordLink?: boolean;
+}
+
+// Entradas del historial: quién cambió qué y cuándo, con los valores antes y después.
+// Las versiones de una transacción se pueden restaurar.
+const AuditEntryList: React.FC<AuditEntryListProps> = ({ entries, showRecordLink = false }) => {
+  const { data: accounts = [] } = useAccounts();
+  const { data: categories = [] } = useCategories();
+  const { data: goals = [] } = useGoals();
+  const { wallet, canEdit } = useCurrentWallet();
+  const { data: members = [] } = useWalletMembers(wallet?.id ?? null);
+  const restore = useRestoreTransactionVersion();
+
+  const accountName = (id: unknown) => accounts.find((a) => a.id === id)?.name ?? t('audit.deletedRecord');
+  const categoryName = (id: unknown) => categories.find((c) => c.id === id)?.name ?? t('audit.deletedRecord');
+  const actorEmail = (userId: string | null) =>
+    userId ? members.find((m) => m.user_id === userId)?.email ?? t('audit.formerMember') : t('audit.system');
+
+  // Moneda del monto: la de la cuenta, o la de la cuenta destino para lo recibido en una transferencia
+  const currencyOf = (entry: AuditEntry, field: AuditField) => {
+    const version = getVersion(entry);
+    if (entry.table_name === 'accounts') return String(version.currency);
+    const accountId = field === 'to_amount' ? version.to_account_id : version.account_id ?? version.from_account_id;
+    return accounts.find((a) => a.id === accountId)?.currency;
+  };
+
+  const formatValue = (entry: AuditEntry, field: AuditField, value: unknown) => {
+    if (value === null || value === undefined || value === '') return t('common.none');
+    if (MONEY_FIELDS.includes(field)) return formatMoney(Number(value), currencyOf(entry, field));
+
+    switch (field) {
+      case 'account_id':
+      case 'from_account_id':
+      case 'to_account_id':
+        return accountName(value);
+      case 'category_id':
+      case 'parent_id':
+        return categoryName(value);
+      case 'goal_id':
+        return goals.find((g) => g.id === value)?.name ?? t('audit.deletedRecord');
+      case 'reconciliation_id':
+      case 'from_reconciliation_id':
+      case 'to_reconciliation_id':
+        return t('audit.reconciled');
+      case 'date':
+      case 'archived_at':
+        return formatDate(String(value));
+      case 'cleared':
+        return value ? t('audit.yes') : t('audit.no');
+      case 'kind':
+        return value === 'in' ? t('common.income') : t('common.expense');
+      case 'type':
+        if (entry.table_name === 'categories') return value === 'income' ? t('common.income') : t('common.expense');
+        return t(`accountTypes.${value as AccountType}`);
+      default:
+        return String(value);
+    }
+  };
+
+  // Nombre del registro tal como quedó en la entrada
+  const describe = (entry: AuditEntry) => {
+    const version = getVersion(entry);
+    if (entry.table_name === 'accounts' || entry.table_name === 'categories') return String(version.name ?? '');
+    if (entry.table_name === 'transfers') {
+      return `${accountName(version.from_account_id)} → ${accountName(version.to_account_id)}`;
+    }
+    return String(version.note || formatValue(entry, 'kind', version.kind));
+  };
+
+  const restoreVersion = (entry: AuditEntry) => {
+    if (!window.confirm(t('audit.confirmRestore'))) return;
+    restore.mutate(entry.id, {
+      onError: (error) => alert(t('common.error', { message: error.message })),
+    });
+  };
+
+  if (entries.length === 0) {
+    return <p className="text-gray-400">{t('audit.empty')}</p>;
+  }
+
+  return (
+    <ul className="divide-y divide-gray-700">
+      {entries.map((entry) => (
+        <li key={entry.id} className="py-4 space-y-2">
+          <div className="flex flex-wrap justify-between items-start gap-2">
+            <div>
+              <p>
+                <span className={`font-semibold ${ACTION_COLORS[entry.action]}`}>{t(`audit.actions.${entry.action}`)}</span>
+                <span className="text-gray-400"> · {t(`audit.tables.${entry.table_name}`)} · </span>
+                <span className="font-semibold">{describe(entry)}</span>
+              </p>
+              <p className="text-sm text-gray-400">{formatDateTime(entry.created_at)} · {actorEmail(entry.user_id)}</p>
+            </div>
+            <div className="flex items-center gap-4 text-sm">
+              {showRecordLink && (
+                <Link
+                  to={`/activity?table=${entry.table_name}&record=${entry.record_id}`}
+                  className="flex items-center text-gray-400 hover:text-white"
+                >
+                  <FiClock className="mr-1" /> {t('audit.recordHistory')}
+                </Link>
+              )}
+              {entry.table_name === 'transactions' && canEdit && (
+                <button
+                  onClick={() => restoreVersion(entry)}
+                  disabled={restore.isPending}
+                  className="flex items-center text-indigo-400 hover:text-indigo-300 disabled:opacity-50"
+                >
+                  <FiRotateCcw className="mr-1" /> {t('audit.restore')}
+                </button>
+              )}
+            </div>
+          </div>
+          <ul className="text-sm space-y-1">
+            {getChanges(entry).map(({ field, before, after }) => (
+              <li key={field} className="grid grid-cols-3 gap-2">
+                <span className="text-gray-400">{t(`audit.fields.${field}`)}</span>
+                {entry.action === 'update' ? (
+                  <span className="col-span-2">
+                    <span className="text-gray-500 line-through">{formatValue(entry, field, before)}</span>
+                    {' → '}
+                    <span>{formatValue(entry, field, after)}</span>
+                  </span>
+                ) : (
+                  <span className="col-span-2">{formatValue(entry, field, before ?? after)}</span>
+                )}
+              </li>
+            ))}
+          </ul>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default AuditEntryList;
@@ -0,0 +1,47 @@
+import React from 'react';
+import type { BudgetProgress } from '../libs/budgets';
+import { formatMoney } from '../libs/format';
+import { t } from '../libs/i18n';
+
+interface BudgetProgressListProps {
+  items: BudgetProgress[];
+  actions?: (item: BudgetProgress) => React.ReactNode;
+}
+
+const BudgetProgressList: React.FC<BudgetProgressListProps> = ({ items, actions }) => {
+  if (items.length === 0) {
+    return <p className="text-gray-500">{t('budgetProgress.empty')}</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {items.map((item) => (
+        <div key={item.budgetId}>
+          <div className="flex justify-between text-sm mb-1">
+            <span className={`font-medium ${item.overBudget ? 'text-red-400' : ''}`}>{item.categoryName}</span>
+            <div className="flex items-center gap-4">
+              <span className={item.overBudget ? 'text-red-400 font-semibold' : 'text-gray-400'}>
+                {formatMoney(item.spent, item.currency)} / {formatMoney(item.limit, item.currency)}
+              </span>
+              {actions?.(item)}
+            </div>
+          </div>
+          <div className="w-full h-2 bg-gray-700 rounded-full overflow-hidden">
+            <div
+              className={`h-full rounded-full ${item.overBudget ? 'bg-red-500' : item.ratio >= 0.8 ? 'bg-yellow-400' : ''}`}
+              style={{
+                width: `${Math.min(item.ratio, 1) * 100}%`,
+                backgroundColor: item.overBudget || item.ratio >= 0.8 ? undefined : item.color || '#6366F1',
+              }}
+            />
+          </div>
+          {item.overBudget && (
+            <p className="text-xs text-red-400 mt-1">{t('budgetProgress.exceededBy', { amount: formatMoney(item.spent - item.limit, item.currency) })}</p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default BudgetProgressList;
@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { FiX } from 'react-icons/fi';
+import { t } from '../libs/i18n';
+import { useRecordCount } from '../hooks/useRecordCount';
+
+interface DeleteDialogProps {
+  owner: 'account' | 'category';
+  item: { id: string; name: string; archived_at: string | null };
+  // Cuentas o categorías compatibles que pueden recibir los movimientos
+  targets: { id: string; name: string }[];
+  // Aviso adicional (p. ej. las subcategorías que pasan a ser principales)
+  note?: string;
+  onArchive: () => void;
+  onDelete: (targetId: string | null) => void;
+  onClose: () => void;
+}
+
+// Confirmación para eliminar una cuenta o categoría. Si tiene movimientos se ofrece
+// archivarla (se conserva el historial) o moverlos a otra antes de eliminarla.
+const DeleteDialog: React.FC<DeleteDialogProps> = ({ owner, item, targets, note, onArchive, onDelete, onClose }) => {
+  const { data: count, isLoading } = useRecordCount(owner, item.id);
+  const canArchive = !item.archived_at;
+  const [action, setAction] = useState<'archive' | 'move'>(canArchive ? 'archive' : 'move');
+  const [targetId, setTargetId] = useState('');
+
+  const hasRecords = !!count && count > 0;
+  const confirmDisabled = isLoading || (hasRecords && action === 'move' && !targetId);
+
+  const confirm = () => {
+    if (hasRecords && action === 'archive') onArchive();
+    else onDelete(hasRecords ? targetId : null);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex justify-center items-center z-50 p-4">
+      <div className="bg-gray-800 rounded-2xl p-8 w-full max-w-md relative text-white">
+        <button onClick={onClose} className="absolute top-4 right-4 text-gray-400 hover:text-white">
+          <FiX size={24} />
+        </button>
+        <h2 className="text-2xl font-bold mb-4">{t('deleteDialog.title', { name: item.name })}</h2>
+
+        {isLoading ? (
+          <p className="text-gray-400">{t('common.loading')}</p>
+        ) : !hasRecords ? (
+          <p className="text-gray-300">{t('deleteDialog.noRecords')}</p>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-gray-300">{t(`deleteDialog.hasRecords.${owner}`, { count: count ?? 0 })}</p>
+            {canArchive && (
+              <label className="flex items-start gap-3">
+                <input type="radio" checked={action === 'archive'} onChange={() => setAction('archive')} className="mt-1" />
+                <span>
+                  {t('deleteDialog.archive')}
+                  <span className="block text-sm text-gray-400">{t(`deleteDialog.archiveHelp.${owner}`)}</span>
+                </span>
+              </label>
+            )}
+            <label className="flex items-start gap-3">
+              <input type="radio" checked={action === 'move'} onChange={() => setAction('move')} disabled={targets.length === 0} className="mt-1" />
+              <span className="flex-1">
+                {t(`deleteDialog.move.${owner}`, { count: count ?? 0 })}
+                {targets.length === 0 ? (
+                  <span className="block text-sm text-gray-400">{t(`deleteDialog.noTargets.${owner}`)}</span>
+                ) : (
+                  <select
+                    value={targetId}
+                    onChange={(e) => { setTargetId(e.target.value); setAction('move'); }}
+                    className="mt-2 w-full bg-gray-700 border-gray-600 rounded-lg p-3"
+                  >
+                    <option value="">{t('deleteDialog.selectTarget')}</option>
+                    {targets.map((target) => (<option key={target.id} value={target.id}>{target.name}</option>))}
+                  </select>
+                )}
+              </span>
+            </label>
+          </div>
+        )}
+
+        {note && <p className="text-sm text-yellow-400 mt-4">{note}</p>}
+
+        <div className="flex gap-4 pt-6">
+          <button onClick={onClose} className="flex-1 bg-gray-700 hover:bg-gray-600 font-bold py-3 rounded-lg transition">
+            {t('common.cancel')}
+          </button>
+          <button
+            onClick={confirm}
+            disabled={confirmDisabled}
+            className={`flex-1 font-bold py-3 rounded-lg transition disabled:opacity-50 ${
+              hasRecords && action === 'archive' ? 'bg-indigo-600 hover:bg-indigo-500' : 'bg-red-600 hover:bg-red-500'
+            }`}
+          >
+            {hasRecords && action === 'archive' ? t('deleteDialog.archive') : t('deleteDialog.delete')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DeleteDialog;
@@ -0,0 +1,91 @@
+import React from 'react';
+import { useForm, type SubmitHandler } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { FiPlus, FiTrash2 } from 'react-icons/fi';
+import { CURRENCIES } from '../libs/currency';
+import { t, translateMessage } from '../libs/i18n';
+import { useExchangeRates } from '../hooks/useExchangeRates';
+import { useSaveExchangeRate } from '../hooks/useSaveExchangeRate';
+import { useDeleteExchangeRate } from '../hooks/useDeleteExchangeRate';
+
+const rateSchema = z.object({
+  from_currency: z.enum(CURRENCIES),
+  to_currency: z.enum(CURRENCIES),
+  rate: z.coerce.number().positive({ message: 'validation.ratePositive' }),
+}).refine(data => data.from_currency !== data.to_currency, {
+  message: 'validation.sameCurrencies',
+  path: ['to_currency'],
+});
+
+type RateFormValues = z.input<typeof rateSchema>;
+type RateFormInputs = z.infer<typeof rateSchema>;
+
+// Tipos de cambio que el usuario mantiene a mano (no se consultan en línea)
+const ExchangeRatesPanel: React.FC = () => {
+  const { data: rates = [] } = useExchangeRates();
+  const saveRate = useSaveExchangeRate();
+  const removeRate = useDeleteExchangeRate();
+
+  const { register, handleSubmit, reset, formState: { errors } } = useForm<RateFormValues, any, RateFormInputs>({
+    resolver: zodResolver(rateSchema),
+    defaultValues: { from_currency: 'USD', to_currency: 'GTQ', rate: '' },
+  });
+
+  const onSubmit: SubmitHandler<RateFormInputs> = (formData) => {
+    saveRate.mutate(formData, {
+      onSuccess: () => reset({ ...formData, rate: '' }),
+      onError: (error) => alert(error.message),
+    });
+  };
+
+  const deleteRate = (rateId: string) => {
+    removeRate.mutate(rateId, {
+      onError: () => alert(t('exchangeRates.deleteError')),
+    });
+  };
+
+  return (
+    <div className="bg-gray-800 p-6 rounded-2xl shadow-lg mt-8">
+      <h2 className="text-xl font-semibold mb-1">{t('exchangeRates.title')}</h2>
+      <p className="text-sm text-gray-400 mb-4">{t('exchangeRates.subtitle')}</p>
+
+      {rates.length > 0 && (
+        <ul className="divide-y divide-gray-700 mb-6">
+          {rates.map((rate) => (
+            <li key={rate.id} className="py-3 flex justify-between items-center">
+              <p className="font-mono">1 {rate.from_currency} = {rate.rate} {rate.to_currency}</p>
+              <button onClick={() => deleteRate(rate.id)} className="text-gray-400 hover:text-red-500"><FiTrash2 size={18} /></button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={handleSubmit(onSubmit)} className="flex flex-wrap items-start gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-300">{t('exchangeRates.from')}</label>
+          <select {...register('from_currency')} className="mt-1 bg-gray-700 border-gray-600 rounded-lg p-3">
+            {CURRENCIES.map((c) => (<option key={c} value={c}>{c}</option>))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-300">{t('exchangeRates.to')}</label>
+          <select {...register('to_currency')} className="mt-1 bg-gray-700 border-gray-600 rounded-lg p-3">
+            {CURRENCIES.map((c) => (<option key={c} value={c}>{c}</option>))}
+          </select>
+          {errors.to_currency && <p className="text-red-500 text-sm mt-1">{translateMessage(errors.to_currency.message)}</p>}
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-300">{t('exchangeRates.rate')}</label>
+          <input type="number" step="0.0001" {...register('rate')} className="mt-1 w-32 bg-gray-700 border-gray-600 rounded-lg p-3" />
+          {errors.rate && <p className="text-red-500 text-sm mt-1">{translateMessage(errors.rate.message)}</p>}
+        </div>
+        <button type="submit" className="mt-6 bg-indigo-600 hover:bg-indigo-500 text-white font-bold py-3 px-4 rounded-lg flex items-center transition">
+          <FiPlus className="mr-2" /> {t('common.save')}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default ExchangeRatesPanel;
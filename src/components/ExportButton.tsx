@@ -0,0 +1,50 @@
+import React, { useState } from 'react';
+import { FiDownload } from 'react-icons/fi';
+import { exportRecords, type ExportFilters, type ExportFormat } from '../libs/export';
+import { t } from '../libs/i18n';
+
+const FORMATS: ExportFormat[] = ['csv', 'json', 'ofx'];
+
+const ExportButton: React.FC<{ filters: ExportFilters }> = ({ filters }) => {
+  const [open, setOpen] = useState(false);
+  const [exporting, setExporting] = useState(false);
+
+  const handleExport = async (format: ExportFormat) => {
+    setOpen(false);
+    setExporting(true);
+    try {
+      await exportRecords(format, filters);
+    } catch (err: any) {
+      alert(t('export.error', { message: err.message }));
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        disabled={exporting}
+        className="bg-gray-800 p-2 px-4 rounded-lg border border-gray-700 flex items-center hover:bg-gray-700 transition disabled:opacity-50"
+      >
+        <FiDownload className="mr-2" /> {exporting ? t('export.exporting') : t('export.export')}
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-2 w-56 bg-gray-800 border border-gray-700 rounded-lg shadow-lg z-10">
+          {FORMATS.map((format) => (
+            <button
+              key={format}
+              onClick={() => handleExport(format)}
+              className="block w-full text-left px-4 py-2 hover:bg-gray-700 first:rounded-t-lg last:rounded-b-lg"
+            >
+              {t(`export.${format}`)}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportButton;
@@ -0,0 +1,50 @@
+import React from 'react';
+import type { GoalProgress } from '../libs/goals';
+import { formatDate, formatMoney } from '../libs/format';
+import { t } from '../libs/i18n';
+
+interface GoalProgressListProps {
+  items: GoalProgress[];
+  actions?: (item: GoalProgress) => React.ReactNode;
+}
+
+const GoalProgressList: React.FC<GoalProgressListProps> = ({ items, actions }) => {
+  if (items.length === 0) {
+    return <p className="text-gray-500">{t('goalProgress.empty')}</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {items.map((item) => (
+        <div key={item.id}>
+          <div className="flex justify-between text-sm mb-1">
+            <span className="font-medium">{item.name}</span>
+            <div className="flex items-center gap-4">
+              <span className={item.completed ? 'text-green-400 font-semibold' : 'text-gray-400'}>
+                {formatMoney(item.saved, item.currency)} / {formatMoney(item.target_amount, item.currency)}
+              </span>
+              {actions?.(item)}
+            </div>
+          </div>
+          <div className="w-full h-2 bg-gray-700 rounded-full overflow-hidden">
+            <div
+              className={`h-full rounded-full ${item.completed ? 'bg-green-500' : item.overdue ? 'bg-red-500' : 'bg-indigo-500'}`}
+              style={{ width: `${Math.min(Math.max(item.ratio, 0), 1) * 100}%` }}
+            />
+          </div>
+          <p className={`text-xs mt-1 ${item.overdue ? 'text-red-400' : 'text-gray-400'}`}>
+            {item.completed ? t('goalProgress.reached')
+              : item.overdue ? t('goalProgress.overdue', { date: formatDate(item.deadline), amount: formatMoney(item.remaining, item.currency) })
+              : t(item.monthsLeft === 1 ? 'goalProgress.planOne' : 'goalProgress.planMany', {
+                amount: formatMoney(item.monthlyRequired, item.currency),
+                months: item.monthsLeft,
+                date: formatDate(item.deadline),
+              })}
+          </p>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default GoalProgressList;
@@ -0,0 +1,49 @@
+import React from 'react';
+import { formatMoney, formatPercent } from '../libs/format';
+import { t } from '../libs/i18n';
+import type { PeriodComparison } from '../libs/periods';
+
+interface KpiCardProps {
+    title: string;
+    amount: number;
+    icon: React.ReactNode;
+    currency?: string;
+    format?: (amount: number) => string;
+    // Monto del periodo anterior equivalente y contra qué periodo se compara
+    previousAmount?: number;
+    comparison?: PeriodComparison;
+    // En gastos, subir es malo: el cambio se pinta al revés
+    lowerIsBetter?: boolean;
+}
+
+const Change: React.FC<{ amount: number; previousAmount: number; comparison: PeriodComparison; lowerIsBetter: boolean }> = ({ amount, previousAmount, comparison, lowerIsBetter }) => {
+    if (previousAmount === 0) {
+        return <p className="text-xs text-gray-500 mt-1">{t(`kpi.noData.${comparison}`)}</p>;
+    }
+
+    const change = (amount - previousAmount) / Math.abs(previousAmount);
+    const good = lowerIsBetter ? change <= 0 : change >= 0;
+    const percent = Math.round(change * 100);
+    return (
+        <p className={`text-xs mt-1 ${percent === 0 ? 'text-gray-400' : good ? 'text-green-400' : 'text-red-400'}`}>
+            {percent > 0 ? '+' : ''}{formatPercent(percent / 100)} {t(`kpi.vs.${comparison}`)}
+        </p>
+    );
+};
+
+const KpiCard: React.FC<KpiCardProps> = ({ title, amount, icon, currency, format, previousAmount, comparison, lowerIsBetter = false }) => (
+    <div className="bg-gray-800 p-6 rounded-2xl flex items-center justify-between shadow">
+        <div>
+            <p className="text-gray-400">{title}</p>
+            <h2 className={`text-2xl font-bold ${amount >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                {format ? format(amount) : formatMoney(amount, currency)}
+            </h2>
+            {previousAmount !== undefined && comparison && (
+                <Change amount={amount} previousAmount={previousAmount} comparison={comparison} lowerIsBetter={lowerIsBetter} />
+            )}
+        </div>
+        {icon}
+    </div>
+);
+
+export default KpiCard;
@@ -1,50 +1,78 @@
 import React, { useState, useEffect } from 'react';
-import { useForm, type SubmitHandler, type FieldErrors} from 'react-hook-form';
+import { Link } from 'react-router-dom';
+import { useForm, useFieldArray, type SubmitHandler, type UseFormReturn } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { z } from 'zod';
-import { supabase } from '../supabaseClient';
-import { FiX } from 'react-icons/fi';
+import { transactionSchema, transferSchema, type TransactionFormInputs, type TransferFormInputs } from '../libs/schemas';
+import { FREQUENCIES, type Frequency, type RecurrenceOptions } from '../libs/recurring';
+import { formatMoney } from '../libs/format';
+import { t, translateMessage } from '../libs/i18n';
+import { selectableCategories, toCategoryOptions } from '../libs/categories';
+import { selectableAccounts } from '../libs/accounts';
+import { findMatchingRule } from '../libs/categoryRules';
+import { useAccounts } from '../hooks/useAccounts';
+import { useCategories } from '../hooks/useCategories';
+import { useGoals } from '../hooks/useGoals';
+import { useCategoryRules } from '../hooks/useCategoryRules';
+import { useCategorySuggestion } from '../hooks/useCategorySuggestion';
+import { useCreateTransaction } from '../hooks/useCreateTransaction';
+import { useCreateTransfer } from '../hooks/useCreateTransfer';
+import { useTransaction } from '../hooks/useTransaction';
+import { useTransfer } from '../hooks/useTransfer';
+import { useUpdateTransaction } from '../hooks/useUpdateTransaction';
+import { useUpdateTransfer } from '../hooks/useUpdateTransfer';
+import { useDeleteTransaction } from '../hooks/useDeleteTransaction';
+import { useDeleteTransfer } from '../hooks/useDeleteTransfer';
+import { useUploadAttachments } from '../hooks/useUploadAttachments';
+import { useCurrentWallet } from '../hooks/useCurrentWallet';
+import { useWalletMembers } from '../hooks/useWalletMembers';
+import { useDiscardQueuedRecord } from '../hooks/useDiscardQueuedRecord';
+import AttachmentsField from './AttachmentsField';
+import type { RecordRef } from '../types/transaction';
+import type { QueuedRecord } from '../libs/offlineQueue';
+import { FiX, FiTrash2, FiPlus, FiClock } from 'react-icons/fi';
 import type { Resolver } from 'react-hook-form';
 import type { Path, UseFormRegister } from "react-hook-form";
 
 type Tab = 'income' | 'expense' | 'transfer';
 
-interface Account { id: string; name: string; }
-interface Category { id: string; name: string; type: 'income' | 'expense' }
-
-// --- Esquemas Zod ---
-const transactionSchema = z.object({
-  amount: z.coerce.number().positive({ message: 'El monto debe ser mayor a cero' }),
-  account_id: z.string().uuid({ message: 'Debe seleccionar una cuenta' }),
-  category_id: z.string().uuid({ message: 'Debe seleccionar una categoría' }),
-  date: z.string().nonempty({ message: 'La fecha es requerida' }),
-  note: z.string().optional(),
-});
-
-const transferSchema = z.object({
-  amount: z.coerce.number().positive({ message: 'El monto debe ser mayor a cero' }),
-  from_account_id: z.string().uuid({ message: 'Debe seleccionar una cuenta de origen' }),
-  to_account_id: z.string().uuid({ message: 'Debe seleccionar una cuenta de destino' }),
-  date: z.string().nonempty({ message: 'La fecha es requerida' }),
-  note: z.string().optional(),
-}).refine(data => data.from_account_id !== data.to_account_id, {
-  message: "Las cuentas no pueden ser las mismas",
-  path: ["to_account_id"],
-});
-
-type TransactionFormInputs = z.infer<typeof transactionSchema>;
-type TransferFormInputs = z.infer<typeof transferSchema>;
-
 interface TransactionModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onSuccess: () => void;
+  // Registro existente a editar; sin él, el modal crea uno nuevo
+  record?: RecordRef | null;
+  // Registro de la cola local que el servidor rechazó: se corrige y se vuelve a enviar
+  queued?: QueuedRecord | null;
 }
 
-const TransactionModal: React.FC<TransactionModalProps> = ({ isOpen, onClose, onSuccess }) => {
+// Al guardar, las mutaciones invalidan la caché: dashboard y cuentas se refrescan solos
+const TransactionModal: React.FC<TransactionModalProps> = ({ isOpen, onClose, record = null, queued = null }) => {
   const [activeTab, setActiveTab] = useState<Tab>('expense');
-  const [accounts, setAccounts] = useState<Account[]>([]);
-  const [categories, setCategories] = useState<Category[]>([]);
+  const { data: accounts = [] } = useAccounts();
+  const { data: categories = [] } = useCategories();
+  const { data: goals = [] } = useGoals();
+  const { data: rules = [] } = useCategoryRules();
+  const { data: transaction } = useTransaction(record?.type === 'transaction' ? record.id : null);
+  const { data: transfer } = useTransfer(record?.type === 'transfer' ? record.id : null);
+  const createTransaction = useCreateTransaction();
+  const createTransfer = useCreateTransfer();
+  const updateTransaction = useUpdateTransaction();
+  const updateTransfer = useUpdateTransfer();
+  const deleteTransaction = useDeleteTransaction();
+  const deleteTransfer = useDeleteTransfer();
+  const uploadAttachments = useUploadAttachments();
+  const discardQueued = useDiscardQueuedRecord();
+  const { wallet, canEdit } = useCurrentWallet();
+  const { data: members = [] } = useWalletMembers(wallet?.id ?? null);
+  const [repeat, setRepeat] = useState(false);
+  const [recurrence, setRecurrence] = useState<RecurrenceOptions>({ frequency: 'monthly', endDate: '', autoConfirm: true });
+  // Comprobantes elegidos para un registro nuevo; se suben después de crearlo
+  const [pendingFiles, setPendingFiles] = useState<File[]>([]);
+  // Nota con la que se pide la sugerencia de categoría; se fija al salir del campo
+  const [suggestionNote, setSuggestionNote] = useState('');
+  const { data: suggestedCategoryId } = useCategorySuggestion(
+    record || activeTab === 'transfer' ? '' : suggestionNote,
+    activeTab === 'income' ? 'in' : 'out'
+  );
 
   // Formularios separados con sus resolvers
   const transactionForm = useForm<TransactionFormInputs>({
@@ -57,63 +85,171 @@ const transferForm = useForm<TransferFormInputs>({
   defaultValues: { date: new Date().toISOString().substring(0, 10), note: '' }
 });
 
-  // Cambiar entre formularios limpiamente
-  const currentForm = activeTab === 'transfer' ? transferForm : transactionForm;
-  const { register, handleSubmit, reset, formState: { errors } } = currentForm;
+  // En modo edición la pestaña la decide el registro
+  useEffect(() => {
+    if (transfer) setActiveTab('transfer');
+    else if (transaction) setActiveTab(transaction.kind === 'in' ? 'income' : 'expense');
+  }, [transaction, transfer]);
 
+  // Un registro de la cola se corrige con su pestaña y su repetición originales
   useEffect(() => {
-    transactionForm.reset();
-    transferForm.reset();
-  }, [activeTab]);
+    if (!queued) return;
+    setActiveTab(queued.type === 'transfer' ? 'transfer' : queued.kind === 'in' ? 'income' : 'expense');
+    setRepeat(!!queued.recurrence);
+    if (queued.recurrence) setRecurrence(queued.recurrence);
+  }, [queued]);
+
+  // Cambiar entre formularios limpiamente; al editar se precargan los valores guardados
+  const { reset: resetTransaction } = transactionForm;
+  const { reset: resetTransfer } = transferForm;
 
   useEffect(() => {
-    const fetchData = async () => {
-      if (!isOpen) return;
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) return;
-
-      const { data: accountsData } = await supabase
-        .from('accounts')
-        .select('id, name')
-        .eq('user_id', user.id);
-
-      const { data: categoriesData } = await supabase
-        .from('categories')
-        .select('id, name, type')
-        .eq('user_id', user.id);
-
-      setAccounts(accountsData || []);
-      setCategories(categoriesData || []);
-    };
-    fetchData();
-  }, [isOpen]);
+    // Si se cambia de gasto a ingreso (o al revés) las categorías anteriores ya no aplican
+    const sameKind = !!transaction && (transaction.kind === 'in') === (activeTab === 'income');
+    const queuedTransaction = queued?.type === 'transaction' && (queued.kind === 'in') === (activeTab === 'income') ? queued : null;
+    resetTransaction(queuedTransaction ? queuedTransaction.values : transaction ? {
+      amount: transaction.amount,
+      account_id: transaction.account_id,
+      category_id: sameKind ? transaction.category_id ?? '' : '',
+      splits: sameKind ? transaction.splits : [],
+      date: transaction.date,
+      note: transaction.note ?? '',
+      cleared: transaction.cleared,
+    } : undefined);
+    resetTransfer(queued?.type === 'transfer' ? queued.values : transfer ? {
+      amount: transfer.amount,
+      from_account_id: transfer.from_account_id,
+      to_account_id: transfer.to_account_id,
+      to_amount: transfer.to_amount ?? undefined,
+      goal_id: transfer.goal_id ?? '',
+      date: transfer.date,
+      note: transfer.note ?? '',
+    } : undefined);
+  }, [activeTab, transaction, transfer, queued, resetTransaction, resetTransfer]);
+
+  // Al escribir la nota de un registro nuevo, la regla que coincida elige la
+  // categoría y la cuenta, salvo que el usuario ya las haya elegido a mano
+  const applyRules = (note: string) => {
+    if (record || activeTab === 'transfer') return;
+    const rule = findMatchingRule(rules, note, activeTab, categories);
+    if (!rule) return;
+
+    const { getFieldState, getValues, setValue } = transactionForm;
+    if (rule.category_id && !getFieldState('category_id').isDirty && !getValues('splits')?.length) {
+      setValue('category_id', rule.category_id, { shouldValidate: true });
+    }
+    if (rule.account_id && !getFieldState('account_id').isDirty) {
+      setValue('account_id', rule.account_id, { shouldValidate: true });
+    }
+  };
+
+  // Una transferencia entre monedas distintas registra ambos montos
+  const currencyOf = (accountId?: string) => accounts.find((a) => a.id === accountId)?.currency;
+  const fromCurrency = currencyOf(transferForm.watch('from_account_id'));
+  const toCurrency = currencyOf(transferForm.watch('to_account_id'));
+  const crossCurrency = !!fromCurrency && !!toCurrency && fromCurrency !== toCurrency;
 
   const onSubmit: SubmitHandler<TransactionFormInputs | TransferFormInputs> = async (formData) => {
-    const { data: { user } } = await supabase.auth.getUser();
-    if (!user) return;
-
-    let error;
-    if (activeTab === 'transfer') {
-      ({ error } = await supabase.from('transfers').insert({ ...formData, user_id: user.id }));
-    } else {
-      const kind = activeTab === 'income' ? 'in' : 'out';
-      ({ error } = await supabase.from('transactions').insert({ ...formData, user_id: user.id, kind }));
+    if ('from_account_id' in formData) {
+      if (crossCurrency && !formData.to_amount) {
+        transferForm.setError('to_amount', { message: t('transactionModal.receivedAmountRequired', { currency: toCurrency ?? '' }) });
+        return;
+      }
+      if (!crossCurrency) delete formData.to_amount;
     }
 
-    if (error) {
-      alert(`Error: ${error.message}`);
-    } else {
-      onSuccess();
+    const kind = activeTab === 'income' ? 'in' : 'out';
+    if (record) {
+      try {
+        if ('from_account_id' in formData) await updateTransfer.mutateAsync({ id: record.id, values: formData });
+        else await updateTransaction.mutateAsync({ id: record.id, values: formData, kind });
+      } catch (error: any) {
+        alert(t('common.error', { message: error.message }));
+        return;
+      }
       onClose();
+      return;
+    }
+
+    const options = repeat ? recurrence : undefined;
+    // El id se genera aquí para que reintentar desde la cola no duplique el registro.
+    // Uno de la cola conserva el suyo: si vuelve a faltar la red, reemplaza al anterior.
+    const id = queued?.id ?? crypto.randomUUID();
+    try {
+      const { ruleError, queued: requeued } = 'from_account_id' in formData
+        ? await createTransfer.mutateAsync({ id, values: formData, recurrence: options })
+        : await createTransaction.mutateAsync({ id, values: formData, kind, recurrence: options });
+
+      if (ruleError) {
+        alert(t('transactionModal.ruleError', { message: ruleError.message }));
+      }
+      if (queued && !requeued) await discardQueued.mutateAsync(queued.id);
+
+      // Los archivos necesitan que la transacción ya exista en el servidor
+      if (!('from_account_id' in formData) && pendingFiles.length > 0) {
+        if (requeued) {
+          alert(t('transactionModal.queuedAttachments'));
+        } else {
+          await uploadAttachments.mutateAsync({ transactionId: id, files: pendingFiles }).catch((error) =>
+            alert(t('transactionModal.attachmentsError', { message: error.message }))
+          );
+        }
+      }
+    } catch (error: any) {
+      alert(t('common.error', { message: error.message }));
+      return;
     }
+
+    setRepeat(false);
+    setPendingFiles([]);
+    setSuggestionNote('');
+    onClose();
+  };
+
+  const handleDelete = () => {
+    if (!record || !window.confirm(t('transactionModal.confirmDelete'))) return;
+
+    const mutation = record.type === 'transfer' ? deleteTransfer : deleteTransaction;
+    mutation.mutate(record.id, {
+      onError: (error) => alert(t('common.deleteError', { message: error.message })),
+    });
+    onClose();
   };
 
   if (!isOpen) return null;
 
-  const filteredCategories = categories.filter(
-    c => c.type === (activeTab === 'income' ? 'income' : 'expense')
+  const loadingRecord = !!record && !transaction && !transfer;
+  // Un registro conciliado queda bloqueado hasta deshacer su conciliación; una
+  // transferencia, si está conciliada en cualquiera de sus cuentas
+  const locked = !!transaction?.reconciliation_id;
+  const transferLocked = !!transfer?.from_reconciliation_id || !!transfer?.to_reconciliation_id;
+  // En una billetera compartida se indica quién registró el movimiento
+  const creatorId = transaction?.user_id ?? transfer?.user_id;
+  const createdBy = members.length > 1 ? members.find((m) => m.user_id === creatorId)?.email : undefined;
+  const saving = createTransaction.isPending || createTransfer.isPending
+    || updateTransaction.isPending || updateTransfer.isPending || uploadAttachments.isPending;
+
+  const transferGoals = goals.filter((g) => g.source === 'transfers');
+
+  // Las cuentas y categorías archivadas no se ofrecen, salvo las que ya usa el registro que se edita
+  const accountOptions = selectableAccounts(accounts, transaction?.account_id, transfer?.from_account_id, transfer?.to_account_id);
+
+  // Subcategorías incluidas, cada una junto a su categoría principal
+  const filteredCategories = toCategoryOptions(
+    selectableCategories(categories, transaction?.category_id, ...(transaction?.splits.map((s) => s.category_id) ?? [])).filter(
+      c => c.type === (activeTab === 'income' ? 'income' : 'expense')
+    ),
+    categories
   );
 
+  // Sin regla que aplique, se ofrece la categoría de notas parecidas anteriores
+  const noteValue = transactionForm.watch('note') ?? '';
+  const ruleCategoryId = findMatchingRule(rules, noteValue, activeTab === 'income' ? 'income' : 'expense', categories)?.category_id;
+  const suggestion = !ruleCategoryId && !transactionForm.watch('splits')?.length
+    && suggestedCategoryId !== transactionForm.watch('category_id')
+    ? filteredCategories.find((c) => c.id === suggestedCategoryId)
+    : undefined;
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-75 flex justify-center items-center z-50 p-4">
       <div className="bg-gray-800 rounded-2xl p-8 w-full max-w-md relative text-white">
@@ -124,21 +260,46 @@ const transferForm = useForm<TransferFormInputs>({
           <FiX size={24} />
         </button>
 
-        {/* Tabs */}
+        {record && <h2 className="text-2xl font-bold mb-4">{canEdit ? t('transactionModal.editTitle') : t('transactionModal.viewTitle')}</h2>}
+        {queued && (
+          <>
+            <h2 className="text-2xl font-bold mb-4">{t('transactionModal.queuedTitle')}</h2>
+            {queued.lastError && (
+              <p className="text-sm text-red-400 -mt-2 mb-4">{t('transactionModal.queuedRejected', { message: queued.lastError })}</p>
+            )}
+          </>
+        )}
+        {createdBy && <p className="text-sm text-gray-400 -mt-2 mb-4">{t('transactionModal.createdBy', { email: createdBy })}</p>}
+        {record && (
+          <Link
+            to={`/activity?table=${record.type === 'transfer' ? 'transfers' : 'transactions'}&record=${record.id}`}
+            onClick={onClose}
+            className="inline-flex items-center text-sm text-gray-400 hover:text-white -mt-2 mb-4"
+          >
+            <FiClock className="mr-1" /> {t('transactionModal.history')}
+          </Link>
+        )}
+        {!canEdit && (
+          <p className="text-sm text-yellow-400 mb-4">{t('transactionModal.readOnly')}</p>
+        )}
+
+        {/* Tabs: al editar, una transacción solo puede cambiar entre gasto e ingreso */}
         <div className="flex border-b border-gray-700 mb-6">
-          <TabButton name="Gasto" tab="expense" activeTab={activeTab} setActiveTab={setActiveTab} />
-          <TabButton name="Ingreso" tab="income" activeTab={activeTab} setActiveTab={setActiveTab} />
-          <TabButton name="Transferencia" tab="transfer" activeTab={activeTab} setActiveTab={setActiveTab} />
+          <TabButton name={t('common.expense')} tab="expense" activeTab={activeTab} setActiveTab={setActiveTab} disabled={record?.type === 'transfer'} />
+          <TabButton name={t('common.income')} tab="income" activeTab={activeTab} setActiveTab={setActiveTab} disabled={record?.type === 'transfer'} />
+          <TabButton name={t('common.transfer')} tab="transfer" activeTab={activeTab} setActiveTab={setActiveTab} disabled={record?.type === 'transaction'} />
         </div>
 
         {/* Formulario dinámico */}
-{activeTab === 'transfer' ? (
+{loadingRecord ? (
+  <div className="text-gray-400">{t('common.loading')}</div>
+) : activeTab === 'transfer' ? (
   <form
     onSubmit={transferForm.handleSubmit(onSubmit as SubmitHandler<TransferFormInputs>)}
     className="space-y-4"
   >
     <div>
-      <label className="text-sm font-medium">Monto</label>
+      <label className="text-sm font-medium">{fromCurrency ? t('transactionModal.amountIn', { currency: fromCurrency }) : t('transactionModal.amount')}</label>
       <input
         type="number"
         step="0.01"
@@ -148,28 +309,57 @@ const transferForm = useForm<TransferFormInputs>({
       />
       {transferForm.formState.errors.amount && (
         <p className="text-red-500 text-sm mt-1">
-          {String(transferForm.formState.errors.amount.message)}
+          {translateMessage(transferForm.formState.errors.amount.message)}
         </p>
       )}
     </div>
 
     <SelectField
-      label="Desde la cuenta"
+      label={t('transactionModal.fromAccount')}
       name="from_account_id"
       register={transferForm.register}
-      options={accounts}
+      options={accountOptions}
       error={transferForm.formState.errors.from_account_id}
     />
     <SelectField
-      label="Hacia la cuenta"
+      label={t('transactionModal.toAccount')}
       name="to_account_id"
       register={transferForm.register}
-      options={accounts}
+      options={accountOptions}
       error={transferForm.formState.errors.to_account_id}
     />
 
+    {crossCurrency && (
+      <div>
+        <label className="text-sm font-medium">{t('transactionModal.receivedAmount', { currency: toCurrency ?? '' })}</label>
+        <input
+          type="number"
+          step="0.01"
+          {...transferForm.register('to_amount')}
+          className="mt-1 w-full bg-gray-700 border-gray-600 rounded-lg p-3"
+          placeholder="0.00"
+        />
+        {transferForm.formState.errors.to_amount && (
+          <p className="text-red-500 text-sm mt-1">
+            {translateMessage(transferForm.formState.errors.to_amount.message)}
+          </p>
+        )}
+      </div>
+    )}
+
+    {/* Solo las metas que miden su avance por transferencias asignadas */}
+    {transferGoals.length > 0 && (
+      <SelectField
+        label={t('transactionModal.goal')}
+        name="goal_id"
+        register={transferForm.register}
+        options={transferGoals}
+        error={transferForm.formState.errors.goal_id}
+      />
+    )}
+
     <div>
-      <label className="text-sm font-medium">Fecha</label>
+      <label className="text-sm font-medium">{t('transactionModal.date')}</label>
       <input
         type="date"
         {...transferForm.register('date')}
@@ -177,26 +367,36 @@ const transferForm = useForm<TransferFormInputs>({
       />
       {transferForm.formState.errors.date && (
         <p className="text-red-500 text-sm mt-1">
-          {String(transferForm.formState.errors.date.message)}
+          {translateMessage(transferForm.formState.errors.date.message)}
         </p>
       )}
     </div>
 
     <div>
-      <label className="text-sm font-medium">Nota (Opcional)</label>
+      <label className="text-sm font-medium">{t('transactionModal.note')}</label>
       <input
         {...transferForm.register('note')}
         className="mt-1 w-full bg-gray-700 border-gray-600 rounded-lg p-3"
       />
     </div>
 
+    {!record && <RecurrenceFields repeat={repeat} setRepeat={setRepeat} recurrence={recurrence} setRecurrence={setRecurrence} />}
+
+    {transferLocked && (
+      <p className="text-sm text-yellow-400">
+        {t('transactionModal.transferLocked')}
+      </p>
+    )}
+
     <div className="pt-4">
       <button
         type="submit"
-        className="w-full bg-indigo-600 hover:bg-indigo-500 font-bold py-3 rounded-lg transition"
+        disabled={saving || transferLocked || !canEdit}
+        className="w-full bg-indigo-600 hover:bg-indigo-500 font-bold py-3 rounded-lg transition disabled:opacity-50"
       >
-        Guardar
+        {t('common.save')}
       </button>
+      {record && !transferLocked && canEdit && <DeleteButton onClick={handleDelete} />}
     </div>
   </form>
 ) : (
@@ -205,7 +405,7 @@ const transferForm = useForm<TransferFormInputs>({
     className="space-y-4"
   >
     <div>
-      <label className="text-sm font-medium">Monto</label>
+      <label className="text-sm font-medium">{t('transactionModal.amount')}</label>
       <input
         type="number"
         step="0.01"
@@ -215,28 +415,26 @@ const transferForm = useForm<TransferFormInputs>({
       />
       {transactionForm.formState.errors.amount && (
         <p className="text-red-500 text-sm mt-1">
-          {String(transactionForm.formState.errors.amount.message)}
+          {translateMessage(transactionForm.formState.errors.amount.message)}
         </p>
       )}
     </div>
 
     <SelectField
-      label="Cuenta"
+      label={t('transactionModal.account')}
       name="account_id"
       register={transactionForm.register}
-      options={accounts}
+      options={accountOptions}
       error={transactionForm.formState.errors.account_id}
     />
-    <SelectField
-      label="Categoría"
-      name="category_id"
-      register={transactionForm.register}
-      options={filteredCategories}
-      error={transactionForm.formState.errors.category_id}
+    <SplitFields
+      form={transactionForm}
+      categories={filteredCategories}
+      currency={currencyOf(transactionForm.watch('account_id'))}
     />
 
     <div>
-      <label className="text-sm font-medium">Fecha</label>
+      <label className="text-sm font-medium">{t('transactionModal.date')}</label>
       <input
         type="date"
         {...transactionForm.register('date')}
@@ -244,26 +442,62 @@ const transferForm = useForm<TransferFormInputs>({
       />
       {transactionForm.formState.errors.date && (
         <p className="text-red-500 text-sm mt-1">
-          {String(transactionForm.formState.errors.date.message)}
+          {translateMessage(transactionForm.formState.errors.date.message)}
         </p>
       )}
     </div>
 
     <div>
-      <label className="text-sm font-medium">Nota (Opcional)</label>
+      <label className="text-sm font-medium">{t('transactionModal.note')}</label>
       <input
-        {...transactionForm.register('note')}
+        {...transactionForm.register('note', {
+          onChange: (e) => applyRules(e.target.value),
+          onBlur: (e) => setSuggestionNote(e.target.value),
+        })}
         className="mt-1 w-full bg-gray-700 border-gray-600 rounded-lg p-3"
       />
+      {suggestion && (
+        <p className="text-sm text-gray-400 mt-1">
+          {t('transactionModal.suggestedCategory')} <span className="text-white">{suggestion.name}</span>{' '}
+          <button
+            type="button"
+            onClick={() => transactionForm.setValue('category_id', suggestion.id, { shouldDirty: true, shouldValidate: true })}
+            className="text-indigo-400 hover:text-indigo-300"
+          >
+            {t('transactionModal.useSuggestion')}
+          </button>
+        </p>
+      )}
     </div>
 
+    <label className="flex items-center gap-2 text-sm font-medium">
+      <input type="checkbox" {...transactionForm.register('cleared')} disabled={locked} />
+      {t('transactionModal.cleared')}
+    </label>
+
+    <AttachmentsField
+      transactionId={record?.type === 'transaction' ? record.id : null}
+      pending={pendingFiles}
+      onPendingChange={setPendingFiles}
+    />
+
+    {!record && <RecurrenceFields repeat={repeat} setRepeat={setRepeat} recurrence={recurrence} setRecurrence={setRecurrence} />}
+
+    {locked && (
+      <p className="text-sm text-yellow-400">
+        {t('transactionModal.locked')}
+      </p>
+    )}
+
     <div className="pt-4">
       <button
         type="submit"
-        className="w-full bg-indigo-600 hover:bg-indigo-500 font-bold py-3 rounded-lg transition"
+        disabled={saving || locked || !canEdit}
+        className="w-full bg-indigo-600 hover:bg-indigo-500 font-bold py-3 rounded-lg transition disabled:opacity-50"
       >
-        Guardar
+        {t('common.save')}
       </button>
+      {record && !locked && canEdit && <DeleteButton onClick={handleDelete} />}
     </div>
   </form>
 )}
@@ -279,13 +513,15 @@ interface TabButtonProps {
   tab: Tab;
   activeTab: Tab;
   setActiveTab: React.Dispatch<React.SetStateAction<Tab>>;
+  disabled?: boolean;
 }
 
-const TabButton: React.FC<TabButtonProps> = ({ name, tab, activeTab, setActiveTab }) => (
+const TabButton: React.FC<TabButtonProps> = ({ name, tab, activeTab, setActiveTab, disabled = false }) => (
   <button
     type="button"
     onClick={() => setActiveTab(tab)}
-    className={`py-2 px-4 text-sm font-medium ${
+    disabled={disabled}
+    className={`py-2 px-4 text-sm font-medium disabled:opacity-40 ${
       activeTab === tab
         ? 'border-b-2 border-indigo-500 text-white'
         : 'text-gray-400'
@@ -295,6 +531,162 @@ const TabButton: React.FC<TabButtonProps> = ({ name, tab, activeTab, setActiveTa
   </button>
 );
 
+interface SplitFieldsProps {
+  form: UseFormReturn<TransactionFormInputs>;
+  categories: { id: string; name: string }[];
+  currency?: string;
+}
+
+// Categoría única o, al dividir, varias líneas de categoría que suman el monto total
+const SplitFields: React.FC<SplitFieldsProps> = ({ form, categories, currency }) => {
+  const { fields, append, remove, replace } = useFieldArray({ control: form.control, name: 'splits' });
+  const splitting = fields.length > 0;
+
+  const total = Number(form.watch('amount')) || 0;
+  const assigned = (form.watch('splits') ?? []).reduce((acc, line) => acc + (Number(line.amount) || 0), 0);
+  const remaining = Math.round((total - assigned) * 100) / 100;
+  const splitsError = form.formState.errors.splits;
+
+  // Al activar la división la categoría elegida pasa a ser la primera línea
+  const toggleSplit = (checked: boolean) => {
+    replace(checked
+      ? [{ category_id: form.getValues('category_id') ?? '', amount: total }, { category_id: '', amount: 0 }]
+      : []);
+  };
+
+  return (
+    <div className="space-y-3">
+      {!splitting && (
+        <SelectField
+          label={t('transactionModal.category')}
+          name="category_id"
+          register={form.register}
+          options={categories}
+          error={form.formState.errors.category_id}
+        />
+      )}
+
+      <label className="flex items-center gap-2 text-sm font-medium">
+        <input type="checkbox" checked={splitting} onChange={(e) => toggleSplit(e.target.checked)} />
+        {t('transactionModal.split')}
+      </label>
+
+      {splitting && (
+        <>
+          {fields.map((field, index) => (
+            <div key={field.id} className="flex gap-2 items-start">
+              <div className="flex-1">
+                <select
+                  {...form.register(`splits.${index}.category_id`)}
+                  className="w-full bg-gray-700 border-gray-600 rounded-lg p-3"
+                >
+                  <option value="">{t('transactionModal.select')}</option>
+                  {categories.map((c) => (<option key={c.id} value={c.id}>{c.name}</option>))}
+                </select>
+                {splitsError?.[index]?.category_id && (
+                  <p className="text-red-500 text-sm mt-1">{translateMessage(splitsError[index]?.category_id?.message)}</p>
+                )}
+              </div>
+              <div className="w-32">
+                <input
+                  type="number"
+                  step="0.01"
+                  {...form.register(`splits.${index}.amount`)}
+                  className="w-full bg-gray-700 border-gray-600 rounded-lg p-3"
+                  placeholder="0.00"
+                />
+                {splitsError?.[index]?.amount && (
+                  <p className="text-red-500 text-sm mt-1">{translateMessage(splitsError[index]?.amount?.message)}</p>
+                )}
+              </div>
+              <button type="button" onClick={() => remove(index)} className="p-3 text-gray-400 hover:text-red-500">
+                <FiTrash2 />
+              </button>
+            </div>
+          ))}
+
+          <div className="flex justify-between items-center text-sm">
+            <button
+              type="button"
+              onClick={() => append({ category_id: '', amount: Math.max(remaining, 0) })}
+              className="flex items-center gap-1 text-indigo-400 hover:text-indigo-300"
+            >
+              <FiPlus /> {t('transactionModal.addLine')}
+            </button>
+            <span className={remaining === 0 ? 'text-gray-400' : 'text-yellow-400'}>
+              {t('transactionModal.assigned', { assigned: formatMoney(assigned, currency), total: formatMoney(total, currency) })}
+            </span>
+          </div>
+          {(splitsError?.message || splitsError?.root?.message) && (
+            <p className="text-red-500 text-sm">{translateMessage(splitsError.message || splitsError.root?.message)}</p>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+const DeleteButton: React.FC<{ onClick: () => void }> = ({ onClick }) => (
+  <button
+    type="button"
+    onClick={onClick}
+    className="mt-3 w-full flex items-center justify-center gap-2 text-red-400 hover:text-red-300 py-2 transition"
+  >
+    <FiTrash2 /> {t('transactionModal.delete')}
+  </button>
+);
+
+interface RecurrenceFieldsProps {
+  repeat: boolean;
+  setRepeat: (repeat: boolean) => void;
+  recurrence: RecurrenceOptions;
+  setRecurrence: (recurrence: RecurrenceOptions) => void;
+}
+
+const RecurrenceFields: React.FC<RecurrenceFieldsProps> = ({ repeat, setRepeat, recurrence, setRecurrence }) => (
+  <div className="space-y-3">
+    <label className="flex items-center gap-2 text-sm font-medium">
+      <input type="checkbox" checked={repeat} onChange={(e) => setRepeat(e.target.checked)} />
+      {t('transactionModal.repeat')}
+    </label>
+    {repeat && (
+      <>
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="text-sm font-medium">{t('transactionModal.frequency')}</label>
+            <select
+              value={recurrence.frequency}
+              onChange={(e) => setRecurrence({ ...recurrence, frequency: e.target.value as Frequency })}
+              className="mt-1 w-full bg-gray-700 border-gray-600 rounded-lg p-3"
+            >
+              {FREQUENCIES.map((f) => (
+                <option key={f} value={f}>{t(`frequencies.${f}`)}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="text-sm font-medium">{t('transactionModal.until')}</label>
+            <input
+              type="date"
+              value={recurrence.endDate}
+              onChange={(e) => setRecurrence({ ...recurrence, endDate: e.target.value })}
+              className="mt-1 w-full bg-gray-700 border-gray-600 rounded-lg p-3"
+            />
+          </div>
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-300">
+          <input
+            type="checkbox"
+            checked={recurrence.autoConfirm}
+            onChange={(e) => setRecurrence({ ...recurrence, autoConfirm: e.target.checked })}
+          />
+          {t('transactionModal.autoConfirm')}
+        </label>
+      </>
+    )}
+  </div>
+);
+
 interface SelectFieldProps<T extends Record<string, any>> {
   label: string;
   name: Path<T>;
@@ -317,7 +709,7 @@ function SelectField<T extends Record<string, any>>({
         {...register(name)}
         className="mt-1 w-full bg-gray-700 border-gray-600 rounded-lg p-3"
       >
-        <option value="">Seleccionar...</option>
+        <option value="">{t('transactionModal.select')}</option>
         {options.map(opt => (
           <option key={opt.id} value={opt.id}>
             {opt.name}
@@ -325,7 +717,7 @@ function SelectField<T extends Record<string, any>>({
         ))}
       </select>
       {error?.message && (
-        <p className="text-red-500 text-sm mt-1">{error.message}</p>
+        <p className="text-red-500 text-sm mt-1">{translateMessage(error.message)}</p>
       )}
     </div>
   );
@@ -1,32 +1,35 @@
 import { createContext, useState, useEffect } from "react";
+import type { Session, User } from "@supabase/supabase-js";
 import { supabase } from "@/supabaseClient";
 
 type AuthContextType = {
-  user: any;
+  session: Session | null;
+  user: User | null;
   isLoading: boolean;
 };
 
 // eslint-disable-next-line react-refresh/only-export-components
 export const AuthContext = createContext<AuthContextType>({
+  session: null,
   user: null,
   isLoading: true,
 });
 
+// Única fuente de la sesión en la app. getSession lee la sesión guardada (y la del
+// enlace de correo si se llega desde uno), así que funciona también sin conexión.
 export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
-  const [user, setUser] = useState<any>(null);
+  const [session, setSession] = useState<Session | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
   useEffect(() => {
-    const getUser = async () => {
-      const { data } = await supabase.auth.getUser();
-      setUser(data.user || null);
+    supabase.auth.getSession().then(({ data }) => {
+      setSession(data.session);
       setIsLoading(false);
-    };
-
-    getUser();
+    });
 
-    const { data } = supabase.auth.onAuthStateChange((event, session) => {
-      setUser(session?.user || null);
+    const { data } = supabase.auth.onAuthStateChange((_event, session) => {
+      setSession(session);
+      setIsLoading(false);
     });
 
     return () => {
@@ -35,7 +38,7 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
   }, []);
 
   return (
-    <AuthContext.Provider value={{ user, isLoading }}>
+    <AuthContext.Provider value={{ session, user: session?.user ?? null, isLoading }}>
       {children}
     </AuthContext.Provider>
   );
@@ -0,0 +1,39 @@
+import { createContext, Fragment, useState, useEffect } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { getLocale, setLocale as storeLocale, type Locale } from "@/libs/i18n";
+
+type LocaleContextType = {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+};
+
+// eslint-disable-next-line react-refresh/only-export-components
+export const LocaleContext = createContext<LocaleContextType>({
+  locale: getLocale(),
+  setLocale: () => {},
+});
+
+// t() y los formatos leen el idioma al llamarse, así que al cambiarlo se vuelve a
+// montar todo el árbol en lugar de suscribir cada componente. La caché de React
+// Query vive fuera y se conserva.
+export const LocaleProvider = ({ children }: { children: React.ReactNode }) => {
+  const [locale, setLocaleState] = useState<Locale>(getLocale);
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const setLocale = (next: Locale) => {
+    storeLocale(next);
+    setLocaleState(next);
+    // Algunas consultas nombran sus etiquetas al cargarse (meses de las gráficas, "Sin categoría")
+    queryClient.invalidateQueries();
+  };
+
+  return (
+    <LocaleContext.Provider value={{ locale, setLocale }}>
+      <Fragment key={locale}>{children}</Fragment>
+    </LocaleContext.Provider>
+  );
+};
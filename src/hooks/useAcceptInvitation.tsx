@@ -0,0 +1,16 @@
+import { supabase } from "@/supabaseClient";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+
+// Al aceptar, la billetera de la invitación pasa a ser la activa
+export const useAcceptInvitation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (invitationId: string) => {
+      const { data, error } = await supabase.rpc("accept_wallet_invitation", { p_invitation_id: invitationId });
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => queryClient.resetQueries(),
+  });
+};
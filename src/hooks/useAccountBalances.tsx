@@ -0,0 +1,14 @@
+import { useAuth } from "./useAuth";
+import { useQuery } from "@tanstack/react-query";
+import { queryKeys } from "@/libs/queryKeys";
+import { fetchAccountBalances } from "@/libs/balances";
+
+export const useAccountBalances = () => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.balances,
+    queryFn: fetchAccountBalances,
+    enabled: !!user,
+  });
+};
@@ -0,0 +1,30 @@
+import { supabase } from "@/supabaseClient";
+import { useAuth } from "./useAuth";
+import { useQuery } from "@tanstack/react-query";
+import { queryKeys } from "@/libs/queryKeys";
+import type { Account } from "@/types/account";
+
+export const useAccounts = () => {
+  const { user } = useAuth();
+
+  async function fetchAccounts() {
+    const { data, error } = await supabase
+      .from("accounts")
+      .select("*")
+      .order("name", { ascending: true });
+
+    if (error) throw error;
+
+    return (data || []).map((a) => ({
+      ...a,
+      opening_balance: Number(a.opening_balance),
+      credit_limit: a.credit_limit === null ? null : Number(a.credit_limit),
+    })) as Account[];
+  }
+
+  return useQuery({
+    queryKey: queryKeys.accounts,
+    queryFn: fetchAccounts,
+    enabled: !!user,
+  });
+};
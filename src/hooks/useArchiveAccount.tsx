@@ -0,0 +1,43 @@
+import { supabase } from "@/supabaseClient";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { queryKeys } from "@/libs/queryKeys";
+import type { Account } from "@/types/account";
+
+interface ArchiveAccountInput {
+  id: string;
+  // false restaura la cuenta
+  archived: boolean;
+}
+
+export const useArchiveAccount = () => {
+  const queryClient = useQueryClient();
+
+  async function archiveAccount({ id, archived }: ArchiveAccountInput) {
+    const { error } = await supabase
+      .from("accounts")
+      .update({ archived_at: archived ? new Date().toISOString() : null })
+      .eq("id", id);
+
+    if (error) throw error;
+  }
+
+  return useMutation({
+    mutationFn: archiveAccount,
+    onMutate: async ({ id, archived }) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.accounts });
+      const previous = queryClient.getQueryData<Account[]>(queryKeys.accounts);
+
+      queryClient.setQueryData<Account[]>(queryKeys.accounts, (oldData = []) =>
+        oldData.map((a) => (a.id === id ? { ...a, archived_at: archived ? new Date().toISOString() : null } : a))
+      );
+
+      return { previous };
+    },
+    onError: (_error, _input, context) => {
+      queryClient.setQueryData(queryKeys.accounts, context?.previous);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.accounts });
+    },
+  });
+};
@@ -0,0 +1,53 @@
+import { supabase } from "@/supabaseClient";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { queryKeys } from "@/libs/queryKeys";
+import type { Category } from "@/types/category";
+
+interface ArchiveCategoryInput {
+  id: string;
+  // false restaura la categoría
+  archived: boolean;
+}
+
+// Archivar una categoría principal archiva también sus subcategorías; restaurar
+// solo afecta a la categoría elegida
+export const useArchiveCategory = () => {
+  const queryClient = useQueryClient();
+
+  async function archiveCategory({ id, archived }: ArchiveCategoryInput) {
+    const { error } = archived
+      ? await supabase
+          .from("categories")
+          .update({ archived_at: new Date().toISOString() })
+          .or(`id.eq.${id},parent_id.eq.${id}`)
+          .is("archived_at", null)
+      : await supabase.from("categories").update({ archived_at: null }).eq("id", id);
+
+    if (error) throw error;
+  }
+
+  return useMutation({
+    mutationFn: archiveCategory,
+    onMutate: async ({ id, archived }) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.categories });
+      const previous = queryClient.getQueryData<Category[]>(queryKeys.categories);
+      const now = new Date().toISOString();
+
+      queryClient.setQueryData<Category[]>(queryKeys.categories, (oldData = []) =>
+        oldData.map((c) => {
+          if (archived && (c.id === id || c.parent_id === id)) return { ...c, archived_at: c.archived_at ?? now };
+          if (!archived && c.id === id) return { ...c, archived_at: null };
+          return c;
+        })
+      );
+
+      return { previous };
+    },
+    onError: (_error, _input, context) => {
+      queryClient.setQueryData(queryKeys.categories, context?.previous);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.categories });
+    },
+  });
+};
@@ -0,0 +1,15 @@
+import { useAuth } from "./useAuth";
+import { useQuery } from "@tanstack/react-query";
+import { queryKeys } from "@/libs/queryKeys";
+import { fetchAttachments } from "@/libs/attachments";
+
+// Adjuntos de una transacción con URLs firmadas para mostrar las miniaturas
+export const useAttachments = (transactionId: string | null) => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.attachments(transactionId ?? ""),
+    queryFn: () => fetchAttachments(transactionId!),
+    enabled: !!user && !!transactionId,
+  });
+};
@@ -0,0 +1,16 @@
+import { useAuth } from "./useAuth";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { queryKeys } from "@/libs/queryKeys";
+import { fetchAuditPage, type AuditFilters } from "@/libs/audit";
+
+// Historial de cambios de la billetera o, con recordId, de un solo registro
+export const useAuditLog = (filters: AuditFilters, page: number, pageSize: number) => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.auditLog(filters, page),
+    queryFn: () => fetchAuditPage(filters, page, pageSize),
+    placeholderData: keepPreviousData,
+    enabled: !!user,
+  });
+};
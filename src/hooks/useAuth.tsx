@@ -2,6 +2,6 @@ import { useContext } from "react";
 import { AuthContext } from "@/context/AuthContext";
 
 export const useAuth = () => {
-  const { user, isLoading } = useContext(AuthContext);
-  return { user, isLoading };
+  const { session, user, isLoading } = useContext(AuthContext);
+  return { session, user, isLoading };
 };
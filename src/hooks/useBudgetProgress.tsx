@@ -0,0 +1,15 @@
+import { useAuth } from "./useAuth";
+import { useQuery } from "@tanstack/react-query";
+import { queryKeys } from "@/libs/queryKeys";
+import { fetchBudgetProgress } from "@/libs/budgets";
+
+// Los presupuestos siempre se evalúan contra el mes en curso, en la moneda base
+export const useBudgetProgress = (currency: string) => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.budgetProgress(currency),
+    queryFn: () => fetchBudgetProgress(currency),
+    enabled: !!user,
+  });
+};
@@ -0,0 +1,26 @@
+import { supabase } from "@/supabaseClient";
+import { useAuth } from "./useAuth";
+import { useQuery } from "@tanstack/react-query";
+import { queryKeys } from "@/libs/queryKeys";
+import type { Category } from "@/types/category";
+
+export const useCategories = () => {
+  const { user } = useAuth();
+
+  async function fetchCategories() {
+    const { data, error } = await supabase
+      .from("categories")
+      .select("*")
+      .order("name", { ascending: true });
+
+    if (error) throw error;
+
+    return data as Category[];
+  }
+
+  return useQuery({
+    queryKey: queryKeys.categories,
+    queryFn: fetchCategories,
+    enabled: !!user,
+  });
+};
@@ -0,0 +1,26 @@
+import { supabase } from "@/supabaseClient";
+import { useAuth } from "./useAuth";
+import { useQuery } from "@tanstack/react-query";
+import { queryKeys } from "@/libs/queryKeys";
+import type { CategoryRule } from "@/types/categoryRule";
+
+export const useCategoryRules = () => {
+  const { user } = useAuth();
+
+  async function fetchCategoryRules() {
+    const { data, error } = await supabase
+      .from("category_rules")
+      .select("id, pattern, category_id, account_id")
+      .order("pattern", { ascending: true });
+
+    if (error) throw error;
+
+    return data as CategoryRule[];
+  }
+
+  return useQuery({
+    queryKey: queryKeys.categoryRules,
+    queryFn: fetchCategoryRules,
+    enabled: !!user,
+  });
+};
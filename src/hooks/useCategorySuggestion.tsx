@@ -0,0 +1,17 @@
+import { useAuth } from "./useAuth";
+import { useQuery } from "@tanstack/react-query";
+import { queryKeys } from "@/libs/queryKeys";
+import { fetchCategorySuggestion } from "@/libs/categoryRules";
+
+// Categoría sugerida por las notas anteriores. Se consulta con la nota ya escrita
+// (no en cada tecla); una nota vacía o muy corta no consulta nada.
+export const useCategorySuggestion = (note: string, kind: "in" | "out") => {
+  const { user } = useAuth();
+  const trimmed = note.trim();
+
+  return useQuery({
+    queryKey: queryKeys.categorySuggestion(trimmed, kind),
+    queryFn: () => fetchCategorySuggestion(trimmed, kind),
+    enabled: !!user && trimmed.length >= 3,
+  });
+};
@@ -0,0 +1,101 @@
+import { useAuth } from "./useAuth";
+import { useCurrentWallet } from "./useCurrentWallet";
+import { useMutation, useQueryClient, type QueryKey } from "@tanstack/react-query";
+import { invalidateRecords, queryKeys } from "@/libs/queryKeys";
+import { adjustBalance, type AccountBalance } from "@/libs/balances";
+import { isInPeriod, type Period } from "@/libs/periods";
+import { withChildren } from "@/libs/categories";
+import { isNetworkError, saveTransaction, type NewTransaction } from "@/libs/records";
+import { enqueueRecord } from "@/libs/offlineQueue";
+import type { Account } from "@/types/account";
+import type { Category } from "@/types/category";
+import type { RecentTransaction } from "@/types/transaction";
+import { RECENT_TRANSACTIONS_LIMIT } from "./useTransactions";
+
+// El id lo genera el cliente (crypto.randomUUID) para poder reenviar sin duplicar
+type CreateTransactionInput = Omit<NewTransaction, "userId" | "walletId">;
+
+type RecentKey = readonly ["transactions", "recent", { period: Period; categoryId: string }];
+
+export const useCreateTransaction = () => {
+  const { user } = useAuth();
+  const { wallet } = useCurrentWallet();
+  const queryClient = useQueryClient();
+
+  // Sin conexión (o si la red falla a medio envío) el registro queda en cola local
+  // y se sincroniza después con el mismo id
+  async function createTransaction(input: CreateTransactionInput) {
+    const record = { ...input, userId: user!.id, walletId: wallet!.id };
+
+    if (navigator.onLine) {
+      try {
+        return { ...(await saveTransaction(record)), queued: false };
+      } catch (err) {
+        if (!isNetworkError(err)) throw err;
+      }
+    }
+
+    await enqueueRecord({ ...record, type: "transaction", queuedAt: new Date().toISOString() });
+    return { id: input.id, ruleError: null, queued: true };
+  }
+
+  return useMutation({
+    mutationFn: createTransaction,
+    // Sin conexión la mutación debe correr igual para poder encolar el registro
+    networkMode: "always",
+    // La transacción aparece en las listas recientes y mueve el saldo de la cuenta
+    // antes de que responda el servidor
+    onMutate: async ({ id, values, kind }) => {
+      await queryClient.cancelQueries({ queryKey: ["transactions", "recent"] });
+      await queryClient.cancelQueries({ queryKey: queryKeys.balances });
+
+      const previousRecent = queryClient.getQueriesData<RecentTransaction[]>({ queryKey: ["transactions", "recent"] });
+      const previousBalances = queryClient.getQueryData<Map<string, AccountBalance>>(queryKeys.balances);
+
+      const categories = queryClient.getQueryData<Category[]>(queryKeys.categories) ?? [];
+      const category = categories.find((c) => c.id === values.category_id);
+      const account = queryClient.getQueryData<Account[]>(queryKeys.accounts)?.find((a) => a.id === values.account_id);
+      const optimistic: RecentTransaction = {
+        id,
+        amount: values.amount,
+        kind,
+        date: values.date,
+        categories: category ? { name: category.name } : null,
+        accounts: account ? { currency: account.currency } : null,
+        split: !!values.splits && values.splits.length > 0,
+      };
+
+      previousRecent.forEach(([queryKey, oldData]) => {
+        const [, , { period, categoryId }] = queryKey as unknown as RecentKey;
+        const inPeriod = isInPeriod(values.date, period);
+        const filterIds = categoryId === "all" ? [] : withChildren(categoryId, categories);
+        const inCategory = categoryId === "all" || [values.category_id, ...(values.splits ?? []).map((line) => line.category_id)]
+          .some((id) => filterIds.includes(id ?? ""));
+        if (!oldData || !inPeriod || !inCategory) return;
+
+        queryClient.setQueryData<RecentTransaction[]>(queryKey,
+          [optimistic, ...oldData]
+            .sort((a, b) => b.date.localeCompare(a.date))
+            .slice(0, RECENT_TRANSACTIONS_LIMIT)
+        );
+      });
+
+      if (previousBalances) {
+        const delta = kind === "in" ? values.amount : -values.amount;
+        queryClient.setQueryData(queryKeys.balances, adjustBalance(previousBalances, values.account_id, delta));
+      }
+
+      return { previousRecent, previousBalances };
+    },
+    onError: (_error, _input, context) => {
+      context?.previousRecent.forEach(([queryKey, data]: [QueryKey, RecentTransaction[] | undefined]) =>
+        queryClient.setQueryData(queryKey, data)
+      );
+      queryClient.setQueryData(queryKeys.balances, context?.previousBalances);
+    },
+    onSettled: () => {
+      invalidateRecords(queryClient);
+      queryClient.invalidateQueries({ queryKey: queryKeys.syncQueue });
+    },
+  });
+};
@@ -0,0 +1,58 @@
+import { useAuth } from "./useAuth";
+import { useCurrentWallet } from "./useCurrentWallet";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { invalidateRecords, queryKeys } from "@/libs/queryKeys";
+import { adjustBalance, type AccountBalance } from "@/libs/balances";
+import { isNetworkError, saveTransfer, type NewTransfer } from "@/libs/records";
+import { enqueueRecord } from "@/libs/offlineQueue";
+
+type CreateTransferInput = Omit<NewTransfer, "userId" | "walletId">;
+
+export const useCreateTransfer = () => {
+  const { user } = useAuth();
+  const { wallet } = useCurrentWallet();
+  const queryClient = useQueryClient();
+
+  async function createTransfer(input: CreateTransferInput) {
+    const record = { ...input, userId: user!.id, walletId: wallet!.id };
+
+    if (navigator.onLine) {
+      try {
+        return { ...(await saveTransfer(record)), queued: false };
+      } catch (err) {
+        if (!isNetworkError(err)) throw err;
+      }
+    }
+
+    await enqueueRecord({ ...record, type: "transfer", queuedAt: new Date().toISOString() });
+    return { id: input.id, ruleError: null, queued: true };
+  }
+
+  return useMutation({
+    mutationFn: createTransfer,
+    // Sin conexión la mutación debe correr igual para poder encolar el registro
+    networkMode: "always",
+    // Ambas cuentas muestran el saldo nuevo antes de que responda el servidor
+    onMutate: async ({ values }) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.balances });
+      const previous = queryClient.getQueryData<Map<string, AccountBalance>>(queryKeys.balances);
+
+      if (previous) {
+        const withdrawn = adjustBalance(previous, values.from_account_id, -values.amount);
+        queryClient.setQueryData(
+          queryKeys.balances,
+          adjustBalance(withdrawn, values.to_account_id, values.to_amount ?? values.amount)
+        );
+      }
+
+      return { previous };
+    },
+    onError: (_error, _input, context) => {
+      queryClient.setQueryData(queryKeys.balances, context?.previous);
+    },
+    onSettled: () => {
+      invalidateRecords(queryClient);
+      queryClient.invalidateQueries({ queryKey: queryKeys.syncQueue });
+    },
+  });
+};
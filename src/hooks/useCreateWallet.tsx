@@ -0,0 +1,16 @@
+import { supabase } from "@/supabaseClient";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+
+// La billetera nueva queda activa (ver create_wallet)
+export const useCreateWallet = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (name: string) => {
+      const { data, error } = await supabase.rpc("create_wallet", { p_name: name.trim() });
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => queryClient.resetQueries(),
+  });
+};
@@ -0,0 +1,19 @@
+import { useAuth } from "./useAuth";
+import { useQuery } from "@tanstack/react-query";
+import { queryKeys } from "@/libs/queryKeys";
+import { fetchCreditCardCycles } from "@/libs/accounts";
+import { fetchAccountBalances } from "@/libs/balances";
+import { useAccounts } from "./useAccounts";
+
+// Corte, fecha de pago y montos del estado de cuenta de cada tarjeta de crédito.
+// Los saldos se leen en la misma consulta para que no queden desfasados del cálculo.
+export const useCreditCardCycles = () => {
+  const { user } = useAuth();
+  const { data: accounts } = useAccounts();
+
+  return useQuery({
+    queryKey: queryKeys.creditCardCycles,
+    queryFn: async () => fetchCreditCardCycles(accounts!, await fetchAccountBalances()),
+    enabled: !!user && !!accounts,
+  });
+};
@@ -0,0 +1,11 @@
+import { useWallets } from "./useWallets";
+import { canEditWallet } from "@/libs/wallets";
+
+// Billetera activa y si el usuario puede modificar sus datos
+export const useCurrentWallet = () => {
+  const { data, isLoading } = useWallets();
+  const wallets = data?.wallets ?? [];
+  const wallet = wallets.find((w) => w.id === data?.activeWalletId) ?? null;
+
+  return { wallet, wallets, canEdit: canEditWallet(wallet?.role), isLoading };
+};
@@ -0,0 +1,46 @@
+import { supabase } from "@/supabaseClient";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { invalidateRecords, queryKeys } from "@/libs/queryKeys";
+import type { Account } from "@/types/account";
+
+interface DeleteAccountInput {
+  id: string;
+  // Cuenta a la que pasan los movimientos de la eliminada
+  targetId?: string | null;
+}
+
+export const useDeleteAccount = () => {
+  const queryClient = useQueryClient();
+
+  async function deleteAccount({ id, targetId }: DeleteAccountInput) {
+    const { error } = await supabase.rpc("delete_account", {
+      p_account_id: id,
+      p_target_account_id: targetId ?? undefined,
+    });
+
+    if (error) throw error;
+  }
+
+  return useMutation({
+    mutationFn: deleteAccount,
+    onMutate: async ({ id }) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.accounts });
+      const previous = queryClient.getQueryData<Account[]>(queryKeys.accounts);
+
+      queryClient.setQueryData<Account[]>(queryKeys.accounts, (oldData = []) =>
+        oldData.filter((a) => a.id !== id)
+      );
+
+      return { previous };
+    },
+    onError: (_error, _input, context) => {
+      queryClient.setQueryData(queryKeys.accounts, context?.previous);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.accounts });
+      // Las reglas de categorización también se reasignan
+      queryClient.invalidateQueries({ queryKey: queryKeys.categoryRules });
+      invalidateRecords(queryClient);
+    },
+  });
+};
@@ -0,0 +1,33 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { queryKeys } from "@/libs/queryKeys";
+import { deleteAttachment, type Attachment } from "@/libs/attachments";
+
+interface DeleteAttachmentInput {
+  transactionId: string;
+  attachment: Attachment;
+}
+
+export const useDeleteAttachment = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ attachment }: DeleteAttachmentInput) => deleteAttachment(attachment),
+    onMutate: async ({ transactionId, attachment }) => {
+      const queryKey = queryKeys.attachments(transactionId);
+      await queryClient.cancelQueries({ queryKey });
+      const previous = queryClient.getQueryData<Attachment[]>(queryKey);
+
+      queryClient.setQueryData<Attachment[]>(queryKey, (oldData = []) =>
+        oldData.filter((a) => a.id !== attachment.id)
+      );
+
+      return { previous };
+    },
+    onError: (_error, { transactionId }, context) => {
+      queryClient.setQueryData(queryKeys.attachments(transactionId), context?.previous);
+    },
+    onSettled: (_data, _error, { transactionId }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.attachments(transactionId) });
+    },
+  });
+};
@@ -0,0 +1,47 @@
+import { supabase } from "@/supabaseClient";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { invalidateRecords, queryKeys } from "@/libs/queryKeys";
+import type { Category } from "@/types/category";
+
+interface DeleteCategoryInput {
+  id: string;
+  // Categoría a la que pasan los movimientos de la eliminada
+  targetId?: string | null;
+}
+
+export const useDeleteCategory = () => {
+  const queryClient = useQueryClient();
+
+  async function deleteCategory({ id, targetId }: DeleteCategoryInput) {
+    const { error } = await supabase.rpc("delete_category", {
+      p_category_id: id,
+      p_target_category_id: targetId ?? undefined,
+    });
+
+    if (error) throw error;
+  }
+
+  return useMutation({
+    mutationFn: deleteCategory,
+    onMutate: async ({ id }) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.categories });
+      const previous = queryClient.getQueryData<Category[]>(queryKeys.categories);
+
+      queryClient.setQueryData<Category[]>(queryKeys.categories, (oldData = []) =>
+        // Las subcategorías pasan a ser principales, como hace ON DELETE SET NULL
+        oldData.filter((c) => c.id !== id).map((c) => (c.parent_id === id ? { ...c, parent_id: null } : c))
+      );
+
+      return { previous };
+    },
+    onError: (_error, _input, context) => {
+      queryClient.setQueryData(queryKeys.categories, context?.previous);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.categories });
+      // Las reglas de categorización también se reasignan
+      queryClient.invalidateQueries({ queryKey: queryKeys.categoryRules });
+      invalidateRecords(queryClient);
+    },
+  });
+};
@@ -0,0 +1,34 @@
+import { supabase } from "@/supabaseClient";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { queryKeys } from "@/libs/queryKeys";
+import type { CategoryRule } from "@/types/categoryRule";
+
+export const useDeleteCategoryRule = () => {
+  const queryClient = useQueryClient();
+
+  async function deleteCategoryRule(id: string) {
+    const { error } = await supabase.from("category_rules").delete().eq("id", id);
+
+    if (error) throw error;
+  }
+
+  return useMutation({
+    mutationFn: deleteCategoryRule,
+    onMutate: async (id) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.categoryRules });
+      const previous = queryClient.getQueryData<CategoryRule[]>(queryKeys.categoryRules);
+
+      queryClient.setQueryData<CategoryRule[]>(queryKeys.categoryRules, (oldData = []) =>
+        oldData.filter((r) => r.id !== id)
+      );
+
+      return { previous };
+    },
+    onError: (_error, _id, context) => {
+      queryClient.setQueryData(queryKeys.categoryRules, context?.previous);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.categoryRules });
+    },
+  });
+};
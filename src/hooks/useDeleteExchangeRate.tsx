@@ -0,0 +1,36 @@
+import { supabase } from "@/supabaseClient";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { queryKeys } from "@/libs/queryKeys";
+import type { ExchangeRate } from "@/libs/currency";
+
+export const useDeleteExchangeRate = () => {
+  const queryClient = useQueryClient();
+
+  async function deleteExchangeRate(id: string) {
+    const { error } = await supabase.from("exchange_rates").delete().eq("id", id);
+
+    if (error) throw error;
+  }
+
+  return useMutation({
+    mutationFn: deleteExchangeRate,
+    onMutate: async (id) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.exchangeRates });
+      const previous = queryClient.getQueryData<ExchangeRate[]>(queryKeys.exchangeRates);
+
+      queryClient.setQueryData<ExchangeRate[]>(queryKeys.exchangeRates, (oldData = []) =>
+        oldData.filter((r) => r.id !== id)
+      );
+
+      return { previous };
+    },
+    onError: (_error, _id, context) => {
+      queryClient.setQueryData(queryKeys.exchangeRates, context?.previous);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.exchangeRates });
+      // El avance de los presupuestos se convierte con las tasas al consultarse
+      queryClient.invalidateQueries({ queryKey: queryKeys.budgets });
+    },
+  });
+};
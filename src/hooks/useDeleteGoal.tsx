@@ -0,0 +1,36 @@
+import { supabase } from "@/supabaseClient";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { queryKeys } from "@/libs/queryKeys";
+import type { GoalProgress } from "@/libs/goals";
+
+export const useDeleteGoal = () => {
+  const queryClient = useQueryClient();
+
+  // Las transferencias asignadas se conservan; solo pierden la meta (ON DELETE SET NULL)
+  async function deleteGoal(id: string) {
+    const { error } = await supabase.from("goals").delete().eq("id", id);
+
+    if (error) throw error;
+  }
+
+  return useMutation({
+    mutationFn: deleteGoal,
+    onMutate: async (id) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.goals });
+      const previous = queryClient.getQueryData<GoalProgress[]>(queryKeys.goals);
+
+      queryClient.setQueryData<GoalProgress[]>(queryKeys.goals, (oldData = []) =>
+        oldData.filter((g) => g.id !== id)
+      );
+
+      return { previous };
+    },
+    onError: (_error, _id, context) => {
+      queryClient.setQueryData(queryKeys.goals, context?.previous);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.goals });
+      queryClient.invalidateQueries({ queryKey: queryKeys.transfers });
+    },
+  });
+};
@@ -0,0 +1,17 @@
+import { supabase } from "@/supabaseClient";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+
+// El propietario cancela una invitación enviada o el invitado la rechaza
+export const useDeleteInvitation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (invitationId: string) => {
+      const { error } = await supabase.from("wallet_invitations").delete().eq("id", invitationId);
+      if (error) throw error;
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["wallets", "invitations"] });
+    },
+  });
+};
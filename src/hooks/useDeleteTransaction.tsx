@@ -0,0 +1,40 @@
+import { supabase } from "@/supabaseClient";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { invalidateRecords } from "@/libs/queryKeys";
+import { fetchAttachmentPaths, removeAttachmentFiles } from "@/libs/attachments";
+import type { RecentTransaction } from "@/types/transaction";
+
+export const useDeleteTransaction = () => {
+  const queryClient = useQueryClient();
+
+  // Las filas de adjuntos se van con la transacción (ON DELETE CASCADE); los
+  // archivos del bucket se eliminan aquí, después de confirmar el borrado
+  async function deleteTransaction(id: string) {
+    const attachmentPaths = await fetchAttachmentPaths(id);
+    const { error } = await supabase.from("transactions").delete().eq("id", id);
+
+    if (error) throw error;
+
+    await removeAttachmentFiles(attachmentPaths);
+  }
+
+  return useMutation({
+    mutationFn: deleteTransaction,
+    onMutate: async (id) => {
+      await queryClient.cancelQueries({ queryKey: ["transactions", "recent"] });
+      const previousRecent = queryClient.getQueriesData<RecentTransaction[]>({ queryKey: ["transactions", "recent"] });
+
+      queryClient.setQueriesData<RecentTransaction[]>({ queryKey: ["transactions", "recent"] }, (oldData) =>
+        oldData?.filter((tx) => tx.id !== id)
+      );
+
+      return { previousRecent };
+    },
+    onError: (_error, _id, context) => {
+      context?.previousRecent.forEach(([queryKey, data]) => queryClient.setQueryData(queryKey, data));
+    },
+    onSettled: () => {
+      invalidateRecords(queryClient);
+    },
+  });
+};
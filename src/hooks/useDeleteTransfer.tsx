@@ -0,0 +1,20 @@
+import { supabase } from "@/supabaseClient";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { invalidateRecords } from "@/libs/queryKeys";
+
+export const useDeleteTransfer = () => {
+  const queryClient = useQueryClient();
+
+  async function deleteTransfer(id: string) {
+    const { error } = await supabase.from("transfers").delete().eq("id", id);
+
+    if (error) throw error;
+  }
+
+  return useMutation({
+    mutationFn: deleteTransfer,
+    onSettled: () => {
+      invalidateRecords(queryClient);
+    },
+  });
+};
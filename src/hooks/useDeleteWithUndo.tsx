@@ -0,0 +1,36 @@
+import { useState } from "react";
+import { toast } from "react-toastify";
+import { t } from "@/libs/i18n";
+
+// Tiempo que tiene el usuario para deshacer antes de que se elimine en el servidor
+const UNDO_WINDOW_MS = 5000;
+const UNDO = "undo";
+
+// Eliminación diferida: el elemento se oculta al instante y solo se elimina al
+// cerrarse el aviso, salvo que antes se pulse "Deshacer". `commit` recibe la
+// función que vuelve a mostrarlo cuando termina (o falla) la eliminación.
+export const useDeleteWithUndo = () => {
+  const [hiddenIds, setHiddenIds] = useState<string[]>([]);
+
+  const release = (id: string) => setHiddenIds((ids) => ids.filter((hiddenId) => hiddenId !== id));
+
+  const scheduleDelete = (id: string, message: string, commit: (done: () => void) => void) => {
+    setHiddenIds((ids) => [...ids, id]);
+    toast(
+      ({ closeToast }) => (
+        <div className="flex items-center justify-between gap-4">
+          <span>{message}</span>
+          <button onClick={() => closeToast(UNDO)} className="font-bold text-indigo-400 hover:text-indigo-300">
+            {t("common.undo")}
+          </button>
+        </div>
+      ),
+      {
+        autoClose: UNDO_WINDOW_MS,
+        onClose: (reason) => (reason === UNDO ? release(id) : commit(() => release(id))),
+      }
+    );
+  };
+
+  return { hiddenIds, scheduleDelete };
+};
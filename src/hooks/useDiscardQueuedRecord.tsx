@@ -0,0 +1,17 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { queryKeys } from "@/libs/queryKeys";
+import { removeQueuedRecord } from "@/libs/offlineQueue";
+
+// Descarta un registro de la cola local que el servidor rechazó
+export const useDiscardQueuedRecord = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: removeQueuedRecord,
+    // La cola vive en IndexedDB: no depende de la conexión
+    networkMode: "always",
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.syncQueue });
+    },
+  });
+};
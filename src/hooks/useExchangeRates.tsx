@@ -0,0 +1,14 @@
+import { useAuth } from "./useAuth";
+import { useQuery } from "@tanstack/react-query";
+import { queryKeys } from "@/libs/queryKeys";
+import { fetchExchangeRates } from "@/libs/currency";
+
+export const useExchangeRates = () => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.exchangeRates,
+    queryFn: fetchExchangeRates,
+    enabled: !!user,
+  });
+};
@@ -0,0 +1,16 @@
+import { useAuth } from "./useAuth";
+import { useQuery } from "@tanstack/react-query";
+import { queryKeys } from "@/libs/queryKeys";
+import { fetchGoalProgress } from "@/libs/goals";
+
+// Metas con su avance; se invalidan junto con los registros porque dependen de
+// saldos y transferencias
+export const useGoals = () => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.goals,
+    queryFn: fetchGoalProgress,
+    enabled: !!user,
+  });
+};
@@ -0,0 +1,16 @@
+import { useAuth } from "./useAuth";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { invalidateRecords } from "@/libs/queryKeys";
+import { insertImportRows, type ImportRow } from "@/libs/csvImport";
+
+export const useImportTransactions = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (rows: ImportRow[]) => insertImportRows(rows, user!.id),
+    onSuccess: () => {
+      invalidateRecords(queryClient);
+    },
+  });
+};
@@ -0,0 +1,31 @@
+import { supabase } from "@/supabaseClient";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { queryKeys } from "@/libs/queryKeys";
+import { t } from "@/libs/i18n";
+import type { WalletRole } from "@/types/wallet";
+
+type InviteMemberInput = {
+  walletId: string;
+  email: string;
+  role: WalletRole;
+};
+
+export const useInviteMember = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ walletId, email, role }: InviteMemberInput) => {
+      const { error } = await supabase
+        .from("wallet_invitations")
+        .insert({ wallet_id: walletId, email: email.trim().toLowerCase(), role });
+      if (error) {
+        // UNIQUE (wallet_id, email)
+        if (error.code === "23505") throw new Error(t("wallet.duplicateInvitation"));
+        throw error;
+      }
+    },
+    onSettled: (_data, _error, { walletId }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.walletInvitations(walletId) });
+    },
+  });
+};
@@ -0,0 +1,23 @@
+import { useAuth } from "./useAuth";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { queryKeys } from "@/libs/queryKeys";
+import { fetchLedgerPage, type LedgerFilters, type LedgerSortBy, type SortDir } from "@/libs/ledger";
+
+// Al cambiar de página o filtro se mantiene la página anterior mientras carga la nueva
+export const useLedger = (
+  filters: LedgerFilters,
+  sortBy: LedgerSortBy,
+  sortDir: SortDir,
+  page: number,
+  pageSize: number,
+  rates: Record<string, number>
+) => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.ledger(filters, sortBy, sortDir, page, rates),
+    queryFn: () => fetchLedgerPage(filters, sortBy, sortDir, page, pageSize, rates),
+    placeholderData: keepPreviousData,
+    enabled: !!user,
+  });
+};
@@ -0,0 +1,7 @@
+import { useContext } from "react";
+import { LocaleContext } from "@/context/LocaleContext";
+
+export const useLocale = () => {
+  const { locale, setLocale } = useContext(LocaleContext);
+  return { locale, setLocale };
+};
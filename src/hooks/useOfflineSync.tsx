@@ -0,0 +1,34 @@
+import { useEffect } from "react";
+import { useAuth } from "./useAuth";
+import { useCurrentWallet } from "./useCurrentWallet";
+import { useQueryClient } from "@tanstack/react-query";
+import { invalidateRecords, queryKeys } from "@/libs/queryKeys";
+import { syncQueuedRecords } from "@/libs/records";
+
+// Reenvía la cola local al abrir la app, al cambiar de billetera y cada vez que
+// vuelve la conexión
+export const useOfflineSync = () => {
+  const { user } = useAuth();
+  const { wallet } = useCurrentWallet();
+  const walletId = wallet?.id;
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!user || !walletId) return;
+
+    const sync = async () => {
+      try {
+        const synced = await syncQueuedRecords(user.id, walletId);
+        if (synced > 0) invalidateRecords(queryClient);
+      } catch (err) {
+        console.error("Error sincronizando registros pendientes:", err);
+      } finally {
+        queryClient.invalidateQueries({ queryKey: queryKeys.syncQueue });
+      }
+    };
+
+    sync();
+    window.addEventListener("online", sync);
+    return () => window.removeEventListener("online", sync);
+  }, [user, walletId, queryClient]);
+};
@@ -0,0 +1,14 @@
+import { useAuth } from "./useAuth";
+import { useQuery } from "@tanstack/react-query";
+import { queryKeys } from "@/libs/queryKeys";
+import { fetchPendingOccurrences } from "@/libs/recurring";
+
+export const usePendingOccurrences = () => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.pendingOccurrences,
+    queryFn: fetchPendingOccurrences,
+    enabled: !!user,
+  });
+};
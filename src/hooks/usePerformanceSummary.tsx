@@ -0,0 +1,18 @@
+import { useAuth } from "./useAuth";
+import { useQuery } from "@tanstack/react-query";
+import { queryKeys } from "@/libs/queryKeys";
+import { getPeriodRange, type Period } from "@/libs/periods";
+import { fetchPerformanceSummary } from "@/libs/stats";
+
+export const usePerformanceSummary = (period: Period) => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.performanceSummary(period),
+    queryFn: () => {
+      const { startDate, endDate } = getPeriodRange(period);
+      return fetchPerformanceSummary(startDate, endDate);
+    },
+    enabled: !!user,
+  });
+};
@@ -0,0 +1,23 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { invalidateRecords } from "@/libs/queryKeys";
+import { reconcileAccount } from "@/libs/reconciliation";
+
+type ReconcileInput = {
+  accountId: string;
+  statementDate: string;
+  statementBalance: number;
+  transactionIds: string[];
+  transferIds: string[];
+};
+
+export const useReconcileAccount = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ accountId, statementDate, statementBalance, transactionIds, transferIds }: ReconcileInput) =>
+      reconcileAccount(accountId, statementDate, statementBalance, transactionIds, transferIds),
+    onSettled: () => {
+      invalidateRecords(queryClient);
+    },
+  });
+};
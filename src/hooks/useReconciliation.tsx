@@ -0,0 +1,15 @@
+import { useAuth } from "./useAuth";
+import { useQuery } from "@tanstack/react-query";
+import { queryKeys } from "@/libs/queryKeys";
+import { fetchReconciliationData } from "@/libs/reconciliation";
+
+// Transacciones por conciliar de una cuenta hasta la fecha del estado de cuenta
+export const useReconciliation = (accountId: string, statementDate: string) => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.reconciliation(accountId, statementDate),
+    queryFn: () => fetchReconciliationData(accountId, statementDate),
+    enabled: !!user && !!accountId && !!statementDate,
+  });
+};
@@ -0,0 +1,33 @@
+import { supabase } from "@/supabaseClient";
+import { useAuth } from "./useAuth";
+import { useQuery } from "@tanstack/react-query";
+import { queryKeys } from "@/libs/queryKeys";
+
+// Cuántos movimientos usan una cuenta (transacciones y transferencias) o una
+// categoría (transacciones y líneas divididas), para ofrecer moverlos antes de eliminarla
+export const useRecordCount = (owner: "account" | "category", id: string | null) => {
+  const { user } = useAuth();
+
+  async function fetchRecordCount() {
+    const [first, second] = owner === "account"
+      ? await Promise.all([
+          supabase.from("transactions").select("id", { count: "exact", head: true }).eq("account_id", id!),
+          supabase.from("transfers").select("id", { count: "exact", head: true }).or(`from_account_id.eq.${id},to_account_id.eq.${id}`),
+        ])
+      : await Promise.all([
+          supabase.from("transactions").select("id", { count: "exact", head: true }).eq("category_id", id!),
+          supabase.from("transaction_splits").select("id", { count: "exact", head: true }).eq("category_id", id!),
+        ]);
+
+    if (first.error) throw first.error;
+    if (second.error) throw second.error;
+
+    return (first.count ?? 0) + (second.count ?? 0);
+  }
+
+  return useQuery({
+    queryKey: queryKeys.recordCount(owner, id ?? ""),
+    queryFn: fetchRecordCount,
+    enabled: !!user && !!id,
+  });
+};
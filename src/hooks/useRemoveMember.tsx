@@ -0,0 +1,31 @@
+import { supabase } from "@/supabaseClient";
+import { useAuth } from "./useAuth";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { queryKeys } from "@/libs/queryKeys";
+
+type RemoveMemberInput = {
+  walletId: string;
+  userId: string;
+};
+
+// Saca a un miembro de la billetera, o al propio usuario si decide salirse
+export const useRemoveMember = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ walletId, userId }: RemoveMemberInput) => {
+      const { error } = await supabase
+        .from("wallet_members")
+        .delete()
+        .eq("wallet_id", walletId)
+        .eq("user_id", userId);
+      if (error) throw error;
+    },
+    onSuccess: (_data, { walletId, userId }) => {
+      // Al salirse, la billetera activa pasa a ser otra y la caché ya no sirve
+      if (userId === user?.id) return queryClient.resetQueries();
+      queryClient.invalidateQueries({ queryKey: queryKeys.walletMembers(walletId) });
+    },
+  });
+};
@@ -0,0 +1,14 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { invalidateRecords } from "@/libs/queryKeys";
+import { restoreTransactionVersion } from "@/libs/audit";
+
+export const useRestoreTransactionVersion = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: restoreTransactionVersion,
+    onSettled: () => {
+      invalidateRecords(queryClient);
+    },
+  });
+};
@@ -0,0 +1,47 @@
+import { supabase } from "@/supabaseClient";
+import { useAuth } from "./useAuth";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { queryKeys } from "@/libs/queryKeys";
+import type { Account } from "@/types/account";
+
+// Archivar y restaurar van por useArchiveAccount
+type SaveAccountInput = Omit<Account, "id" | "archived_at"> & { id?: string };
+
+export const useSaveAccount = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  async function saveAccount({ id, ...account }: SaveAccountInput) {
+    const dataToSubmit = { ...account, user_id: user!.id };
+
+    const { error } = id
+      ? await supabase.from("accounts").update(dataToSubmit).eq("id", id)
+      : await supabase.from("accounts").insert(dataToSubmit);
+
+    if (error) throw error;
+  }
+
+  return useMutation({
+    mutationFn: saveAccount,
+    // La lista se actualiza antes de que responda el servidor
+    onMutate: async (account) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.accounts });
+      const previous = queryClient.getQueryData<Account[]>(queryKeys.accounts);
+
+      queryClient.setQueryData<Account[]>(queryKeys.accounts, (oldData = []) =>
+        account.id
+          ? oldData.map((a) => (a.id === account.id ? { ...a, ...account, id: a.id } : a))
+          : [...oldData, { ...account, archived_at: null, id: `temp-${Date.now()}` }].sort((a, b) => a.name.localeCompare(b.name))
+      );
+
+      return { previous };
+    },
+    onError: (_error, _account, context) => {
+      queryClient.setQueryData(queryKeys.accounts, context?.previous);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.accounts });
+      queryClient.invalidateQueries({ queryKey: queryKeys.balances });
+    },
+  });
+};
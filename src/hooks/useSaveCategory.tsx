@@ -0,0 +1,48 @@
+import { supabase } from "@/supabaseClient";
+import { useAuth } from "./useAuth";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { queryKeys } from "@/libs/queryKeys";
+import type { Category } from "@/types/category";
+
+// Archivar y restaurar van por useArchiveCategory
+type SaveCategoryInput = Omit<Category, "id" | "archived_at"> & { id?: string };
+
+export const useSaveCategory = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  async function saveCategory({ id, ...category }: SaveCategoryInput) {
+    const dataToSubmit = { ...category, user_id: user!.id };
+
+    const { error } = id
+      ? await supabase.from("categories").update(dataToSubmit).eq("id", id)
+      : await supabase.from("categories").insert(dataToSubmit);
+
+    if (error) throw error;
+  }
+
+  return useMutation({
+    mutationFn: saveCategory,
+    onMutate: async (category) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.categories });
+      const previous = queryClient.getQueryData<Category[]>(queryKeys.categories);
+
+      queryClient.setQueryData<Category[]>(queryKeys.categories, (oldData = []) =>
+        category.id
+          ? oldData.map((c) => (c.id === category.id ? { ...c, ...category, id: c.id } : c))
+          : [...oldData, { ...category, archived_at: null, id: `temp-${Date.now()}` }].sort((a, b) => a.name.localeCompare(b.name))
+      );
+
+      return { previous };
+    },
+    onError: (_error, _category, context) => {
+      queryClient.setQueryData(queryKeys.categories, context?.previous);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.categories });
+      // Los nombres de categoría aparecen en resúmenes y listas de registros
+      queryClient.invalidateQueries({ queryKey: ["summary"] });
+      queryClient.invalidateQueries({ queryKey: queryKeys.transactions });
+    },
+  });
+};
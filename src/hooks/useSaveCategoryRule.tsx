@@ -0,0 +1,44 @@
+import { supabase } from "@/supabaseClient";
+import { useAuth } from "./useAuth";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { queryKeys } from "@/libs/queryKeys";
+import type { CategoryRule } from "@/types/categoryRule";
+
+type SaveCategoryRuleInput = Omit<CategoryRule, "id"> & { id?: string };
+
+export const useSaveCategoryRule = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  async function saveCategoryRule({ id, ...rule }: SaveCategoryRuleInput) {
+    const dataToSubmit = { ...rule, pattern: rule.pattern.trim(), user_id: user!.id };
+
+    const { error } = id
+      ? await supabase.from("category_rules").update(dataToSubmit).eq("id", id)
+      : await supabase.from("category_rules").insert(dataToSubmit);
+
+    if (error) throw error;
+  }
+
+  return useMutation({
+    mutationFn: saveCategoryRule,
+    onMutate: async ({ id, ...rule }) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.categoryRules });
+      const previous = queryClient.getQueryData<CategoryRule[]>(queryKeys.categoryRules);
+
+      queryClient.setQueryData<CategoryRule[]>(queryKeys.categoryRules, (oldData = []) =>
+        id
+          ? oldData.map((r) => (r.id === id ? { ...r, ...rule } : r))
+          : [...oldData, { ...rule, id: `temp-${Date.now()}` }].sort((a, b) => a.pattern.localeCompare(b.pattern))
+      );
+
+      return { previous };
+    },
+    onError: (_error, _rule, context) => {
+      queryClient.setQueryData(queryKeys.categoryRules, context?.previous);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.categoryRules });
+    },
+  });
+};
@@ -0,0 +1,30 @@
+import { supabase } from "@/supabaseClient";
+import { useAuth } from "./useAuth";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { queryKeys } from "@/libs/queryKeys";
+import type { ExchangeRate } from "@/libs/currency";
+
+type SaveExchangeRateInput = Omit<ExchangeRate, "id">;
+
+export const useSaveExchangeRate = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  // Guardar un par existente actualiza su tasa
+  async function saveExchangeRate(rate: SaveExchangeRateInput) {
+    const { error } = await supabase
+      .from("exchange_rates")
+      .upsert({ ...rate, user_id: user!.id }, { onConflict: "wallet_id,from_currency,to_currency" });
+
+    if (error) throw error;
+  }
+
+  return useMutation({
+    mutationFn: saveExchangeRate,
+    onSettled: () => {
+      // Los totales del dashboard se recalculan con las nuevas tasas
+      queryClient.invalidateQueries({ queryKey: queryKeys.exchangeRates });
+      queryClient.invalidateQueries({ queryKey: queryKeys.budgets });
+    },
+  });
+};
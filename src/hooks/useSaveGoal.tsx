@@ -0,0 +1,30 @@
+import { supabase } from "@/supabaseClient";
+import { useAuth } from "./useAuth";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { queryKeys } from "@/libs/queryKeys";
+import type { Goal } from "@/types/goal";
+
+type SaveGoalInput = Omit<Goal, "id"> & { id?: string };
+
+export const useSaveGoal = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  async function saveGoal({ id, ...goal }: SaveGoalInput) {
+    const dataToSubmit = { ...goal, user_id: user!.id };
+
+    const { error } = id
+      ? await supabase.from("goals").update(dataToSubmit).eq("id", id)
+      : await supabase.from("goals").insert(dataToSubmit);
+
+    if (error) throw error;
+  }
+
+  return useMutation({
+    mutationFn: saveGoal,
+    // El avance lo calcula la vista goal_progress, así que no hay versión optimista
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.goals });
+    },
+  });
+};
@@ -1,14 +1,18 @@
 import { supabase } from "@/supabaseClient";
 import { useAuth } from "./useAuth";
-import { useMutation } from "@tanstack/react-query";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
 
 export const useSignOut = () => {
   const { user } = useAuth();
+  const queryClient = useQueryClient();
 
   return useMutation({
     mutationFn: async () => {
       if (!user) return;
-      await supabase.auth.signOut();
+      const { error } = await supabase.auth.signOut();
+      if (error) throw error;
     },
+    // Los datos en caché son del usuario que salió
+    onSuccess: () => queryClient.clear(),
   });
 };
@@ -0,0 +1,15 @@
+import { supabase } from "@/supabaseClient";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+
+export const useSwitchWallet = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (walletId: string) => {
+      const { error } = await supabase.rpc("switch_wallet", { p_wallet_id: walletId });
+      if (error) throw error;
+    },
+    // Todo lo que está en caché pertenece a la billetera anterior
+    onSuccess: () => queryClient.resetQueries(),
+  });
+};
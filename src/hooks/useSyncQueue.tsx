@@ -0,0 +1,20 @@
+import { useAuth } from "./useAuth";
+import { useCurrentWallet } from "./useCurrentWallet";
+import { useQuery } from "@tanstack/react-query";
+import { queryKeys } from "@/libs/queryKeys";
+import { listQueuedRecords } from "@/libs/offlineQueue";
+
+// Registros en cola local del usuario que todavía no llegan a Supabase, de la
+// billetera activa (los de otra se sincronizan al volver a ella)
+export const useSyncQueue = () => {
+  const { user } = useAuth();
+  const { wallet } = useCurrentWallet();
+
+  return useQuery({
+    queryKey: queryKeys.userSyncQueue(user?.id ?? ""),
+    queryFn: () => listQueuedRecords(user!.id),
+    select: (records) => records.filter((record) => record.walletId === wallet?.id),
+    networkMode: "always",
+    enabled: !!user,
+  });
+};
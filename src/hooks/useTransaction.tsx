@@ -0,0 +1,33 @@
+import { supabase } from "@/supabaseClient";
+import { useAuth } from "./useAuth";
+import { useQuery } from "@tanstack/react-query";
+import { queryKeys } from "@/libs/queryKeys";
+
+// Una transacción completa, para editarla en TransactionModal
+export const useTransaction = (id: string | null) => {
+  const { user } = useAuth();
+
+  async function fetchTransaction() {
+    const { data, error } = await supabase
+      .from("transactions")
+      .select("id, user_id, kind, amount, account_id, category_id, date, note, cleared, reconciliation_id, transaction_splits(category_id, amount)")
+      .eq("id", id!)
+      .single();
+
+    if (error) throw error;
+
+    const { transaction_splits, ...transaction } = data;
+    return {
+      ...transaction,
+      amount: Number(transaction.amount),
+      kind: transaction.kind as "in" | "out",
+      splits: transaction_splits.map((line) => ({ category_id: line.category_id ?? "", amount: Number(line.amount) })),
+    };
+  }
+
+  return useQuery({
+    queryKey: queryKeys.transaction(id ?? ""),
+    queryFn: fetchTransaction,
+    enabled: !!user && !!id,
+  });
+};
@@ -0,0 +1,52 @@
+import { supabase } from "@/supabaseClient";
+import { useAuth } from "./useAuth";
+import { useQuery } from "@tanstack/react-query";
+import { queryKeys } from "@/libs/queryKeys";
+import { getPeriodRange, toDateInput, type Period } from "@/libs/periods";
+import { categoryOrSplitsFilter, withChildren } from "@/libs/categories";
+import { useCategories } from "./useCategories";
+import type { RecentTransaction } from "@/types/transaction";
+
+export const RECENT_TRANSACTIONS_LIMIT = 5;
+
+// Últimas transacciones del periodo, opcionalmente de una sola categoría
+// (una categoría principal incluye sus subcategorías; una dividida entra si
+// alguna de sus líneas es de la categoría)
+export const useTransactions = (period: Period, categoryId: string) => {
+  const { user } = useAuth();
+  const { data: categories } = useCategories();
+
+  async function fetchTransactions() {
+    const { startDate, endDate } = getPeriodRange(period);
+
+    let query = supabase
+      .from("transactions")
+      .select("id, amount, kind, date, categories(name), accounts(currency), transaction_splits(id), matched_splits:transaction_splits(id)")
+      .gte("date", toDateInput(startDate))
+      .lte("date", toDateInput(endDate));
+
+    if (categoryId !== "all") {
+      const ids = withChildren(categoryId, categories ?? []);
+      query = query.in("matched_splits.category_id", ids).or(categoryOrSplitsFilter(ids));
+    }
+
+    const { data, error } = await query.order("date", { ascending: false }).limit(RECENT_TRANSACTIONS_LIMIT);
+
+    if (error) throw error;
+
+    return (data || []).map(({ transaction_splits, ...tx }) => ({
+      ...tx,
+      amount: Number(tx.amount),
+      split: transaction_splits.length > 0,
+      categories: Array.isArray(tx.categories) ? tx.categories[0] ?? null : tx.categories,
+      accounts: Array.isArray(tx.accounts) ? tx.accounts[0] ?? null : tx.accounts,
+    })) as RecentTransaction[];
+  }
+
+  return useQuery({
+    queryKey: queryKeys.recentTransactions(period, categoryId),
+    queryFn: fetchTransactions,
+    // Hace falta la jerarquía para saber qué subcategorías cubre el filtro
+    enabled: !!user && (categoryId === "all" || !!categories),
+  });
+};
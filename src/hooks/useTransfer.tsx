@@ -0,0 +1,31 @@
+import { supabase } from "@/supabaseClient";
+import { useAuth } from "./useAuth";
+import { useQuery } from "@tanstack/react-query";
+import { queryKeys } from "@/libs/queryKeys";
+
+// Una transferencia completa, para editarla en TransactionModal
+export const useTransfer = (id: string | null) => {
+  const { user } = useAuth();
+
+  async function fetchTransfer() {
+    const { data, error } = await supabase
+      .from("transfers")
+      .select("id, user_id, amount, to_amount, from_account_id, to_account_id, goal_id, date, note, from_reconciliation_id, to_reconciliation_id")
+      .eq("id", id!)
+      .single();
+
+    if (error) throw error;
+
+    return {
+      ...data,
+      amount: Number(data.amount),
+      to_amount: data.to_amount === null ? null : Number(data.to_amount),
+    };
+  }
+
+  return useQuery({
+    queryKey: queryKeys.transfer(id ?? ""),
+    queryFn: fetchTransfer,
+    enabled: !!user && !!id,
+  });
+};
@@ -0,0 +1,14 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { invalidateRecords } from "@/libs/queryKeys";
+import { undoReconciliation } from "@/libs/reconciliation";
+
+export const useUndoReconciliation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: undoReconciliation,
+    onSettled: () => {
+      invalidateRecords(queryClient);
+    },
+  });
+};
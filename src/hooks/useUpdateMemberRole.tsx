@@ -0,0 +1,44 @@
+import { supabase } from "@/supabaseClient";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { queryKeys } from "@/libs/queryKeys";
+import type { WalletMember, WalletRole } from "@/types/wallet";
+
+type UpdateMemberRoleInput = {
+  walletId: string;
+  userId: string;
+  role: WalletRole;
+};
+
+export const useUpdateMemberRole = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ walletId, userId, role }: UpdateMemberRoleInput) => {
+      const { error } = await supabase
+        .from("wallet_members")
+        .update({ role })
+        .eq("wallet_id", walletId)
+        .eq("user_id", userId);
+      if (error) throw error;
+    },
+    onMutate: async ({ walletId, userId, role }) => {
+      const queryKey = queryKeys.walletMembers(walletId);
+      await queryClient.cancelQueries({ queryKey });
+      const previous = queryClient.getQueryData<WalletMember[]>(queryKey);
+
+      queryClient.setQueryData<WalletMember[]>(queryKey, (oldData = []) =>
+        oldData.map((m) => (m.user_id === userId ? { ...m, role } : m))
+      );
+
+      return { previous };
+    },
+    onError: (_error, { walletId }, context) => {
+      queryClient.setQueryData(queryKeys.walletMembers(walletId), context?.previous);
+    },
+    onSettled: (_data, _error, { walletId }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.walletMembers(walletId) });
+      // El rol propio decide qué se puede editar
+      queryClient.invalidateQueries({ queryKey: queryKeys.wallets, exact: true });
+    },
+  });
+};
@@ -0,0 +1,27 @@
+import { supabase } from "@/supabaseClient";
+import { useAuth } from "./useAuth";
+import { useMutation } from "@tanstack/react-query";
+import { t } from "@/libs/i18n";
+
+type UpdatePasswordInput = {
+  password: string;
+  // Al cambiarla desde Configuración se confirma la actual; al restablecerla
+  // desde el enlace del correo no se conoce
+  currentPassword?: string;
+};
+
+export const useUpdatePassword = () => {
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: async ({ password, currentPassword }: UpdatePasswordInput) => {
+      if (currentPassword !== undefined) {
+        const { error } = await supabase.auth.signInWithPassword({ email: user!.email ?? "", password: currentPassword });
+        if (error) throw new Error(t("auth.wrongPassword"));
+      }
+
+      const { error } = await supabase.auth.updateUser({ password });
+      if (error) throw error;
+    },
+  });
+};
@@ -0,0 +1,62 @@
+import { supabase } from "@/supabaseClient";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { invalidateRecords } from "@/libs/queryKeys";
+import type { TransactionFormInputs } from "@/libs/schemas";
+import type { RecentTransaction } from "@/types/transaction";
+
+type UpdateTransactionInput = {
+  id: string;
+  values: TransactionFormInputs;
+  kind: "in" | "out";
+};
+
+export const useUpdateTransaction = () => {
+  const queryClient = useQueryClient();
+
+  // Las líneas se reemplazan siempre: una lista vacía quita una división anterior
+  async function updateTransaction({ id, values, kind }: UpdateTransactionInput) {
+    const { splits = [], ...transaction } = values;
+
+    const { error } = await supabase
+      .from("transactions")
+      .update({
+        ...transaction,
+        category_id: splits.length > 0 ? null : transaction.category_id,
+        note: transaction.note || null,
+        kind,
+      })
+      .eq("id", id);
+
+    if (error) throw error;
+
+    const { error: splitsError } = await supabase.rpc("set_transaction_splits", {
+      p_transaction_id: id,
+      p_splits: splits,
+    });
+
+    if (splitsError) throw splitsError;
+  }
+
+  return useMutation({
+    mutationFn: updateTransaction,
+    // Las listas recientes muestran el monto y la fecha nuevos de inmediato
+    onMutate: async ({ id, values, kind }) => {
+      await queryClient.cancelQueries({ queryKey: ["transactions", "recent"] });
+      const previousRecent = queryClient.getQueriesData<RecentTransaction[]>({ queryKey: ["transactions", "recent"] });
+
+      queryClient.setQueriesData<RecentTransaction[]>({ queryKey: ["transactions", "recent"] }, (oldData) =>
+        oldData?.map((tx) =>
+          tx.id === id ? { ...tx, amount: values.amount, date: values.date, kind, split: !!values.splits?.length } : tx
+        )
+      );
+
+      return { previousRecent };
+    },
+    onError: (_error, _input, context) => {
+      context?.previousRecent.forEach(([queryKey, data]) => queryClient.setQueryData(queryKey, data));
+    },
+    onSettled: () => {
+      invalidateRecords(queryClient);
+    },
+  });
+};
@@ -0,0 +1,30 @@
+import { supabase } from "@/supabaseClient";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { invalidateRecords } from "@/libs/queryKeys";
+import type { TransferFormInputs } from "@/libs/schemas";
+
+type UpdateTransferInput = {
+  id: string;
+  values: TransferFormInputs;
+};
+
+export const useUpdateTransfer = () => {
+  const queryClient = useQueryClient();
+
+  // to_amount y goal_id se limpian explícitamente si se quitaron del formulario
+  async function updateTransfer({ id, values }: UpdateTransferInput) {
+    const { error } = await supabase
+      .from("transfers")
+      .update({ ...values, to_amount: values.to_amount ?? null, goal_id: values.goal_id ?? null, note: values.note || null })
+      .eq("id", id);
+
+    if (error) throw error;
+  }
+
+  return useMutation({
+    mutationFn: updateTransfer,
+    onSettled: () => {
+      invalidateRecords(queryClient);
+    },
+  });
+};
@@ -0,0 +1,26 @@
+import { useCurrentWallet } from "./useCurrentWallet";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { queryKeys } from "@/libs/queryKeys";
+import { uploadAttachments } from "@/libs/attachments";
+import { t } from "@/libs/i18n";
+
+interface UploadAttachmentsInput {
+  transactionId: string;
+  // Ya validados y comprimidos con prepareAttachment
+  files: File[];
+}
+
+export const useUploadAttachments = () => {
+  const { wallet } = useCurrentWallet();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ transactionId, files }: UploadAttachmentsInput) => {
+      if (!wallet) throw new Error(t("attachments.noActiveWallet"));
+      await uploadAttachments(transactionId, wallet.id, files);
+    },
+    onSettled: (_data, _error, { transactionId }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.attachments(transactionId) });
+    },
+  });
+};
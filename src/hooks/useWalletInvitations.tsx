@@ -0,0 +1,15 @@
+import { useAuth } from "./useAuth";
+import { useQuery } from "@tanstack/react-query";
+import { queryKeys } from "@/libs/queryKeys";
+import { fetchWalletInvitations } from "@/libs/wallets";
+
+// Invitaciones enviadas desde la billetera activa y las recibidas por el usuario
+export const useWalletInvitations = (walletId: string | null) => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.walletInvitations(walletId ?? ""),
+    queryFn: () => fetchWalletInvitations(walletId!, user!.email ?? ""),
+    enabled: !!user && !!walletId,
+  });
+};
@@ -0,0 +1,14 @@
+import { useAuth } from "./useAuth";
+import { useQuery } from "@tanstack/react-query";
+import { queryKeys } from "@/libs/queryKeys";
+import { fetchWalletMembers } from "@/libs/wallets";
+
+export const useWalletMembers = (walletId: string | null) => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.walletMembers(walletId ?? ""),
+    queryFn: () => fetchWalletMembers(walletId!),
+    enabled: !!user && !!walletId,
+  });
+};
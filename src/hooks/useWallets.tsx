@@ -0,0 +1,15 @@
+import { useAuth } from "./useAuth";
+import { useQuery } from "@tanstack/react-query";
+import { queryKeys } from "@/libs/queryKeys";
+import { fetchWallets } from "@/libs/wallets";
+
+// Billeteras de las que el usuario es miembro, con su rol en cada una
+export const useWallets = () => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.wallets,
+    queryFn: () => fetchWallets(user!.id),
+    enabled: !!user,
+  });
+};
@@ -0,0 +1,108 @@
+import { supabase } from "@/supabaseClient";
+import { toDateInput } from "./periods";
+import type { AccountBalance } from "./balances";
+import type { Account, AccountType } from "@/types/account";
+
+// El nombre de cada tipo está en el catálogo (accountTypes.<tipo>)
+export const ACCOUNT_TYPES: AccountType[] = ["cash", "checking", "savings", "credit_card", "loan", "investment"];
+
+// En un pasivo el saldo es negativo mientras se deba; el formulario pide la deuda
+// como monto positivo y se guarda con signo contrario
+export const isLiability = (type: AccountType) => type === "credit_card" || type === "loan";
+
+// Cuentas que se ofrecen al registrar movimientos: sin las archivadas, salvo las que
+// ya tiene elegidas el registro que se edita
+export const selectableAccounts = (accounts: Account[], ...keepIds: (string | null | undefined)[]) =>
+  accounts.filter((a) => !a.archived_at || keepIds.includes(a.id));
+
+export interface CreditCardCycle {
+  accountId: string;
+  lastClosing: string;
+  nextClosing: string;
+  paymentDue: string;
+  // Saldo al último corte (negativo = deuda) y lo que hay que pagar de ese estado de cuenta
+  statementBalance: number;
+  amountDue: number;
+  // Consumos desde el último corte, que saldrán en el próximo estado de cuenta
+  cycleCharges: number;
+}
+
+// Fecha con el día pedido, o el último día si el mes es más corto
+const dayInMonth = (year: number, month: number, day: number) =>
+  new Date(year, month, Math.min(day, new Date(year, month + 1, 0).getDate()));
+
+// Último corte (hoy o antes), el siguiente y la fecha de pago del último estado de
+// cuenta. Si el día de pago es anterior o igual al de corte, el pago cae el mes siguiente.
+export const getCycleDates = (statementDay: number, paymentDueDay: number, today = new Date()) => {
+  let lastClosing = dayInMonth(today.getFullYear(), today.getMonth(), statementDay);
+  if (toDateInput(lastClosing) > toDateInput(today)) {
+    lastClosing = dayInMonth(today.getFullYear(), today.getMonth() - 1, statementDay);
+  }
+  const nextClosing = dayInMonth(lastClosing.getFullYear(), lastClosing.getMonth() + 1, statementDay);
+  const paymentDue = dayInMonth(
+    lastClosing.getFullYear(),
+    lastClosing.getMonth() + (paymentDueDay > statementDay ? 0 : 1),
+    paymentDueDay
+  );
+  return { lastClosing: toDateInput(lastClosing), nextClosing: toDateInput(nextClosing), paymentDue: toDateInput(paymentDue) };
+};
+
+// Estado de cuenta de cada tarjeta con día de corte. El saldo al corte es el saldo
+// actual menos lo que se movió después del corte.
+export const fetchCreditCardCycles = async (
+  cards: Account[],
+  balances: Map<string, AccountBalance>
+): Promise<CreditCardCycle[]> => {
+  const withCycle = cards.filter((c) => c.type === "credit_card" && c.statement_day && c.payment_due_day);
+  if (withCycle.length === 0) return [];
+
+  const dates = new Map(withCycle.map((c) => [c.id, getCycleDates(c.statement_day!, c.payment_due_day!)]));
+  const since = [...dates.values()].map((d) => d.lastClosing).sort()[0];
+  const ids = withCycle.map((c) => c.id);
+
+  const [transactionsRes, transfersRes] = await Promise.all([
+    supabase.from("transactions").select("account_id, kind, amount, date").in("account_id", ids).gt("date", since),
+    supabase
+      .from("transfers")
+      .select("from_account_id, to_account_id, amount, to_amount, date")
+      .or(`from_account_id.in.(${ids.join(",")}),to_account_id.in.(${ids.join(",")})`)
+      .gt("date", since),
+  ]);
+  if (transactionsRes.error) throw transactionsRes.error;
+  if (transfersRes.error) throw transfersRes.error;
+
+  return withCycle.map((card) => {
+    const { lastClosing, nextClosing, paymentDue } = dates.get(card.id)!;
+    let movedSinceClosing = 0;
+    let cycleCharges = 0;
+
+    (transactionsRes.data || [])
+      .filter((t) => t.account_id === card.id && t.date > lastClosing)
+      .forEach((t) => {
+        const amount = Number(t.amount);
+        movedSinceClosing += t.kind === "in" ? amount : -amount;
+        if (t.kind === "out") cycleCharges += amount;
+      });
+
+    (transfersRes.data || [])
+      .filter((t) => t.date > lastClosing)
+      .forEach((t) => {
+        if (t.to_account_id === card.id) movedSinceClosing += Number(t.to_amount ?? t.amount);
+        if (t.from_account_id === card.id) {
+          movedSinceClosing -= Number(t.amount);
+          cycleCharges += Number(t.amount);
+        }
+      });
+
+    const statementBalance = (balances.get(card.id)?.balance ?? card.opening_balance) - movedSinceClosing;
+    return {
+      accountId: card.id,
+      lastClosing,
+      nextClosing,
+      paymentDue,
+      statementBalance,
+      amountDue: Math.max(-statementBalance, 0),
+      cycleCharges,
+    };
+  });
+};
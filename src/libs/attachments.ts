@@ -0,0 +1,123 @@
+import { supabase } from "@/supabaseClient";
+import type { Tables } from "@/types/database";
+import { t } from "./i18n";
+
+export const ATTACHMENTS_BUCKET = "attachments";
+// El mismo límite que tiene el bucket (file_size_limit)
+export const MAX_ATTACHMENT_SIZE = 5 * 1024 * 1024;
+export const ACCEPTED_ATTACHMENT_TYPES = ["image/jpeg", "image/png", "image/webp", "application/pdf"];
+
+// Las fotos de recibos se reducen a este lado máximo antes de subirlas
+const MAX_IMAGE_SIDE = 1600;
+const JPEG_QUALITY = 0.8;
+// Las URLs firmadas se piden junto con la lista; una hora alcanza para verlas
+const SIGNED_URL_TTL = 60 * 60;
+
+export type Attachment = Pick<Tables<"transaction_attachments">, "id" | "path" | "file_name" | "mime_type" | "size"> & {
+  url: string | null;
+};
+
+export const isImage = (mimeType: string) => mimeType.startsWith("image/");
+
+const withExtension = (name: string, extension: string) => `${name.replace(/\.[^.]+$/, "")}.${extension}`;
+
+// Redimensiona la imagen y la vuelve a codificar como JPEG. Si el resultado no es
+// más liviano se conserva el archivo original.
+const compressImage = async (file: File) => {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, MAX_IMAGE_SIDE / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  canvas.getContext("2d")?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/jpeg", JPEG_QUALITY));
+  if (!blob || blob.size >= file.size) return file;
+  return new File([blob], withExtension(file.name, "jpg"), { type: "image/jpeg" });
+};
+
+// Valida el tipo, comprime las imágenes y verifica el tamaño final. Los mensajes
+// de error se muestran tal cual al usuario.
+export const prepareAttachment = async (file: File) => {
+  if (!ACCEPTED_ATTACHMENT_TYPES.includes(file.type)) {
+    throw new Error(t("attachments.invalidType", { name: file.name }));
+  }
+  const prepared = isImage(file.type) ? await compressImage(file) : file;
+  if (prepared.size > MAX_ATTACHMENT_SIZE) {
+    throw new Error(t("attachments.tooLarge", { name: file.name, size: MAX_ATTACHMENT_SIZE / 1024 / 1024 }));
+  }
+  return prepared;
+};
+
+export const fetchAttachments = async (transactionId: string): Promise<Attachment[]> => {
+  const { data, error } = await supabase
+    .from("transaction_attachments")
+    .select("id, path, file_name, mime_type, size")
+    .eq("transaction_id", transactionId)
+    .order("created_at", { ascending: true });
+  if (error) throw error;
+  if (!data || data.length === 0) return [];
+
+  const { data: signed, error: signError } = await supabase.storage
+    .from(ATTACHMENTS_BUCKET)
+    .createSignedUrls(data.map((a) => a.path), SIGNED_URL_TTL);
+  if (signError) throw signError;
+
+  const urls = new Map((signed || []).map((s) => [s.path, s.signedUrl]));
+  return data.map((a) => ({ ...a, url: urls.get(a.path) ?? null }));
+};
+
+// Sube los archivos a <wallet_id>/<transaction_id>/ y los registra. Si el registro
+// falla se borran los archivos ya subidos para no dejar huérfanos.
+export const uploadAttachments = async (transactionId: string, walletId: string, files: File[]) => {
+  const uploaded: string[] = [];
+  try {
+    for (const file of files) {
+      const extension = file.name.split(".").pop()?.toLowerCase() || "bin";
+      const path = `${walletId}/${transactionId}/${crypto.randomUUID()}.${extension}`;
+      const { error } = await supabase.storage
+        .from(ATTACHMENTS_BUCKET)
+        .upload(path, file, { contentType: file.type });
+      if (error) throw error;
+      uploaded.push(path);
+    }
+
+    const { error } = await supabase.from("transaction_attachments").insert(
+      files.map((file, index) => ({
+        transaction_id: transactionId,
+        path: uploaded[index],
+        file_name: file.name,
+        mime_type: file.type,
+        size: file.size,
+      }))
+    );
+    if (error) throw error;
+  } catch (err) {
+    if (uploaded.length > 0) await supabase.storage.from(ATTACHMENTS_BUCKET).remove(uploaded);
+    throw err;
+  }
+};
+
+export const deleteAttachment = async (attachment: Pick<Attachment, "id" | "path">) => {
+  const { error } = await supabase.from("transaction_attachments").delete().eq("id", attachment.id);
+  if (error) throw error;
+  await removeAttachmentFiles([attachment.path]);
+};
+
+export const fetchAttachmentPaths = async (transactionId: string) => {
+  const { data, error } = await supabase
+    .from("transaction_attachments")
+    .select("path")
+    .eq("transaction_id", transactionId);
+  if (error) throw error;
+  return (data || []).map((a) => a.path);
+};
+
+// La fila ya no existe: si el archivo no se puede borrar solo queda huérfano en el
+// bucket, así que el error se registra sin interrumpir al usuario
+export const removeAttachmentFiles = async (paths: string[]) => {
+  if (paths.length === 0) return;
+  const { error } = await supabase.storage.from(ATTACHMENTS_BUCKET).remove(paths);
+  if (error) console.error("No se pudieron eliminar los archivos adjuntos:", error);
+};
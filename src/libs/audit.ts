@@ -0,0 +1,66 @@
+import { supabase } from "@/supabaseClient";
+import type { AuditEntry, AuditTable } from "@/types/audit";
+
+// El nombre de cada tabla está en el catálogo (audit.tables.<tabla>)
+export const AUDIT_TABLES: AuditTable[] = ["transactions", "transfers", "accounts", "categories"];
+
+// Columnas que se muestran al comparar versiones; las internas (id, user_id,
+// wallet_id, created_at) se omiten. El nombre de cada una está en audit.fields.<columna>.
+export const AUDIT_FIELDS = [
+  "name", "type", "institution", "currency", "opening_balance", "credit_limit", "statement_day",
+  "payment_due_day", "color", "parent_id", "kind", "amount", "to_amount", "account_id",
+  "from_account_id", "to_account_id", "category_id", "goal_id", "date", "note", "cleared",
+  "reconciliation_id", "from_reconciliation_id", "to_reconciliation_id", "archived_at",
+] as const;
+
+export type AuditField = (typeof AUDIT_FIELDS)[number];
+
+export interface AuditChange {
+  field: AuditField;
+  before: unknown;
+  after: unknown;
+}
+
+export interface AuditFilters {
+  table: AuditTable | "all";
+  // Historial de un solo registro
+  recordId: string | null;
+}
+
+export interface AuditPage {
+  entries: AuditEntry[];
+  totalCount: number;
+}
+
+// Lo que cambió en una entrada: en un alta o una eliminación, los valores que tenía el registro
+export const getChanges = (entry: AuditEntry): AuditChange[] =>
+  AUDIT_FIELDS.filter((field) => {
+    const before = entry.old_data?.[field] ?? null;
+    const after = entry.new_data?.[field] ?? null;
+    return entry.action === "update" ? JSON.stringify(before) !== JSON.stringify(after) : (before ?? after) !== null;
+  }).map((field) => ({ field, before: entry.old_data?.[field] ?? null, after: entry.new_data?.[field] ?? null }));
+
+// La versión que deja cada entrada (la anterior a la eliminación, si se eliminó)
+export const getVersion = (entry: AuditEntry) => entry.new_data ?? entry.old_data ?? {};
+
+// Página del historial de la billetera, del cambio más reciente al más antiguo
+export const fetchAuditPage = async (filters: AuditFilters, page: number, pageSize: number): Promise<AuditPage> => {
+  let query = supabase
+    .from("audit_log")
+    .select("id, created_at, user_id, table_name, record_id, action, old_data, new_data", { count: "exact" })
+    .order("created_at", { ascending: false })
+    .range(page * pageSize, (page + 1) * pageSize - 1);
+
+  if (filters.table !== "all") query = query.eq("table_name", filters.table);
+  if (filters.recordId) query = query.eq("record_id", filters.recordId);
+
+  const { data, error, count } = await query;
+  if (error) throw error;
+
+  return { entries: (data || []) as AuditEntry[], totalCount: count ?? 0 };
+};
+
+export const restoreTransactionVersion = async (auditId: string) => {
+  const { error } = await supabase.rpc("restore_transaction_version", { p_audit_id: auditId });
+  if (error) throw error;
+};
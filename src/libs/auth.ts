@@ -0,0 +1,16 @@
+import { t } from "./i18n";
+
+// Adonde vuelven los enlaces que Supabase envía por correo (confirmación de
+// cuenta, enlace mágico y restablecimiento de contraseña). Deben estar en la
+// lista de Redirect URLs del proyecto.
+export const authRedirectUrl = (path: string) => `${window.location.origin}${path}`;
+
+// Cuando el enlace del correo ya expiró o se usó, Supabase redirige con el
+// error en el fragmento de la URL (#error=...&error_description=...)
+export const readAuthCallbackError = () => {
+  const params = new URLSearchParams(window.location.hash.slice(1));
+  if (!params.get("error")) return null;
+  return params.get("error_code") === "otp_expired"
+    ? t("auth.linkExpired")
+    : params.get("error_description") ?? t("auth.linkFailed");
+};
@@ -0,0 +1,39 @@
+import { supabase } from "@/supabaseClient";
+import { DEFAULT_CURRENCY } from "./currency";
+
+export interface AccountBalance {
+  balance: number;
+  currency: string;
+}
+
+// Saldo actual por cuenta (vista account_balances), indexado por account_id
+export const fetchAccountBalances = async () => {
+  const { data, error } = await supabase
+    .from("account_balances")
+    .select("account_id, current_balance, currency");
+  if (error) throw error;
+
+  return new Map<string, AccountBalance>(
+    // Las columnas de una vista siempre se tipan como nullable
+    (data || []).map((row) => [
+      row.account_id as string,
+      { balance: Number(row.current_balance), currency: row.currency ?? DEFAULT_CURRENCY },
+    ])
+  );
+};
+
+// Suma los saldos convertidos a una sola moneda
+export const sumBalances = (
+  balances: Map<string, AccountBalance>,
+  convert: (amount: number, currency: string) => number
+) => [...balances.values()].reduce((acc, { balance, currency }) => acc + convert(balance, currency), 0);
+
+// Copia del mapa con el saldo de una cuenta movido en `delta` (actualizaciones optimistas)
+export const adjustBalance = (balances: Map<string, AccountBalance>, accountId: string, delta: number) => {
+  const current = balances.get(accountId);
+  if (!current) return balances;
+
+  const next = new Map(balances);
+  next.set(accountId, { ...current, balance: current.balance + delta });
+  return next;
+};
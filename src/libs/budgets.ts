@@ -0,0 +1,77 @@
+import { supabase } from "@/supabaseClient";
+import { convertSummaryRows, fetchMonthlySummary } from "./stats";
+import { createConverter, fetchExchangeRates, getBaseCurrency } from "./currency";
+import { t } from "./i18n";
+
+export interface Budget {
+  id: string;
+  category_id: string;
+  amount: number;
+}
+
+export interface BudgetProgress {
+  budgetId: string;
+  categoryId: string;
+  categoryName: string;
+  color: string | null;
+  // Los presupuestos se definen en la moneda base
+  currency: string;
+  limit: number;
+  spent: number;
+  ratio: number;
+  overBudget: boolean;
+}
+
+// Rango del mes calendario en curso
+export const getCurrentMonthRange = () => {
+  const now = new Date();
+  return {
+    startDate: new Date(now.getFullYear(), now.getMonth(), 1),
+    endDate: new Date(now.getFullYear(), now.getMonth() + 1, 0),
+  };
+};
+
+// Presupuesto vs gasto real del mes en curso. El gasto sale de la misma
+// agregación por categoría que usan el dashboard y Estadísticas, convertido a la
+// moneda base; el gasto en monedas sin tipo de cambio no se cuenta.
+export const fetchBudgetProgress = async (currency = getBaseCurrency()): Promise<BudgetProgress[]> => {
+  const { data: budgets, error } = await supabase
+    .from("budgets")
+    .select("id, category_id, amount, categories(name, color)");
+  if (error) throw error;
+  if (!budgets || budgets.length === 0) return [];
+
+  const { startDate, endDate } = getCurrentMonthRange();
+  const [rows, rates, categoriesRes] = await Promise.all([
+    fetchMonthlySummary(startDate, endDate),
+    fetchExchangeRates(),
+    supabase.from("categories").select("id, parent_id"),
+  ]);
+  if (categoriesRes.error) throw categoriesRes.error;
+  const summary = convertSummaryRows(rows, createConverter(rates, currency).convert);
+
+  // El presupuesto de una categoría principal incluye el gasto de sus subcategorías
+  const parentOf = new Map((categoriesRes.data || []).map((c) => [c.id, c.parent_id]));
+
+  return budgets
+    .map((budget) => {
+      const category = budget.categories;
+      const spent = summary
+        .filter((row) => row.kind === "out" && !!row.category_id
+          && (row.category_id === budget.category_id || parentOf.get(row.category_id) === budget.category_id))
+        .reduce((acc, row) => acc + row.total_amount, 0);
+      const limit = Number(budget.amount);
+      return {
+        budgetId: budget.id,
+        categoryId: budget.category_id,
+        categoryName: category?.name ?? t("budgets.uncategorized"),
+        color: category?.color ?? null,
+        currency,
+        limit,
+        spent,
+        ratio: spent / limit,
+        overBudget: spent > limit,
+      };
+    })
+    .sort((a, b) => b.ratio - a.ratio);
+};
@@ -0,0 +1,41 @@
+import type { Category } from "@/types/category";
+
+// Categorías principales seguidas de sus subcategorías ("Transporte › Gasolina"),
+// para usar directamente como opciones de un <select>. Los nombres de las principales
+// se buscan en `all`, por si la lista filtrada no las incluye (p. ej. si están archivadas).
+export const toCategoryOptions = (categories: Category[], all: Category[] = categories) => {
+  const names = new Map(all.map((c) => [c.id, c.name]));
+
+  return categories
+    .map((c) => ({
+      id: c.id,
+      name: c.parent_id ? `${names.get(c.parent_id) ?? ""} › ${c.name}` : c.name,
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+// Categorías que se ofrecen al registrar movimientos: sin las archivadas, salvo las
+// que ya tiene elegidas el registro que se edita
+export const selectableCategories = (categories: Category[], ...keepIds: (string | null | undefined)[]) =>
+  categories.filter((c) => !c.archived_at || keepIds.includes(c.id));
+
+type CategoryNode = Pick<Category, "id" | "parent_id">;
+
+export const getChildren = <T extends CategoryNode>(categoryId: string, categories: T[]) =>
+  categories.filter((c) => c.parent_id === categoryId);
+
+// La categoría y sus subcategorías: lo que cubre un filtro o un presupuesto del padre
+export const withChildren = (categoryId: string, categories: CategoryNode[]) => [
+  categoryId,
+  ...getChildren(categoryId, categories).map((c) => c.id),
+];
+
+// Filtro .or() de transacciones en `ids`, por su categoría o por alguna de sus líneas
+// divididas (que tienen category_id NULL). La consulta embebe las líneas como
+// matched_splits y las filtra con .in("matched_splits.category_id", ids).
+export const categoryOrSplitsFilter = (ids: string[]) =>
+  `category_id.in.(${ids.join(",")}),matched_splits.not.is.null`;
+
+// Categoría principal en la que se acumula una categoría (ella misma si no tiene padre)
+export const getRootCategoryId = (categoryId: string, categories: Category[]) =>
+  categories.find((c) => c.id === categoryId)?.parent_id ?? categoryId;
@@ -0,0 +1,31 @@
+import { supabase } from "@/supabaseClient";
+import type { Category } from "@/types/category";
+import type { CategoryRule } from "@/types/categoryRule";
+
+// Minúsculas y sin tildes: "Café" y "CAFE" se comparan igual
+export const normalizeText = (text: string) =>
+  text.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase().trim();
+
+// La regla que aplica a una nota. Se descartan las reglas cuya categoría es del
+// otro tipo; si varias coinciden gana el patrón más largo, que es el más específico.
+export const findMatchingRule = (
+  rules: CategoryRule[],
+  note: string | null | undefined,
+  type: Category["type"],
+  categories: Category[]
+) => {
+  const normalized = normalizeText(note || "");
+  if (normalized === "") return undefined;
+
+  return rules
+    .filter((rule) => normalized.includes(normalizeText(rule.pattern)))
+    .filter((rule) => !rule.category_id || categories.find((c) => c.id === rule.category_id)?.type === type)
+    .sort((a, b) => normalizeText(b.pattern).length - normalizeText(a.pattern).length)[0];
+};
+
+// Categoría sugerida a partir de las notas anteriores (ver suggest_category)
+export const fetchCategorySuggestion = async (note: string, kind: "in" | "out") => {
+  const { data, error } = await supabase.rpc("suggest_category", { p_note: note, p_kind: kind });
+  if (error) throw error;
+  return data ?? null;
+};
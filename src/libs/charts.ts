@@ -0,0 +1,2 @@
+// Paleta compartida por todas las gráficas de recharts
+export const CHART_COLORS = ["#6366F1", "#EC4899", "#10B981", "#F59E0B", "#8B5CF6", "#EF4444"];
@@ -0,0 +1,65 @@
+// Lector/escritor CSV mínimo (RFC 4180): comillas dobles, comillas escapadas
+// ("") y saltos de línea dentro de campos entre comillas.
+
+// Adivina el separador mirando la primera línea: los bancos locales usan `;` a menudo
+export const detectDelimiter = (text: string) => {
+  const firstLine = text.split(/\r?\n/, 1)[0] || "";
+  const candidates = [",", ";", "\t"];
+  return candidates.reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+};
+
+export const parseCsv = (text: string, delimiter = detectDelimiter(text)): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  // Quita el BOM que agregan algunas exportaciones de Excel
+  const input = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Descarta líneas vacías (por ejemplo, el salto de línea final)
+  return rows.filter((r) => r.some((value) => value.trim() !== ""));
+};
+
+const escapeField = (value: string, delimiter: string) =>
+  /["\r\n]/.test(value) || value.includes(delimiter) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const toCsv = (rows: (string | number | null | undefined)[][], delimiter = ",") =>
+  rows
+    .map((row) => row.map((value) => escapeField(value == null ? "" : String(value), delimiter)).join(delimiter))
+    .join("\r\n");
@@ -0,0 +1,150 @@
+import { supabase } from "@/supabaseClient";
+import { transactionSchema, type TransactionFormInputs } from "./schemas";
+import { findMatchingRule } from "./categoryRules";
+import { t } from "./i18n";
+import type { Category } from "@/types/category";
+import type { CategoryRule } from "@/types/categoryRule";
+
+export type DateFormat = "YYYY-MM-DD" | "DD/MM/YYYY" | "MM/DD/YYYY";
+
+// Índices de columna del archivo; -1 significa "sin asignar"
+export interface ColumnMapping {
+  amount: number;
+  date: number;
+  note: number;
+  sign: number;
+}
+
+export interface ImportOptions {
+  accountId: string;
+  incomeCategoryId: string;
+  expenseCategoryId: string;
+  dateFormat: DateFormat;
+  // Las reglas del usuario eligen la categoría de cada fila; la cuenta es la del archivo
+  rules: CategoryRule[];
+  categories: Category[];
+}
+
+export interface ImportRow {
+  line: number;
+  kind: "in" | "out";
+  data: TransactionFormInputs | null;
+  errors: string[];
+  duplicate: boolean;
+  // La categoría la eligió una regla y no la categoría por defecto
+  ruleApplied: boolean;
+}
+
+// Valores de la columna de signo que indican un ingreso (crédito/abono)
+const INCOME_SIGNS = ["+", "c", "cr", "credit", "credito", "crédito", "abono", "ingreso", "in"];
+
+// Convierte "Q1,234.50", "-45.00" o "(45.00)" a número con signo
+export const parseAmount = (raw: string) => {
+  const value = raw.trim();
+  const negative = value.startsWith("-") || (value.startsWith("(") && value.endsWith(")"));
+  const cleaned = value.replace(/[^0-9.]/g, "");
+  if (cleaned === "") return NaN;
+  const amount = Number(cleaned);
+  return negative ? -amount : amount;
+};
+
+// Normaliza la fecha del banco a YYYY-MM-DD; devuelve "" si no se puede interpretar
+export const parseDate = (raw: string, format: DateFormat) => {
+  const parts = raw.trim().split(/[-/.\s]/).filter(Boolean);
+  if (parts.length < 3) return "";
+
+  const [year, month, day] =
+    format === "YYYY-MM-DD" ? [parts[0], parts[1], parts[2]]
+    : format === "DD/MM/YYYY" ? [parts[2], parts[1], parts[0]]
+    : [parts[2], parts[0], parts[1]];
+
+  const fullYear = year.length === 2 ? `20${year}` : year;
+  const iso = `${fullYear}-${month.padStart(2, "0")}-${day.padStart(2, "0")}`;
+  const parsed = new Date(`${iso}T00:00:00`);
+  return isNaN(parsed.getTime()) || parsed.toISOString().substring(0, 10) !== iso ? "" : iso;
+};
+
+const normalizeNote = (note?: string | null) => (note || "").trim().toLowerCase().replace(/\s+/g, " ");
+
+const duplicateKey = (kind: string, date: string, amount: number, note?: string | null) =>
+  `${kind}|${date}|${Number(amount).toFixed(2)}|${normalizeNote(note)}`;
+
+// Interpreta cada línea con el mapeo de columnas y la valida con transactionSchema.
+// Una línea inválida no detiene el lote: se reporta con sus propios errores.
+export const buildImportRows = (
+  rows: string[][],
+  mapping: ColumnMapping,
+  options: ImportOptions,
+  firstLine: number
+): ImportRow[] =>
+  rows.map((cells, index) => {
+    const line = firstLine + index;
+    const cell = (column: number) => (column >= 0 ? (cells[column] ?? "").trim() : "");
+
+    const signedAmount = parseAmount(cell(mapping.amount));
+    const signValue = cell(mapping.sign).toLowerCase();
+    const kind: "in" | "out" =
+      mapping.sign >= 0 ? (INCOME_SIGNS.includes(signValue) ? "in" : "out")
+      : signedAmount < 0 ? "out" : "in";
+
+    const date = parseDate(cell(mapping.date), options.dateFormat);
+    const note = cell(mapping.note);
+    const rule = findMatchingRule(options.rules, note, kind === "in" ? "income" : "expense", options.categories);
+    const candidate = {
+      amount: isNaN(signedAmount) ? cell(mapping.amount) : Math.abs(signedAmount),
+      account_id: options.accountId,
+      category_id: rule?.category_id ?? (kind === "in" ? options.incomeCategoryId : options.expenseCategoryId),
+      date,
+      note: note || undefined,
+    };
+
+    const result = transactionSchema.safeParse(candidate);
+    const errors = result.success ? [] : result.error.issues.map((issue) => issue.message);
+    if (cell(mapping.date) !== "" && date === "") {
+      errors.push(t("import.unrecognizedDate", { value: cell(mapping.date) }));
+    }
+
+    return {
+      line,
+      kind,
+      data: result.success && errors.length === 0 ? result.data : null,
+      errors,
+      duplicate: false,
+      ruleApplied: !!rule?.category_id,
+    };
+  });
+
+// Marca como probable duplicado cada fila cuyo monto, fecha y nota ya existen en
+// la cuenta, o que se repite dentro del mismo archivo.
+export const flagDuplicates = async (rows: ImportRow[], accountId: string) => {
+  const valid = rows.filter((r) => r.data);
+  if (valid.length === 0) return rows;
+
+  const dates = valid.map((r) => r.data!.date).sort();
+  const { data: existing, error } = await supabase
+    .from("transactions")
+    .select("amount, date, note, kind")
+    .eq("account_id", accountId)
+    .gte("date", dates[0])
+    .lte("date", dates[dates.length - 1]);
+  if (error) throw error;
+
+  const seen = new Set((existing || []).map((t) => duplicateKey(t.kind, t.date, t.amount, t.note)));
+
+  return rows.map((row) => {
+    if (!row.data) return row;
+    const key = duplicateKey(row.kind, row.data.date, row.data.amount, row.data.note);
+    const duplicate = seen.has(key);
+    seen.add(key);
+    return { ...row, duplicate };
+  });
+};
+
+// Inserta las filas seleccionadas en un solo insert
+export const insertImportRows = async (rows: ImportRow[], userId: string) => {
+  const payload = rows.flatMap((r) => (r.data ? [{ ...r.data, kind: r.kind, user_id: userId }] : []));
+
+  const { error } = await supabase.from("transactions").insert(payload);
+  if (error) throw error;
+  return payload.length;
+};
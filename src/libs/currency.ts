@@ -0,0 +1,79 @@
+import { supabase } from "@/supabaseClient";
+
+export const CURRENCIES = ["GTQ", "USD", "EUR", "MXN"] as const;
+export const DEFAULT_CURRENCY = "GTQ";
+
+export interface ExchangeRate {
+  id: string;
+  from_currency: string;
+  to_currency: string;
+  rate: number;
+}
+
+// Moneda principal del usuario: la de los totales convertidos y la de los montos sin
+// cuenta asociada. Se elige en Configuración o en el inicio.
+const BASE_CURRENCY_KEY = "walletgt.baseCurrency";
+
+export const getBaseCurrency = () => localStorage.getItem(BASE_CURRENCY_KEY) || DEFAULT_CURRENCY;
+
+export const setBaseCurrency = (currency: string) => localStorage.setItem(BASE_CURRENCY_KEY, currency);
+
+export const fetchExchangeRates = async () => {
+  const { data, error } = await supabase
+    .from("exchange_rates")
+    .select("id, from_currency, to_currency, rate")
+    .order("from_currency");
+  if (error) throw error;
+  return (data || []).map((r) => ({ ...r, rate: Number(r.rate) })) as ExchangeRate[];
+};
+
+// Factor para convertir 1 `from` a `to`: tasa directa, inversa o a través de
+// una moneda intermedia. null si no hay forma de convertir.
+export const findRate = (rates: ExchangeRate[], from: string, to: string): number | null => {
+  if (from === to) return 1;
+
+  const direct = (a: string, b: string) => {
+    const found = rates.find((r) => r.from_currency === a && r.to_currency === b);
+    if (found) return found.rate;
+    const inverse = rates.find((r) => r.from_currency === b && r.to_currency === a);
+    return inverse ? 1 / inverse.rate : null;
+  };
+
+  const rate = direct(from, to);
+  if (rate !== null) return rate;
+
+  const intermediates = new Set(rates.flatMap((r) => [r.from_currency, r.to_currency]));
+  for (const via of intermediates) {
+    const first = direct(from, via);
+    const second = direct(via, to);
+    if (first !== null && second !== null) return first * second;
+  }
+  return null;
+};
+
+// Convierte montos a la moneda base; anota las monedas sin tipo de cambio
+export const createConverter = (rates: ExchangeRate[], base: string) => {
+  const missing = new Set<string>();
+  const convert = (amount: number, currency: string) => {
+    const rate = findRate(rates, currency, base);
+    if (rate === null) {
+      missing.add(currency);
+      return 0;
+    }
+    return amount * rate;
+  };
+  return { convert, missing };
+};
+
+// Cuánto vale 1 unidad de cada moneda en la moneda base, para los totales que se
+// convierten en el servidor. Las monedas sin tipo de cambio quedan en `missing`.
+export const getRatesToBase = (rates: ExchangeRate[], currencies: string[], base: string) => {
+  const factors: Record<string, number> = {};
+  const missing = new Set<string>();
+  currencies.forEach((currency) => {
+    const rate = findRate(rates, currency, base);
+    if (rate === null) missing.add(currency);
+    else factors[currency] = rate;
+  });
+  return { factors, missing };
+};
@@ -0,0 +1,257 @@
+import { supabase } from "@/supabaseClient";
+import type { Tables } from "@/types/database";
+import { toCsv } from "./csv";
+import { getPeriodRange, toDateInput, type Period } from "./periods";
+import { categoryOrSplitsFilter, withChildren } from "./categories";
+
+export type ExportFormat = "csv" | "json" | "ofx";
+
+export interface ExportFilters {
+  period: Period;
+  categoryId: string;
+}
+
+export interface ExportSplit {
+  category: string;
+  amount: number;
+}
+
+export interface ExportTransaction {
+  id: string;
+  kind: "in" | "out";
+  date: string;
+  amount: number;
+  currency: string;
+  account: string;
+  // En una transacción dividida, las categorías de sus líneas
+  category: string;
+  note: string;
+  splits: ExportSplit[];
+}
+
+export interface ExportTransfer {
+  id: string;
+  date: string;
+  amount: number;
+  currency: string;
+  // Lo que recibe la cuenta destino, en su moneda (igual a amount si es la misma)
+  to_amount: number;
+  to_currency: string;
+  from_account: string;
+  to_account: string;
+  note: string;
+}
+
+export interface ExportData {
+  startDate: string;
+  endDate: string;
+  transactions: ExportTransaction[];
+  transfers: ExportTransfer[];
+}
+
+// Carga transactions y transfers con los mismos filtros del dashboard y
+// resuelve los nombres y monedas de las cuentas y los nombres de las categorías.
+// Una categoría principal incluye sus subcategorías, y una transacción dividida
+// entra si alguna de sus líneas es de la categoría.
+export const fetchExportData = async ({ period, categoryId }: ExportFilters): Promise<ExportData> => {
+  const { startDate, endDate } = getPeriodRange(period);
+
+  const [accountsRes, categoriesRes] = await Promise.all([
+    supabase.from("accounts").select("id, name, currency"),
+    supabase.from("categories").select("id, name, parent_id"),
+  ]);
+  if (accountsRes.error) throw accountsRes.error;
+  if (categoriesRes.error) throw categoriesRes.error;
+
+  const accounts = new Map((accountsRes.data || []).map((a) => [a.id, a]));
+  const categoryNames = new Map<string, string>((categoriesRes.data || []).map((c) => [c.id, c.name]));
+  const categoryName = (id: string | null) => (id && categoryNames.get(id)) ?? "";
+
+  let transactionsQuery = supabase
+    .from("transactions")
+    .select("id, kind, date, amount, account_id, category_id, note, transaction_splits(category_id, amount), matched_splits:transaction_splits(id)")
+    .gte("date", toDateInput(startDate))
+    .lte("date", toDateInput(endDate));
+  if (categoryId !== "all") {
+    const ids = withChildren(categoryId, categoriesRes.data || []);
+    transactionsQuery = transactionsQuery.in("matched_splits.category_id", ids).or(categoryOrSplitsFilter(ids));
+  }
+  const { data: transactionsData, error: transactionsError } = await transactionsQuery.order("date");
+  if (transactionsError) throw transactionsError;
+
+  // Las transferencias no tienen categoría: solo se exportan sin filtro de categoría
+  let transfersData: Pick<Tables<"transfers">, "id" | "date" | "amount" | "to_amount" | "from_account_id" | "to_account_id" | "note">[] = [];
+  if (categoryId === "all") {
+    const { data, error } = await supabase
+      .from("transfers")
+      .select("id, date, amount, to_amount, from_account_id, to_account_id, note")
+      .gte("date", toDateInput(startDate))
+      .lte("date", toDateInput(endDate))
+      .order("date");
+    if (error) throw error;
+    transfersData = data || [];
+  }
+
+  return {
+    startDate: toDateInput(startDate),
+    endDate: toDateInput(endDate),
+    transactions: (transactionsData || []).map((t) => {
+      const splits = t.transaction_splits.map((line) => ({
+        category: categoryName(line.category_id),
+        amount: Number(line.amount),
+      }));
+      return {
+        id: t.id,
+        kind: t.kind as ExportTransaction["kind"],
+        date: t.date,
+        amount: Number(t.amount),
+        currency: accounts.get(t.account_id)?.currency ?? "",
+        account: accounts.get(t.account_id)?.name ?? "",
+        category: splits.length > 0 ? splits.map((line) => line.category).join(", ") : categoryName(t.category_id),
+        note: t.note ?? "",
+        splits,
+      };
+    }),
+    transfers: transfersData.map((t) => ({
+      id: t.id,
+      date: t.date,
+      amount: Number(t.amount),
+      currency: accounts.get(t.from_account_id)?.currency ?? "",
+      to_amount: Number(t.to_amount ?? t.amount),
+      to_currency: accounts.get(t.to_account_id)?.currency ?? "",
+      from_account: accounts.get(t.from_account_id)?.name ?? "",
+      to_account: accounts.get(t.to_account_id)?.name ?? "",
+      note: t.note ?? "",
+    })),
+  };
+};
+
+// Una transacción dividida ocupa una fila por línea, con su categoría y su monto
+export const toCsvExport = (data: ExportData) =>
+  toCsv([
+    ["tipo", "fecha", "monto", "moneda", "cuenta", "cuenta_destino", "monto_destino", "moneda_destino", "categoria", "nota"],
+    ...data.transactions.flatMap((t) =>
+      (t.splits.length > 0 ? t.splits : [{ category: t.category, amount: t.amount }]).map((line) => [
+        t.kind === "in" ? "ingreso" : "gasto", t.date, line.amount.toFixed(2), t.currency, t.account, "", "", "", line.category, t.note,
+      ])
+    ),
+    ...data.transfers.map((t) => [
+      "transferencia", t.date, t.amount.toFixed(2), t.currency, t.from_account, t.to_account, t.to_amount.toFixed(2), t.to_currency, "", t.note,
+    ]),
+  ]);
+
+export const toJsonExport = (data: ExportData) =>
+  JSON.stringify(
+    {
+      exported_at: new Date().toISOString(),
+      start_date: data.startDate,
+      end_date: data.endDate,
+      transactions: data.transactions,
+      transfers: data.transfers,
+    },
+    null,
+    2
+  );
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+const ofxDate = (date: string) => date.replace(/-/g, "").substring(0, 8);
+
+interface OfxLine {
+  id: string;
+  type: "CREDIT" | "DEBIT" | "XFER";
+  date: string;
+  amount: number;
+  name: string;
+  memo: string;
+}
+
+// OFX 2 (XML) con un estado de cuenta por cada cuenta, en su moneda. Una transferencia
+// aparece en ambas cuentas: negativa en el origen y positiva (to_amount) en el destino.
+export const toOfxExport = (data: ExportData) => {
+  const byAccount = new Map<string, OfxLine[]>();
+  const currencies = new Map<string, string>();
+  const push = (account: string, currency: string, line: OfxLine) => {
+    byAccount.set(account, [...(byAccount.get(account) || []), line]);
+    currencies.set(account, currency);
+  };
+
+  data.transactions.forEach((t) =>
+    push(t.account, t.currency, {
+      id: t.id,
+      type: t.kind === "in" ? "CREDIT" : "DEBIT",
+      date: t.date,
+      amount: t.kind === "in" ? t.amount : -t.amount,
+      name: t.category,
+      memo: t.note,
+    })
+  );
+  data.transfers.forEach((t) => {
+    push(t.from_account, t.currency, { id: `${t.id}-out`, type: "XFER", date: t.date, amount: -t.amount, name: `Transferencia a ${t.to_account}`, memo: t.note });
+    push(t.to_account, t.to_currency, { id: `${t.id}-in`, type: "XFER", date: t.date, amount: t.to_amount, name: `Transferencia desde ${t.from_account}`, memo: t.note });
+  });
+
+  const statements = [...byAccount.entries()].map(([account, lines]) => `
+    <STMTTRNRS>
+      <TRNUID>${escapeXml(account)}</TRNUID>
+      <STATUS><CODE>0</CODE><SEVERITY>INFO</SEVERITY></STATUS>
+      <STMTRS>
+        <CURDEF>${currencies.get(account)}</CURDEF>
+        <BANKACCTFROM>
+          <BANKID>WALLETGT</BANKID>
+          <ACCTID>${escapeXml(account)}</ACCTID>
+          <ACCTTYPE>CHECKING</ACCTTYPE>
+        </BANKACCTFROM>
+        <BANKTRANLIST>
+          <DTSTART>${ofxDate(data.startDate)}</DTSTART>
+          <DTEND>${ofxDate(data.endDate)}</DTEND>${lines.map((line) => `
+          <STMTTRN>
+            <TRNTYPE>${line.type}</TRNTYPE>
+            <DTPOSTED>${ofxDate(line.date)}</DTPOSTED>
+            <TRNAMT>${line.amount.toFixed(2)}</TRNAMT>
+            <FITID>${line.id}</FITID>
+            <NAME>${escapeXml(line.name.substring(0, 32))}</NAME>${line.memo ? `
+            <MEMO>${escapeXml(line.memo)}</MEMO>` : ""}
+          </STMTTRN>`).join("")}
+        </BANKTRANLIST>
+      </STMTRS>
+    </STMTTRNRS>`).join("");
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="no"?>
+<?OFX OFXHEADER="200" VERSION="211" SECURITY="NONE" OLDFILEUID="NONE" NEWFILEUID="NONE"?>
+<OFX>
+  <SIGNONMSGSRSV1>
+    <SONRS>
+      <STATUS><CODE>0</CODE><SEVERITY>INFO</SEVERITY></STATUS>
+      <DTSERVER>${ofxDate(toDateInput(new Date()))}</DTSERVER>
+      <LANGUAGE>SPA</LANGUAGE>
+    </SONRS>
+  </SIGNONMSGSRSV1>
+  <BANKMSGSRSV1>${statements}
+  </BANKMSGSRSV1>
+</OFX>
+`;
+};
+
+const EXPORTERS: Record<ExportFormat, { serialize: (data: ExportData) => string; mime: string }> = {
+  csv: { serialize: toCsvExport, mime: "text/csv;charset=utf-8" },
+  json: { serialize: toJsonExport, mime: "application/json" },
+  ofx: { serialize: toOfxExport, mime: "application/x-ofx" },
+};
+
+const downloadFile = (content: string, fileName: string, mime: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mime }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Firefox y Safari cancelan la descarga si la URL se revoca en el mismo tick del clic
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const exportRecords = async (format: ExportFormat, filters: ExportFilters) => {
+  const data = await fetchExportData(filters);
+  const { serialize, mime } = EXPORTERS[format];
+  downloadFile(serialize(data), `walletgt-${data.startDate}-${data.endDate}.${format}`, mime);
+};
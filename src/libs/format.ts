@@ -0,0 +1,37 @@
+import { getLocale } from "./i18n";
+import { getBaseCurrency } from "./currency";
+
+// Formato de montos, fechas y porcentajes según el idioma elegido en Configuración.
+// Sin moneda explícita se usa la moneda principal del usuario.
+
+// Monto con el símbolo de su moneda (Q1,234.50, US$1,234.50...)
+export const formatMoney = (amount: number, currency: string = getBaseCurrency()) =>
+  amount.toLocaleString(getLocale(), {
+    style: "currency",
+    currency,
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+
+// Las fechas sin hora ("2026-10-19") se leen en la zona local: new Date("2026-10-19")
+// sería medianoche UTC y en Guatemala mostraría el día anterior
+const toDate = (value: string | Date) =>
+  value instanceof Date ? value : new Date(/^\d{4}-\d{2}-\d{2}$/.test(value) ? `${value}T00:00:00` : value);
+
+export const formatDate = (value: string | Date, options?: Intl.DateTimeFormatOptions) =>
+  toDate(value).toLocaleDateString(getLocale(), options);
+
+// Fecha y hora de un cambio en el historial
+export const formatDateTime = (value: string | Date) =>
+  toDate(value).toLocaleString(getLocale(), { dateStyle: "medium", timeStyle: "short" });
+
+// Mes abreviado para los ejes de las gráficas (oct 26, Oct 26)
+export const formatMonth = (value: string | Date) => formatDate(value, { month: "short", year: "2-digit" });
+
+// Recibe una fracción: 0.125 -> 12.5 %
+export const formatPercent = (value: number, fractionDigits = 0) =>
+  value.toLocaleString(getLocale(), {
+    style: "percent",
+    minimumFractionDigits: fractionDigits,
+    maximumFractionDigits: fractionDigits,
+  });
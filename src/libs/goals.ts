@@ -0,0 +1,67 @@
+import { supabase } from "@/supabaseClient";
+import { DEFAULT_CURRENCY } from "./currency";
+import { fromDateInput } from "./periods";
+import type { Goal, GoalSource } from "@/types/goal";
+
+export interface GoalProgress extends Goal {
+  saved: number;
+  remaining: number;
+  ratio: number;
+  // Aportes mensuales que quedan antes de la fecha límite, contando el mes en curso
+  monthsLeft: number;
+  monthlyRequired: number;
+  completed: boolean;
+  overdue: boolean;
+}
+
+// El nombre de cada forma de medir el avance está en el catálogo (goalSources.<origen>)
+export const GOAL_SOURCES: GoalSource[] = ["account", "transfers"];
+
+// Meses con aporte entre hoy y la fecha límite: del 19 de octubre al 31 de octubre
+// queda 1, al 10 de noviembre también 1, al 25 de noviembre 2.
+export const monthsUntil = (deadline: string, today = new Date()) => {
+  const end = fromDateInput(deadline);
+  const months = (end.getFullYear() - today.getFullYear()) * 12 + (end.getMonth() - today.getMonth())
+    + (end.getDate() >= today.getDate() ? 1 : 0);
+  return Math.max(months, 0);
+};
+
+export const buildGoalProgress = (goal: Goal, saved: number): GoalProgress => {
+  const remaining = Math.max(goal.target_amount - saved, 0);
+  const monthsLeft = monthsUntil(goal.deadline);
+  return {
+    ...goal,
+    saved,
+    remaining,
+    ratio: saved / goal.target_amount,
+    monthsLeft,
+    // Con la fecha vencida, lo que falta se necesita de una vez
+    monthlyRequired: remaining / Math.max(monthsLeft, 1),
+    completed: remaining === 0,
+    overdue: remaining > 0 && monthsLeft === 0,
+  };
+};
+
+// Avance de todas las metas, las más próximas a vencer primero
+export const fetchGoalProgress = async (): Promise<GoalProgress[]> => {
+  const { data, error } = await supabase
+    .from("goal_progress")
+    .select("*")
+    .order("deadline", { ascending: true });
+  if (error) throw error;
+
+  return (data || []).map((row) =>
+    buildGoalProgress(
+      {
+        id: row.goal_id as string,
+        name: row.name ?? "",
+        target_amount: Number(row.target_amount),
+        deadline: row.deadline as string,
+        source: row.source as GoalSource,
+        account_id: row.account_id,
+        currency: row.currency ?? DEFAULT_CURRENCY,
+      },
+      Number(row.saved_amount ?? 0)
+    )
+  );
+};
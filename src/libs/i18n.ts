@@ -0,0 +1,59 @@
+import esGT from "@/locales/es-GT";
+import enUS from "@/locales/en-US";
+
+export const LOCALES = ["es-GT", "en-US"] as const;
+export type Locale = (typeof LOCALES)[number];
+export const DEFAULT_LOCALE: Locale = "es-GT";
+
+// Cada idioma se nombra en su propio idioma
+export const LOCALE_NAMES: Record<Locale, string> = {
+  "es-GT": "Español (Guatemala)",
+  "en-US": "English (United States)",
+};
+
+// El catálogo en español es la referencia: los demás deben tener las mismas claves
+export type Messages<T> = { [K in keyof T]: T[K] extends string ? string : Messages<T[K]> };
+
+// Rutas "seccion.clave" hacia cada texto del catálogo
+type Leaves<T, P extends string = ""> = {
+  [K in keyof T & string]: T[K] extends string ? `${P}${K}` : Leaves<T[K], `${P}${K}.`>;
+}[keyof T & string];
+
+export type TranslationKey = Leaves<typeof esGT>;
+
+const CATALOGS: Record<Locale, Messages<typeof esGT>> = {
+  "es-GT": esGT,
+  "en-US": enUS,
+};
+
+const LOCALE_KEY = "walletgt.locale";
+
+const isLocale = (value: string | null): value is Locale => LOCALES.includes(value as Locale);
+
+const storedLocale = localStorage.getItem(LOCALE_KEY);
+let currentLocale: Locale = isLocale(storedLocale) ? storedLocale : DEFAULT_LOCALE;
+
+export const getLocale = () => currentLocale;
+
+// Solo la usa LocaleProvider, que vuelve a montar la app con el idioma nuevo
+export const setLocale = (locale: Locale) => {
+  currentLocale = locale;
+  localStorage.setItem(LOCALE_KEY, locale);
+  document.documentElement.lang = locale;
+};
+
+const lookup = (locale: Locale, key: string) =>
+  key.split(".").reduce<unknown>((node, part) => (node as Record<string, unknown> | undefined)?.[part], CATALOGS[locale]);
+
+// Texto del catálogo en el idioma actual; {nombre} se reemplaza con params.nombre
+export const t = (key: TranslationKey, params?: Record<string, string | number>) => {
+  const text = lookup(currentLocale, key) ?? lookup(DEFAULT_LOCALE, key);
+  if (typeof text !== "string") return key;
+  if (!params) return text;
+  return text.replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match));
+};
+
+// Los esquemas de zod llevan claves del catálogo como mensaje; los errores que no
+// son claves (los que vienen de Supabase, por ejemplo) se muestran tal cual
+export const translateMessage = (message?: string) =>
+  message && typeof lookup(DEFAULT_LOCALE, message) === "string" ? t(message as TranslationKey) : message;
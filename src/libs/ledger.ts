@@ -0,0 +1,86 @@
+import { supabase } from "@/supabaseClient";
+
+export type LedgerKind = "in" | "out" | "transfer";
+export type LedgerSortBy = "date" | "amount";
+export type SortDir = "asc" | "desc";
+
+export interface LedgerEntry {
+  id: string;
+  entry_type: "transaction" | "transfer";
+  kind: LedgerKind;
+  amount: number;
+  signed_amount: number;
+  // Moneda del monto: la de la cuenta (la destino si se filtra por ella)
+  currency: string;
+  date: string;
+  note: string | null;
+  account_id: string | null;
+  account_name: string | null;
+  to_account_id: string | null;
+  to_account_name: string | null;
+  category_id: string | null;
+  category_name: string | null;
+  // Transacción dividida en varias categorías (category_name queda en null)
+  split: boolean;
+  created_at: string;
+  running_total: number;
+  total_in: number;
+  total_out: number;
+  total_count: number;
+}
+
+export interface LedgerFilters {
+  startDate: string;
+  endDate: string;
+  accountId: string;
+  categoryId: string;
+  kind: LedgerKind | "all";
+}
+
+export interface LedgerPage {
+  entries: LedgerEntry[];
+  totalCount: number;
+  totalIn: number;
+  totalOut: number;
+}
+
+// Obtiene una página del libro de registros (transactions + transfers) desde el RPC.
+// Sin cuenta filtrada, el saldo acumulado y los totales se convierten a la moneda
+// base con `rates` (moneda -> valor de 1 unidad en la moneda base).
+export const fetchLedgerPage = async (
+  filters: LedgerFilters,
+  sortBy: LedgerSortBy,
+  sortDir: SortDir,
+  page: number,
+  pageSize: number,
+  rates: Record<string, number>
+): Promise<LedgerPage> => {
+  const { data, error } = await supabase.rpc("get_ledger_entries", {
+    p_start_date: filters.startDate || undefined,
+    p_end_date: filters.endDate || undefined,
+    p_account_id: filters.accountId === "all" ? undefined : filters.accountId,
+    p_category_id: filters.categoryId === "all" ? undefined : filters.categoryId,
+    p_kind: filters.kind === "all" ? undefined : filters.kind,
+    p_sort_by: sortBy,
+    p_sort_dir: sortDir,
+    p_limit: pageSize,
+    p_offset: page * pageSize,
+    p_rates: rates,
+  });
+  if (error) throw error;
+
+  const entries = ((data || []) as LedgerEntry[]).map((e) => ({
+    ...e,
+    amount: Number(e.amount),
+    signed_amount: Number(e.signed_amount),
+    running_total: Number(e.running_total),
+  }));
+  const first = entries[0];
+
+  return {
+    entries,
+    totalCount: first ? Number(first.total_count) : 0,
+    totalIn: first ? Number(first.total_in) : 0,
+    totalOut: first ? Number(first.total_out) : 0,
+  };
+};
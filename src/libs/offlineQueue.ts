@@ -0,0 +1,54 @@
+import type { NewTransaction, NewTransfer } from "./records";
+
+// Registros capturados sin conexión. Viven en IndexedDB hasta que se sincronizan;
+// el id del registro lo genera el cliente, así que reenviarlos no duplica nada.
+// La base es del navegador: cada usuario ve y sincroniza solo sus registros, y cada
+// registro se guarda en la billetera en la que se capturó.
+export type QueuedRecord = (
+  | ({ type: "transaction" } & NewTransaction)
+  | ({ type: "transfer" } & NewTransfer)
+) & {
+  queuedAt: string;
+  // Último error al sincronizar que no fue de red (p. ej. la cuenta ya no existe)
+  lastError?: string;
+};
+
+const DB_NAME = "walletgt";
+const STORE = "pending-records";
+
+const openDb = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 2);
+    request.onupgradeneeded = (event) => {
+      const store = event.oldVersion < 1
+        ? request.result.createObjectStore(STORE, { keyPath: "id" })
+        : request.transaction!.objectStore(STORE);
+      if (event.oldVersion < 2) store.createIndex("userId", "userId");
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(STORE, mode).objectStore(STORE));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+// put: agregar un registro o reemplazar el que ya está en cola con el mismo id
+export const enqueueRecord = (record: QueuedRecord) => withStore("readwrite", (store) => store.put(record));
+
+export const removeQueuedRecord = (id: string) => withStore("readwrite", (store) => store.delete(id));
+
+// Los del usuario, en el orden en que se capturaron
+export const listQueuedRecords = async (userId: string) => {
+  const records = await withStore<QueuedRecord[]>("readonly", (store) => store.index("userId").getAll(userId));
+  return records.sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+};
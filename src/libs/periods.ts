@@ -0,0 +1,96 @@
+// Periodos móviles (últimos N días), de calendario o un rango libre
+export type PeriodPreset = "7" | "30" | "90" | "365" | "this-month" | "last-month" | "ytd";
+
+// Rango libre con fechas YYYY-MM-DD, ambas incluidas
+export interface CustomPeriod {
+  from: string;
+  to: string;
+}
+
+export type Period = PeriodPreset | CustomPeriod;
+
+// El nombre de cada periodo está en el catálogo (periods.<periodo>)
+export const PERIOD_PRESETS: PeriodPreset[] = ["7", "30", "90", "365", "this-month", "last-month", "ytd"];
+
+// Contra qué se compara un periodo; da el texto "vs mes anterior" del catálogo
+export type PeriodComparison = "month" | "year" | "period";
+
+// Fecha en formato YYYY-MM-DD, como la guardan los inputs type="date". Se usa la
+// fecha local: con toISOString el día cambia según la zona horaria.
+export const toDateInput = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+
+// Inicio del día local de una fecha YYYY-MM-DD
+export const fromDateInput = (value: string) => new Date(`${value}T00:00:00`);
+
+const endOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate(), 23, 59, 59, 999);
+
+const addDays = (date: Date, days: number) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+// Día del mes recortado al largo del mes (31 de marzo -> 30 de abril)
+const sameDayInMonth = (year: number, month: number, day: number) =>
+  new Date(year, month, Math.min(day, new Date(year, month + 1, 0).getDate()));
+
+// Rango [inicio, fin] del periodo
+export const getPeriodRange = (period: Period) => {
+  const now = new Date();
+
+  if (typeof period !== "string") {
+    return { startDate: fromDateInput(period.from), endDate: endOfDay(fromDateInput(period.to)) };
+  }
+
+  switch (period) {
+    case "this-month":
+      return { startDate: new Date(now.getFullYear(), now.getMonth(), 1), endDate: now };
+    case "last-month":
+      return {
+        startDate: new Date(now.getFullYear(), now.getMonth() - 1, 1),
+        endDate: endOfDay(new Date(now.getFullYear(), now.getMonth(), 0)),
+      };
+    case "ytd":
+      return { startDate: new Date(now.getFullYear(), 0, 1), endDate: now };
+    default: {
+      const startDate = new Date();
+      startDate.setDate(startDate.getDate() - parseInt(period));
+      return { startDate, endDate: now };
+    }
+  }
+};
+
+// Periodo anterior equivalente para comparar: el mismo tramo del mes o del año
+// pasado en los periodos de calendario, o los N días justo antes en los demás.
+export const getPreviousPeriod = (period: Period): { period: CustomPeriod; comparison: PeriodComparison } => {
+  const { startDate, endDate } = getPeriodRange(period);
+  const range = (from: Date, to: Date) => ({ from: toDateInput(from), to: toDateInput(to) });
+
+  switch (period) {
+    case "this-month": {
+      const from = new Date(startDate.getFullYear(), startDate.getMonth() - 1, 1);
+      const to = sameDayInMonth(from.getFullYear(), from.getMonth(), endDate.getDate());
+      return { period: range(from, to), comparison: "month" };
+    }
+    case "last-month": {
+      const from = new Date(startDate.getFullYear(), startDate.getMonth() - 1, 1);
+      return { period: range(from, new Date(startDate.getFullYear(), startDate.getMonth(), 0)), comparison: "month" };
+    }
+    case "ytd": {
+      const year = startDate.getFullYear() - 1;
+      return {
+        period: range(new Date(year, 0, 1), sameDayInMonth(year, endDate.getMonth(), endDate.getDate())),
+        comparison: "year",
+      };
+    }
+    default: {
+      // Días completos del periodo, contando el primero y el último
+      const from = fromDateInput(toDateInput(startDate));
+      const days = Math.round((fromDateInput(toDateInput(endDate)).getTime() - from.getTime()) / 86_400_000) + 1;
+      return { period: range(addDays(from, -days), addDays(from, -1)), comparison: "period" };
+    }
+  }
+};
+
+// Si una fecha YYYY-MM-DD cae dentro del periodo
+export const isInPeriod = (date: string, period: Period) => {
+  const { startDate, endDate } = getPeriodRange(period);
+  return date >= toDateInput(startDate) && date <= toDateInput(endDate);
+};
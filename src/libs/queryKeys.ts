@@ -0,0 +1,64 @@
+import type { QueryClient } from "@tanstack/react-query";
+import type { LedgerFilters, LedgerSortBy, SortDir } from "./ledger";
+import type { Period } from "./periods";
+import type { AuditFilters } from "./audit";
+
+// Claves de caché compartidas por todos los hooks de datos. Las claves que
+// dependen de transactions/transfers comparten prefijo para invalidarlas juntas.
+export const queryKeys = {
+  accounts: ["accounts"] as const,
+  categories: ["categories"] as const,
+  categoryRules: ["category-rules"] as const,
+  exchangeRates: ["exchange-rates"] as const,
+  balances: ["balances"] as const,
+  // Bajo el prefijo de saldos para invalidarse con los registros
+  creditCardCycles: ["balances", "credit-card-cycles"] as const,
+  transactions: ["transactions"] as const,
+  transaction: (id: string) => ["transactions", "detail", id] as const,
+  attachments: (transactionId: string) => ["transactions", "attachments", transactionId] as const,
+  // Movimientos que se pierden o se reasignan al eliminar una cuenta o categoría
+  recordCount: (owner: "account" | "category", id: string) =>
+    ["transactions", "record-count", { owner, id }] as const,
+  reconciliation: (accountId: string, statementDate: string) =>
+    ["transactions", "reconciliation", { accountId, statementDate }] as const,
+  // Bajo el prefijo de transacciones: cada registro nuevo puede cambiar la sugerencia
+  categorySuggestion: (note: string, kind: "in" | "out") =>
+    ["transactions", "category-suggestion", { note, kind }] as const,
+  transfers: ["transfers"] as const,
+  transfer: (id: string) => ["transfers", "detail", id] as const,
+  recentTransactions: (period: Period, categoryId: string) =>
+    ["transactions", "recent", { period, categoryId }] as const,
+  performanceSummary: (period: Period) => ["summary", "performance", { period }] as const,
+  monthlySummary: (months: number) => ["summary", "monthly", { months }] as const,
+  ledger: (filters: LedgerFilters, sortBy: LedgerSortBy, sortDir: SortDir, page: number, rates: Record<string, number>) =>
+    ["ledger", { filters, sortBy, sortDir, page, rates }] as const,
+  budgets: ["budgets"] as const,
+  budgetProgress: (currency: string) => ["budgets", "progress", { currency }] as const,
+  recurringRules: ["recurring", "rules"] as const,
+  pendingOccurrences: ["recurring", "pending"] as const,
+  goals: ["goals"] as const,
+  wallets: ["wallets"] as const,
+  walletMembers: (walletId: string) => ["wallets", "members", walletId] as const,
+  walletInvitations: (walletId: string) => ["wallets", "invitations", walletId] as const,
+  auditLog: (filters: AuditFilters, page: number) => ["audit-log", { filters, page }] as const,
+  // Registros capturados sin conexión (IndexedDB, no Supabase)
+  syncQueue: ["sync-queue"] as const,
+  userSyncQueue: (userId: string) => ["sync-queue", userId] as const,
+};
+
+// Todo lo que se calcula a partir de los registros
+const RECORD_DEPENDENT_KEYS = [
+  queryKeys.transactions,
+  queryKeys.transfers,
+  queryKeys.balances,
+  ["summary"],
+  ["ledger"],
+  queryKeys.budgets,
+  ["recurring"],
+  queryKeys.goals,
+  ["audit-log"],
+];
+
+// Se llama después de cualquier cambio en transactions o transfers
+export const invalidateRecords = (queryClient: QueryClient) =>
+  Promise.all(RECORD_DEPENDENT_KEYS.map((queryKey) => queryClient.invalidateQueries({ queryKey })));
@@ -0,0 +1,146 @@
+import { supabase } from "@/supabaseClient";
+
+// Una transacción de la cuenta o el lado de una transferencia que le corresponde:
+// "in" si la cuenta la recibe, con el monto en su moneda
+export interface ReconcileCandidate {
+  id: string;
+  type: "transaction" | "transfer";
+  date: string;
+  kind: "in" | "out";
+  amount: number;
+  note: string | null;
+  cleared: boolean;
+  categoryName: string | null;
+  // La otra cuenta de una transferencia
+  counterpartId: string | null;
+}
+
+export interface Reconciliation {
+  id: string;
+  statement_date: string;
+  statement_balance: number;
+}
+
+export interface ReconciliationData {
+  // Saldo ya conciliado a la fecha del estado de cuenta: saldo inicial más las
+  // transacciones y transferencias conciliadas antes
+  baseBalance: number;
+  candidates: ReconcileCandidate[];
+  lastReconciliation: Reconciliation | null;
+}
+
+export const signedAmount = (t: { kind: "in" | "out"; amount: number }) => (t.kind === "in" ? t.amount : -t.amount);
+
+// Lo que hace falta para conciliar una cuenta hasta statementDate. Es el mismo
+// cálculo que valida reconcile_account en el servidor.
+export const fetchReconciliationData = async (accountId: string, statementDate: string): Promise<ReconciliationData> => {
+  const [accountRes, transactionsRes, transfersRes, lastRes] = await Promise.all([
+    supabase.from("accounts").select("opening_balance").eq("id", accountId).single(),
+    supabase
+      .from("transactions")
+      .select("id, date, kind, amount, note, cleared, reconciliation_id, categories(name)")
+      .eq("account_id", accountId)
+      .lte("date", statementDate)
+      .order("date", { ascending: true }),
+    supabase
+      .from("transfers")
+      .select("id, date, note, from_account_id, to_account_id, amount, to_amount, from_reconciliation_id, to_reconciliation_id")
+      .or(`from_account_id.eq.${accountId},to_account_id.eq.${accountId}`)
+      .lte("date", statementDate)
+      .order("date", { ascending: true }),
+    supabase
+      .from("reconciliations")
+      .select("id, statement_date, statement_balance")
+      .eq("account_id", accountId)
+      .order("statement_date", { ascending: false })
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+  ]);
+  if (accountRes.error) throw accountRes.error;
+  if (transactionsRes.error) throw transactionsRes.error;
+  if (transfersRes.error) throw transfersRes.error;
+  if (lastRes.error) throw lastRes.error;
+
+  const transactions = (transactionsRes.data || []).map((t) => ({
+    ...t,
+    kind: t.kind as "in" | "out",
+    amount: Number(t.amount),
+  }));
+
+  // Cada transferencia vista desde esta cuenta
+  const transfers = (transfersRes.data || []).map((t) => {
+    const incoming = t.to_account_id === accountId;
+    return {
+      id: t.id,
+      date: t.date,
+      note: t.note,
+      kind: (incoming ? "in" : "out") as "in" | "out",
+      amount: incoming ? Number(t.to_amount ?? t.amount) : Number(t.amount),
+      reconciliation_id: incoming ? t.to_reconciliation_id : t.from_reconciliation_id,
+      counterpartId: incoming ? t.from_account_id : t.to_account_id,
+    };
+  });
+
+  const reconciledTotal = [...transactions, ...transfers]
+    .filter((t) => t.reconciliation_id)
+    .reduce((acc, t) => acc + signedAmount(t), 0);
+
+  const transactionCandidates: ReconcileCandidate[] = transactions
+    .filter((t) => !t.reconciliation_id)
+    .map((t) => ({
+      id: t.id,
+      type: "transaction",
+      date: t.date,
+      kind: t.kind,
+      amount: t.amount,
+      note: t.note,
+      cleared: t.cleared,
+      categoryName: (Array.isArray(t.categories) ? t.categories[0]?.name : t.categories?.name) ?? null,
+      counterpartId: null,
+    }));
+  const transferCandidates: ReconcileCandidate[] = transfers
+    .filter((t) => !t.reconciliation_id)
+    .map((t) => ({
+      id: t.id,
+      type: "transfer",
+      date: t.date,
+      kind: t.kind,
+      amount: t.amount,
+      note: t.note,
+      cleared: false,
+      categoryName: null,
+      counterpartId: t.counterpartId,
+    }));
+
+  return {
+    baseBalance: Number(accountRes.data.opening_balance) + reconciledTotal,
+    candidates: [...transactionCandidates, ...transferCandidates].sort((a, b) => a.date.localeCompare(b.date)),
+    lastReconciliation: lastRes.data ? { ...lastRes.data, statement_balance: Number(lastRes.data.statement_balance) } : null,
+  };
+};
+
+export const reconcileAccount = async (
+  accountId: string,
+  statementDate: string,
+  statementBalance: number,
+  transactionIds: string[],
+  transferIds: string[]
+) => {
+  const { data, error } = await supabase.rpc("reconcile_account", {
+    p_account_id: accountId,
+    p_statement_date: statementDate,
+    p_statement_balance: statementBalance,
+    p_transaction_ids: transactionIds,
+    p_transfer_ids: transferIds,
+  });
+  if (error) throw error;
+  return data;
+};
+
+// Elimina la conciliación; sus transacciones se desbloquean y siguen confirmadas, y
+// sus transferencias vuelven a quedar por conciliar en esta cuenta
+export const undoReconciliation = async (reconciliationId: string) => {
+  const { error } = await supabase.from("reconciliations").delete().eq("id", reconciliationId);
+  if (error) throw error;
+};
@@ -0,0 +1,130 @@
+import { supabase } from "@/supabaseClient";
+import { createRuleFromRecord, type RecurrenceOptions } from "./recurring";
+import { enqueueRecord, listQueuedRecords, removeQueuedRecord } from "./offlineQueue";
+import type { TransactionFormInputs, TransferFormInputs } from "./schemas";
+
+// walletId es la billetera en la que se capturó el registro: uno en cola se guarda
+// ahí aunque el usuario cambie de billetera antes de que se sincronice.
+export interface NewTransaction {
+  id: string;
+  userId: string;
+  walletId: string;
+  values: TransactionFormInputs;
+  kind: "in" | "out";
+  recurrence?: RecurrenceOptions;
+}
+
+export interface NewTransfer {
+  id: string;
+  userId: string;
+  walletId: string;
+  values: TransferFormInputs;
+  recurrence?: RecurrenceOptions;
+}
+
+// Si la regla de repetición falla, el registro ya quedó guardado: se devuelve el
+// error en lugar de lanzarlo para que el formulario pueda avisarlo por separado.
+export interface SaveResult {
+  id: string;
+  ruleError: Error | null;
+}
+
+// fetch falla con TypeError cuando no hay red; supabase-js lo devuelve como mensaje
+export const isNetworkError = (error: unknown) =>
+  !navigator.onLine || /failed to fetch|networkerror|load failed/i.test((error as Error)?.message ?? "");
+
+// La primera ocurrencia de la regla apunta al registro que la originó
+const hasRule = async (kind: "in" | "out" | "transfer", id: string) => {
+  const { count, error } = await supabase
+    .from("recurring_occurrences")
+    .select("id", { count: "exact", head: true })
+    .eq(kind === "transfer" ? "transfer_id" : "transaction_id", id);
+  if (error) throw error;
+  return (count ?? 0) > 0;
+};
+
+// Si el registro ya existía (un reenvío cuya respuesta anterior se perdió), la
+// regla se crea solo si todavía no se creó con él
+const createRule = async (
+  record: Parameters<typeof createRuleFromRecord>[0],
+  id: string,
+  recurrence: RecurrenceOptions | undefined,
+  userId: string,
+  inserted: boolean
+) => {
+  if (!recurrence) return null;
+  try {
+    if (!inserted && (await hasRule(record.kind, id))) return null;
+    await createRuleFromRecord(record, id, recurrence, userId);
+    return null;
+  } catch (err) {
+    return err as Error;
+  }
+};
+
+// El upsert ignora un id que ya existe: reenviar el mismo registro no lo duplica.
+export const saveTransaction = async ({ id, userId, walletId, values, kind, recurrence }: NewTransaction): Promise<SaveResult> => {
+  const { splits, ...transaction } = values;
+  const split = !!splits && splits.length > 0;
+
+  const { data, error } = await supabase
+    .from("transactions")
+    .upsert(
+      { ...transaction, id, category_id: split ? null : transaction.category_id, user_id: userId, wallet_id: walletId, kind },
+      { onConflict: "id", ignoreDuplicates: true }
+    )
+    .select("id");
+  if (error) throw error;
+  const inserted = data.length > 0;
+
+  // Sin sus líneas la transacción quedaría sin categoría: se deshace el insert
+  if (split) {
+    const { error: splitsError } = await supabase.rpc("set_transaction_splits", {
+      p_transaction_id: id,
+      p_splits: splits,
+    });
+    if (splitsError) {
+      if (inserted) await supabase.from("transactions").delete().eq("id", id);
+      throw splitsError;
+    }
+  }
+
+  const ruleError = await createRule({ ...values, kind }, id, recurrence, userId, inserted);
+  return { id, ruleError };
+};
+
+export const saveTransfer = async ({ id, userId, walletId, values, recurrence }: NewTransfer): Promise<SaveResult> => {
+  const { data, error } = await supabase
+    .from("transfers")
+    .upsert({ ...values, id, user_id: userId, wallet_id: walletId }, { onConflict: "id", ignoreDuplicates: true })
+    .select("id");
+  if (error) throw error;
+
+  const ruleError = await createRule(
+    { ...values, kind: "transfer", account_id: values.from_account_id }, id, recurrence, userId, data.length > 0
+  );
+  return { id, ruleError };
+};
+
+// Reenvía los registros en cola del usuario capturados en la billetera activa; los de
+// otra billetera esperan a que vuelva a ella. Se detiene si vuelve a faltar la red; un
+// registro que el servidor rechaza se queda en cola con su error y ya no se reintenta
+// solo: espera a que el usuario lo corrija o lo descarte desde el inicio.
+export const syncQueuedRecords = async (userId: string, walletId: string) => {
+  let synced = 0;
+
+  for (const record of await listQueuedRecords(userId)) {
+    if (record.lastError || record.walletId !== walletId) continue;
+    try {
+      const { ruleError } = record.type === "transfer" ? await saveTransfer(record) : await saveTransaction(record);
+      if (ruleError) console.error("Error programando la repetición de un registro sincronizado:", ruleError);
+      await removeQueuedRecord(record.id);
+      synced += 1;
+    } catch (err) {
+      if (isNetworkError(err)) break;
+      await enqueueRecord({ ...record, lastError: (err as Error).message });
+    }
+  }
+
+  return synced;
+};
@@ -0,0 +1,131 @@
+import { supabase } from "@/supabaseClient";
+
+export type Frequency = "daily" | "weekly" | "monthly" | "yearly";
+export type RecurringKind = "in" | "out" | "transfer";
+
+// El nombre de cada frecuencia está en el catálogo (frequencies.<frecuencia>)
+export const FREQUENCIES: Frequency[] = ["daily", "weekly", "monthly", "yearly"];
+
+export interface RecurringRule {
+  id: string;
+  kind: RecurringKind;
+  amount: number;
+  account_id: string;
+  to_account_id: string | null;
+  category_id: string | null;
+  note: string | null;
+  frequency: Frequency;
+  start_date: string;
+  end_date: string | null;
+  next_date: string;
+  auto_confirm: boolean;
+  active: boolean;
+}
+
+export interface PendingOccurrence {
+  id: string;
+  rule_id: string;
+  due_date: string;
+  amount: number;
+  note: string | null;
+  recurring_rules: { kind: RecurringKind; account_id: string } | null;
+}
+
+// Opciones de repetición que se eligen al guardar un registro en TransactionModal
+export interface RecurrenceOptions {
+  frequency: Frequency;
+  endDate: string;
+  autoConfirm: boolean;
+}
+
+// Genera en el servidor las ocurrencias vencidas; es idempotente
+export const generateDueOccurrences = async () => {
+  const { data, error } = await supabase.rpc("generate_recurring_occurrences");
+  if (error) throw error;
+  return (data as number) ?? 0;
+};
+
+// Crea la regla a partir de un registro recién guardado. Ese registro cuenta como
+// la primera ocurrencia (ya confirmada), y la generación avanza la regla desde ahí.
+export const createRuleFromRecord = async (
+  record: {
+    kind: RecurringKind;
+    amount: number;
+    account_id: string;
+    to_account_id?: string;
+    category_id?: string;
+    date: string;
+    note?: string;
+  },
+  recordId: string,
+  options: RecurrenceOptions,
+  userId: string
+) => {
+  const { data: rule, error: ruleError } = await supabase
+    .from("recurring_rules")
+    .insert({
+      user_id: userId,
+      kind: record.kind,
+      amount: record.amount,
+      account_id: record.account_id,
+      to_account_id: record.to_account_id ?? null,
+      category_id: record.category_id ?? null,
+      note: record.note || null,
+      frequency: options.frequency,
+      start_date: record.date,
+      end_date: options.endDate || null,
+      next_date: record.date,
+      auto_confirm: options.autoConfirm,
+    })
+    .select("id")
+    .single();
+  if (ruleError) throw ruleError;
+
+  const { error: occurrenceError } = await supabase.from("recurring_occurrences").insert({
+    user_id: userId,
+    rule_id: rule.id,
+    due_date: record.date,
+    amount: record.amount,
+    note: record.note || null,
+    status: "confirmed",
+    transaction_id: record.kind === "transfer" ? null : recordId,
+    transfer_id: record.kind === "transfer" ? recordId : null,
+  });
+  if (occurrenceError) throw occurrenceError;
+
+  await generateDueOccurrences();
+};
+
+export const fetchPendingOccurrences = async () => {
+  const { data, error } = await supabase
+    .from("recurring_occurrences")
+    .select("id, rule_id, due_date, amount, note, recurring_rules(kind, account_id)")
+    .eq("status", "pending")
+    .order("due_date", { ascending: true });
+  if (error) throw error;
+
+  return (data || []).map((o) => ({ ...o, amount: Number(o.amount) })) as PendingOccurrence[];
+};
+
+export const confirmOccurrence = async (occurrenceId: string) => {
+  const { error } = await supabase.rpc("confirm_recurring_occurrence", { p_occurrence_id: occurrenceId });
+  if (error) throw error;
+};
+
+export const skipOccurrence = async (occurrenceId: string) => {
+  const { error } = await supabase
+    .from("recurring_occurrences")
+    .update({ status: "skipped" })
+    .eq("id", occurrenceId);
+  if (error) throw error;
+};
+
+// Copia el monto y la nota de la plantilla a las ocurrencias aún pendientes
+export const applyRuleToPending = async (ruleId: string, amount: number, note: string | null) => {
+  const { error } = await supabase
+    .from("recurring_occurrences")
+    .update({ amount, note })
+    .eq("rule_id", ruleId)
+    .eq("status", "pending");
+  if (error) throw error;
+};
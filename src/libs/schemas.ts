@@ -0,0 +1,81 @@
+import { z } from "zod";
+
+// --- Esquemas Zod compartidos por TransactionModal y la importación CSV ---
+// Los mensajes son claves del catálogo; los formularios los muestran con translateMessage
+export const splitLineSchema = z.object({
+  category_id: z.string().uuid({ message: "validation.selectCategory" }),
+  amount: z.coerce.number().positive({ message: "validation.amountPositive" }),
+});
+
+export const transactionSchema = z.object({
+  amount: z.coerce.number().positive({ message: "validation.amountPositive" }),
+  account_id: z.string().uuid({ message: "validation.selectAccount" }),
+  category_id: z.string().optional(),
+  date: z.string().nonempty({ message: "validation.dateRequired" }),
+  note: z.string().optional(),
+  // Confirmada en el estado de cuenta del banco
+  cleared: z.boolean().optional(),
+  // Con líneas de división la categoría sale de cada línea y category_id no aplica
+  splits: z.array(splitLineSchema).optional(),
+}).superRefine((data, ctx) => {
+  if (data.splits && data.splits.length > 0) {
+    if (data.splits.length < 2) {
+      ctx.addIssue({ code: "custom", message: "validation.splitMinLines", path: ["splits"] });
+    }
+    // Se compara en centavos para no arrastrar errores de punto flotante
+    const total = data.splits.reduce((acc, line) => acc + line.amount, 0);
+    if (Math.round(total * 100) !== Math.round(data.amount * 100)) {
+      ctx.addIssue({ code: "custom", message: "validation.splitTotal", path: ["splits"] });
+    }
+  } else if (!z.string().uuid().safeParse(data.category_id).success) {
+    ctx.addIssue({ code: "custom", message: "validation.selectCategory", path: ["category_id"] });
+  }
+});
+
+export const transferSchema = z.object({
+  amount: z.coerce.number().positive({ message: "validation.amountPositive" }),
+  from_account_id: z.string().uuid({ message: "validation.selectFromAccount" }),
+  to_account_id: z.string().uuid({ message: "validation.selectToAccount" }),
+  // Solo cuando las cuentas tienen monedas distintas: monto recibido en la moneda destino
+  to_amount: z.preprocess(
+    (val) => (val === "" || val === null ? undefined : val),
+    z.coerce.number().positive({ message: "validation.receivedAmountPositive" }).optional()
+  ),
+  // Meta de ahorro a la que se abona la transferencia
+  goal_id: z.preprocess(
+    (val) => (val === "" || val === null ? undefined : val),
+    z.string().uuid().optional()
+  ),
+  date: z.string().nonempty({ message: "validation.dateRequired" }),
+  note: z.string().optional(),
+}).refine(data => data.from_account_id !== data.to_account_id, {
+  message: "validation.sameAccounts",
+  path: ["to_account_id"],
+});
+
+export type SplitLine = z.infer<typeof splitLineSchema>;
+export type TransactionFormInputs = z.infer<typeof transactionSchema>;
+export type TransferFormInputs = z.infer<typeof transferSchema>;
+
+// --- Contraseña nueva (restablecer desde el correo y cambiar en Configuración) ---
+// El mínimo es el que exige Supabase Auth por defecto (validation.passwordMin lo repite)
+export const MIN_PASSWORD_LENGTH = 6;
+
+const passwordFields = z.object({
+  password: z.string().min(MIN_PASSWORD_LENGTH, { message: "validation.passwordMin" }),
+  confirm: z.string(),
+});
+
+const passwordsMatch = {
+  check: (data: { password: string; confirm: string }) => data.password === data.confirm,
+  params: { message: "validation.passwordsMismatch", path: ["confirm"] },
+};
+
+export const newPasswordSchema = passwordFields.refine(passwordsMatch.check, passwordsMatch.params);
+
+export const changePasswordSchema = passwordFields
+  .extend({ current: z.string().nonempty({ message: "validation.currentPasswordRequired" }) })
+  .refine(passwordsMatch.check, passwordsMatch.params);
+
+export type NewPasswordInputs = z.infer<typeof newPasswordSchema>;
+export type ChangePasswordInputs = z.infer<typeof changePasswordSchema>;
@@ -0,0 +1,142 @@
+import { supabase } from "@/supabaseClient";
+import { toDateInput } from "./periods";
+import { formatMonth } from "./format";
+import { t } from "./i18n";
+
+export interface MonthlySummaryRow {
+  month: string;
+  kind: "in" | "out";
+  category_id: string | null;
+  category_name: string;
+  currency: string;
+  total_amount: number;
+}
+
+export interface PerformanceSummaryRow {
+  kind: "in" | "out";
+  category_id: string | null;
+  category_name: string;
+  currency: string;
+  total_amount: number;
+}
+
+export interface MonthlyPoint {
+  month: string;
+  label: string;
+  ingresos: number;
+  gastos: number;
+  neto: number;
+  acumulado: number;
+  ahorro: number | null;
+}
+
+export type CategoryTrendPoint = { label: string } & Record<string, number | string>;
+
+// Primer día del mes, `monthsBack` meses antes del mes actual
+export const getMonthsRange = (monthsBack: number) => {
+  const now = new Date();
+  const startDate = new Date(now.getFullYear(), now.getMonth() - (monthsBack - 1), 1);
+  return { startDate, endDate: now };
+};
+
+const monthKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-01`;
+
+
+// Lista de meses (YYYY-MM-01) entre dos fechas, ambos extremos incluidos
+const listMonths = (startDate: Date, endDate: Date) => {
+  const months: string[] = [];
+  const cursor = new Date(startDate.getFullYear(), startDate.getMonth(), 1);
+  while (cursor <= endDate) {
+    months.push(monthKey(cursor));
+    cursor.setMonth(cursor.getMonth() + 1);
+  }
+  return months;
+};
+
+export const savingsRate = (ingresos: number, gastos: number) =>
+  ingresos > 0 ? (ingresos - gastos) / ingresos : null;
+
+// Lo que no tiene categoría llega con category_name NULL y se nombra en el idioma de la app
+const withCategoryName = <T extends { category_name: string; total_amount: number }>(row: T) => ({
+  ...row,
+  category_name: row.category_name ?? t("stats.uncategorized"),
+  total_amount: Number(row.total_amount),
+});
+
+// Totales por tipo, categoría y moneda del periodo (dashboard). Se envían fechas
+// locales: el servidor las compara como DATE y un periodo de calendario no debe
+// correrse un día por la zona horaria.
+export const fetchPerformanceSummary = async (startDate: Date, endDate: Date) => {
+  const { data, error } = await supabase.rpc("get_performance_summary_by_currency", {
+    p_start_date: toDateInput(startDate),
+    p_end_date: toDateInput(endDate),
+  });
+  if (error) throw error;
+
+  return ((data || []) as PerformanceSummaryRow[]).map(withCategoryName);
+};
+
+// Totales por mes, tipo, categoría y moneda; se convierten con convertSummaryRows.
+// Fechas locales, igual que en fetchPerformanceSummary.
+export const fetchMonthlySummary = async (startDate: Date, endDate: Date) => {
+  const { data, error } = await supabase.rpc("get_monthly_summary", {
+    p_start_date: toDateInput(startDate),
+    p_end_date: toDateInput(endDate),
+  });
+  if (error) throw error;
+
+  return ((data || []) as MonthlySummaryRow[]).map(withCategoryName);
+};
+
+// Pasa los totales de cada moneda a la moneda base antes de sumarlos
+export const convertSummaryRows = <T extends { currency: string; total_amount: number }>(
+  rows: T[],
+  convert: (amount: number, currency: string) => number
+) => rows.map((row) => ({ ...row, total_amount: convert(row.total_amount, row.currency) }));
+
+// Ingresos vs gastos por mes, con balance acumulado y tasa de ahorro mensual.
+// Los meses sin movimientos se incluyen en cero para no romper las series.
+export const buildMonthlySeries = (rows: MonthlySummaryRow[], startDate: Date, endDate: Date): MonthlyPoint[] => {
+  let acumulado = 0;
+  return listMonths(startDate, endDate).map((month) => {
+    const monthRows = rows.filter((r) => r.month === month);
+    const ingresos = monthRows.filter((r) => r.kind === "in").reduce((acc, r) => acc + r.total_amount, 0);
+    const gastos = monthRows.filter((r) => r.kind === "out").reduce((acc, r) => acc + r.total_amount, 0);
+    acumulado += ingresos - gastos;
+    return {
+      month,
+      label: formatMonth(month),
+      ingresos,
+      gastos,
+      neto: ingresos - gastos,
+      acumulado,
+      ahorro: savingsRate(ingresos, gastos),
+    };
+  });
+};
+
+// Gasto mensual de las `top` categorías con más gasto en el rango
+export const buildCategoryTrends = (rows: MonthlySummaryRow[], startDate: Date, endDate: Date, top = 5) => {
+  const totals = new Map<string, number>();
+  rows
+    .filter((r) => r.kind === "out")
+    .forEach((r) => totals.set(r.category_name, (totals.get(r.category_name) || 0) + r.total_amount));
+
+  const categories = [...totals.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, top)
+    .map(([name]) => name);
+
+  const points: CategoryTrendPoint[] = listMonths(startDate, endDate).map((month) => {
+    const point: CategoryTrendPoint = { label: formatMonth(month) };
+    categories.forEach((name) => {
+      point[name] = rows
+        .filter((r) => r.kind === "out" && r.month === month && r.category_name === name)
+        .reduce((acc, r) => acc + r.total_amount, 0);
+    });
+    return point;
+  });
+
+  return { categories, points };
+};
@@ -0,0 +1,73 @@
+import { supabase } from "@/supabaseClient";
+import type { Wallet, WalletInvitation, WalletMember, WalletRole } from "@/types/wallet";
+
+// El nombre de cada rol está en el catálogo (walletRoles.<rol>)
+export const WALLET_ROLES: WalletRole[] = ["owner", "editor", "viewer"];
+
+// Propietarios y editores registran y modifican; el resto solo consulta
+export const canEditWallet = (role?: WalletRole) => role === "owner" || role === "editor";
+
+export interface WalletsData {
+  wallets: Wallet[];
+  // La que filtran las políticas en el servidor (ver current_wallet_id)
+  activeWalletId: string | null;
+}
+
+export const fetchWallets = async (userId: string): Promise<WalletsData> => {
+  const [membershipsRes, activeRes] = await Promise.all([
+    supabase.from("wallet_members").select("role, wallets(id, name)").eq("user_id", userId),
+    supabase.rpc("current_wallet_id"),
+  ]);
+  if (membershipsRes.error) throw membershipsRes.error;
+  if (activeRes.error) throw activeRes.error;
+
+  const wallets = (membershipsRes.data || [])
+    .flatMap((m) => {
+      const wallet = Array.isArray(m.wallets) ? m.wallets[0] : m.wallets;
+      return wallet ? [{ id: wallet.id, name: wallet.name, role: m.role as WalletRole }] : [];
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  return { wallets, activeWalletId: activeRes.data ?? null };
+};
+
+// Miembros con su correo; profiles solo expone el de quienes comparten billetera
+export const fetchWalletMembers = async (walletId: string): Promise<WalletMember[]> => {
+  const { data: members, error } = await supabase
+    .from("wallet_members")
+    .select("user_id, role")
+    .eq("wallet_id", walletId)
+    .order("created_at", { ascending: true });
+  if (error) throw error;
+  if (!members || members.length === 0) return [];
+
+  const { data: profiles, error: profilesError } = await supabase
+    .from("profiles")
+    .select("user_id, email")
+    .in("user_id", members.map((m) => m.user_id));
+  if (profilesError) throw profilesError;
+
+  const emails = new Map((profiles || []).map((p) => [p.user_id, p.email]));
+  return members.map((m) => ({ user_id: m.user_id, role: m.role as WalletRole, email: emails.get(m.user_id) ?? "—" }));
+};
+
+// Las políticas ya limitan las invitaciones a las de billeteras propias y las
+// dirigidas al correo del usuario; aquí solo se separan
+export const fetchWalletInvitations = async (walletId: string, email: string) => {
+  const { data, error } = await supabase
+    .from("wallet_invitations")
+    .select("id, email, role, wallet_id, wallets(name)")
+    .order("created_at", { ascending: true });
+  if (error) throw error;
+
+  const invitations: WalletInvitation[] = (data || []).map((i) => {
+    const wallet = Array.isArray(i.wallets) ? i.wallets[0] : i.wallets;
+    return { id: i.id, email: i.email, role: i.role as WalletRole, wallet_id: i.wallet_id, walletName: wallet?.name ?? "—" };
+  });
+
+  const ownEmail = email.toLowerCase();
+  return {
+    sent: invitations.filter((i) => i.wallet_id === walletId),
+    received: invitations.filter((i) => i.email === ownEmail && i.wallet_id !== walletId),
+  };
+};
@@ -0,0 +1,592 @@
+import type { Messages } from "@/libs/i18n";
+import type esGT from "./es-GT";
+
+const enUS: Messages<typeof esGT> = {
+  common: {
+    loading: "Loading...",
+    save: "Save",
+    saving: "Saving...",
+    processing: "Processing...",
+    income: "Income",
+    expense: "Expense",
+    transfer: "Transfer",
+    areYouSure: "Are you sure?",
+    error: "Error: {message}",
+    deleteError: "Could not delete: {message}",
+    none: "—",
+    cancel: "Cancel",
+    undo: "Undo",
+  },
+  validation: {
+    nameMin: "The name must be at least 2 characters long",
+    mustBeNumber: "Must be a number",
+    amountPositive: "The amount must be greater than zero",
+    receivedAmountPositive: "The received amount must be greater than zero",
+    dateRequired: "The date is required",
+    selectCategory: "Select a category",
+    selectAccount: "Select an account",
+    selectFromAccount: "Select the source account",
+    selectToAccount: "Select the destination account",
+    sameAccounts: "The accounts must be different",
+    splitMinLines: "A split needs at least two lines",
+    splitTotal: "The lines must add up to the total amount",
+    dayOfMonth: "Day between 1 and 31",
+    openingBalanceNegative: "The opening balance cannot be negative",
+    limitPositive: "The limit must be greater than zero",
+    statementDayRequired: "Enter the statement day",
+    paymentDayRequired: "Enter the payment due day",
+    ratePositive: "The exchange rate must be greater than zero",
+    sameCurrencies: "The currencies must be different",
+    passwordMin: "The password must be at least 6 characters long",
+    passwordsMismatch: "The passwords do not match",
+    currentPasswordRequired: "Enter your current password",
+    goalPositive: "The goal must be greater than zero",
+    deadlineRequired: "The deadline is required",
+    selectGoalAccount: "You must select the goal's account",
+    patternMin: "The text must be at least 2 characters long",
+    ruleTarget: "Choose a category, an account or both",
+    email: "Enter a valid email",
+  },
+  accountTypes: {
+    cash: "Cash",
+    checking: "Checking",
+    savings: "Savings",
+    credit_card: "Credit card",
+    loan: "Loan",
+    investment: "Investment",
+  },
+  accounts: {
+    title: "Accounts",
+    subtitle: "Manage where your money comes from and goes.",
+    add: "Add Account",
+    noInstitution: "No institution",
+    openingDebt: "Opening debt",
+    openingBalance: "Opening balance",
+    reconcile: "Reconcile",
+    deleteError: "Could not delete the account: {message}",
+    edit: "Edit Account",
+    new: "New Account",
+    name: "Account name",
+    institution: "Institution (Optional)",
+    type: "Account type",
+    currency: "Currency",
+    limit: "Limit",
+    statementDay: "Statement day",
+    paymentDay: "Payment due day",
+    submit: "Save Account",
+    available: "{available} available of {limit}",
+    statement: "Statement on {date}: {amount} · pay by {dueDate}",
+    currentCycle: "Current cycle charges: {amount} · next statement {date}",
+    archive: "Archive",
+    restore: "Restore",
+    archivedTitle: "Archived ({count})",
+    deleted: "Account “{name}” deleted",
+    history: "Change history",
+  },
+  exchangeRates: {
+    title: "Exchange rates",
+    subtitle: "Used to convert totals to your base currency.",
+    from: "From",
+    to: "To",
+    rate: "Rate",
+    deleteError: "Could not delete the exchange rate.",
+  },
+  categories: {
+    title: "Categories",
+    subtitle: "Classify your income and expenses.",
+    rules: "Rules",
+    add: "Add Category",
+    deleteError: "Could not delete the category: {message}",
+    edit: "Edit Category",
+    new: "New Category",
+    name: "Name",
+    type: "Type",
+    parent: "Parent category",
+    noParent: "None (main category)",
+    hasChildren: "It has subcategories, so it must stay a main category. Changing its type also changes its subcategories.",
+    color: "Color",
+    submit: "Save Category",
+    archive: "Archive",
+    restore: "Restore",
+    archivedTitle: "Archived ({count})",
+    deleted: "Category “{name}” deleted",
+    childrenNote: "Its {count} subcategories will become main categories.",
+    history: "Change history",
+  },
+  deleteDialog: {
+    title: "Delete “{name}”",
+    noRecords: "It has no records; it will be permanently deleted.",
+    hasRecords: {
+      account: "This account has {count} records across transactions and transfers.",
+      category: "This category has {count} records across transactions and split lines.",
+    },
+    archive: "Archive",
+    archiveHelp: {
+      account: "It is no longer offered when recording; its history and balance stay in reports.",
+      category: "It is no longer offered when recording; its history stays in reports.",
+    },
+    move: {
+      account: "Move the {count} records to another account and delete this one",
+      category: "Move the {count} records to another category and delete this one",
+    },
+    noTargets: {
+      account: "There is no other account with the same currency.",
+      category: "There is no other category of the same type.",
+    },
+    selectTarget: "Choose the destination",
+    delete: "Delete",
+  },
+  frequencies: {
+    daily: "Daily",
+    weekly: "Weekly",
+    monthly: "Monthly",
+    yearly: "Yearly",
+  },
+  transactionModal: {
+    editTitle: "Edit record",
+    viewTitle: "View record",
+    createdBy: "Recorded by {email}",
+    readOnly: "You have read-only access to this wallet.",
+    amount: "Amount",
+    amountIn: "Amount ({currency})",
+    fromAccount: "From account",
+    toAccount: "To account",
+    receivedAmount: "Amount received ({currency})",
+    receivedAmountRequired: "Enter the amount received in {currency}",
+    goal: "Contribute to a savings goal (optional)",
+    date: "Date",
+    note: "Note (Optional)",
+    account: "Account",
+    category: "Category",
+    suggestedCategory: "Suggested category:",
+    useSuggestion: "Use",
+    cleared: "Cleared on the bank statement",
+    locked: "This transaction is already reconciled. To change it, undo the account reconciliation.",
+    select: "Select...",
+    split: "Split across categories",
+    addLine: "Add line",
+    assigned: "Assigned {assigned} of {total}",
+    delete: "Delete",
+    confirmDelete: "Delete this record? This cannot be undone.",
+    repeat: "Repeat",
+    frequency: "Frequency",
+    until: "Until (Optional)",
+    autoConfirm: "Record automatically (otherwise it waits for confirmation)",
+    ruleError: "The record was saved, but the repetition could not be scheduled: {message}",
+    queuedAttachments: "The record was queued while offline and its receipts were not saved. Attach them when editing it once you are back online.",
+    attachmentsError: "The record was saved, but the receipts could not be uploaded: {message}",
+    history: "View change history",
+    queuedTitle: "Fix pending record",
+    queuedRejected: "The server rejected this record: {message}. Fix it and save to send it again.",
+    transferLocked: "This transfer is already reconciled in one of its accounts. To change it, undo that reconciliation.",
+  },
+  attachments: {
+    label: "Receipts (Optional)",
+    confirmDelete: "Delete \"{name}\"?",
+    processing: "Processing...",
+    attach: "Attach photo or PDF",
+    hint: "Up to {size} MB per file; photos are downsized before uploading.",
+    invalidType: "\"{name}\" is not an image (JPG, PNG, WebP) or a PDF",
+    tooLarge: "\"{name}\" is larger than {size} MB",
+    noActiveWallet: "There is no active wallet",
+  },
+  periods: {
+    "7": "Last 7 days",
+    "30": "Last 30 days",
+    "90": "Last 3 months",
+    "365": "Last year",
+    "this-month": "This month",
+    "last-month": "Last month",
+    ytd: "Year to date",
+    custom: "Custom range",
+    from: "From",
+    to: "To",
+  },
+  kpi: {
+    vs: {
+      month: "vs previous month",
+      year: "vs previous year",
+      period: "vs previous period",
+    },
+    noData: {
+      month: "No data for the previous month",
+      year: "No data for the previous year",
+      period: "No data for the previous period",
+    },
+  },
+  budgetProgress: {
+    empty: "No budgets defined",
+    exceededBy: "Over by {amount}",
+  },
+  goalProgress: {
+    empty: "No savings goals",
+    reached: "Goal reached!",
+    overdue: "Due {date}; {amount} to go",
+    planOne: "{amount} a month for {months} month · due {date}",
+    planMany: "{amount} a month for {months} months · due {date}",
+  },
+  export: {
+    csv: "CSV (spreadsheet)",
+    json: "JSON",
+    ofx: "OFX (accounting software)",
+    exporting: "Exporting...",
+    export: "Export",
+    error: "Export failed: {message}",
+  },
+  dashboard: {
+    title: "Financial Overview",
+    pendingOne: "You have {count} recurring entry waiting for confirmation",
+    pendingMany: "You have {count} recurring entries waiting for confirmation",
+    review: "Review",
+    period: "Period",
+    category: "Category",
+    all: "All",
+    baseCurrency: "Base currency",
+    missingRates: "There is no exchange rate from {currencies} to {base}; those amounts are left out of the totals.",
+    income: "Income",
+    expenses: "Expenses",
+    balance: "Balance",
+    netWorth: "Net worth",
+    expenseDistribution: "Expense Breakdown",
+    general: "{name} (general)",
+    seeAll: "See all",
+    noExpenses: "No expenses to show",
+    recent: "Recent Transactions",
+    split: "Split",
+    uncategorized: "Uncategorized",
+    syncFailed: "Could not sync",
+    syncPending: "Waiting to sync",
+    noTransactions: "No transactions",
+    budgets: "This month's budgets",
+    goals: "Savings goals",
+    manage: "Manage",
+    fixQueued: "Fix",
+    discardQueued: "Discard",
+    confirmDiscardQueued: "Discard this record? It was not saved on the server and will be lost.",
+  },
+  stats: {
+    title: "Statistics",
+    subtitle: "How your finances change month by month.",
+    range: "Range",
+    lastMonths: "Last {count} months",
+    savingsRate: "Savings rate",
+    incomeVsExpenses: "Income vs Expenses",
+    cumulativeBalance: "Cumulative balance",
+    cumulative: "Cumulative",
+    monthNet: "Month net",
+    categoryTrend: "Trend by category",
+    monthlySavingsRate: "Monthly savings rate",
+    uncategorized: "Uncategorized",
+  },
+  transactions: {
+    title: "Records",
+    subtitle: "All your income, expenses and transfers.",
+    importCsv: "Import CSV",
+    account: "Account",
+    category: "Category",
+    type: "Type",
+    allTypes: "All",
+    transfers: "Transfers",
+    empty: "No records match the selected filters",
+    date: "Date",
+    note: "Note",
+    amount: "Amount",
+    runningTotal: "Running balance",
+    count: "{count} records",
+    page: "Page {page} of {total}",
+    split: "Split",
+  },
+  import: {
+    title: "Import bank statement",
+    subtitle: "Upload a CSV file from your bank and review the entries before saving them.",
+    emptyFile: "The file is empty or is not a valid CSV.",
+    column: "Column {index}",
+    selectFile: "Choose a CSV file",
+    separators: "Separated by commas, semicolons or tabs",
+    rows: "{count} rows",
+    hasHeader: "The first row is a header",
+    fields: {
+      amount: "Amount",
+      date: "Date",
+      note: "Note / Description",
+      sign: "Sign (debit/credit)",
+    },
+    optional: "{label} (Optional)",
+    unassigned: "Unassigned",
+    dateFormat: "Date format",
+    dateFormats: {
+      "DD/MM/YYYY": "DD/MM/YYYY",
+      "MM/DD/YYYY": "MM/DD/YYYY",
+      "YYYY-MM-DD": "YYYY-MM-DD",
+    },
+    targetAccount: "Target account",
+    incomeCategory: "Category for income",
+    expenseCategory: "Category for expenses",
+    signHelp: "Without a sign column, negative amounts are recorded as expenses and positive ones as income. Rows whose note matches a rule take the rule's category.",
+    cancel: "Cancel",
+    preview: "Preview",
+    withErrors: "{count} with errors",
+    duplicates: "{count} possible duplicates",
+    selected: "{count} selected",
+    line: "Line",
+    status: "Status",
+    byRule: "Chosen by a rule",
+    possibleDuplicate: "Possible duplicate",
+    ready: "Ready",
+    back: "Back",
+    importing: "Importing...",
+    importCount: "Import {count} entries",
+    imported: "{count} entries were imported",
+    importAnother: "Import another file",
+    viewRecords: "View records",
+    unrecognizedDate: "Unrecognized date: \"{value}\"",
+  },
+  budgets: {
+    title: "Budgets",
+    subtitle: "Set a monthly limit for your expense categories.",
+    add: "Add Budget",
+    confirmDelete: "Delete this budget?",
+    deleteError: "Could not delete the budget.",
+    editTitle: "Edit Budget",
+    newTitle: "New Budget",
+    category: "Category",
+    monthlyLimit: "Monthly limit",
+    save: "Save Budget",
+    uncategorized: "Uncategorized",
+  },
+  goalSources: {
+    account: "Balance of the linked account",
+    transfers: "Transfers assigned to the goal",
+  },
+  goals: {
+    title: "Savings goals",
+    subtitle: "Save for a specific target with a deadline.",
+    add: "Add Goal",
+    confirmDelete: "Delete this goal? Assigned transfers are kept.",
+    deleteError: "Could not delete the goal.",
+    editTitle: "Edit Goal",
+    newTitle: "New Goal",
+    name: "Name",
+    namePlaceholder: "Trip, emergency fund...",
+    targetAmount: "Target amount",
+    deadline: "Deadline",
+    source: "How is progress measured?",
+    account: "Account",
+    currency: "Currency",
+    transfersHelp: "Assign transfers to this goal from the transfer form.",
+    save: "Save Goal",
+  },
+  recurring: {
+    title: "Recurring",
+    subtitle: "Rent, salary and subscriptions that record themselves.",
+    confirmDelete: "Delete this rule? Records already generated are kept.",
+    deleteError: "Could not delete the rule.",
+    pending: "Waiting for confirmation",
+    noPending: "No pending entries",
+    confirm: "Confirm",
+    skip: "Skip",
+    rules: "Rules",
+    noRules: "Mark a record as recurring when saving it to see it here.",
+    next: "Next: {date}",
+    finished: "Finished",
+    until: " · Until {date}",
+    automatic: " · Automatic",
+    needsConfirmation: " · Needs confirmation",
+    editTitle: {
+      in: "Edit recurring income",
+      out: "Edit recurring expense",
+      transfer: "Edit recurring transfer",
+    },
+    autoConfirm: "Record automatically (no confirmation)",
+    active: "Active rule",
+    applyToPending: "Apply amount and note to pending occurrences",
+    save: "Save Rule",
+  },
+  reconcile: {
+    title: "Reconcile {name}",
+    subtitle: "Check the transactions and transfers that appear on the statement until the difference is zero.",
+    confirmUndo: "Undo the reconciliation as of {date}? Its transactions and transfers will be editable again.",
+    statementDate: "Statement date",
+    closingDebt: "Debt at statement close ({currency})",
+    closingBalance: "Statement ending balance ({currency})",
+    last: "Last reconciliation: {date} · {amount}",
+    undo: "Undo",
+    empty: "Nothing to reconcile up to this date",
+    clearedBalance: "Cleared balance:",
+    difference: "Difference:",
+    transfersNote: "Each transfer is reconciled separately in each of its accounts.",
+    finish: "Finish reconciliation",
+    transferTo: "Transfer to {name}",
+    transferFrom: "Transfer from {name}",
+  },
+  rules: {
+    confirmDelete: "Delete this rule? Records already categorized do not change.",
+    deleteError: "Could not delete the rule.",
+    title: "Categorization rules",
+    subtitle: "If the note contains the text, the category and account are picked for you.",
+    add: "Add Rule",
+    empty: "You have no rules yet. Without them, the category is suggested from your previous records.",
+    noteContains: "Note contains \"{pattern}\"",
+    editTitle: "Edit Rule",
+    newTitle: "New Rule",
+    pattern: "Note contains",
+    patternHelp: "Ignores case and accents.",
+    category: "Category",
+    account: "Account",
+    unchanged: "Leave unchanged",
+    save: "Save Rule",
+  },
+  nav: {
+    dashboard: "Home",
+    accounts: "Accounts",
+    categories: "Categories",
+    budgets: "Budgets",
+    goals: "Goals",
+    transactions: "Records",
+    recurring: "Recurring",
+    stats: "Statistics",
+    wallet: "Wallet",
+    settings: "Settings",
+    signOut: "Sign Out",
+    signOutError: "Could not sign out: {message}",
+    activity: "Activity",
+  },
+  walletRoles: {
+    owner: "Owner",
+    editor: "Editor",
+    viewer: "Read only",
+  },
+  wallet: {
+    title: "Wallet",
+    subtitle: "Accounts, categories and records belong to the active wallet and every member can see them.",
+    confirmLeave: "Leave \"{wallet}\"? You will stop seeing its accounts and records.",
+    confirmRemove: "Remove {email} from \"{wallet}\"?",
+    received: "Invitations received",
+    accept: "Accept",
+    mine: "My wallets",
+    active: "Active",
+    use: "Use this wallet",
+    namePlaceholder: "Home, Business...",
+    new: "New",
+    members: "Members of {wallet}",
+    you: "(you)",
+    leave: "Leave the wallet",
+    remove: "Remove from the wallet",
+    invite: "Invite",
+    emailPlaceholder: "email@example.com",
+    inviteHelp: "The invitation shows up right here when the person signs in with that email.",
+    pending: "pending",
+    cancelInvitation: "Cancel invitation",
+    duplicateInvitation: "That email already has a pending invitation",
+  },
+  audit: {
+    title: "Activity",
+    subtitle: "Who changed what and when across accounts, categories, transactions and transfers.",
+    allTables: "All records",
+    tables: {
+      transactions: "Transaction",
+      transfers: "Transfer",
+      accounts: "Account",
+      categories: "Category",
+    },
+    actions: {
+      insert: "Created",
+      update: "Updated",
+      delete: "Deleted",
+    },
+    fields: {
+      name: "Name",
+      type: "Type",
+      institution: "Institution",
+      currency: "Currency",
+      opening_balance: "Opening balance",
+      credit_limit: "Credit limit",
+      statement_day: "Statement day",
+      payment_due_day: "Payment day",
+      color: "Color",
+      parent_id: "Parent category",
+      kind: "Type",
+      amount: "Amount",
+      to_amount: "Amount received",
+      account_id: "Account",
+      from_account_id: "From account",
+      to_account_id: "To account",
+      category_id: "Category",
+      goal_id: "Goal",
+      date: "Date",
+      note: "Note",
+      cleared: "Cleared by the bank",
+      reconciliation_id: "Reconciliation",
+      archived_at: "Archived",
+      from_reconciliation_id: "Reconciliation (source)",
+      to_reconciliation_id: "Reconciliation (destination)",
+    },
+    singleRecord: "History of one record",
+    showAll: "Show all activity",
+    recordHistory: "History",
+    restore: "Restore this version",
+    confirmRestore: "Restore the transaction to this version? If it is split and this version has a different amount or category, its split lines will be removed. The change will be recorded in the history.",
+    deletedRecord: "(deleted)",
+    formerMember: "Former member",
+    system: "System",
+    reconciled: "Reconciled",
+    yes: "Yes",
+    no: "No",
+    empty: "No changes recorded.",
+    count: "{count} changes",
+  },
+  auth: {
+    titles: {
+      signIn: "Sign in to your account",
+      signUp: "Create a new account",
+      magicLink: "Sign in with a link",
+      reset: "Reset your password",
+    },
+    submit: {
+      signIn: "Sign In",
+      signUp: "Create Account",
+      magicLink: "Send link",
+      reset: "Send link",
+    },
+    unconfirmed: "You have not confirmed your email yet. Check your inbox.",
+    confirmationSent: "We sent an email to {email} to confirm your account.",
+    magicLinkSent: "We sent a sign-in link to {email}.",
+    resetSent: "If {email} has an account, it will receive a link to choose a new password.",
+    confirmationResent: "We sent the confirmation email to {email} again.",
+    tagline: "And take control of your finances today.",
+    linkTagline: "We will send a link to your email.",
+    email: "Email",
+    password: "Password",
+    resend: "Resend confirmation email",
+    forgot: "Forgot your password?",
+    passwordless: "Sign in without a password",
+    toSignUp: "Don't have an account? Sign up",
+    toSignIn: "Already have an account? Sign in",
+    backToSignIn: "Back to sign in",
+    linkExpired: "The email link has expired or was already used. Request a new one.",
+    linkFailed: "The email verification could not be completed.",
+    wrongPassword: "The current password is incorrect",
+    resetTitle: "Choose a new password",
+    verifyingLink: "Verifying link...",
+    invalidLink: "The link is not valid. Request a new one from the sign-in page.",
+    account: "Account: {email}",
+    newPassword: "New password",
+    repeatPassword: "Repeat the password",
+    savePassword: "Save password",
+    verifyingSession: "Checking session...",
+  },
+  settings: {
+    title: "Settings",
+    changePassword: "Change password",
+    passwordUpdated: "Your password was updated.",
+    currentPassword: "Current password",
+    newPassword: "New password",
+    repeatNewPassword: "Repeat the new password",
+    preferences: "Preferences",
+    language: "Language",
+    baseCurrency: "Main currency",
+    baseCurrencyHelp: "Used for the totals on the home page and for amounts without an account.",
+  },
+};
+
+export default enUS;
@@ -0,0 +1,591 @@
+// Catálogo de referencia: las claves de los demás idiomas se validan contra este.
+// {nombre} se reemplaza con los parámetros de t().
+const esGT = {
+  common: {
+    loading: "Cargando...",
+    save: "Guardar",
+    saving: "Guardando...",
+    processing: "Procesando...",
+    income: "Ingreso",
+    expense: "Gasto",
+    transfer: "Transferencia",
+    areYouSure: "¿Estás seguro?",
+    error: "Error: {message}",
+    deleteError: "Error al eliminar: {message}",
+    none: "—",
+    cancel: "Cancelar",
+    undo: "Deshacer",
+  },
+  validation: {
+    nameMin: "El nombre debe tener al menos 2 caracteres",
+    mustBeNumber: "Debe ser un número",
+    amountPositive: "El monto debe ser mayor a cero",
+    receivedAmountPositive: "El monto recibido debe ser mayor a cero",
+    dateRequired: "La fecha es requerida",
+    selectCategory: "Debe seleccionar una categoría",
+    selectAccount: "Debe seleccionar una cuenta",
+    selectFromAccount: "Debe seleccionar una cuenta de origen",
+    selectToAccount: "Debe seleccionar una cuenta de destino",
+    sameAccounts: "Las cuentas no pueden ser las mismas",
+    splitMinLines: "Una división necesita al menos dos líneas",
+    splitTotal: "Las líneas deben sumar el monto total",
+    dayOfMonth: "Día entre 1 y 31",
+    openingBalanceNegative: "El saldo inicial no puede ser negativo",
+    limitPositive: "El límite debe ser mayor a cero",
+    statementDayRequired: "Indica el día de corte",
+    paymentDayRequired: "Indica el día de pago",
+    ratePositive: "El tipo de cambio debe ser mayor a cero",
+    sameCurrencies: "Las monedas no pueden ser las mismas",
+    passwordMin: "La contraseña debe tener al menos 6 caracteres",
+    passwordsMismatch: "Las contraseñas no coinciden",
+    currentPasswordRequired: "Ingresa tu contraseña actual",
+    goalPositive: "La meta debe ser mayor a cero",
+    deadlineRequired: "La fecha límite es requerida",
+    selectGoalAccount: "Debe seleccionar la cuenta de la meta",
+    patternMin: "El texto debe tener al menos 2 caracteres",
+    ruleTarget: "Elige una categoría, una cuenta o ambas",
+    email: "Ingresa un correo válido",
+  },
+  accountTypes: {
+    cash: "Efectivo",
+    checking: "Monetaria",
+    savings: "Ahorro",
+    credit_card: "Tarjeta de crédito",
+    loan: "Préstamo",
+    investment: "Inversión",
+  },
+  accounts: {
+    title: "Cuentas",
+    subtitle: "Administra tus fuentes de ingresos y gastos.",
+    add: "Añadir Cuenta",
+    noInstitution: "Sin institución",
+    openingDebt: "Deuda inicial",
+    openingBalance: "Saldo inicial",
+    reconcile: "Conciliar",
+    deleteError: "No se pudo eliminar la cuenta: {message}",
+    edit: "Editar Cuenta",
+    new: "Nueva Cuenta",
+    name: "Nombre de la cuenta",
+    institution: "Institución (Opcional)",
+    type: "Tipo de cuenta",
+    currency: "Moneda",
+    limit: "Límite",
+    statementDay: "Día de corte",
+    paymentDay: "Día de pago",
+    submit: "Guardar Cuenta",
+    available: "Disponible {available} de {limit}",
+    statement: "Estado de cuenta al {date}: {amount} · pagar antes del {dueDate}",
+    currentCycle: "Consumos del ciclo actual: {amount} · próximo corte {date}",
+    archive: "Archivar",
+    restore: "Restaurar",
+    archivedTitle: "Archivadas ({count})",
+    deleted: "Cuenta «{name}» eliminada",
+    history: "Historial de cambios",
+  },
+  exchangeRates: {
+    title: "Tipos de cambio",
+    subtitle: "Se usan para convertir los totales a tu moneda base.",
+    from: "De",
+    to: "A",
+    rate: "Tasa",
+    deleteError: "Error al eliminar el tipo de cambio.",
+  },
+  categories: {
+    title: "Categorías",
+    subtitle: "Clasifica tus ingresos y gastos.",
+    rules: "Reglas",
+    add: "Añadir Categoría",
+    deleteError: "No se pudo eliminar la categoría: {message}",
+    edit: "Editar Categoría",
+    new: "Nueva Categoría",
+    name: "Nombre",
+    type: "Tipo",
+    parent: "Categoría padre",
+    noParent: "Ninguna (categoría principal)",
+    hasChildren: "Tiene subcategorías, así que debe seguir siendo principal. Si cambias su tipo, sus subcategorías también cambian.",
+    color: "Color",
+    submit: "Guardar Categoría",
+    archive: "Archivar",
+    restore: "Restaurar",
+    archivedTitle: "Archivadas ({count})",
+    deleted: "Categoría «{name}» eliminada",
+    childrenNote: "Sus {count} subcategorías pasarán a ser categorías principales.",
+    history: "Historial de cambios",
+  },
+  deleteDialog: {
+    title: "Eliminar «{name}»",
+    noRecords: "No tiene movimientos registrados; se eliminará definitivamente.",
+    hasRecords: {
+      account: "Esta cuenta tiene {count} movimientos entre transacciones y transferencias.",
+      category: "Esta categoría tiene {count} movimientos entre transacciones y líneas divididas.",
+    },
+    archive: "Archivar",
+    archiveHelp: {
+      account: "Deja de ofrecerse al registrar movimientos; su historial y su saldo siguen en los reportes.",
+      category: "Deja de ofrecerse al registrar movimientos; su historial sigue en los reportes.",
+    },
+    move: {
+      account: "Mover los {count} movimientos a otra cuenta y eliminar esta",
+      category: "Mover los {count} movimientos a otra categoría y eliminar esta",
+    },
+    noTargets: {
+      account: "No hay otra cuenta con la misma moneda.",
+      category: "No hay otra categoría del mismo tipo.",
+    },
+    selectTarget: "Selecciona el destino",
+    delete: "Eliminar",
+  },
+  frequencies: {
+    daily: "Diario",
+    weekly: "Semanal",
+    monthly: "Mensual",
+    yearly: "Anual",
+  },
+  transactionModal: {
+    editTitle: "Editar registro",
+    viewTitle: "Ver registro",
+    createdBy: "Registrado por {email}",
+    readOnly: "Tienes acceso de solo lectura a esta billetera.",
+    amount: "Monto",
+    amountIn: "Monto ({currency})",
+    fromAccount: "Desde la cuenta",
+    toAccount: "Hacia la cuenta",
+    receivedAmount: "Monto recibido ({currency})",
+    receivedAmountRequired: "Indica el monto recibido en {currency}",
+    goal: "Abonar a meta de ahorro (opcional)",
+    date: "Fecha",
+    note: "Nota (Opcional)",
+    account: "Cuenta",
+    category: "Categoría",
+    suggestedCategory: "Categoría sugerida:",
+    useSuggestion: "Usar",
+    cleared: "Confirmada en el estado de cuenta del banco",
+    locked: "Esta transacción ya está conciliada. Para modificarla, deshaz la conciliación de la cuenta.",
+    select: "Seleccionar...",
+    split: "Dividir en varias categorías",
+    addLine: "Añadir línea",
+    assigned: "Asignado {assigned} de {total}",
+    delete: "Eliminar",
+    confirmDelete: "¿Eliminar este registro? Esta acción no se puede deshacer.",
+    repeat: "Repetir",
+    frequency: "Frecuencia",
+    until: "Hasta (Opcional)",
+    autoConfirm: "Registrar automáticamente (si no, queda pendiente de confirmación)",
+    ruleError: "El registro se guardó, pero no se pudo programar la repetición: {message}",
+    queuedAttachments: "El registro quedó en cola sin conexión y sus comprobantes no se guardaron. Adjúntalos al editarlo cuando vuelvas a tener conexión.",
+    attachmentsError: "El registro se guardó, pero no se pudieron subir los comprobantes: {message}",
+    history: "Ver historial de cambios",
+    queuedTitle: "Corregir registro pendiente",
+    queuedRejected: "El servidor rechazó este registro: {message}. Corrígelo y guárdalo para volver a enviarlo.",
+    transferLocked: "Esta transferencia ya está conciliada en alguna de sus cuentas. Para modificarla, deshaz esa conciliación.",
+  },
+  attachments: {
+    label: "Comprobantes (Opcional)",
+    confirmDelete: "¿Eliminar \"{name}\"?",
+    processing: "Procesando...",
+    attach: "Adjuntar foto o PDF",
+    hint: "Hasta {size} MB por archivo; las fotos se reducen antes de subirlas.",
+    invalidType: "\"{name}\" no es una imagen (JPG, PNG, WebP) ni un PDF",
+    tooLarge: "\"{name}\" pesa más de {size} MB",
+    noActiveWallet: "No hay una billetera activa",
+  },
+  periods: {
+    "7": "Últimos 7 días",
+    "30": "Últimos 30 días",
+    "90": "Últimos 3 meses",
+    "365": "Último año",
+    "this-month": "Este mes",
+    "last-month": "Mes anterior",
+    ytd: "Año en curso",
+    custom: "Rango personalizado",
+    from: "Desde",
+    to: "Hasta",
+  },
+  kpi: {
+    vs: {
+      month: "vs mes anterior",
+      year: "vs año anterior",
+      period: "vs periodo anterior",
+    },
+    noData: {
+      month: "Sin datos del mes anterior",
+      year: "Sin datos del año anterior",
+      period: "Sin datos del periodo anterior",
+    },
+  },
+  budgetProgress: {
+    empty: "No hay presupuestos definidos",
+    exceededBy: "Excedido por {amount}",
+  },
+  goalProgress: {
+    empty: "No hay metas de ahorro",
+    reached: "¡Meta alcanzada!",
+    overdue: "Venció el {date}; faltan {amount}",
+    planOne: "{amount} al mes durante {months} mes · límite {date}",
+    planMany: "{amount} al mes durante {months} meses · límite {date}",
+  },
+  export: {
+    csv: "CSV (hoja de cálculo)",
+    json: "JSON",
+    ofx: "OFX (software contable)",
+    exporting: "Exportando...",
+    export: "Exportar",
+    error: "Error al exportar: {message}",
+  },
+  dashboard: {
+    title: "Resumen Financiero",
+    pendingOne: "Tienes {count} movimiento recurrente pendiente de confirmar",
+    pendingMany: "Tienes {count} movimientos recurrentes pendientes de confirmar",
+    review: "Revisar",
+    period: "Periodo",
+    category: "Categoría",
+    all: "Todas",
+    baseCurrency: "Moneda base",
+    missingRates: "Falta el tipo de cambio de {currencies} a {base}; esos montos no se incluyen en los totales.",
+    income: "Ingresos",
+    expenses: "Gastos",
+    balance: "Balance",
+    netWorth: "Patrimonio neto",
+    expenseDistribution: "Distribución de Gastos",
+    general: "{name} (general)",
+    seeAll: "Ver todas",
+    noExpenses: "No hay gastos para mostrar",
+    recent: "Transacciones Recientes",
+    split: "Dividida",
+    uncategorized: "Sin categoría",
+    syncFailed: "No se pudo sincronizar",
+    syncPending: "Pendiente de sincronizar",
+    noTransactions: "No hay transacciones",
+    budgets: "Presupuestos del mes",
+    goals: "Metas de ahorro",
+    manage: "Administrar",
+    fixQueued: "Corregir",
+    discardQueued: "Descartar",
+    confirmDiscardQueued: "¿Descartar este registro? No se guardó en el servidor y se perderá.",
+  },
+  stats: {
+    title: "Estadísticas",
+    subtitle: "Cómo evolucionan tus finanzas mes a mes.",
+    range: "Rango",
+    lastMonths: "Últimos {count} meses",
+    savingsRate: "Tasa de ahorro",
+    incomeVsExpenses: "Ingresos vs Gastos",
+    cumulativeBalance: "Balance acumulado",
+    cumulative: "Acumulado",
+    monthNet: "Neto del mes",
+    categoryTrend: "Tendencia por categoría",
+    monthlySavingsRate: "Tasa de ahorro mensual",
+    uncategorized: "Sin categoría",
+  },
+  transactions: {
+    title: "Registros",
+    subtitle: "Todos tus ingresos, gastos y transferencias.",
+    importCsv: "Importar CSV",
+    account: "Cuenta",
+    category: "Categoría",
+    type: "Tipo",
+    allTypes: "Todos",
+    transfers: "Transferencias",
+    empty: "No hay registros para los filtros seleccionados",
+    date: "Fecha",
+    note: "Nota",
+    amount: "Monto",
+    runningTotal: "Saldo acumulado",
+    count: "{count} registros",
+    page: "Página {page} de {total}",
+    split: "Dividida",
+  },
+  import: {
+    title: "Importar estado de cuenta",
+    subtitle: "Carga un archivo CSV de tu banco y revisa los movimientos antes de guardarlos.",
+    emptyFile: "El archivo está vacío o no es un CSV válido.",
+    column: "Columna {index}",
+    selectFile: "Selecciona un archivo CSV",
+    separators: "Separado por comas, punto y coma o tabulaciones",
+    rows: "{count} filas",
+    hasHeader: "La primera fila es encabezado",
+    fields: {
+      amount: "Monto",
+      date: "Fecha",
+      note: "Nota / Descripción",
+      sign: "Signo (débito/crédito)",
+    },
+    optional: "{label} (Opcional)",
+    unassigned: "Sin asignar",
+    dateFormat: "Formato de fecha",
+    dateFormats: {
+      "DD/MM/YYYY": "DD/MM/AAAA",
+      "MM/DD/YYYY": "MM/DD/AAAA",
+      "YYYY-MM-DD": "AAAA-MM-DD",
+    },
+    targetAccount: "Cuenta destino",
+    incomeCategory: "Categoría para ingresos",
+    expenseCategory: "Categoría para gastos",
+    signHelp: "Sin columna de signo, los montos negativos se registran como gastos y los positivos como ingresos. Las filas cuya nota coincide con una regla toman la categoría de la regla.",
+    cancel: "Cancelar",
+    preview: "Vista previa",
+    withErrors: "{count} con errores",
+    duplicates: "{count} posibles duplicados",
+    selected: "{count} seleccionadas",
+    line: "Línea",
+    status: "Estado",
+    byRule: "Elegida por una regla",
+    possibleDuplicate: "Posible duplicado",
+    ready: "Lista",
+    back: "Volver",
+    importing: "Importando...",
+    importCount: "Importar {count} movimientos",
+    imported: "Se importaron {count} movimientos",
+    importAnother: "Importar otro archivo",
+    viewRecords: "Ver registros",
+    unrecognizedDate: "Fecha no reconocida: \"{value}\"",
+  },
+  budgets: {
+    title: "Presupuestos",
+    subtitle: "Define un límite mensual para tus categorías de gasto.",
+    add: "Añadir Presupuesto",
+    confirmDelete: "¿Eliminar este presupuesto?",
+    deleteError: "Error al eliminar el presupuesto.",
+    editTitle: "Editar Presupuesto",
+    newTitle: "Nuevo Presupuesto",
+    category: "Categoría",
+    monthlyLimit: "Límite mensual",
+    save: "Guardar Presupuesto",
+    uncategorized: "Sin categoría",
+  },
+  goalSources: {
+    account: "Saldo de la cuenta vinculada",
+    transfers: "Transferencias asignadas a la meta",
+  },
+  goals: {
+    title: "Metas de ahorro",
+    subtitle: "Ahorra para un objetivo concreto con una fecha límite.",
+    add: "Añadir Meta",
+    confirmDelete: "¿Eliminar esta meta? Las transferencias asignadas se conservan.",
+    deleteError: "Error al eliminar la meta.",
+    editTitle: "Editar Meta",
+    newTitle: "Nueva Meta",
+    name: "Nombre",
+    namePlaceholder: "Viaje, fondo de emergencia...",
+    targetAmount: "Monto objetivo",
+    deadline: "Fecha límite",
+    source: "¿Cómo se mide el avance?",
+    account: "Cuenta",
+    currency: "Moneda",
+    transfersHelp: "Asigna transferencias a esta meta desde el formulario de transferencias.",
+    save: "Guardar Meta",
+  },
+  recurring: {
+    title: "Recurrentes",
+    subtitle: "Alquiler, salario y suscripciones que se registran solos.",
+    confirmDelete: "¿Eliminar esta regla? Los registros ya generados se conservan.",
+    deleteError: "Error al eliminar la regla.",
+    pending: "Pendientes de confirmar",
+    noPending: "No hay movimientos pendientes",
+    confirm: "Confirmar",
+    skip: "Omitir",
+    rules: "Reglas",
+    noRules: "Marca un registro como recurrente al guardarlo para verlo aquí.",
+    next: "Próxima: {date}",
+    finished: "Finalizada",
+    until: " · Hasta {date}",
+    automatic: " · Automática",
+    needsConfirmation: " · Requiere confirmación",
+    editTitle: {
+      in: "Editar ingreso recurrente",
+      out: "Editar gasto recurrente",
+      transfer: "Editar transferencia recurrente",
+    },
+    autoConfirm: "Registrar automáticamente (sin confirmación)",
+    active: "Regla activa",
+    applyToPending: "Aplicar monto y nota a las ocurrencias pendientes",
+    save: "Guardar Regla",
+  },
+  reconcile: {
+    title: "Conciliar {name}",
+    subtitle: "Marca las transacciones y transferencias que aparecen en el estado de cuenta hasta que la diferencia sea cero.",
+    confirmUndo: "¿Deshacer la conciliación al {date}? Sus transacciones y transferencias se podrán editar de nuevo.",
+    statementDate: "Fecha del estado de cuenta",
+    closingDebt: "Deuda al cierre del estado de cuenta ({currency})",
+    closingBalance: "Saldo final del estado de cuenta ({currency})",
+    last: "Última conciliación: {date} · {amount}",
+    undo: "Deshacer",
+    empty: "No hay movimientos por conciliar hasta esta fecha",
+    clearedBalance: "Saldo confirmado:",
+    difference: "Diferencia:",
+    transfersNote: "Cada transferencia se concilia en cada una de sus cuentas por separado.",
+    finish: "Finalizar conciliación",
+    transferTo: "Transferencia a {name}",
+    transferFrom: "Transferencia desde {name}",
+  },
+  rules: {
+    confirmDelete: "¿Eliminar esta regla? Los registros ya categorizados no cambian.",
+    deleteError: "Error al eliminar la regla.",
+    title: "Reglas de categorización",
+    subtitle: "Si la nota contiene el texto, se elige la categoría y la cuenta por ti.",
+    add: "Añadir Regla",
+    empty: "Aún no tienes reglas. Sin ellas se sugiere la categoría según tus registros anteriores.",
+    noteContains: "La nota contiene \"{pattern}\"",
+    editTitle: "Editar Regla",
+    newTitle: "Nueva Regla",
+    pattern: "La nota contiene",
+    patternHelp: "No distingue mayúsculas ni tildes.",
+    category: "Categoría",
+    account: "Cuenta",
+    unchanged: "Sin cambiar",
+    save: "Guardar Regla",
+  },
+  nav: {
+    dashboard: "Inicio",
+    accounts: "Cuentas",
+    categories: "Categorías",
+    budgets: "Presupuestos",
+    goals: "Metas",
+    transactions: "Registros",
+    recurring: "Recurrentes",
+    stats: "Estadísticas",
+    wallet: "Billetera",
+    settings: "Configuración",
+    signOut: "Cerrar Sesión",
+    signOutError: "Error al cerrar sesión: {message}",
+    activity: "Actividad",
+  },
+  walletRoles: {
+    owner: "Propietario",
+    editor: "Editor",
+    viewer: "Solo lectura",
+  },
+  wallet: {
+    title: "Billetera",
+    subtitle: "Las cuentas, categorías y registros pertenecen a la billetera activa y los ven todos sus miembros.",
+    confirmLeave: "¿Salir de \"{wallet}\"? Dejarás de ver sus cuentas y registros.",
+    confirmRemove: "¿Quitar a {email} de \"{wallet}\"?",
+    received: "Invitaciones recibidas",
+    accept: "Aceptar",
+    mine: "Mis billeteras",
+    active: "Activa",
+    use: "Usar esta billetera",
+    namePlaceholder: "Hogar, Negocio...",
+    new: "Nueva",
+    members: "Miembros de {wallet}",
+    you: "(tú)",
+    leave: "Salir de la billetera",
+    remove: "Quitar de la billetera",
+    invite: "Invitar",
+    emailPlaceholder: "correo@ejemplo.com",
+    inviteHelp: "La invitación aparece aquí mismo cuando la persona inicia sesión con ese correo.",
+    pending: "pendiente",
+    cancelInvitation: "Cancelar invitación",
+    duplicateInvitation: "Ese correo ya tiene una invitación pendiente",
+  },
+  audit: {
+    title: "Actividad",
+    subtitle: "Quién cambió qué y cuándo en cuentas, categorías, transacciones y transferencias.",
+    allTables: "Todos los registros",
+    tables: {
+      transactions: "Transacción",
+      transfers: "Transferencia",
+      accounts: "Cuenta",
+      categories: "Categoría",
+    },
+    actions: {
+      insert: "Creó",
+      update: "Modificó",
+      delete: "Eliminó",
+    },
+    fields: {
+      name: "Nombre",
+      type: "Tipo",
+      institution: "Institución",
+      currency: "Moneda",
+      opening_balance: "Saldo inicial",
+      credit_limit: "Límite de crédito",
+      statement_day: "Día de corte",
+      payment_due_day: "Día de pago",
+      color: "Color",
+      parent_id: "Categoría padre",
+      kind: "Tipo",
+      amount: "Monto",
+      to_amount: "Monto recibido",
+      account_id: "Cuenta",
+      from_account_id: "Cuenta de origen",
+      to_account_id: "Cuenta de destino",
+      category_id: "Categoría",
+      goal_id: "Meta",
+      date: "Fecha",
+      note: "Nota",
+      cleared: "Confirmada por el banco",
+      reconciliation_id: "Conciliación",
+      archived_at: "Archivada",
+      from_reconciliation_id: "Conciliación (origen)",
+      to_reconciliation_id: "Conciliación (destino)",
+    },
+    singleRecord: "Historial de un registro",
+    showAll: "Ver toda la actividad",
+    recordHistory: "Historial",
+    restore: "Restaurar esta versión",
+    confirmRestore: "¿Restaurar la transacción a esta versión? Si está dividida y esta versión tiene otro monto o categoría, sus líneas se eliminarán. El cambio quedará registrado en el historial.",
+    deletedRecord: "(eliminado)",
+    formerMember: "Exmiembro",
+    system: "Sistema",
+    reconciled: "Conciliada",
+    yes: "Sí",
+    no: "No",
+    empty: "No hay cambios registrados.",
+    count: "{count} cambios",
+  },
+  auth: {
+    titles: {
+      signIn: "Accede a tu cuenta",
+      signUp: "Crea una nueva cuenta",
+      magicLink: "Entra con un enlace",
+      reset: "Restablece tu contraseña",
+    },
+    submit: {
+      signIn: "Iniciar Sesión",
+      signUp: "Crear Cuenta",
+      magicLink: "Enviar enlace",
+      reset: "Enviar enlace",
+    },
+    unconfirmed: "Aún no confirmas tu correo. Revisa tu bandeja de entrada.",
+    confirmationSent: "Te enviamos un correo a {email} para confirmar tu cuenta.",
+    magicLinkSent: "Te enviamos un enlace de acceso a {email}.",
+    resetSent: "Si {email} tiene una cuenta, recibirá un enlace para elegir una contraseña nueva.",
+    confirmationResent: "Te reenviamos el correo de confirmación a {email}.",
+    tagline: "Y toma el control de tus finanzas hoy mismo.",
+    linkTagline: "Te enviaremos un enlace a tu correo.",
+    email: "Correo electrónico",
+    password: "Contraseña",
+    resend: "Reenviar correo de confirmación",
+    forgot: "¿Olvidaste tu contraseña?",
+    passwordless: "Entrar sin contraseña",
+    toSignUp: "¿Aún no tienes cuenta? Regístrate",
+    toSignIn: "¿Ya tienes una cuenta? Inicia Sesión",
+    backToSignIn: "Volver a iniciar sesión",
+    linkExpired: "El enlace del correo expiró o ya se usó. Solicita uno nuevo.",
+    linkFailed: "No se pudo completar la verificación del correo.",
+    wrongPassword: "La contraseña actual no es correcta",
+    resetTitle: "Elige una contraseña nueva",
+    verifyingLink: "Verificando enlace...",
+    invalidLink: "El enlace no es válido. Solicita uno nuevo desde el inicio de sesión.",
+    account: "Cuenta: {email}",
+    newPassword: "Contraseña nueva",
+    repeatPassword: "Repite la contraseña",
+    savePassword: "Guardar contraseña",
+    verifyingSession: "Verificando sesión...",
+  },
+  settings: {
+    title: "Configuración",
+    changePassword: "Cambiar contraseña",
+    passwordUpdated: "Tu contraseña se actualizó.",
+    currentPassword: "Contraseña actual",
+    newPassword: "Contraseña nueva",
+    repeatNewPassword: "Repite la contraseña nueva",
+    preferences: "Preferencias",
+    language: "Idioma",
+    baseCurrency: "Moneda principal",
+    baseCurrencyHelp: "Se usa en los totales del inicio y en los montos sin cuenta asociada.",
+  },
+};
+
+export default esGT;
@@ -1,10 +1,20 @@
 import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
+import { QueryClientProvider } from '@tanstack/react-query'
 import './index.css'
 import App from './App.tsx'
+import { queryClient } from './libs/queryClient'
+import { AuthProvider } from './context/AuthContext'
+import { LocaleProvider } from './context/LocaleContext'
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <App />
+    <QueryClientProvider client={queryClient}>
+      <AuthProvider>
+        <LocaleProvider>
+          <App />
+        </LocaleProvider>
+      </AuthProvider>
+    </QueryClientProvider>
   </StrictMode>,
 )
@@ -1,74 +1,98 @@
-import React, { useState, useEffect } from 'react';
-import { supabase } from '../supabaseClient';
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
 import { useForm, type SubmitHandler } from 'react-hook-form'; // <-- SOLUCIÓN 1: Importación de tipo explícita
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import { FiPlus, FiTrash2, FiEdit, FiX } from 'react-icons/fi';
-
-// Define el tipo de dato para una cuenta (basado en tu tabla de Supabase)
-interface Account {
-  id: string;
-  name: string;
-  institution?: string | null; // <-- SOLUCIÓN 2: Permitir null para compatibilidad con Supabase
-  opening_balance: number;
-}
+import { FiPlus, FiTrash2, FiEdit, FiX, FiCheckSquare, FiArchive, FiRotateCcw, FiChevronDown, FiChevronRight, FiClock } from 'react-icons/fi';
+import { CURRENCIES, DEFAULT_CURRENCY } from '../libs/currency';
+import { formatDate, formatMoney } from '../libs/format';
+import { t, translateMessage } from '../libs/i18n';
+import { ACCOUNT_TYPES, isLiability, selectableAccounts, type CreditCardCycle } from '../libs/accounts';
+import ExchangeRatesPanel from '../components/ExchangeRatesPanel';
+import DeleteDialog from '../components/DeleteDialog';
+import { useAccounts } from '../hooks/useAccounts';
+import { useAccountBalances } from '../hooks/useAccountBalances';
+import { useSaveAccount } from '../hooks/useSaveAccount';
+import { useDeleteAccount } from '../hooks/useDeleteAccount';
+import { useArchiveAccount } from '../hooks/useArchiveAccount';
+import { useDeleteWithUndo } from '../hooks/useDeleteWithUndo';
+import { useCreditCardCycles } from '../hooks/useCreditCardCycles';
+import type { Account } from '../types/account';
+
+// Campo numérico opcional: vacío = sin valor
+const optionalNumber = z.preprocess(
+  (val) => (val === null || String(val).trim() === '' ? undefined : Number(String(val))),
+  z.number().refine((val) => !isNaN(val), { message: 'validation.mustBeNumber' }).optional()
+);
 
-// Esquema de validación con Zod
+const dayOfMonth = z.preprocess(
+  (val) => (val === null || String(val).trim() === '' ? undefined : Number(String(val))),
+  z.number().int().min(1, { message: 'validation.dayOfMonth' }).max(31, { message: 'validation.dayOfMonth' }).optional()
+);
+
+// Esquema de validación con Zod (los mensajes son claves del catálogo). En tarjetas y préstamos el saldo inicial es la
+// deuda, que se escribe en positivo y se guarda como saldo negativo.
 const accountSchema = z.object({
-  name: z.string().min(2, { message: 'El nombre debe tener al menos 2 caracteres' }),
+  name: z.string().min(2, { message: 'validation.nameMin' }),
   institution: z.string().optional(),
+  type: z.enum(ACCOUNT_TYPES),
+  currency: z.enum(CURRENCIES),
   opening_balance: z.preprocess(
     (val) => (String(val).trim() === '' ? undefined : Number(String(val))), // Maneja campos vacíos
-    z.number().refine((val) => !isNaN(val), { message: 'Debe ser un número' }).min(0, { message: 'El saldo inicial no puede ser negativo' })
+    z.number().refine((val) => !isNaN(val), { message: 'validation.mustBeNumber' }).min(0, { message: 'validation.openingBalanceNegative' })
   ),
+  credit_limit: optionalNumber.refine((val) => val === undefined || val > 0, { message: 'validation.limitPositive' }),
+  statement_day: dayOfMonth,
+  payment_due_day: dayOfMonth,
+}).superRefine((data, ctx) => {
+  if (data.type !== 'credit_card') return;
+  if (data.statement_day === undefined) {
+    ctx.addIssue({ code: 'custom', path: ['statement_day'], message: 'validation.statementDayRequired' });
+  }
+  if (data.payment_due_day === undefined) {
+    ctx.addIssue({ code: 'custom', path: ['payment_due_day'], message: 'validation.paymentDayRequired' });
+  }
 });
 
+type AccountFormValues = z.input<typeof accountSchema>;
 type AccountFormInputs = z.infer<typeof accountSchema>;
 
 const AccountsPage: React.FC = () => {
-  const [accounts, setAccounts] = useState<Account[]>([]);
-  const [loading, setLoading] = useState(true);
+  const { data: accounts = [], isLoading: loading } = useAccounts();
+  const { data: balances } = useAccountBalances();
+  const saveAccount = useSaveAccount();
+  const removeAccount = useDeleteAccount();
+  const archiveAccount = useArchiveAccount();
+  const { hiddenIds, scheduleDelete } = useDeleteWithUndo();
   const [showModal, setShowModal] = useState(false);
   const [editingAccount, setEditingAccount] = useState<Account | null>(null);
+  const [deletingAccount, setDeletingAccount] = useState<Account | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
 
-  const { register, handleSubmit, reset, formState: { errors } } = useForm<AccountFormInputs>({
+  const { data: cycles = [] } = useCreditCardCycles();
+  const { register, handleSubmit, reset, watch, formState: { errors } } = useForm<AccountFormValues, any, AccountFormInputs>({
     resolver: zodResolver(accountSchema),
     defaultValues: { // <-- SOLUCIÓN 3: Proporcionar valores por defecto claros
       name: '',
       institution: '',
+      type: 'checking',
+      currency: DEFAULT_CURRENCY,
       opening_balance: 0,
     }
   });
 
-  // Función para obtener las cuentas del usuario
-  const fetchAccounts = async () => {
-    setLoading(true);
-    const { data: { user } } = await supabase.auth.getUser();
-    if (!user) {
-        setLoading(false);
-        return;
-    };
-
-    const { data, error } = await supabase
-      .from('accounts')
-      .select('*')
-      .eq('user_id', user.id)
-      .order('name', { ascending: true });
-
-    if (error) {
-      console.error('Error fetching accounts:', error);
-    } else if (data) {
-      setAccounts(data);
-    }
-    setLoading(false);
-  };
+  const selectedType = watch('type');
+
+  // Las que esperan su eliminación (aún se puede deshacer) ya no se muestran
+  const visibleAccounts = accounts.filter((a) => !hiddenIds.includes(a.id));
+  const activeAccounts = visibleAccounts.filter((a) => !a.archived_at);
+  const archivedAccounts = visibleAccounts.filter((a) => a.archived_at);
 
-  useEffect(() => {
-    fetchAccounts();
-  }, []);
+  // Si la vista de saldos no respondió, se muestra el saldo inicial
+  const currentBalance = (account: Account) => balances?.get(account.id)?.balance ?? account.opening_balance;
 
   const openModalForNew = () => {
-    reset({ name: '', institution: '', opening_balance: 0 });
+    reset({ name: '', institution: '', type: 'checking', currency: DEFAULT_CURRENCY, opening_balance: 0 });
     setEditingAccount(null);
     setShowModal(true);
   };
@@ -78,105 +102,195 @@ const AccountsPage: React.FC = () => {
     reset({
         name: account.name,
         institution: account.institution || '',
-        opening_balance: account.opening_balance
+        type: account.type,
+        currency: account.currency as typeof CURRENCIES[number],
+        opening_balance: isLiability(account.type) ? -account.opening_balance : account.opening_balance,
+        credit_limit: account.credit_limit ?? undefined,
+        statement_day: account.statement_day ?? undefined,
+        payment_due_day: account.payment_due_day ?? undefined,
     });
     setShowModal(true);
   };
 
-  const deleteAccount = async (accountId: string) => {
-    if (window.confirm('¿Estás seguro de que quieres eliminar esta cuenta? Esta acción no se puede deshacer.')) {
-      const { error } = await supabase.from('accounts').delete().eq('id', accountId);
-      if (error) {
-        alert('Error al eliminar la cuenta. Es posible que tenga transacciones asociadas.');
-      } else {
-        fetchAccounts();
-      }
-    }
+  const setArchived = (account: Account, archived: boolean) => {
+    setDeletingAccount(null);
+    archiveAccount.mutate({ id: account.id, archived }, {
+      onError: (error) => alert(t('common.error', { message: error.message })),
+    });
   };
 
-  const onSubmit: SubmitHandler<AccountFormInputs> = async (formData) => {
-    const { data: { user } } = await supabase.auth.getUser();
-    if (!user) return;
-
-    const dataToSubmit = { ...formData, user_id: user.id };
-    let error;
-
-    if (editingAccount) {
-      // Actualizar cuenta existente
-      ({ error } = await supabase.from('accounts').update(dataToSubmit).eq('id', editingAccount.id));
-    } else {
-      // Crear nueva cuenta
-      ({ error } = await supabase.from('accounts').insert(dataToSubmit));
-    }
+  // Los movimientos solo pueden pasar a otra cuenta de la misma moneda
+  const deleteAccount = (account: Account, targetId: string | null) => {
+    setDeletingAccount(null);
+    scheduleDelete(account.id, t('accounts.deleted', { name: account.name }), (done) =>
+      removeAccount.mutate({ id: account.id, targetId }, {
+        onError: (error) => alert(t('accounts.deleteError', { message: error.message })),
+        onSettled: done,
+      })
+    );
+  };
 
-    if (error) {
-      alert(error.message);
-    } else {
-      setShowModal(false);
-      fetchAccounts();
-    }
+  const onSubmit: SubmitHandler<AccountFormInputs> = (formData) => {
+    // La lista se actualiza al instante; si el servidor rechaza el cambio se revierte
+    const creditCard = formData.type === 'credit_card';
+    saveAccount.mutate({
+      ...formData,
+      institution: formData.institution || null,
+      opening_balance: isLiability(formData.type) ? -formData.opening_balance : formData.opening_balance,
+      credit_limit: creditCard ? formData.credit_limit ?? null : null,
+      statement_day: creditCard ? formData.statement_day ?? null : null,
+      payment_due_day: creditCard ? formData.payment_due_day ?? null : null,
+      id: editingAccount?.id,
+    }, {
+      onError: (error) => alert(error.message),
+    });
+    setShowModal(false);
   };
 
   return (
     <div className="text-white">
       <div className="flex justify-between items-center mb-8">
         <div>
-          <h1 className="text-4xl font-bold">Cuentas</h1>
-          <p className="text-gray-400 mt-1">Administra tus fuentes de ingresos y gastos.</p>
+          <h1 className="text-4xl font-bold">{t('accounts.title')}</h1>
+          <p className="text-gray-400 mt-1">{t('accounts.subtitle')}</p>
         </div>
         <button
           onClick={openModalForNew}
           className="bg-indigo-600 hover:bg-indigo-500 text-white font-bold py-3 px-6 rounded-lg flex items-center transition"
         >
-          <FiPlus className="mr-2" /> Añadir Cuenta
+          <FiPlus className="mr-2" /> {t('accounts.add')}
         </button>
       </div>
 
-      {loading ? <p>Cargando...</p> : (
+      {loading ? <p>{t('common.loading')}</p> : (
         <div className="bg-gray-800 p-6 rounded-2xl shadow-lg">
           <ul className="divide-y divide-gray-700">
-            {accounts.map(account => (
+            {activeAccounts.map(account => (
               <li key={account.id} className="py-4 flex flex-wrap justify-between items-center gap-4">
                 <div>
                   <p className="font-semibold text-lg">{account.name}</p>
-                  <p className="text-sm text-gray-400">{account.institution || 'Sin institución'}</p>
+                  <p className="text-sm text-gray-400">{t(`accountTypes.${account.type}`)} · {account.institution || t('accounts.noInstitution')} · {account.currency}</p>
+                  {account.type === 'credit_card' && (
+                    <CreditCardSummary account={account} balance={currentBalance(account)} cycle={cycles.find((c) => c.accountId === account.id)} />
+                  )}
                 </div>
                 <div className="flex items-center gap-4">
-                  <p className="font-mono text-lg">Q{account.opening_balance.toFixed(2)}</p>
+                  <div className="text-right">
+                    <p className={`font-mono text-lg ${currentBalance(account) < 0 ? 'text-red-400' : ''}`}>{formatMoney(currentBalance(account), account.currency)}</p>
+                    <p className="text-xs text-gray-500">
+                      {isLiability(account.type) ? t('accounts.openingDebt') : t('accounts.openingBalance')} {formatMoney(Math.abs(account.opening_balance), account.currency)}
+                    </p>
+                  </div>
+                  <Link to={`/accounts/${account.id}/reconcile`} title={t('accounts.reconcile')} className="text-gray-400 hover:text-white"><FiCheckSquare size={18} /></Link>
+                  <Link to={`/activity?table=accounts&record=${account.id}`} title={t('accounts.history')} className="text-gray-400 hover:text-white"><FiClock size={18} /></Link>
                   <button onClick={() => openModalForEdit(account)} className="text-gray-400 hover:text-white"><FiEdit size={18} /></button>
-                  <button onClick={() => deleteAccount(account.id)} className="text-gray-400 hover:text-red-500"><FiTrash2 size={18} /></button>
+                  <button onClick={() => setArchived(account, true)} title={t('accounts.archive')} className="text-gray-400 hover:text-white"><FiArchive size={18} /></button>
+                  <button onClick={() => setDeletingAccount(account)} className="text-gray-400 hover:text-red-500"><FiTrash2 size={18} /></button>
                 </div>
               </li>
             ))}
           </ul>
+
+          {/* Las archivadas no se ofrecen al registrar movimientos pero conservan su saldo */}
+          {archivedAccounts.length > 0 && (
+            <div className="mt-4 pt-4 border-t border-gray-700">
+              <button onClick={() => setShowArchived(!showArchived)} className="flex items-center text-gray-400 hover:text-white">
+                {showArchived ? <FiChevronDown className="mr-2" /> : <FiChevronRight className="mr-2" />}
+                {t('accounts.archivedTitle', { count: archivedAccounts.length })}
+              </button>
+              {showArchived && (
+                <ul className="divide-y divide-gray-700 mt-2">
+                  {archivedAccounts.map((account) => (
+                    <li key={account.id} className="py-3 flex justify-between items-center gap-4 text-gray-400">
+                      <div>
+                        <p className="font-semibold">{account.name}</p>
+                        <p className="text-sm">{t(`accountTypes.${account.type}`)} · {account.currency}</p>
+                      </div>
+                      <div className="flex items-center gap-4">
+                        <p className="font-mono">{formatMoney(currentBalance(account), account.currency)}</p>
+                        <button onClick={() => setArchived(account, false)} title={t('accounts.restore')} className="hover:text-white"><FiRotateCcw size={18} /></button>
+                        <button onClick={() => setDeletingAccount(account)} className="hover:text-red-500"><FiTrash2 size={18} /></button>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
         </div>
       )}
 
+      {deletingAccount && (
+        <DeleteDialog
+          owner="account"
+          item={deletingAccount}
+          targets={selectableAccounts(visibleAccounts).filter(
+            (a) => a.id !== deletingAccount.id && a.currency === deletingAccount.currency
+          )}
+          onArchive={() => setArchived(deletingAccount, true)}
+          onDelete={(targetId) => deleteAccount(deletingAccount, targetId)}
+          onClose={() => setDeletingAccount(null)}
+        />
+      )}
+
+      <ExchangeRatesPanel />
+
       {showModal && (
         <div className="fixed inset-0 bg-black bg-opacity-75 flex justify-center items-center z-50 p-4">
           <div className="bg-gray-800 rounded-2xl p-8 w-full max-w-md relative">
             <button onClick={() => setShowModal(false)} className="absolute top-4 right-4 text-gray-400 hover:text-white">
               <FiX size={24} />
             </button>
-            <h2 className="text-2xl font-bold mb-6">{editingAccount ? 'Editar Cuenta' : 'Nueva Cuenta'}</h2>
+            <h2 className="text-2xl font-bold mb-6">{editingAccount ? t('accounts.edit') : t('accounts.new')}</h2>
             <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
               <div>
-                <label className="block text-sm font-medium text-gray-300">Nombre de la cuenta</label>
+                <label className="block text-sm font-medium text-gray-300">{t('accounts.name')}</label>
                 <input {...register('name')} className="mt-1 w-full bg-gray-700 border-gray-600 rounded-lg p-3" />
-                {errors.name && <p className="text-red-500 text-sm mt-1">{errors.name.message}</p>}
+                {errors.name && <p className="text-red-500 text-sm mt-1">{translateMessage(errors.name.message)}</p>}
               </div>
               <div>
-                <label className="block text-sm font-medium text-gray-300">Institución (Opcional)</label>
+                <label className="block text-sm font-medium text-gray-300">{t('accounts.institution')}</label>
                 <input {...register('institution')} className="mt-1 w-full bg-gray-700 border-gray-600 rounded-lg p-3" />
               </div>
               <div>
-                <label className="block text-sm font-medium text-gray-300">Saldo Inicial</label>
+                <label className="block text-sm font-medium text-gray-300">{t('accounts.type')}</label>
+                <select {...register('type')} className="mt-1 w-full bg-gray-700 border-gray-600 rounded-lg p-3">
+                  {ACCOUNT_TYPES.map((type) => (<option key={type} value={type}>{t(`accountTypes.${type}`)}</option>))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-300">{t('accounts.currency')}</label>
+                <select {...register('currency')} className="mt-1 w-full bg-gray-700 border-gray-600 rounded-lg p-3">
+                  {CURRENCIES.map((c) => (<option key={c} value={c}>{c}</option>))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-300">{isLiability(selectedType) ? t('accounts.openingDebt') : t('accounts.openingBalance')}</label>
                 <input type="number" step="0.01" {...register('opening_balance')} className="mt-1 w-full bg-gray-700 border-gray-600 rounded-lg p-3" />
-                {errors.opening_balance && <p className="text-red-500 text-sm mt-1">{errors.opening_balance.message}</p>}
+                {errors.opening_balance && <p className="text-red-500 text-sm mt-1">{translateMessage(errors.opening_balance.message)}</p>}
               </div>
+              {selectedType === 'credit_card' && (
+                <div className="grid grid-cols-3 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-300">{t('accounts.limit')}</label>
+                    <input type="number" step="0.01" {...register('credit_limit')} className="mt-1 w-full bg-gray-700 border-gray-600 rounded-lg p-3" />
+                    {errors.credit_limit && <p className="text-red-500 text-sm mt-1">{translateMessage(errors.credit_limit.message)}</p>}
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-300">{t('accounts.statementDay')}</label>
+                    <input type="number" min="1" max="31" {...register('statement_day')} className="mt-1 w-full bg-gray-700 border-gray-600 rounded-lg p-3" />
+                    {errors.statement_day && <p className="text-red-500 text-sm mt-1">{translateMessage(errors.statement_day.message)}</p>}
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-300">{t('accounts.paymentDay')}</label>
+                    <input type="number" min="1" max="31" {...register('payment_due_day')} className="mt-1 w-full bg-gray-700 border-gray-600 rounded-lg p-3" />
+                    {errors.payment_due_day && <p className="text-red-500 text-sm mt-1">{translateMessage(errors.payment_due_day.message)}</p>}
+                  </div>
+                </div>
+              )}
               <div className="pt-4">
                 <button type="submit" className="w-full bg-indigo-600 hover:bg-indigo-500 text-white font-bold py-3 rounded-lg transition">
-                  Guardar Cuenta
+                  {t('accounts.submit')}
                 </button>
               </div>
             </form>
@@ -187,4 +301,39 @@ const AccountsPage: React.FC = () => {
   );
 };
 
+interface CreditCardSummaryProps {
+  account: Account;
+  balance: number;
+  cycle?: CreditCardCycle;
+}
+
+// Crédito disponible y el estado de cuenta: lo que se paga del último corte y lo
+// que lleva el ciclo en curso
+const CreditCardSummary: React.FC<CreditCardSummaryProps> = ({ account, balance, cycle }) => (
+  <div className="mt-2 text-sm text-gray-300 space-y-1">
+    {account.credit_limit !== null && (
+      <p>
+        {t('accounts.available', {
+          available: formatMoney(account.credit_limit + balance, account.currency),
+          limit: formatMoney(account.credit_limit, account.currency),
+        })}
+      </p>
+    )}
+    {cycle && (
+      <>
+        <p>
+          {t('accounts.statement', {
+            date: formatDate(cycle.lastClosing),
+            amount: formatMoney(cycle.amountDue, account.currency),
+            dueDate: formatDate(cycle.paymentDue),
+          })}
+        </p>
+        <p className="text-gray-400">
+          {t('accounts.currentCycle', { amount: formatMoney(cycle.cycleCharges, account.currency), date: formatDate(cycle.nextClosing) })}
+        </p>
+      </>
+    )}
+  </div>
+);
+
 export default AccountsPage;
\ No newline at end of file
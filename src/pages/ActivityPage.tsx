@@ -0,0 +1,84 @@
+import React from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { FiChevronLeft, FiChevronRight, FiX } from 'react-icons/fi';
+import AuditEntryList from '../components/AuditEntryList';
+import { AUDIT_TABLES, type AuditFilters } from '../libs/audit';
+import { t } from '../libs/i18n';
+import { useAuditLog } from '../hooks/useAuditLog';
+import type { AuditTable } from '../types/audit';
+
+const PAGE_SIZE = 25;
+
+// Historial de cambios de la billetera. Con ?table=...&record=... muestra solo el
+// historial de un registro (los enlaces de cuentas, categorías y transacciones).
+// La página también va en la URL para que cambiar de filtro vuelva a la primera.
+const ActivityPage: React.FC = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const page = Math.max(0, Number(searchParams.get('page')) || 0);
+
+  const table = searchParams.get('table');
+  const filters: AuditFilters = {
+    table: AUDIT_TABLES.includes(table as AuditTable) ? (table as AuditTable) : 'all',
+    recordId: searchParams.get('record'),
+  };
+
+  const { data, isLoading: loading } = useAuditLog(filters, page, PAGE_SIZE);
+  const entries = data?.entries ?? [];
+  const totalCount = data?.totalCount ?? 0;
+  const totalPages = Math.max(1, Math.ceil(totalCount / PAGE_SIZE));
+
+  const changeTable = (value: string) => setSearchParams(value === 'all' ? {} : { table: value });
+
+  const setPage = (next: number) =>
+    setSearchParams((params) => {
+      params.set('page', String(next));
+      return params;
+    });
+
+  return (
+    <div className="text-white">
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-8">
+        <div>
+          <h1 className="text-4xl font-bold">{t('audit.title')}</h1>
+          <p className="text-gray-400 mt-1">{t('audit.subtitle')}</p>
+        </div>
+        <select
+          value={filters.table}
+          onChange={(e) => changeTable(e.target.value)}
+          className="bg-gray-700 border-gray-600 rounded-lg p-3"
+        >
+          <option value="all">{t('audit.allTables')}</option>
+          {AUDIT_TABLES.map((value) => (<option key={value} value={value}>{t(`audit.tables.${value}`)}</option>))}
+        </select>
+      </div>
+
+      {filters.recordId && (
+        <div className="flex items-center gap-2 mb-4 text-sm">
+          <span className="bg-gray-700 rounded-full px-3 py-1">{t('audit.singleRecord')}</span>
+          <Link to="/activity" className="flex items-center text-gray-400 hover:text-white">
+            <FiX className="mr-1" /> {t('audit.showAll')}
+          </Link>
+        </div>
+      )}
+
+      <div className="bg-gray-800 p-6 rounded-2xl shadow-lg">
+        {loading ? <p>{t('common.loading')}</p> : <AuditEntryList entries={entries} showRecordLink={!filters.recordId} />}
+
+        <div className="flex items-center justify-between mt-6 text-sm text-gray-400">
+          <span>{t('audit.count', { count: totalCount })}</span>
+          <div className="flex items-center gap-4">
+            <button onClick={() => setPage(page - 1)} disabled={page === 0} className="p-2 rounded-lg hover:bg-gray-700 disabled:opacity-30">
+              <FiChevronLeft size={18} />
+            </button>
+            <span>{t('transactions.page', { page: page + 1, total: totalPages })}</span>
+            <button onClick={() => setPage(page + 1)} disabled={page + 1 >= totalPages} className="p-2 rounded-lg hover:bg-gray-700 disabled:opacity-30">
+              <FiChevronRight size={18} />
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ActivityPage;
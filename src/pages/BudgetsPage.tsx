@@ -0,0 +1,170 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '../supabaseClient';
+import { useForm, type SubmitHandler } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { FiPlus, FiTrash2, FiEdit, FiX } from 'react-icons/fi';
+import BudgetProgressList from '../components/BudgetProgressList';
+import { fetchBudgetProgress, type BudgetProgress } from '../libs/budgets';
+import { t, translateMessage } from '../libs/i18n';
+import { useAuth } from '../hooks/useAuth';
+
+interface Category { id: string; name: string; archived_at: string | null; }
+
+const budgetSchema = z.object({
+  category_id: z.string().uuid({ message: 'validation.selectCategory' }),
+  amount: z.coerce.number().positive({ message: 'validation.limitPositive' }),
+});
+
+type BudgetFormValues = z.input<typeof budgetSchema>;
+type BudgetFormInputs = z.infer<typeof budgetSchema>;
+
+const BudgetsPage: React.FC = () => {
+  const { user } = useAuth();
+  const [progress, setProgress] = useState<BudgetProgress[]>([]);
+  const [expenseCategories, setExpenseCategories] = useState<Category[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showModal, setShowModal] = useState(false);
+  const [editingBudget, setEditingBudget] = useState<BudgetProgress | null>(null);
+
+  const { register, handleSubmit, reset, formState: { errors } } = useForm<BudgetFormValues, any, BudgetFormInputs>({
+    resolver: zodResolver(budgetSchema),
+    defaultValues: { category_id: '', amount: 0 },
+  });
+
+  const fetchBudgets = async () => {
+    setLoading(true);
+    const { data, error } = await supabase
+      .from('categories')
+      .select('id, name, archived_at')
+      .eq('type', 'expense')
+      .order('name', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching categories:', error);
+    } else if (data) {
+      setExpenseCategories(data);
+    }
+
+    try {
+      setProgress(await fetchBudgetProgress());
+    } catch (budgetsError) {
+      console.error('Error fetching budgets:', budgetsError);
+    }
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    fetchBudgets();
+  }, []);
+
+  // Solo se ofrecen categorías activas que aún no tienen presupuesto (o la que se está editando)
+  const availableCategories = expenseCategories.filter(
+    (c) => c.id === editingBudget?.categoryId || (!c.archived_at && !progress.some((p) => p.categoryId === c.id))
+  );
+
+  const openModalForNew = () => {
+    reset({ category_id: '', amount: 0 });
+    setEditingBudget(null);
+    setShowModal(true);
+  };
+
+  const openModalForEdit = (budget: BudgetProgress) => {
+    setEditingBudget(budget);
+    reset({ category_id: budget.categoryId, amount: budget.limit });
+    setShowModal(true);
+  };
+
+  const deleteBudget = async (budgetId: string) => {
+    if (window.confirm(t('budgets.confirmDelete'))) {
+      const { error } = await supabase.from('budgets').delete().eq('id', budgetId);
+      if (error) {
+        alert(t('budgets.deleteError'));
+      } else {
+        fetchBudgets();
+      }
+    }
+  };
+
+  const onSubmit: SubmitHandler<BudgetFormInputs> = async (formData) => {
+    const dataToSubmit = { ...formData, user_id: user!.id };
+    let error;
+
+    if (editingBudget) {
+      ({ error } = await supabase.from('budgets').update(dataToSubmit).eq('id', editingBudget.budgetId));
+    } else {
+      ({ error } = await supabase.from('budgets').insert(dataToSubmit));
+    }
+
+    if (error) {
+      alert(error.message);
+    } else {
+      setShowModal(false);
+      fetchBudgets();
+    }
+  };
+
+  return (
+    <div className="text-white">
+      <div className="flex justify-between items-center mb-8">
+        <div>
+          <h1 className="text-4xl font-bold">{t('budgets.title')}</h1>
+          <p className="text-gray-400 mt-1">{t('budgets.subtitle')}</p>
+        </div>
+        <button
+          onClick={openModalForNew}
+          className="bg-indigo-600 hover:bg-indigo-500 text-white font-bold py-3 px-6 rounded-lg flex items-center transition"
+        >
+          <FiPlus className="mr-2" /> {t('budgets.add')}
+        </button>
+      </div>
+
+      {loading ? <p>{t('common.loading')}</p> : (
+        <div className="bg-gray-800 p-6 rounded-2xl shadow-lg">
+          <BudgetProgressList
+            items={progress}
+            actions={(budget) => (
+              <>
+                <button onClick={() => openModalForEdit(budget)} className="text-gray-400 hover:text-white"><FiEdit size={16} /></button>
+                <button onClick={() => deleteBudget(budget.budgetId)} className="text-gray-400 hover:text-red-500"><FiTrash2 size={16} /></button>
+              </>
+            )}
+          />
+        </div>
+      )}
+
+      {showModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-75 flex justify-center items-center z-50 p-4">
+          <div className="bg-gray-800 rounded-2xl p-8 w-full max-w-md relative">
+            <button onClick={() => setShowModal(false)} className="absolute top-4 right-4 text-gray-400 hover:text-white">
+              <FiX size={24} />
+            </button>
+            <h2 className="text-2xl font-bold mb-6">{editingBudget ? t('budgets.editTitle') : t('budgets.newTitle')}</h2>
+            <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-300">{t('budgets.category')}</label>
+                <select {...register('category_id')} className="mt-1 w-full bg-gray-700 border-gray-600 rounded-lg p-3">
+                  <option value="">{t('transactionModal.select')}</option>
+                  {availableCategories.map((c) => (<option key={c.id} value={c.id}>{c.name}</option>))}
+                </select>
+                {errors.category_id && <p className="text-red-500 text-sm mt-1">{translateMessage(errors.category_id.message)}</p>}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-300">{t('budgets.monthlyLimit')}</label>
+                <input type="number" step="0.01" {...register('amount')} className="mt-1 w-full bg-gray-700 border-gray-600 rounded-lg p-3" />
+                {errors.amount && <p className="text-red-500 text-sm mt-1">{translateMessage(errors.amount.message)}</p>}
+              </div>
+              <div className="pt-4">
+                <button type="submit" className="w-full bg-indigo-600 hover:bg-indigo-500 text-white font-bold py-3 rounded-lg transition">
+                  {t('budgets.save')}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BudgetsPage;
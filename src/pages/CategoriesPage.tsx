@@ -1,173 +1,220 @@
-import React, { useState, useEffect } from 'react';
-import { supabase } from '../supabaseClient';
+import React, { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
 import { useForm, type SubmitHandler } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import { FiPlus, FiTrash2, FiEdit, FiX, FiTag } from 'react-icons/fi';
-
-interface Category {
-  id: string;
-  name: string;
-  type: 'income' | 'expense';
-  color?: string | null;
-}
+import { FiPlus, FiTrash2, FiEdit, FiX, FiTag, FiCornerDownRight, FiZap, FiArchive, FiRotateCcw, FiChevronDown, FiChevronRight, FiClock } from 'react-icons/fi';
+import { useCategories } from '../hooks/useCategories';
+import { useSaveCategory } from '../hooks/useSaveCategory';
+import { useDeleteCategory } from '../hooks/useDeleteCategory';
+import { useArchiveCategory } from '../hooks/useArchiveCategory';
+import { useDeleteWithUndo } from '../hooks/useDeleteWithUndo';
+import DeleteDialog from '../components/DeleteDialog';
+import { getChildren, selectableCategories, toCategoryOptions } from '../libs/categories';
+import { t, translateMessage } from '../libs/i18n';
+import type { Category } from '../types/category';
 
 // SOLUCIÓN: Hacer el color opcional y permitir que sea nulo en el esquema
 const categorySchema = z.object({
-  name: z.string().min(2, { message: 'El nombre debe tener al menos 2 caracteres' }),
+  name: z.string().min(2, { message: 'validation.nameMin' }),
   type: z.enum(['income', 'expense']),
   color: z.string().optional().nullable(),
+  parent_id: z.string().optional().nullable(),
 });
 
 type CategoryFormInputs = z.infer<typeof categorySchema>;
 
 const CategoriesPage: React.FC = () => {
-  const [categories, setCategories] = useState<Category[]>([]);
-  const [loading, setLoading] = useState(true);
+  const { data: categories = [], isLoading: loading } = useCategories();
+  const saveCategory = useSaveCategory();
+  const removeCategory = useDeleteCategory();
+  const archiveCategory = useArchiveCategory();
+  const { hiddenIds, scheduleDelete } = useDeleteWithUndo();
   const [showModal, setShowModal] = useState(false);
   const [editingCategory, setEditingCategory] = useState<Category | null>(null);
+  const [deletingCategory, setDeletingCategory] = useState<Category | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
 
-  const { register, handleSubmit, reset, formState: { errors } } = useForm<CategoryFormInputs>({
+  const { register, handleSubmit, reset, watch, setValue, formState: { errors } } = useForm<CategoryFormInputs>({
     resolver: zodResolver(categorySchema),
-    defaultValues: { name: '', type: 'expense', color: '#888888' }
+    defaultValues: { name: '', type: 'expense', color: '#888888', parent_id: '' }
   });
 
-  const fetchCategories = async () => {
-    setLoading(true);
-    const { data: { user } } = await supabase.auth.getUser();
-    if (!user) { setLoading(false); return; }
-
-    const { data, error } = await supabase
-      .from('categories')
-      .select('*')
-      .eq('user_id', user.id)
-      .order('name', { ascending: true });
-
-    if (error) {
-      console.error('Error fetching categories:', error);
-    } else if (data) {
-      setCategories(data);
-    }
-    setLoading(false);
-  };
+  const selectedType = watch('type');
 
-  useEffect(() => {
-    fetchCategories();
-  }, []);
+  // Las que esperan su eliminación (aún se puede deshacer) ya no se muestran
+  const visibleCategories = useMemo(() => categories.filter((c) => !hiddenIds.includes(c.id)), [categories, hiddenIds]);
+  const archivedCategories = visibleCategories.filter((c) => c.archived_at);
+
+  // Cada categoría principal seguida de sus subcategorías. Una subcategoría
+  // restaurada cuyo padre sigue archivado se muestra como principal.
+  const tree = useMemo(() => {
+    const active = visibleCategories.filter((c) => !c.archived_at);
+    const activeIds = new Set(active.map((c) => c.id));
+    return active
+      .filter((c) => !c.parent_id || !activeIds.has(c.parent_id))
+      .map((parent) => ({ parent, children: getChildren(parent.id, active) }));
+  }, [visibleCategories]);
+
+  // Solo una categoría principal del mismo tipo puede ser padre; una categoría
+  // que ya tiene subcategorías no puede moverse dentro de otra
+  const editingHasChildren = !!editingCategory && getChildren(editingCategory.id, categories).length > 0;
+  const parentOptions = selectableCategories(categories, editingCategory?.parent_id).filter(
+    (c) => !c.parent_id && c.type === selectedType && c.id !== editingCategory?.id
+  );
 
   const openModalForNew = () => {
-    reset({ name: '', type: 'expense', color: '#888888' });
+    reset({ name: '', type: 'expense', color: '#888888', parent_id: '' });
     setEditingCategory(null);
     setShowModal(true);
   };
 
   const openModalForEdit = (category: Category) => {
     setEditingCategory(category);
-    reset(category); // reset ya puede manejar `null` gracias al esquema
+    reset({ ...category, parent_id: category.parent_id ?? '' }); // reset ya puede manejar `null` gracias al esquema
     setShowModal(true);
   };
 
-  const deleteCategory = async (categoryId: string) => {
-    if (window.confirm('¿Estás seguro?')) {
-      const { error } = await supabase.from('categories').delete().eq('id', categoryId);
-      if (error) {
-        alert('Error al eliminar la categoría.');
-      } else {
-        fetchCategories();
-      }
-    }
+  const setArchived = (category: Category, archived: boolean) => {
+    setDeletingCategory(null);
+    archiveCategory.mutate({ id: category.id, archived }, {
+      onError: (error) => alert(t('common.error', { message: error.message })),
+    });
   };
 
-  const onSubmit: SubmitHandler<CategoryFormInputs> = async (formData) => {
-    const { data: { user } } = await supabase.auth.getUser();
-    if (!user) return;
-
-    const dataToSubmit = { ...formData, user_id: user.id };
-    let error;
-
-    if (editingCategory) {
-      ({ error } = await supabase.from('categories').update(dataToSubmit).eq('id', editingCategory.id));
-    } else {
-      ({ error } = await supabase.from('categories').insert(dataToSubmit));
-    }
-
-    if (error) {
-      alert(error.message);
-    } else {
-      setShowModal(false);
-      fetchCategories();
-    }
+  // Los movimientos solo pueden pasar a otra categoría del mismo tipo
+  const deleteCategory = (category: Category, targetId: string | null) => {
+    setDeletingCategory(null);
+    scheduleDelete(category.id, t('categories.deleted', { name: category.name }), (done) =>
+      removeCategory.mutate({ id: category.id, targetId }, {
+        onError: (error) => alert(t('categories.deleteError', { message: error.message })),
+        onSettled: done,
+      })
+    );
+  };
+
+  const deletingChildCount = deletingCategory ? getChildren(deletingCategory.id, visibleCategories).length : 0;
+
+  const onSubmit: SubmitHandler<CategoryFormInputs> = (formData) => {
+    saveCategory.mutate({ ...formData, color: formData.color ?? null, parent_id: formData.parent_id || null, id: editingCategory?.id }, {
+      onError: (error) => alert(error.message),
+    });
+    setShowModal(false);
   };
 
   return (
     <div className="text-white">
       <div className="flex justify-between items-center mb-8">
         <div>
-          <h1 className="text-4xl font-bold">Categorías</h1>
-          <p className="text-gray-400 mt-1">Clasifica tus ingresos y gastos.</p>
+          <h1 className="text-4xl font-bold">{t('categories.title')}</h1>
+          <p className="text-gray-400 mt-1">{t('categories.subtitle')}</p>
+        </div>
+        <div className="flex gap-4">
+          <Link
+            to="/categories/rules"
+            className="bg-gray-700 hover:bg-gray-600 text-white font-bold py-3 px-6 rounded-lg flex items-center transition"
+          >
+            <FiZap className="mr-2" /> {t('categories.rules')}
+          </Link>
+          <button
+            onClick={openModalForNew}
+            className="bg-indigo-600 hover:bg-indigo-500 text-white font-bold py-3 px-6 rounded-lg flex items-center transition"
+          >
+            <FiPlus className="mr-2" /> {t('categories.add')}
+          </button>
         </div>
-        <button
-          onClick={openModalForNew}
-          className="bg-indigo-600 hover:bg-indigo-500 text-white font-bold py-3 px-6 rounded-lg flex items-center transition"
-        >
-          <FiPlus className="mr-2" /> Añadir Categoría
-        </button>
       </div>
 
-      {loading ? <p>Cargando...</p> : (
+      {loading ? <p>{t('common.loading')}</p> : (
         <div className="bg-gray-800 p-6 rounded-2xl shadow-lg">
           <ul className="divide-y divide-gray-700">
-            {categories.map(category => (
-              <li key={category.id} className="py-4 flex justify-between items-center">
-                <div className="flex items-center gap-4">
-                  <span className="p-2 bg-gray-700 rounded-full">
-                    <FiTag style={{ color: category.color || '#FFFFFF' }} />
-                  </span>
-                  <div>
-                    <p className="font-semibold text-lg">{category.name}</p>
-                    <p className={`text-sm font-bold ${category.type === 'income' ? 'text-green-400' : 'text-red-400'}`}>
-                      {category.type === 'income' ? 'Ingreso' : 'Gasto'}
-                    </p>
-                  </div>
-                </div>
-                <div className="flex items-center gap-4">
-                  <button onClick={() => openModalForEdit(category)} className="text-gray-400 hover:text-white"><FiEdit size={18} /></button>
-                  <button onClick={() => deleteCategory(category.id)} className="text-gray-400 hover:text-red-500"><FiTrash2 size={18} /></button>
-                </div>
+            {tree.map(({ parent, children }) => (
+              <li key={parent.id} className="py-4">
+                <CategoryRow category={parent} onEdit={openModalForEdit} onArchive={setArchived} onDelete={setDeletingCategory} />
+                {children.length > 0 && (
+                  <ul className="mt-3 ml-6 space-y-3 border-l border-gray-700 pl-4">
+                    {children.map((child) => (
+                      <li key={child.id}>
+                        <CategoryRow category={child} onEdit={openModalForEdit} onArchive={setArchived} onDelete={setDeletingCategory} />
+                      </li>
+                    ))}
+                  </ul>
+                )}
               </li>
             ))}
           </ul>
+
+          {/* Las archivadas no se ofrecen al registrar movimientos pero siguen en los reportes */}
+          {archivedCategories.length > 0 && (
+            <div className="mt-4 pt-4 border-t border-gray-700">
+              <button onClick={() => setShowArchived(!showArchived)} className="flex items-center text-gray-400 hover:text-white">
+                {showArchived ? <FiChevronDown className="mr-2" /> : <FiChevronRight className="mr-2" />}
+                {t('categories.archivedTitle', { count: archivedCategories.length })}
+              </button>
+              {showArchived && (
+                <ul className="mt-3 space-y-3 opacity-75">
+                  {archivedCategories.map((category) => (
+                    <li key={category.id}>
+                      <CategoryRow category={category} onEdit={openModalForEdit} onArchive={setArchived} onDelete={setDeletingCategory} />
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
         </div>
       )}
 
+      {deletingCategory && (
+        <DeleteDialog
+          owner="category"
+          item={deletingCategory}
+          targets={toCategoryOptions(
+            selectableCategories(visibleCategories).filter((c) => c.type === deletingCategory.type)
+          ).filter((c) => c.id !== deletingCategory.id)}
+          note={deletingChildCount > 0 ? t('categories.childrenNote', { count: deletingChildCount }) : undefined}
+          onArchive={() => setArchived(deletingCategory, true)}
+          onDelete={(targetId) => deleteCategory(deletingCategory, targetId)}
+          onClose={() => setDeletingCategory(null)}
+        />
+      )}
+
       {showModal && (
         <div className="fixed inset-0 bg-black bg-opacity-75 flex justify-center items-center z-50 p-4">
           <div className="bg-gray-800 rounded-2xl p-8 w-full max-w-md relative">
             <button onClick={() => setShowModal(false)} className="absolute top-4 right-4 text-gray-400 hover:text-white">
               <FiX size={24} />
             </button>
-            <h2 className="text-2xl font-bold mb-6">{editingCategory ? 'Editar Categoría' : 'Nueva Categoría'}</h2>
+            <h2 className="text-2xl font-bold mb-6">{editingCategory ? t('categories.edit') : t('categories.new')}</h2>
             <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
               <div>
-                <label className="block text-sm font-medium text-gray-300">Nombre</label>
+                <label className="block text-sm font-medium text-gray-300">{t('categories.name')}</label>
                 <input {...register('name')} className="mt-1 w-full bg-gray-700 border-gray-600 rounded-lg p-3" />
-                {errors.name && <p className="text-red-500 text-sm mt-1">{errors.name.message}</p>}
+                {errors.name && <p className="text-red-500 text-sm mt-1">{translateMessage(errors.name.message)}</p>}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-300">{t('categories.type')}</label>
+                <select {...register('type', { onChange: () => setValue('parent_id', '') })} className="mt-1 w-full bg-gray-700 border-gray-600 rounded-lg p-3">
+                  <option value="expense">{t('common.expense')}</option>
+                  <option value="income">{t('common.income')}</option>
+                </select>
+                {errors.type && <p className="text-red-500 text-sm mt-1">{translateMessage(errors.type.message)}</p>}
               </div>
               <div>
-                <label className="block text-sm font-medium text-gray-300">Tipo</label>
-                <select {...register('type')} className="mt-1 w-full bg-gray-700 border-gray-600 rounded-lg p-3">
-                  <option value="expense">Gasto</option>
-                  <option value="income">Ingreso</option>
+                <label className="block text-sm font-medium text-gray-300">{t('categories.parent')}</label>
+                <select {...register('parent_id')} disabled={editingHasChildren} className="mt-1 w-full bg-gray-700 border-gray-600 rounded-lg p-3 disabled:opacity-50">
+                  <option value="">{t('categories.noParent')}</option>
+                  {parentOptions.map((c) => (<option key={c.id} value={c.id}>{c.name}</option>))}
                 </select>
-                {errors.type && <p className="text-red-500 text-sm mt-1">{errors.type.message}</p>}
+                {editingHasChildren && <p className="text-gray-400 text-sm mt-1">{t('categories.hasChildren')}</p>}
               </div>
               <div>
-                <label className="block text-sm font-medium text-gray-300">Color</label>
+                <label className="block text-sm font-medium text-gray-300">{t('categories.color')}</label>
                 <input type="color" {...register('color')} className="mt-1 w-full h-10 p-1 bg-gray-700 border-gray-600 rounded-lg" />
               </div>
               <div className="pt-4">
                 <button type="submit" className="w-full bg-indigo-600 hover:bg-indigo-500 text-white font-bold py-3 rounded-lg transition">
-                  Guardar Categoría
+                  {t('categories.submit')}
                 </button>
               </div>
             </form>
@@ -178,4 +225,38 @@ const CategoriesPage: React.FC = () => {
   );
 };
 
+interface CategoryRowProps {
+  category: Category;
+  onEdit: (category: Category) => void;
+  onArchive: (category: Category, archived: boolean) => void;
+  onDelete: (category: Category) => void;
+}
+
+const CategoryRow: React.FC<CategoryRowProps> = ({ category, onEdit, onArchive, onDelete }) => (
+  <div className="flex justify-between items-center">
+    <div className="flex items-center gap-4">
+      {category.parent_id && <FiCornerDownRight className="text-gray-500" />}
+      <span className="p-2 bg-gray-700 rounded-full">
+        <FiTag style={{ color: category.color || '#FFFFFF' }} />
+      </span>
+      <div>
+        <p className="font-semibold text-lg">{category.name}</p>
+        <p className={`text-sm font-bold ${category.type === 'income' ? 'text-green-400' : 'text-red-400'}`}>
+          {category.type === 'income' ? t('common.income') : t('common.expense')}
+        </p>
+      </div>
+    </div>
+    <div className="flex items-center gap-4">
+      <Link to={`/activity?table=categories&record=${category.id}`} title={t('categories.history')} className="text-gray-400 hover:text-white"><FiClock size={18} /></Link>
+      <button onClick={() => onEdit(category)} className="text-gray-400 hover:text-white"><FiEdit size={18} /></button>
+      {category.archived_at ? (
+        <button onClick={() => onArchive(category, false)} title={t('categories.restore')} className="text-gray-400 hover:text-white"><FiRotateCcw size={18} /></button>
+      ) : (
+        <button onClick={() => onArchive(category, true)} title={t('categories.archive')} className="text-gray-400 hover:text-white"><FiArchive size={18} /></button>
+      )}
+      <button onClick={() => onDelete(category)} className="text-gray-400 hover:text-red-500"><FiTrash2 size={18} /></button>
+    </div>
+  </div>
+);
+
 export default CategoriesPage;
\ No newline at end of file
@@ -1,180 +1,335 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { useMutationState } from '@tanstack/react-query';
 import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip, Legend } from 'recharts';
-import { FiPlus, FiTrendingUp, FiTrendingDown, FiDollarSign } from 'react-icons/fi';
+import { FiPlus, FiTrendingUp, FiTrendingDown, FiDollarSign, FiBriefcase, FiEdit, FiTrash2 } from 'react-icons/fi';
 import TransactionModal from '../components/TransactionModal';
-import { supabase } from '../supabaseClient';
+import KpiCard from '../components/KpiCard';
+import ExportButton from '../components/ExportButton';
+import BudgetProgressList from '../components/BudgetProgressList';
+import GoalProgressList from '../components/GoalProgressList';
+import { CHART_COLORS } from '../libs/charts';
+import { sumBalances } from '../libs/balances';
+import { getChildren, getRootCategoryId, toCategoryOptions } from '../libs/categories';
+import { PERIOD_PRESETS, getPeriodRange, getPreviousPeriod, toDateInput, type Period, type PeriodPreset } from '../libs/periods';
+import { CURRENCIES, createConverter, getBaseCurrency, setBaseCurrency } from '../libs/currency';
+import { formatDate, formatMoney, formatPercent } from '../libs/format';
+import { t } from '../libs/i18n';
+import { useAccounts } from '../hooks/useAccounts';
+import { useCategories } from '../hooks/useCategories';
+import { useTransactions } from '../hooks/useTransactions';
+import { useAccountBalances } from '../hooks/useAccountBalances';
+import { useExchangeRates } from '../hooks/useExchangeRates';
+import { usePerformanceSummary } from '../hooks/usePerformanceSummary';
+import { useBudgetProgress } from '../hooks/useBudgetProgress';
+import { useGoals } from '../hooks/useGoals';
+import { usePendingOccurrences } from '../hooks/usePendingOccurrences';
+import { useSyncQueue } from '../hooks/useSyncQueue';
+import { useDiscardQueuedRecord } from '../hooks/useDiscardQueuedRecord';
+import type { QueuedRecord } from '../libs/offlineQueue';
+import type { RecordRef } from '../types/transaction';
 
 // --- Tipos ---
-interface KpiData { ingresos: number; gastos: number; balance: number; }
-interface RecentTransaction { id: string; amount: number; kind: 'in' | 'out'; date: string; categories: { name: string } | null; }
-interface Category { id: string; name: string; }
-interface PieChartData { name: string; value: number; [key: string]: string | number; }
-type Period = '7' | '30' | '90' | '365';
-
-// --- KpiCard ---
-const KpiCard: React.FC<{ title: string; amount: number; icon: React.ReactNode }> = ({ title, amount, icon }) => (
-    <div className="bg-gray-800 p-6 rounded-2xl flex items-center justify-between shadow">
-        <div>
-            <p className="text-gray-400">{title}</p>
-            <h2 className={`text-2xl font-bold ${amount >= 0 ? 'text-green-400' : 'text-red-400'}`}>
-                Q{amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
-            </h2>
-        </div>
-        {icon}
-    </div>
-);
+interface PieChartData { id: string | null; name: string; value: number; drillable: boolean; [key: string]: string | number | boolean | null; }
 
 // --- Componente Principal ---
 const DashboardPage: React.FC = () => {
     const [isModalOpen, setIsModalOpen] = useState(false);
-    const [kpiData, setKpiData] = useState<KpiData>({ ingresos: 0, gastos: 0, balance: 0 });
-    const [pieChartData, setPieChartData] = useState<PieChartData[]>([]);
-    const [recentTransactions, setRecentTransactions] = useState<RecentTransaction[]>([]);
-    const [categories, setCategories] = useState<Category[]>([]);
-    const [loading, setLoading] = useState(true);
+    const [editingRecord, setEditingRecord] = useState<RecordRef | null>(null);
+    const [editingQueued, setEditingQueued] = useState<QueuedRecord | null>(null);
     
     // Filtros
     const [activePeriod, setActivePeriod] = useState<Period>('30');
     const [activeCategory, setActiveCategory] = useState<string>('all');
+    const [baseCurrency, setActiveBaseCurrency] = useState<string>(getBaseCurrency);
+    // Categoría principal cuyo desglose por subcategoría se ve en el gráfico
+    const [drillCategory, setDrillCategory] = useState<string | null>(null);
 
-    const fetchDashboardData = useCallback(async () => {
-        setLoading(true);
-        try {
-            const { data: { user } } = await supabase.auth.getUser();
-            if (!user) throw new Error("Usuario no autenticado");
-
-            const startDate = new Date();
-            startDate.setDate(startDate.getDate() - parseInt(activePeriod));
-            const endDate = new Date();
-
-            const { data: summaryData, error: rpcError } = await supabase.rpc('get_performance_summary', {
-                p_start_date: startDate.toISOString(),
-                p_end_date: endDate.toISOString(),
-            });
-            if (rpcError) throw rpcError;
-
-            if (summaryData) {
-                const totalIngresos = summaryData.filter((i: { kind: string; total_amount: number }) => i.kind === 'in')
-                    .reduce((acc: number, i: { total_amount: number }) => acc + Number(i.total_amount), 0);
-                const totalGastos = summaryData
-                    .filter((i: { kind: string; total_amount: number }) => i.kind === 'out')
-                    .reduce((acc: number, i: { total_amount: number }) => acc + Number(i.total_amount), 0);
-                setKpiData({ ingresos: totalIngresos, gastos: totalGastos, balance: totalIngresos - totalGastos });
-
-                const expenseData: PieChartData[] = summaryData
-                    .filter((d: { kind: string; category_name: string; total_amount: number }) => d.kind === 'out')
-                    .map((d: { category_name: string; total_amount: number }) => ({ name: d.category_name, value: Number(d.total_amount) }));
-                setPieChartData(expenseData);
-            }
-
-            // Cargar transacciones recientes con filtros
-            let query = supabase.from('transactions')
-                .select('id, amount, kind, date, categories(name)')
-                .gte('date', startDate.toISOString())
-                .lte('date', endDate.toISOString());
-            
-            if (activeCategory !== 'all') {
-                query = query.eq('category_id', activeCategory);
-            }
-            const { data: recentData, error: recentError } = await query.order('date', { ascending: false }).limit(5);
-            if (recentError) throw recentError;
-            setRecentTransactions((recentData || []).map(tx => ({
-                ...tx,
-                categories: tx.categories && Array.isArray(tx.categories) ? tx.categories[0] : null,
-            })) as RecentTransaction[]);
-
-        } catch (err) {
-            console.error('Error cargando datos:', err);
-        } finally {
-            setLoading(false);
-        }
-    }, [activePeriod, activeCategory]);
+    const { data: accounts = [] } = useAccounts();
+    const { data: categories = [] } = useCategories();
+    const { data: recentTransactions = [], isLoading: loadingRecent } = useTransactions(activePeriod, activeCategory);
+    const { data: summary = [], isLoading: loadingSummary } = usePerformanceSummary(activePeriod);
+    const previous = getPreviousPeriod(activePeriod);
+    const { data: previousSummary = [] } = usePerformanceSummary(previous.period);
+    const { data: balances } = useAccountBalances();
+    const { data: rates = [] } = useExchangeRates();
+    const { data: budgetProgress = [], isLoading: loadingBudgets } = useBudgetProgress(baseCurrency);
+    const { data: goals = [], isLoading: loadingGoals } = useGoals();
+    const { data: pending = [] } = usePendingOccurrences();
+    const pendingCount = pending.length;
+    const { data: queued = [] } = useSyncQueue();
+    const discardQueued = useDiscardQueuedRecord();
+
+    // Lo que sigue en la cola local se muestra aparte hasta que llegue al servidor
+    const queuedIds = useMemo(() => new Set(queued.map((r) => r.id)), [queued]);
+    const visibleRecent = recentTransactions.filter((tx) => !queuedIds.has(tx.id));
+    const savingIds = useMutationState({
+        filters: { status: 'pending' },
+        select: (mutation) => (mutation.state.variables as { id?: string } | undefined)?.id,
+    });
+    const isSaving = (id: string) => savingIds.includes(id);
+
+    // Todo se convierte a la moneda base con los tipos de cambio del usuario
+    const { kpiData, previousKpiData, pieChartData, missingRates } = useMemo(() => {
+        const { convert, missing } = createConverter(rates, baseCurrency);
+
+        // El patrimonio neto no depende del periodo: es la suma de los saldos actuales
+        const patrimonio = balances ? sumBalances(balances, convert) : 0;
+
+        const convertRows = (data: typeof summary) => data.map((row) => ({ ...row, total_amount: convert(row.total_amount, row.currency) }));
+        const totalOf = (data: typeof summary, kind: 'in' | 'out') =>
+            data.filter((i) => i.kind === kind).reduce((acc, i) => acc + i.total_amount, 0);
+
+        const rows = convertRows(summary);
+        const ingresos = totalOf(rows, 'in');
+        const gastos = totalOf(rows, 'out');
+
+        const previousRows = convertRows(previousSummary);
+        const previousIngresos = totalOf(previousRows, 'in');
+        const previousGastos = totalOf(previousRows, 'out');
+
+        // Una categoría puede tener gastos en varias monedas: se agrupan ya convertidos.
+        // Las subcategorías se acumulan en su categoría principal salvo al ver su desglose.
+        const expenseTotals = new Map<string, PieChartData>();
+        rows.filter((d) => d.kind === 'out').forEach((d) => {
+            const rootId = d.category_id ? getRootCategoryId(d.category_id, categories) : null;
+            if (drillCategory && rootId !== drillCategory) return;
 
-    useEffect(() => {
-        const fetchCategories = async () => {
-            const { data, error } = await supabase.from('categories').select('id, name, type');
-            if (!error && data) setCategories(data);
+            const id = drillCategory ? d.category_id : rootId;
+            const category = categories.find((c) => c.id === id);
+            const name = !category ? d.category_name
+                : drillCategory && id === drillCategory ? t('dashboard.general', { name: category.name })
+                : category.name;
+            const drillable = !drillCategory && !!id && getChildren(id, categories).length > 0;
+
+            const key = id ?? name;
+            const current = expenseTotals.get(key);
+            expenseTotals.set(key, { id, name, drillable, value: (current?.value || 0) + d.total_amount });
+        });
+
+        return {
+            kpiData: { ingresos, gastos, balance: ingresos - gastos, patrimonio },
+            previousKpiData: { ingresos: previousIngresos, gastos: previousGastos, balance: previousIngresos - previousGastos },
+            pieChartData: [...expenseTotals.values()],
+            missingRates: [...missing],
         };
-        fetchCategories();
-    }, []);
+    }, [summary, previousSummary, balances, rates, baseCurrency, categories, drillCategory]);
+
+    const openModal = (record: RecordRef | null) => {
+        setEditingRecord(record);
+        setIsModalOpen(true);
+    };
 
-    useEffect(() => {
-        fetchDashboardData();
-    }, [fetchDashboardData]);
+    const closeModal = () => {
+        setIsModalOpen(false);
+        setEditingRecord(null);
+        setEditingQueued(null);
+    };
 
-    const COLORS = ['#6366F1', '#EC4899', '#10B981', '#F59E0B', '#8B5CF6', '#EF4444'];
+    // Un registro que el servidor rechazó ya no se reintenta solo: se corrige o se descarta
+    const fixQueued = (record: QueuedRecord) => {
+        setEditingQueued(record);
+        setIsModalOpen(true);
+    };
+
+    const discardQueuedRecord = (record: QueuedRecord) => {
+        if (!window.confirm(t('dashboard.confirmDiscardQueued'))) return;
+        discardQueued.mutate(record.id, {
+            onError: (error) => alert(t('common.deleteError', { message: error.message })),
+        });
+    };
+
+    // Al elegir un rango libre se parte del rango que ya se estaba viendo
+    const changePeriod = (value: string) => {
+        if (value !== 'custom') {
+            setActivePeriod(value as PeriodPreset);
+            return;
+        }
+        const { startDate, endDate } = getPeriodRange(activePeriod);
+        setActivePeriod({ from: toDateInput(startDate), to: toDateInput(endDate) });
+    };
+
+    // Los registros en cola aún no traen la cuenta: su moneda se busca aparte
+    const queuedCurrency = (record: QueuedRecord) => {
+        const accountId = record.type === 'transfer' ? record.values.from_account_id : record.values.account_id;
+        return accounts.find((a) => a.id === accountId)?.currency;
+    };
+
+    const changeBaseCurrency = (currency: string) => {
+        setBaseCurrency(currency);
+        setActiveBaseCurrency(currency);
+    };
 
     return (
         <div className="p-6 text-white space-y-8">
-            <h1 className="text-3xl font-bold">Resumen Financiero</h1>
+            <h1 className="text-3xl font-bold">{t('dashboard.title')}</h1>
+
+            {pendingCount > 0 && (
+                <Link to="/recurring" className="flex items-center justify-between bg-indigo-900/50 border border-indigo-700 p-4 rounded-xl hover:bg-indigo-900/70 transition">
+                    <span>{t(pendingCount === 1 ? 'dashboard.pendingOne' : 'dashboard.pendingMany', { count: pendingCount })}</span>
+                    <span className="text-indigo-300 font-semibold">{t('dashboard.review')}</span>
+                </Link>
+            )}
             
             <div className="flex flex-col md:flex-row gap-4">
                 <div>
-                    <label className="block text-sm text-gray-400 mb-1">Periodo</label>
-                    <select value={activePeriod} onChange={(e) => setActivePeriod(e.target.value as Period)} className="bg-gray-800 p-2 rounded-lg border border-gray-700">
-                        <option value="7">Últimos 7 días</option>
-                        <option value="30">Últimos 30 días</option>
-                        <option value="90">Últimos 3 meses</option>
-                        <option value="365">Último año</option>
+                    <label className="block text-sm text-gray-400 mb-1">{t('dashboard.period')}</label>
+                    <select value={typeof activePeriod === 'string' ? activePeriod : 'custom'} onChange={(e) => changePeriod(e.target.value)} className="bg-gray-800 p-2 rounded-lg border border-gray-700">
+                        {PERIOD_PRESETS.map((p) => (<option key={p} value={p}>{t(`periods.${p}`)}</option>))}
+                        <option value="custom">{t('periods.custom')}</option>
                     </select>
                 </div>
+                {typeof activePeriod !== 'string' && (
+                    <div className="flex gap-2">
+                        <div>
+                            <label className="block text-sm text-gray-400 mb-1">{t('periods.from')}</label>
+                            <input type="date" value={activePeriod.from} max={activePeriod.to} onChange={(e) => e.target.value && setActivePeriod({ ...activePeriod, from: e.target.value })} className="bg-gray-800 p-2 rounded-lg border border-gray-700" />
+                        </div>
+                        <div>
+                            <label className="block text-sm text-gray-400 mb-1">{t('periods.to')}</label>
+                            <input type="date" value={activePeriod.to} min={activePeriod.from} onChange={(e) => e.target.value && setActivePeriod({ ...activePeriod, to: e.target.value })} className="bg-gray-800 p-2 rounded-lg border border-gray-700" />
+                        </div>
+                    </div>
+                )}
                 <div>
-                    <label className="block text-sm text-gray-400 mb-1">Categoría</label>
+                    <label className="block text-sm text-gray-400 mb-1">{t('dashboard.category')}</label>
                     <select value={activeCategory} onChange={(e) => setActiveCategory(e.target.value)} className="bg-gray-800 p-2 rounded-lg border border-gray-700">
-                        <option value="all">Todas</option>
-                        {categories.map((cat) => (<option key={cat.id} value={cat.id}>{cat.name}</option>))}
+                        <option value="all">{t('dashboard.all')}</option>
+                        {toCategoryOptions(categories).map((cat) => (<option key={cat.id} value={cat.id}>{cat.name}</option>))}
+                    </select>
+                </div>
+                <div>
+                    <label className="block text-sm text-gray-400 mb-1">{t('dashboard.baseCurrency')}</label>
+                    <select value={baseCurrency} onChange={(e) => changeBaseCurrency(e.target.value)} className="bg-gray-800 p-2 rounded-lg border border-gray-700">
+                        {CURRENCIES.map((c) => (<option key={c} value={c}>{c}</option>))}
                     </select>
                 </div>
+                <div className="md:ml-auto md:self-end">
+                    <ExportButton filters={{ period: activePeriod, categoryId: activeCategory }} />
+                </div>
             </div>
 
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-                <KpiCard title="Ingresos" amount={kpiData.ingresos} icon={<FiTrendingUp className="text-3xl text-green-400" />} />
-                <KpiCard title="Gastos" amount={kpiData.gastos} icon={<FiTrendingDown className="text-3xl text-red-400" />} />
-                <KpiCard title="Balance" amount={kpiData.balance} icon={<FiDollarSign className="text-3xl text-indigo-400" />} />
+            {missingRates.length > 0 && (
+                <p className="text-sm text-yellow-400">
+                    {t('dashboard.missingRates', { currencies: missingRates.join(', '), base: baseCurrency })}
+                </p>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-6">
+                <KpiCard title={t('dashboard.income')} amount={kpiData.ingresos} previousAmount={previousKpiData.ingresos} comparison={previous.comparison} currency={baseCurrency} icon={<FiTrendingUp className="text-3xl text-green-400" />} />
+                <KpiCard title={t('dashboard.expenses')} amount={kpiData.gastos} previousAmount={previousKpiData.gastos} comparison={previous.comparison} lowerIsBetter currency={baseCurrency} icon={<FiTrendingDown className="text-3xl text-red-400" />} />
+                <KpiCard title={t('dashboard.balance')} amount={kpiData.balance} previousAmount={previousKpiData.balance} comparison={previous.comparison} currency={baseCurrency} icon={<FiDollarSign className="text-3xl text-indigo-400" />} />
+                <KpiCard title={t('dashboard.netWorth')} amount={kpiData.patrimonio} currency={baseCurrency} icon={<FiBriefcase className="text-3xl text-yellow-400" />} />
             </div>
             
             <div className="grid grid-cols-1 xl:grid-cols-3 gap-8">
                 <div className="bg-gray-800 p-6 rounded-2xl shadow xl:col-span-2 relative min-h-[320px]">
-                    <h2 className="text-xl font-semibold mb-4">Distribución de Gastos</h2>
-                    {loading ? (<div className="flex items-center justify-center h-80 text-gray-400">Cargando...</div>
+                    <div className="flex justify-between items-center mb-4">
+                        <h2 className="text-xl font-semibold">
+                            {t('dashboard.expenseDistribution')}{drillCategory && `: ${categories.find((c) => c.id === drillCategory)?.name ?? ''}`}
+                        </h2>
+                        {drillCategory && (
+                            <button onClick={() => setDrillCategory(null)} className="text-sm text-indigo-400 hover:text-indigo-300">{t('dashboard.seeAll')}</button>
+                        )}
+                    </div>
+                    {loadingSummary ? (<div className="flex items-center justify-center h-80 text-gray-400">{t('common.loading')}</div>
                     ) : pieChartData.length > 0 ? (
                         <ResponsiveContainer width="100%" height={320}>
                             <PieChart>
-                                <Pie data={pieChartData} cx="50%" cy="50%" outerRadius={120} dataKey="value" nameKey="name" labelLine={false} label={({ name, percent }) => `${name} ${((percent as number) * 100).toFixed(0)}%`}>
-                                    {pieChartData.map((_entry, index) => (<Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />))}
+                                <Pie
+                                    data={pieChartData} cx="50%" cy="50%" outerRadius={120} dataKey="value" nameKey="name" labelLine={false}
+                                    // Una categoría con subcategorías se abre para ver su desglose
+                                    onClick={(_entry, index) => pieChartData[index].drillable && setDrillCategory(pieChartData[index].id)}
+                                    label={({ name, percent }) => `${name} ${formatPercent(percent as number)}`}>
+                                    {pieChartData.map((entry, index) => (<Cell key={`cell-${index}`} fill={CHART_COLORS[index % CHART_COLORS.length]} cursor={entry.drillable ? 'pointer' : undefined} />))}
                                 </Pie>
-                                <Tooltip formatter={(value: number) => `Q${value.toFixed(2)}`} />
+                                <Tooltip formatter={(value: number) => formatMoney(value, baseCurrency)} />
                                 <Legend />
                             </PieChart>
                         </ResponsiveContainer>
-                    ) : (<div className="flex items-center justify-center h-80 text-gray-400">No hay gastos para mostrar</div>)}
+                    ) : (<div className="flex items-center justify-center h-80 text-gray-400">{t('dashboard.noExpenses')}</div>)}
                 </div>
 
                 <div className="bg-gray-800 p-6 rounded-2xl shadow">
-                    <h2 className="text-xl font-semibold mb-4">Transacciones Recientes</h2>
-                    {loading ? (<div className="text-gray-400">Cargando...</div>
+                    <div className="flex justify-between items-center mb-4">
+                        <h2 className="text-xl font-semibold">{t('dashboard.recent')}</h2>
+                        <Link to="/transactions" className="text-sm text-indigo-400 hover:text-indigo-300">{t('dashboard.seeAll')}</Link>
+                    </div>
+                    {loadingRecent ? (<div className="text-gray-400">{t('common.loading')}</div>
                     ) : (
                         <div className="space-y-4">
-                            {recentTransactions.length > 0 ? recentTransactions.map(tx => (
-                                <div key={tx.id} className="flex justify-between items-center">
+                            {queued.map(record => (
+                                <div key={record.id} title={record.lastError} className="flex justify-between items-center opacity-75">
+                                    <div>
+                                        <p className="font-medium">
+                                            {record.type === 'transfer' ? t('common.transfer')
+                                                : record.values.splits?.length ? t('dashboard.split')
+                                                : categories.find((c) => c.id === record.values.category_id)?.name || t('dashboard.uncategorized')}
+                                        </p>
+                                        <p className={`text-sm ${record.lastError ? 'text-red-400' : 'text-yellow-400'}`}>
+                                            {record.lastError ? t('dashboard.syncFailed') : t('dashboard.syncPending')} · {formatDate(record.values.date)}
+                                        </p>
+                                    </div>
+                                    <div className="flex items-center gap-3">
+                                        <p className={`font-semibold ${record.type === 'transfer' ? 'text-gray-300' : record.kind === 'in' ? 'text-green-400' : 'text-red-400'}`}>
+                                            {record.type === 'transfer' ? '' : record.kind === 'in' ? '+' : '-'}{formatMoney(record.values.amount, queuedCurrency(record))}
+                                        </p>
+                                        {record.lastError && (
+                                            <>
+                                                <button onClick={() => fixQueued(record)} className="text-gray-400 hover:text-white" title={t('dashboard.fixQueued')}>
+                                                    <FiEdit size={16} />
+                                                </button>
+                                                <button onClick={() => discardQueuedRecord(record)} className="text-gray-400 hover:text-red-500" title={t('dashboard.discardQueued')}>
+                                                    <FiTrash2 size={16} />
+                                                </button>
+                                            </>
+                                        )}
+                                    </div>
+                                </div>
+                            ))}
+                            {visibleRecent.length > 0 ? visibleRecent.map(tx => (
+                                <button
+                                    key={tx.id}
+                                    type="button"
+                                    // Mientras se guarda, el registro todavía no existe en el servidor
+                                    disabled={isSaving(tx.id)}
+                                    onClick={() => openModal({ type: 'transaction', id: tx.id })}
+                                    className="w-full flex justify-between items-center text-left rounded-lg -mx-2 px-2 py-1 hover:bg-gray-700 transition"
+                                >
                                     <div>
-                                        <p className="font-medium">{tx.categories?.name || 'Ingreso'}</p>
-                                        <p className="text-sm text-gray-400">{new Date(tx.date).toLocaleDateString()}</p>
+                                        <p className="font-medium">{tx.split ? t('dashboard.split') : tx.categories?.name || t('common.income')}</p>
+                                        <p className="text-sm text-gray-400">{formatDate(tx.date)}</p>
                                     </div>
                                     <p className={`font-semibold ${tx.kind === 'in' ? 'text-green-400' : 'text-red-400'}`}>
-                                        {tx.kind === 'in' ? '+' : '-'}Q{tx.amount.toFixed(2)}
+                                        {tx.kind === 'in' ? '+' : '-'}{formatMoney(tx.amount, tx.accounts?.currency)}
                                     </p>
-                                </div>
-                            )) : <p className="text-gray-500">No hay transacciones</p>}
+                                </button>
+                            )) : queued.length === 0 && <p className="text-gray-500">{t('dashboard.noTransactions')}</p>}
                         </div>
                     )}
                 </div>
             </div>
 
-            <button onClick={() => setIsModalOpen(true)} className="fixed bottom-8 right-8 w-16 h-16 bg-indigo-600 rounded-full flex items-center justify-center text-white text-3xl shadow-lg hover:bg-indigo-500 transition-transform hover:scale-110">
+            <div className="bg-gray-800 p-6 rounded-2xl shadow">
+                <div className="flex justify-between items-center mb-4">
+                    <h2 className="text-xl font-semibold">{t('dashboard.budgets')}</h2>
+                    <Link to="/budgets" className="text-sm text-indigo-400 hover:text-indigo-300">{t('dashboard.manage')}</Link>
+                </div>
+                {loadingBudgets ? (<div className="text-gray-400">{t('common.loading')}</div>) : (<BudgetProgressList items={budgetProgress} />)}
+            </div>
+
+            <div className="bg-gray-800 p-6 rounded-2xl shadow">
+                <div className="flex justify-between items-center mb-4">
+                    <h2 className="text-xl font-semibold">{t('dashboard.goals')}</h2>
+                    <Link to="/goals" className="text-sm text-indigo-400 hover:text-indigo-300">{t('dashboard.manage')}</Link>
+                </div>
+                {loadingGoals ? (<div className="text-gray-400">{t('common.loading')}</div>) : (<GoalProgressList items={goals} />)}
+            </div>
+
+            <button onClick={() => openModal(null)} className="fixed bottom-8 right-8 w-16 h-16 bg-indigo-600 rounded-full flex items-center justify-center text-white text-3xl shadow-lg hover:bg-indigo-500 transition-transform hover:scale-110">
                 <FiPlus />
             </button>
-            <TransactionModal isOpen={isModalOpen} onClose={() => setIsModalOpen(false)} onSuccess={fetchDashboardData} />
+            <TransactionModal isOpen={isModalOpen} onClose={closeModal} record={editingRecord} queued={editingQueued} />
         </div>
     );
 };
@@ -0,0 +1,183 @@
+import React, { useState } from 'react';
+import { useForm, type SubmitHandler } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { FiPlus, FiTrash2, FiEdit, FiX } from 'react-icons/fi';
+import GoalProgressList from '../components/GoalProgressList';
+import { CURRENCIES, DEFAULT_CURRENCY } from '../libs/currency';
+import { GOAL_SOURCES, type GoalProgress } from '../libs/goals';
+import { selectableAccounts } from '../libs/accounts';
+import { t, translateMessage } from '../libs/i18n';
+import { useGoals } from '../hooks/useGoals';
+import { useSaveGoal } from '../hooks/useSaveGoal';
+import { useDeleteGoal } from '../hooks/useDeleteGoal';
+import { useAccounts } from '../hooks/useAccounts';
+
+const goalSchema = z.object({
+  name: z.string().min(2, { message: 'validation.nameMin' }),
+  target_amount: z.coerce.number().positive({ message: 'validation.goalPositive' }),
+  deadline: z.string().nonempty({ message: 'validation.deadlineRequired' }),
+  source: z.enum(['account', 'transfers']),
+  account_id: z.string().optional(),
+  currency: z.enum(CURRENCIES),
+}).refine((data) => data.source !== 'account' || !!data.account_id, {
+  message: 'validation.selectGoalAccount',
+  path: ['account_id'],
+});
+
+type GoalFormValues = z.input<typeof goalSchema>;
+type GoalFormInputs = z.infer<typeof goalSchema>;
+
+const EMPTY_GOAL: GoalFormValues = { name: '', target_amount: 0, deadline: '', source: 'account', account_id: '', currency: DEFAULT_CURRENCY };
+
+const GoalsPage: React.FC = () => {
+  const { data: goals = [], isLoading: loading } = useGoals();
+  const { data: accounts = [] } = useAccounts();
+  const saveGoal = useSaveGoal();
+  const removeGoal = useDeleteGoal();
+  const [showModal, setShowModal] = useState(false);
+  const [editingGoal, setEditingGoal] = useState<GoalProgress | null>(null);
+
+  const { register, handleSubmit, reset, watch, formState: { errors } } = useForm<GoalFormValues, any, GoalFormInputs>({
+    resolver: zodResolver(goalSchema),
+    defaultValues: EMPTY_GOAL,
+  });
+
+  const source = watch('source');
+
+  const openModalForNew = () => {
+    reset(EMPTY_GOAL);
+    setEditingGoal(null);
+    setShowModal(true);
+  };
+
+  const openModalForEdit = (goal: GoalProgress) => {
+    setEditingGoal(goal);
+    reset({
+      name: goal.name,
+      target_amount: goal.target_amount,
+      deadline: goal.deadline,
+      source: goal.source,
+      account_id: goal.account_id ?? '',
+      currency: goal.currency as typeof CURRENCIES[number],
+    });
+    setShowModal(true);
+  };
+
+  const deleteGoal = async (goalId: string) => {
+    if (window.confirm(t('goals.confirmDelete'))) {
+      removeGoal.mutate(goalId, {
+        onError: () => alert(t('goals.deleteError')),
+      });
+    }
+  };
+
+  const onSubmit: SubmitHandler<GoalFormInputs> = async (formData) => {
+    // Con una cuenta vinculada la meta usa la moneda de esa cuenta
+    const account = formData.source === 'account' ? accounts.find((a) => a.id === formData.account_id) : undefined;
+    try {
+      await saveGoal.mutateAsync({
+        ...formData,
+        account_id: account?.id ?? null,
+        currency: account?.currency ?? formData.currency,
+        id: editingGoal?.id,
+      });
+    } catch (error: any) {
+      alert(error.message);
+      return;
+    }
+    setShowModal(false);
+  };
+
+  return (
+    <div className="text-white">
+      <div className="flex justify-between items-center mb-8">
+        <div>
+          <h1 className="text-4xl font-bold">{t('goals.title')}</h1>
+          <p className="text-gray-400 mt-1">{t('goals.subtitle')}</p>
+        </div>
+        <button
+          onClick={openModalForNew}
+          className="bg-indigo-600 hover:bg-indigo-500 text-white font-bold py-3 px-6 rounded-lg flex items-center transition"
+        >
+          <FiPlus className="mr-2" /> {t('goals.add')}
+        </button>
+      </div>
+
+      {loading ? <p>{t('common.loading')}</p> : (
+        <div className="bg-gray-800 p-6 rounded-2xl shadow-lg">
+          <GoalProgressList
+            items={goals}
+            actions={(goal) => (
+              <>
+                <button onClick={() => openModalForEdit(goal)} className="text-gray-400 hover:text-white"><FiEdit size={16} /></button>
+                <button onClick={() => deleteGoal(goal.id)} className="text-gray-400 hover:text-red-500"><FiTrash2 size={16} /></button>
+              </>
+            )}
+          />
+        </div>
+      )}
+
+      {showModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-75 flex justify-center items-center z-50 p-4">
+          <div className="bg-gray-800 rounded-2xl p-8 w-full max-w-md relative">
+            <button onClick={() => setShowModal(false)} className="absolute top-4 right-4 text-gray-400 hover:text-white">
+              <FiX size={24} />
+            </button>
+            <h2 className="text-2xl font-bold mb-6">{editingGoal ? t('goals.editTitle') : t('goals.newTitle')}</h2>
+            <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-300">{t('goals.name')}</label>
+                <input {...register('name')} placeholder={t('goals.namePlaceholder')} className="mt-1 w-full bg-gray-700 border-gray-600 rounded-lg p-3" />
+                {errors.name && <p className="text-red-500 text-sm mt-1">{translateMessage(errors.name.message)}</p>}
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-300">{t('goals.targetAmount')}</label>
+                  <input type="number" step="0.01" {...register('target_amount')} className="mt-1 w-full bg-gray-700 border-gray-600 rounded-lg p-3" />
+                  {errors.target_amount && <p className="text-red-500 text-sm mt-1">{translateMessage(errors.target_amount.message)}</p>}
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-300">{t('goals.deadline')}</label>
+                  <input type="date" {...register('deadline')} className="mt-1 w-full bg-gray-700 border-gray-600 rounded-lg p-3" />
+                  {errors.deadline && <p className="text-red-500 text-sm mt-1">{translateMessage(errors.deadline.message)}</p>}
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-300">{t('goals.source')}</label>
+                <select {...register('source')} className="mt-1 w-full bg-gray-700 border-gray-600 rounded-lg p-3">
+                  {GOAL_SOURCES.map((value) => (<option key={value} value={value}>{t(`goalSources.${value}`)}</option>))}
+                </select>
+              </div>
+              {source === 'account' ? (
+                <div>
+                  <label className="block text-sm font-medium text-gray-300">{t('goals.account')}</label>
+                  <select {...register('account_id')} className="mt-1 w-full bg-gray-700 border-gray-600 rounded-lg p-3">
+                    <option value="">{t('transactionModal.select')}</option>
+                    {selectableAccounts(accounts, editingGoal?.account_id).map((a) => (<option key={a.id} value={a.id}>{a.name} ({a.currency})</option>))}
+                  </select>
+                  {errors.account_id && <p className="text-red-500 text-sm mt-1">{translateMessage(errors.account_id.message)}</p>}
+                </div>
+              ) : (
+                <div>
+                  <label className="block text-sm font-medium text-gray-300">{t('goals.currency')}</label>
+                  <select {...register('currency')} className="mt-1 w-full bg-gray-700 border-gray-600 rounded-lg p-3">
+                    {CURRENCIES.map((c) => (<option key={c} value={c}>{c}</option>))}
+                  </select>
+                  <p className="text-gray-400 text-sm mt-1">{t('goals.transfersHelp')}</p>
+                </div>
+              )}
+              <div className="pt-4">
+                <button type="submit" disabled={saveGoal.isPending} className="w-full bg-indigo-600 hover:bg-indigo-500 text-white font-bold py-3 rounded-lg transition disabled:opacity-50">
+                  {t('goals.save')}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GoalsPage;
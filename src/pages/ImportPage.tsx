@@ -0,0 +1,318 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { FiUpload, FiArrowLeft, FiAlertTriangle, FiCheckCircle, FiZap } from 'react-icons/fi';
+import { parseCsv } from '../libs/csv';
+import { formatDate, formatMoney } from '../libs/format';
+import { t, translateMessage } from '../libs/i18n';
+import { selectableCategories, toCategoryOptions } from '../libs/categories';
+import { selectableAccounts } from '../libs/accounts';
+import {
+  buildImportRows, flagDuplicates,
+  type ColumnMapping, type DateFormat, type ImportRow,
+} from '../libs/csvImport';
+import { useAccounts } from '../hooks/useAccounts';
+import { useCategories } from '../hooks/useCategories';
+import { useCategoryRules } from '../hooks/useCategoryRules';
+import { useImportTransactions } from '../hooks/useImportTransactions';
+
+type Step = 'upload' | 'mapping' | 'preview' | 'done';
+
+// El nombre de cada campo está en el catálogo (import.fields.<campo>)
+const MAPPING_FIELDS: { key: keyof ColumnMapping; required: boolean }[] = [
+  { key: 'amount', required: true },
+  { key: 'date', required: true },
+  { key: 'note', required: false },
+  { key: 'sign', required: false },
+];
+
+const DATE_FORMATS: DateFormat[] = ['DD/MM/YYYY', 'MM/DD/YYYY', 'YYYY-MM-DD'];
+
+const selectClass = 'mt-1 w-full bg-gray-700 border-gray-600 rounded-lg p-3';
+
+const ImportPage: React.FC = () => {
+  const [step, setStep] = useState<Step>('upload');
+  const { data: accounts = [] } = useAccounts();
+  const { data: categories = [] } = useCategories();
+  const { data: rules = [] } = useCategoryRules();
+  const importTransactions = useImportTransactions();
+
+  // Archivo
+  const [fileName, setFileName] = useState('');
+  const [rawRows, setRawRows] = useState<string[][]>([]);
+  const [hasHeader, setHasHeader] = useState(true);
+
+  // Mapeo y opciones
+  const [mapping, setMapping] = useState<ColumnMapping>({ amount: -1, date: -1, note: -1, sign: -1 });
+  const [accountId, setAccountId] = useState('');
+  const [incomeCategoryId, setIncomeCategoryId] = useState('');
+  const [expenseCategoryId, setExpenseCategoryId] = useState('');
+  const [dateFormat, setDateFormat] = useState<DateFormat>('DD/MM/YYYY');
+
+  // Vista previa
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [processing, setProcessing] = useState(false);
+  const [importedCount, setImportedCount] = useState(0);
+
+  const currency = accounts.find((a) => a.id === accountId)?.currency;
+
+  const header = hasHeader ? rawRows[0] || [] : (rawRows[0] || []).map((_, i) => t('import.column', { index: i + 1 }));
+  const dataRows = hasHeader ? rawRows.slice(1) : rawRows;
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const parsed = parseCsv(await file.text());
+    if (parsed.length === 0) {
+      alert(t('import.emptyFile'));
+      return;
+    }
+
+    // Intenta asignar columnas por nombre de encabezado
+    const guess = (pattern: RegExp) => parsed[0].findIndex((h) => pattern.test(h.toLowerCase()));
+    setMapping({
+      amount: guess(/monto|importe|amount|valor/),
+      date: guess(/fecha|date/),
+      note: guess(/descrip|concepto|nota|note|detalle/),
+      sign: guess(/tipo|signo|d\/c|debito|crédito|credito|type/),
+    });
+    setFileName(file.name);
+    setRawRows(parsed);
+    setStep('mapping');
+  };
+
+  const mappingComplete = mapping.amount >= 0 && mapping.date >= 0 && accountId && incomeCategoryId && expenseCategoryId;
+
+  const buildPreview = async () => {
+    setProcessing(true);
+    try {
+      const built = buildImportRows(
+        dataRows,
+        mapping,
+        { accountId, incomeCategoryId, expenseCategoryId, dateFormat, rules, categories },
+        hasHeader ? 2 : 1
+      );
+      const withDuplicates = await flagDuplicates(built, accountId);
+      setRows(withDuplicates);
+      // Por defecto se importan las filas válidas que no parecen duplicadas
+      setSelected(new Set(withDuplicates.filter((r) => r.data && !r.duplicate).map((r) => r.line)));
+      setStep('preview');
+    } catch (err: any) {
+      alert(t('common.error', { message: err.message }));
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const toggleRow = (line: number) => {
+    const next = new Set(selected);
+    if (next.has(line)) next.delete(line);
+    else next.add(line);
+    setSelected(next);
+  };
+
+  const runImport = async () => {
+    setProcessing(true);
+    try {
+      const count = await importTransactions.mutateAsync(rows.filter((r) => selected.has(r.line)));
+      setImportedCount(count);
+      setStep('done');
+    } catch (err: any) {
+      alert(t('common.error', { message: err.message }));
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const reset = () => {
+    setStep('upload');
+    setRawRows([]);
+    setRows([]);
+    setSelected(new Set());
+    setFileName('');
+  };
+
+  const categoryOptions = toCategoryOptions(categories);
+  const categoryName = (id?: string) => categoryOptions.find((c) => c.id === id)?.name ?? '—';
+
+  const invalidCount = rows.filter((r) => !r.data).length;
+  const duplicateCount = rows.filter((r) => r.duplicate).length;
+
+  return (
+    <div className="text-white space-y-8">
+      <div>
+        <Link to="/transactions" className="text-sm text-gray-400 hover:text-white flex items-center mb-2">
+          <FiArrowLeft className="mr-1" /> {t('transactions.title')}
+        </Link>
+        <h1 className="text-4xl font-bold">{t('import.title')}</h1>
+        <p className="text-gray-400 mt-1">{t('import.subtitle')}</p>
+      </div>
+
+      {step === 'upload' && (
+        <div className="bg-gray-800 p-8 rounded-2xl shadow-lg">
+          <label className="flex flex-col items-center justify-center border-2 border-dashed border-gray-600 rounded-xl p-12 cursor-pointer hover:border-indigo-500 transition">
+            <FiUpload className="text-4xl text-indigo-400 mb-4" />
+            <span className="font-semibold">{t('import.selectFile')}</span>
+            <span className="text-sm text-gray-400 mt-1">{t('import.separators')}</span>
+            <input type="file" accept=".csv,text/csv" onChange={handleFile} className="hidden" />
+          </label>
+        </div>
+      )}
+
+      {step === 'mapping' && (
+        <div className="bg-gray-800 p-8 rounded-2xl shadow-lg space-y-6">
+          <div className="flex justify-between items-center">
+            <p className="text-gray-300"><span className="font-semibold">{fileName}</span> · {t('import.rows', { count: dataRows.length })}</p>
+            <label className="flex items-center gap-2 text-sm text-gray-300">
+              <input type="checkbox" checked={hasHeader} onChange={(e) => setHasHeader(e.target.checked)} />
+              {t('import.hasHeader')}
+            </label>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {MAPPING_FIELDS.map((field) => (
+              <div key={field.key}>
+                <label className="block text-sm font-medium text-gray-300">
+                  {field.required ? t(`import.fields.${field.key}`) : t('import.optional', { label: t(`import.fields.${field.key}`) })}
+                </label>
+                <select
+                  value={mapping[field.key]}
+                  onChange={(e) => setMapping({ ...mapping, [field.key]: Number(e.target.value) })}
+                  className={selectClass}
+                >
+                  <option value={-1}>{field.required ? t('transactionModal.select') : t('import.unassigned')}</option>
+                  {header.map((name, index) => (<option key={index} value={index}>{name || t('import.column', { index: index + 1 })}</option>))}
+                </select>
+              </div>
+            ))}
+            <div>
+              <label className="block text-sm font-medium text-gray-300">{t('import.dateFormat')}</label>
+              <select value={dateFormat} onChange={(e) => setDateFormat(e.target.value as DateFormat)} className={selectClass}>
+                {DATE_FORMATS.map((format) => (<option key={format} value={format}>{t(`import.dateFormats.${format}`)}</option>))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-300">{t('import.targetAccount')}</label>
+              <select value={accountId} onChange={(e) => setAccountId(e.target.value)} className={selectClass}>
+                <option value="">{t('transactionModal.select')}</option>
+                {selectableAccounts(accounts).map((acc) => (<option key={acc.id} value={acc.id}>{acc.name}</option>))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-300">{t('import.incomeCategory')}</label>
+              <select value={incomeCategoryId} onChange={(e) => setIncomeCategoryId(e.target.value)} className={selectClass}>
+                <option value="">{t('transactionModal.select')}</option>
+                {toCategoryOptions(selectableCategories(categories).filter((c) => c.type === 'income'), categories).map((c) => (<option key={c.id} value={c.id}>{c.name}</option>))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-300">{t('import.expenseCategory')}</label>
+              <select value={expenseCategoryId} onChange={(e) => setExpenseCategoryId(e.target.value)} className={selectClass}>
+                <option value="">{t('transactionModal.select')}</option>
+                {toCategoryOptions(selectableCategories(categories).filter((c) => c.type === 'expense'), categories).map((c) => (<option key={c.id} value={c.id}>{c.name}</option>))}
+              </select>
+            </div>
+          </div>
+
+          <p className="text-sm text-gray-400">
+            {t('import.signHelp')}
+          </p>
+
+          <div className="flex justify-end gap-4">
+            <button onClick={reset} className="py-3 px-6 rounded-lg text-gray-300 hover:bg-gray-700 transition">{t('import.cancel')}</button>
+            <button
+              onClick={buildPreview}
+              disabled={!mappingComplete || processing}
+              className="bg-indigo-600 hover:bg-indigo-500 text-white font-bold py-3 px-6 rounded-lg transition disabled:opacity-50"
+            >
+              {processing ? t('common.processing') : t('import.preview')}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {step === 'preview' && (
+        <div className="bg-gray-800 p-6 rounded-2xl shadow-lg space-y-6">
+          <div className="flex flex-wrap gap-6 text-sm">
+            <span className="text-gray-300">{t('import.rows', { count: rows.length })}</span>
+            <span className="text-red-400">{t('import.withErrors', { count: invalidCount })}</span>
+            <span className="text-yellow-400">{t('import.duplicates', { count: duplicateCount })}</span>
+            <span className="text-green-400">{t('import.selected', { count: selected.size })}</span>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-left text-sm">
+              <thead>
+                <tr className="text-gray-400 border-b border-gray-700">
+                  <th className="py-2 pr-4"></th>
+                  <th className="py-2 pr-4">{t('import.line')}</th>
+                  <th className="py-2 pr-4">{t('transactions.date')}</th>
+                  <th className="py-2 pr-4">{t('transactions.note')}</th>
+                  <th className="py-2 pr-4">{t('transactions.category')}</th>
+                  <th className="py-2 pr-4 text-right">{t('transactions.amount')}</th>
+                  <th className="py-2">{t('import.status')}</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-700">
+                {rows.map((row) => (
+                  <tr key={row.line} className={!row.data ? 'text-gray-500' : ''}>
+                    <td className="py-2 pr-4">
+                      <input type="checkbox" disabled={!row.data} checked={selected.has(row.line)} onChange={() => toggleRow(row.line)} />
+                    </td>
+                    <td className="py-2 pr-4">{row.line}</td>
+                    <td className="py-2 pr-4 whitespace-nowrap">{row.data ? formatDate(row.data.date) : '—'}</td>
+                    <td className="py-2 pr-4">{row.data?.note ?? ''}</td>
+                    <td className="py-2 pr-4 whitespace-nowrap">
+                      {row.data && (
+                        <span className="flex items-center" title={row.ruleApplied ? t('import.byRule') : undefined}>
+                          {row.ruleApplied && <FiZap className="mr-1 text-indigo-400" />}
+                          {categoryName(row.data.category_id)}
+                        </span>
+                      )}
+                    </td>
+                    <td className={`py-2 pr-4 text-right whitespace-nowrap ${row.kind === 'in' ? 'text-green-400' : 'text-red-400'}`}>
+                      {row.data ? `${row.kind === 'in' ? '+' : '-'}${formatMoney(row.data.amount, currency)}` : '—'}
+                    </td>
+                    <td className="py-2">
+                      {!row.data ? (
+                        <span className="text-red-400">{row.errors.map(translateMessage).join(' · ')}</span>
+                      ) : row.duplicate ? (
+                        <span className="text-yellow-400 flex items-center"><FiAlertTriangle className="mr-1" /> {t('import.possibleDuplicate')}</span>
+                      ) : (
+                        <span className="text-green-400 flex items-center"><FiCheckCircle className="mr-1" /> {t('import.ready')}</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex justify-end gap-4">
+            <button onClick={() => setStep('mapping')} className="py-3 px-6 rounded-lg text-gray-300 hover:bg-gray-700 transition">{t('import.back')}</button>
+            <button
+              onClick={runImport}
+              disabled={selected.size === 0 || processing}
+              className="bg-indigo-600 hover:bg-indigo-500 text-white font-bold py-3 px-6 rounded-lg transition disabled:opacity-50"
+            >
+              {processing ? t('import.importing') : t('import.importCount', { count: selected.size })}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {step === 'done' && (
+        <div className="bg-gray-800 p-8 rounded-2xl shadow-lg text-center space-y-4">
+          <FiCheckCircle className="mx-auto text-5xl text-green-400" />
+          <p className="text-xl font-semibold">{t('import.imported', { count: importedCount })}</p>
+          <div className="flex justify-center gap-4">
+            <button onClick={reset} className="py-3 px-6 rounded-lg text-gray-300 hover:bg-gray-700 transition">{t('import.importAnother')}</button>
+            <Link to="/transactions" className="bg-indigo-600 hover:bg-indigo-500 text-white font-bold py-3 px-6 rounded-lg transition">{t('import.viewRecords')}</Link>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ImportPage;
@@ -1,31 +1,81 @@
 import React, { useState } from 'react';
 import { supabase } from '../supabaseClient';
-import { useNavigate } from 'react-router-dom';
+import { Navigate, useLocation, type Location } from 'react-router-dom';
 // Ícono para el logo, instala react-icons: npm install react-icons
 import { FiTrendingUp } from 'react-icons/fi';
+import { authRedirectUrl, readAuthCallbackError } from '../libs/auth';
+import { t } from '../libs/i18n';
+import { useAuth } from '../hooks/useAuth';
+
+// signIn: correo y contraseña · signUp: crear cuenta · magicLink: enlace de acceso
+// por correo · reset: enlace para restablecer la contraseña
+type Mode = 'signIn' | 'signUp' | 'magicLink' | 'reset';
+
+const inputClass = 'w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg placeholder-gray-400 text-white focus:outline-none focus:ring-2 focus:ring-indigo-500';
 
 const LoginPage: React.FC = () => {
-  const [isLogin, setIsLogin] = useState(true);
+  const { user } = useAuth();
+  const location = useLocation();
+  const [mode, setMode] = useState<Mode>('signIn');
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-  const navigate = useNavigate();
+  const [error, setError] = useState<string | null>(readAuthCallbackError);
+  // Aviso de que se envió un correo (confirmación, enlace de acceso o restablecimiento)
+  const [notice, setNotice] = useState<string | null>(null);
+  // El inicio de sesión falló porque la cuenta aún no confirma su correo
+  const [unconfirmed, setUnconfirmed] = useState(false);
+
+  // La sesión nueva llega por AuthProvider; se vuelve a la página que se había pedido
+  if (user) {
+    const from = (location.state as { from?: Location } | null)?.from?.pathname;
+    return <Navigate to={from ?? '/dashboard'} replace />;
+  }
+
+  const switchMode = (next: Mode) => {
+    setMode(next);
+    setError(null);
+    setNotice(null);
+    setUnconfirmed(false);
+  };
 
-  // La función handleAuth se mantiene igual que en la versión anterior...
   const handleAuth = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
     setError(null);
+    setNotice(null);
+    setUnconfirmed(false);
     try {
-      if (isLogin) {
+      if (mode === 'signIn') {
         const { error } = await supabase.auth.signInWithPassword({ email, password });
+        if (error?.code === 'email_not_confirmed') {
+          setUnconfirmed(true);
+          throw new Error(t('auth.unconfirmed'));
+        }
+        if (error) throw error;
+      } else if (mode === 'signUp') {
+        const { data, error } = await supabase.auth.signUp({
+          email,
+          password,
+          options: { emailRedirectTo: authRedirectUrl('/dashboard') },
+        });
+        if (error) throw error;
+        // Con la confirmación de correo activada la sesión llega al abrir el enlace
+        if (!data.session) setNotice(t('auth.confirmationSent', { email }));
+      } else if (mode === 'magicLink') {
+        const { error } = await supabase.auth.signInWithOtp({
+          email,
+          options: { emailRedirectTo: authRedirectUrl('/dashboard'), shouldCreateUser: false },
+        });
         if (error) throw error;
+        setNotice(t('auth.magicLinkSent', { email }));
       } else {
-        const { error } = await supabase.auth.signUp({ email, password });
+        const { error } = await supabase.auth.resetPasswordForEmail(email, {
+          redirectTo: authRedirectUrl('/reset-password'),
+        });
         if (error) throw error;
+        setNotice(t('auth.resetSent', { email }));
       }
-      navigate('/dashboard');
     } catch (err: any) {
       setError(err.message);
     } finally {
@@ -33,6 +83,24 @@ const LoginPage: React.FC = () => {
     }
   };
 
+  const resendConfirmation = async () => {
+    setLoading(true);
+    const { error } = await supabase.auth.resend({
+      type: 'signup',
+      email,
+      options: { emailRedirectTo: authRedirectUrl('/dashboard') },
+    });
+    setLoading(false);
+    if (error) {
+      setError(error.message);
+    } else {
+      setError(null);
+      setUnconfirmed(false);
+      setNotice(t('auth.confirmationResent', { email }));
+    }
+  };
+
+  const needsPassword = mode === 'signIn' || mode === 'signUp';
 
   return (
     <div className="min-h-screen bg-gray-900 text-white flex flex-col justify-center items-center p-4">
@@ -40,42 +108,52 @@ const LoginPage: React.FC = () => {
         <div className="text-center mb-8">
           <FiTrendingUp className="mx-auto h-12 w-auto text-indigo-500" />
           <h2 className="mt-6 text-3xl font-extrabold text-white">
-            {isLogin ? 'Accede a tu cuenta' : 'Crea una nueva cuenta'}
+            {t(`auth.titles.${mode}`)}
           </h2>
           <p className="mt-2 text-gray-400">
-            Y toma el control de tus finanzas hoy mismo.
+            {needsPassword ? t('auth.tagline') : t('auth.linkTagline')}
           </p>
         </div>
 
         <form className="bg-gray-800 p-8 rounded-xl shadow-2xl space-y-6" onSubmit={handleAuth}>
           <div className="space-y-4">
             <div>
-              <label htmlFor="email" className="sr-only">Correo electrónico</label>
+              <label htmlFor="email" className="sr-only">{t('auth.email')}</label>
               <input
                 id="email"
                 type="email"
                 required
-                className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg placeholder-gray-400 text-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
-                placeholder="Correo electrónico"
+                className={inputClass}
+                placeholder={t('auth.email')}
                 value={email}
                 onChange={(e) => setEmail(e.target.value)}
               />
             </div>
-            <div>
-              <label htmlFor="password" className="sr-only">Contraseña</label>
-              <input
-                id="password"
-                type="password"
-                required
-                className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg placeholder-gray-400 text-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
-                placeholder="Contraseña"
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-              />
-            </div>
+            {needsPassword && (
+              <div>
+                <label htmlFor="password" className="sr-only">{t('auth.password')}</label>
+                <input
+                  id="password"
+                  type="password"
+                  required
+                  className={inputClass}
+                  placeholder={t('auth.password')}
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                />
+              </div>
+            )}
           </div>
 
           {error && <p className="text-red-400 text-sm text-center pt-2">{error}</p>}
+          {unconfirmed && (
+            <p className="text-sm text-center">
+              <button type="button" onClick={resendConfirmation} disabled={loading} className="text-indigo-400 hover:text-indigo-300 disabled:opacity-50">
+                {t('auth.resend')}
+              </button>
+            </p>
+          )}
+          {notice && <p className="text-green-400 text-sm text-center pt-2">{notice}</p>}
 
           <div>
             <button
@@ -83,17 +161,28 @@ const LoginPage: React.FC = () => {
               disabled={loading}
               className="w-full flex justify-center py-3 px-4 border border-transparent font-semibold rounded-lg text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-indigo-500 transition duration-150 ease-in-out disabled:opacity-50"
             >
-              {loading ? 'Procesando...' : (isLogin ? 'Iniciar Sesión' : 'Crear Cuenta')}
+              {loading ? t('common.processing') : t(`auth.submit.${mode}`)}
             </button>
           </div>
+
+          {mode === 'signIn' && (
+            <div className="flex justify-between text-sm">
+              <button type="button" onClick={() => switchMode('reset')} className="text-gray-400 hover:text-white">
+                {t('auth.forgot')}
+              </button>
+              <button type="button" onClick={() => switchMode('magicLink')} className="text-gray-400 hover:text-white">
+                {t('auth.passwordless')}
+              </button>
+            </div>
+          )}
         </form>
 
         <div className="text-center mt-6">
           <button
-            onClick={() => { setIsLogin(!isLogin); setError(null); }}
+            onClick={() => switchMode(mode === 'signUp' ? 'signIn' : mode === 'signIn' ? 'signUp' : 'signIn')}
             className="font-medium text-indigo-400 hover:text-indigo-300 transition duration-150 ease-in-out"
           >
-            {isLogin ? '¿Aún no tienes cuenta? Regístrate' : '¿Ya tienes una cuenta? Inicia Sesión'}
+            {mode === 'signIn' ? t('auth.toSignUp') : mode === 'signUp' ? t('auth.toSignIn') : t('auth.backToSignIn')}
           </button>
         </div>
       </div>
@@ -101,4 +190,4 @@ const LoginPage: React.FC = () => {
   );
 };
 
-export default LoginPage;
\ No newline at end of file
+export default LoginPage;
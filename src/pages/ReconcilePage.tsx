@@ -0,0 +1,166 @@
+import React, { useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { FiArrowLeft, FiCheckCircle, FiRotateCcw } from 'react-icons/fi';
+import { formatDate, formatMoney } from '../libs/format';
+import { t } from '../libs/i18n';
+import { isLiability } from '../libs/accounts';
+import { toDateInput } from '../libs/periods';
+import { signedAmount, type ReconcileCandidate } from '../libs/reconciliation';
+import { useAccounts } from '../hooks/useAccounts';
+import { useReconciliation } from '../hooks/useReconciliation';
+import { useReconcileAccount } from '../hooks/useReconcileAccount';
+import { useUndoReconciliation } from '../hooks/useUndoReconciliation';
+
+const inputClass = 'mt-1 w-full bg-gray-700 border-gray-600 rounded-lg p-3';
+
+const ReconcilePage: React.FC = () => {
+  const { accountId = '' } = useParams();
+  const navigate = useNavigate();
+  const { data: accounts = [] } = useAccounts();
+  const account = accounts.find((a) => a.id === accountId);
+
+  const [statementDate, setStatementDate] = useState(() => toDateInput(new Date()));
+  const [statementInput, setStatementInput] = useState('');
+  // Solo se guardan las marcas que el usuario cambió; el resto parte de `cleared`
+  const [toggled, setToggled] = useState<Record<string, boolean>>({});
+
+  const { data, isLoading } = useReconciliation(accountId, statementDate);
+  const reconcile = useReconcileAccount();
+  const undo = useUndoReconciliation();
+
+  if (!account) {
+    return <p className="text-white">{t('common.loading')}</p>;
+  }
+
+  // En tarjetas y préstamos el banco muestra la deuda en positivo; aquí es saldo negativo
+  const liability = isLiability(account.type);
+  const statementBalance = statementInput.trim() === '' ? null : Number(statementInput) * (liability ? -1 : 1);
+
+  const candidates = data?.candidates ?? [];
+  const isChecked = (id: string, cleared: boolean) => toggled[id] ?? cleared;
+  const checked = candidates.filter((tx) => isChecked(tx.id, tx.cleared));
+  const clearedBalance = (data?.baseBalance ?? 0) + checked.reduce((acc, tx) => acc + signedAmount(tx), 0);
+  const difference = statementBalance === null ? null : statementBalance - clearedBalance;
+  // Se compara en centavos para no arrastrar errores de punto flotante
+  const balanced = difference !== null && !isNaN(difference) && Math.round(difference * 100) === 0;
+
+  const finish = async () => {
+    if (statementBalance === null) return;
+    try {
+      await reconcile.mutateAsync({
+        accountId,
+        statementDate,
+        statementBalance,
+        transactionIds: checked.filter((tx) => tx.type === 'transaction').map((tx) => tx.id),
+        transferIds: checked.filter((tx) => tx.type === 'transfer').map((tx) => tx.id),
+      });
+    } catch (error: any) {
+      alert(t('common.error', { message: error.message }));
+      return;
+    }
+    navigate('/accounts');
+  };
+
+  const undoLast = () => {
+    const last = data?.lastReconciliation;
+    if (!last) return;
+    if (window.confirm(t('reconcile.confirmUndo', { date: formatDate(last.statement_date) }))) {
+      undo.mutate(last.id, {
+        onError: (error) => alert(error.message),
+      });
+    }
+  };
+
+  const shown = (amount: number) => formatMoney(liability ? -amount : amount, account.currency);
+
+  const describe = (tx: ReconcileCandidate) => {
+    if (tx.note) return tx.note;
+    if (tx.type === 'transfer') {
+      const name = accounts.find((a) => a.id === tx.counterpartId)?.name ?? '—';
+      return t(tx.kind === 'in' ? 'reconcile.transferFrom' : 'reconcile.transferTo', { name });
+    }
+    return tx.categoryName || (tx.kind === 'in' ? t('common.income') : t('common.expense'));
+  };
+
+  return (
+    <div className="text-white space-y-8">
+      <div>
+        <Link to="/accounts" className="text-sm text-gray-400 hover:text-white flex items-center mb-2">
+          <FiArrowLeft className="mr-1" /> {t('accounts.title')}
+        </Link>
+        <h1 className="text-4xl font-bold">{t('reconcile.title', { name: account.name })}</h1>
+        <p className="text-gray-400 mt-1">{t('reconcile.subtitle')}</p>
+      </div>
+
+      <div className="bg-gray-800 p-6 rounded-2xl shadow-lg grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-300">{t('reconcile.statementDate')}</label>
+          <input type="date" value={statementDate} onChange={(e) => e.target.value && setStatementDate(e.target.value)} className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-300">
+            {t(liability ? 'reconcile.closingDebt' : 'reconcile.closingBalance', { currency: account.currency })}
+          </label>
+          <input type="number" step="0.01" value={statementInput} onChange={(e) => setStatementInput(e.target.value)} className={inputClass} placeholder="0.00" />
+        </div>
+        {data?.lastReconciliation && (
+          <div className="md:col-span-2 flex items-center justify-between text-sm text-gray-400">
+            <span>
+              {t('reconcile.last', { date: formatDate(data.lastReconciliation.statement_date), amount: shown(data.lastReconciliation.statement_balance) })}
+            </span>
+            <button onClick={undoLast} disabled={undo.isPending} className="flex items-center gap-1 text-indigo-400 hover:text-indigo-300 disabled:opacity-50">
+              <FiRotateCcw /> {t('reconcile.undo')}
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-gray-800 p-6 rounded-2xl shadow-lg">
+        {isLoading ? <p className="text-gray-400">{t('common.loading')}</p> : candidates.length === 0 ? (
+          <p className="text-gray-500">{t('reconcile.empty')}</p>
+        ) : (
+          <ul className="divide-y divide-gray-700">
+            {candidates.map((tx) => (
+              <li key={`${tx.type}-${tx.id}`}>
+                <label className="py-3 flex items-center gap-4 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={isChecked(tx.id, tx.cleared)}
+                    onChange={(e) => setToggled((prev) => ({ ...prev, [tx.id]: e.target.checked }))}
+                  />
+                  <span className="w-28 text-gray-400">{formatDate(tx.date)}</span>
+                  <span className="flex-1">{describe(tx)}</span>
+                  <span className={`font-mono ${tx.kind === 'in' ? 'text-green-400' : 'text-red-400'}`}>
+                    {tx.kind === 'in' ? '+' : '-'}{formatMoney(tx.amount, account.currency)}
+                  </span>
+                </label>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="bg-gray-800 p-6 rounded-2xl shadow-lg flex flex-wrap items-center justify-between gap-4">
+        <div className="space-y-1">
+          <p className="text-gray-400">{t('reconcile.clearedBalance')} <span className="font-semibold text-white">{shown(clearedBalance)}</span></p>
+          <p className="text-gray-400">
+            {t('reconcile.difference')}{' '}
+            <span className={`font-semibold ${balanced ? 'text-green-400' : 'text-red-400'}`}>
+              {difference === null || isNaN(difference) ? '—' : shown(difference)}
+            </span>
+          </p>
+          <p className="text-xs text-gray-500">{t('reconcile.transfersNote')}</p>
+        </div>
+        <button
+          onClick={finish}
+          disabled={!balanced || reconcile.isPending}
+          className="bg-indigo-600 hover:bg-indigo-500 text-white font-bold py-3 px-6 rounded-lg flex items-center transition disabled:opacity-50"
+        >
+          <FiCheckCircle className="mr-2" /> {t('reconcile.finish')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ReconcilePage;
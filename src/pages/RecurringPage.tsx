@@ -0,0 +1,295 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '../supabaseClient';
+import { useForm, type SubmitHandler } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { FiEdit, FiTrash2, FiX, FiCheck, FiSkipForward, FiRepeat } from 'react-icons/fi';
+import {
+  FREQUENCIES, applyRuleToPending, confirmOccurrence, fetchPendingOccurrences, generateDueOccurrences, skipOccurrence,
+  type PendingOccurrence, type RecurringRule,
+} from '../libs/recurring';
+import { formatDate, formatMoney } from '../libs/format';
+import { t, translateMessage, type TranslationKey } from '../libs/i18n';
+import { selectableCategories, toCategoryOptions } from '../libs/categories';
+import { selectableAccounts } from '../libs/accounts';
+import { useAccounts } from '../hooks/useAccounts';
+import { useCategories } from '../hooks/useCategories';
+
+const KIND_LABELS: Record<RecurringRule['kind'], TranslationKey> = {
+  in: 'common.income',
+  out: 'common.expense',
+  transfer: 'common.transfer',
+};
+
+const ruleSchema = z.object({
+  amount: z.coerce.number().positive({ message: 'validation.amountPositive' }),
+  account_id: z.string().uuid({ message: 'validation.selectAccount' }),
+  to_account_id: z.string().optional(),
+  category_id: z.string().optional(),
+  note: z.string().optional(),
+  frequency: z.enum(['daily', 'weekly', 'monthly', 'yearly']),
+  end_date: z.string().optional(),
+  auto_confirm: z.boolean(),
+  active: z.boolean(),
+  apply_to_pending: z.boolean(),
+});
+
+type RuleFormValues = z.input<typeof ruleSchema>;
+type RuleFormInputs = z.infer<typeof ruleSchema>;
+
+const RecurringPage: React.FC = () => {
+  const [rules, setRules] = useState<RecurringRule[]>([]);
+  const [pending, setPending] = useState<PendingOccurrence[]>([]);
+  const { data: accounts = [] } = useAccounts();
+  const { data: categories = [] } = useCategories();
+  const [loading, setLoading] = useState(true);
+  const [editingRule, setEditingRule] = useState<RecurringRule | null>(null);
+
+  const { register, handleSubmit, reset, formState: { errors } } = useForm<RuleFormValues, any, RuleFormInputs>({
+    resolver: zodResolver(ruleSchema),
+  });
+
+  const fetchRecurring = async () => {
+    setLoading(true);
+    try {
+      await generateDueOccurrences();
+
+      const { data: rulesData, error } = await supabase
+        .from('recurring_rules')
+        .select('*')
+        .order('next_date', { ascending: true });
+      if (error) throw error;
+      setRules((rulesData || []).map((r) => ({ ...r, amount: Number(r.amount) })) as RecurringRule[]);
+
+      setPending(await fetchPendingOccurrences());
+    } catch (err) {
+      console.error('Error fetching recurring rules:', err);
+    }
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    fetchRecurring();
+  }, []);
+
+  const accountName = (id: string | null) => accounts.find((a) => a.id === id)?.name ?? '—';
+  const categoryName = (id: string | null) => categories.find((c) => c.id === id)?.name ?? '—';
+  // Los montos van en la moneda de la cuenta de origen
+  const accountCurrency = (id: string | undefined) => accounts.find((a) => a.id === id)?.currency;
+
+  const openModalForEdit = (rule: RecurringRule) => {
+    setEditingRule(rule);
+    reset({
+      amount: rule.amount,
+      account_id: rule.account_id,
+      to_account_id: rule.to_account_id ?? '',
+      category_id: rule.category_id ?? '',
+      note: rule.note ?? '',
+      frequency: rule.frequency,
+      end_date: rule.end_date ?? '',
+      auto_confirm: rule.auto_confirm,
+      active: rule.active,
+      apply_to_pending: false,
+    });
+  };
+
+  const deleteRule = async (ruleId: string) => {
+    if (window.confirm(t('recurring.confirmDelete'))) {
+      const { error } = await supabase.from('recurring_rules').delete().eq('id', ruleId);
+      if (error) {
+        alert(t('recurring.deleteError'));
+      } else {
+        fetchRecurring();
+      }
+    }
+  };
+
+  const handleOccurrence = async (action: (id: string) => Promise<void>, occurrenceId: string) => {
+    try {
+      await action(occurrenceId);
+      fetchRecurring();
+    } catch (err: any) {
+      alert(t('common.error', { message: err.message }));
+    }
+  };
+
+  const onSubmit: SubmitHandler<RuleFormInputs> = async ({ apply_to_pending, ...formData }) => {
+    if (!editingRule) return;
+    const isTransfer = editingRule.kind === 'transfer';
+
+    const { error } = await supabase
+      .from('recurring_rules')
+      .update({
+        ...formData,
+        to_account_id: isTransfer ? formData.to_account_id : null,
+        category_id: isTransfer ? null : formData.category_id || null,
+        note: formData.note || null,
+        end_date: formData.end_date || null,
+      })
+      .eq('id', editingRule.id);
+
+    if (error) {
+      alert(error.message);
+      return;
+    }
+
+    try {
+      if (apply_to_pending) {
+        await applyRuleToPending(editingRule.id, formData.amount, formData.note || null);
+      }
+    } catch (err: any) {
+      alert(t('common.error', { message: err.message }));
+    }
+    setEditingRule(null);
+    fetchRecurring();
+  };
+
+  return (
+    <div className="text-white space-y-8">
+      <div>
+        <h1 className="text-4xl font-bold">{t('recurring.title')}</h1>
+        <p className="text-gray-400 mt-1">{t('recurring.subtitle')}</p>
+      </div>
+
+      {loading ? <p>{t('common.loading')}</p> : (
+        <>
+          <div className="bg-gray-800 p-6 rounded-2xl shadow-lg">
+            <h2 className="text-xl font-semibold mb-4">{t('recurring.pending')}</h2>
+            {pending.length === 0 ? <p className="text-gray-500">{t('recurring.noPending')}</p> : (
+              <ul className="divide-y divide-gray-700">
+                {pending.map((occurrence) => (
+                  <li key={occurrence.id} className="py-4 flex flex-wrap justify-between items-center gap-4">
+                    <div>
+                      <p className="font-semibold">{occurrence.note || t(KIND_LABELS[occurrence.recurring_rules?.kind ?? 'out'])}</p>
+                      <p className="text-sm text-gray-400">{formatDate(occurrence.due_date)}</p>
+                    </div>
+                    <div className="flex items-center gap-4">
+                      <p className="font-mono text-lg">{formatMoney(occurrence.amount, accountCurrency(occurrence.recurring_rules?.account_id))}</p>
+                      <button onClick={() => handleOccurrence(confirmOccurrence, occurrence.id)} className="text-gray-400 hover:text-green-400" title={t('recurring.confirm')}>
+                        <FiCheck size={18} />
+                      </button>
+                      <button onClick={() => handleOccurrence(skipOccurrence, occurrence.id)} className="text-gray-400 hover:text-yellow-400" title={t('recurring.skip')}>
+                        <FiSkipForward size={18} />
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div className="bg-gray-800 p-6 rounded-2xl shadow-lg">
+            <h2 className="text-xl font-semibold mb-4">{t('recurring.rules')}</h2>
+            {rules.length === 0 ? (
+              <p className="text-gray-500">{t('recurring.noRules')}</p>
+            ) : (
+              <ul className="divide-y divide-gray-700">
+                {rules.map((rule) => (
+                  <li key={rule.id} className={`py-4 flex flex-wrap justify-between items-center gap-4 ${rule.active ? '' : 'opacity-50'}`}>
+                    <div className="flex items-center gap-4">
+                      <span className="p-2 bg-gray-700 rounded-full"><FiRepeat /></span>
+                      <div>
+                        <p className="font-semibold text-lg">{rule.note || t(KIND_LABELS[rule.kind])}</p>
+                        <p className="text-sm text-gray-400">
+                          {t(KIND_LABELS[rule.kind])} · {t(`frequencies.${rule.frequency}`)} ·{' '}
+                          {rule.kind === 'transfer'
+                            ? `${accountName(rule.account_id)} → ${accountName(rule.to_account_id)}`
+                            : `${accountName(rule.account_id)} · ${categoryName(rule.category_id)}`}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          {rule.active ? t('recurring.next', { date: formatDate(rule.next_date) }) : t('recurring.finished')}
+                          {rule.end_date ? t('recurring.until', { date: formatDate(rule.end_date) }) : ''}
+                          {rule.auto_confirm ? t('recurring.automatic') : t('recurring.needsConfirmation')}
+                        </p>
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-4">
+                      <p className={`font-mono text-lg ${rule.kind === 'in' ? 'text-green-400' : rule.kind === 'out' ? 'text-red-400' : ''}`}>
+                        {formatMoney(rule.amount, accountCurrency(rule.account_id))}
+                      </p>
+                      <button onClick={() => openModalForEdit(rule)} className="text-gray-400 hover:text-white"><FiEdit size={18} /></button>
+                      <button onClick={() => deleteRule(rule.id)} className="text-gray-400 hover:text-red-500"><FiTrash2 size={18} /></button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </>
+      )}
+
+      {editingRule && (
+        <div className="fixed inset-0 bg-black bg-opacity-75 flex justify-center items-center z-50 p-4">
+          <div className="bg-gray-800 rounded-2xl p-8 w-full max-w-md relative max-h-full overflow-y-auto">
+            <button onClick={() => setEditingRule(null)} className="absolute top-4 right-4 text-gray-400 hover:text-white">
+              <FiX size={24} />
+            </button>
+            <h2 className="text-2xl font-bold mb-6">{t(`recurring.editTitle.${editingRule.kind}`)}</h2>
+            <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-300">{t('transactionModal.amount')}</label>
+                <input type="number" step="0.01" {...register('amount')} className="mt-1 w-full bg-gray-700 border-gray-600 rounded-lg p-3" />
+                {errors.amount && <p className="text-red-500 text-sm mt-1">{translateMessage(errors.amount.message)}</p>}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-300">{editingRule.kind === 'transfer' ? t('transactionModal.fromAccount') : t('transactionModal.account')}</label>
+                <select {...register('account_id')} className="mt-1 w-full bg-gray-700 border-gray-600 rounded-lg p-3">
+                  {selectableAccounts(accounts, editingRule.account_id).map((a) => (<option key={a.id} value={a.id}>{a.name}</option>))}
+                </select>
+                {errors.account_id && <p className="text-red-500 text-sm mt-1">{translateMessage(errors.account_id.message)}</p>}
+              </div>
+              {editingRule.kind === 'transfer' ? (
+                <div>
+                  <label className="block text-sm font-medium text-gray-300">{t('transactionModal.toAccount')}</label>
+                  <select {...register('to_account_id')} className="mt-1 w-full bg-gray-700 border-gray-600 rounded-lg p-3">
+                    {selectableAccounts(accounts, editingRule.to_account_id).map((a) => (<option key={a.id} value={a.id}>{a.name}</option>))}
+                  </select>
+                </div>
+              ) : (
+                <div>
+                  <label className="block text-sm font-medium text-gray-300">{t('transactionModal.category')}</label>
+                  <select {...register('category_id')} className="mt-1 w-full bg-gray-700 border-gray-600 rounded-lg p-3">
+                    {toCategoryOptions(selectableCategories(categories, editingRule.category_id).filter((c) => c.type === (editingRule.kind === 'in' ? 'income' : 'expense')), categories)
+                      .map((c) => (<option key={c.id} value={c.id}>{c.name}</option>))}
+                  </select>
+                </div>
+              )}
+              <div>
+                <label className="block text-sm font-medium text-gray-300">{t('transactions.note')}</label>
+                <input {...register('note')} className="mt-1 w-full bg-gray-700 border-gray-600 rounded-lg p-3" />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-300">{t('transactionModal.frequency')}</label>
+                  <select {...register('frequency')} className="mt-1 w-full bg-gray-700 border-gray-600 rounded-lg p-3">
+                    {FREQUENCIES.map((f) => (<option key={f} value={f}>{t(`frequencies.${f}`)}</option>))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-300">{t('transactionModal.until')}</label>
+                  <input type="date" {...register('end_date')} className="mt-1 w-full bg-gray-700 border-gray-600 rounded-lg p-3" />
+                </div>
+              </div>
+              <label className="flex items-center gap-2 text-sm text-gray-300">
+                <input type="checkbox" {...register('auto_confirm')} /> {t('recurring.autoConfirm')}
+              </label>
+              <label className="flex items-center gap-2 text-sm text-gray-300">
+                <input type="checkbox" {...register('active')} /> {t('recurring.active')}
+              </label>
+              <label className="flex items-center gap-2 text-sm text-gray-300">
+                <input type="checkbox" {...register('apply_to_pending')} /> {t('recurring.applyToPending')}
+              </label>
+              <div className="pt-4">
+                <button type="submit" className="w-full bg-indigo-600 hover:bg-indigo-500 text-white font-bold py-3 rounded-lg transition">
+                  {t('recurring.save')}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RecurringPage;
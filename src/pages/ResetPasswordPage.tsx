@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { useForm, type SubmitHandler } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { FiLock } from 'react-icons/fi';
+import { newPasswordSchema, type NewPasswordInputs } from '../libs/schemas';
+import { readAuthCallbackError } from '../libs/auth';
+import { t, translateMessage } from '../libs/i18n';
+import { useAuth } from '../hooks/useAuth';
+import { useUpdatePassword } from '../hooks/useUpdatePassword';
+
+const inputClass = 'w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg placeholder-gray-400 text-white focus:outline-none focus:ring-2 focus:ring-indigo-500';
+
+// Destino del enlace de restablecimiento: el enlace abre una sesión temporal con la
+// que se elige la contraseña nueva
+const ResetPasswordPage: React.FC = () => {
+  const { user, isLoading } = useAuth();
+  const navigate = useNavigate();
+  const updatePassword = useUpdatePassword();
+  const [linkError] = useState(readAuthCallbackError);
+
+  const { register, handleSubmit, formState: { errors } } = useForm<NewPasswordInputs>({
+    resolver: zodResolver(newPasswordSchema),
+    defaultValues: { password: '', confirm: '' },
+  });
+
+  const onSubmit: SubmitHandler<NewPasswordInputs> = ({ password }) => {
+    updatePassword.mutate({ password }, {
+      onSuccess: () => navigate('/dashboard', { replace: true }),
+      onError: (error) => alert(t('common.error', { message: error.message })),
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-white flex flex-col justify-center items-center p-4">
+      <div className="w-full max-w-md">
+        <div className="text-center mb-8">
+          <FiLock className="mx-auto h-12 w-auto text-indigo-500" />
+          <h2 className="mt-6 text-3xl font-extrabold text-white">{t('auth.resetTitle')}</h2>
+        </div>
+
+        {isLoading ? (
+          <p className="text-center text-gray-400">{t('auth.verifyingLink')}</p>
+        ) : !user ? (
+          <div className="bg-gray-800 p-8 rounded-xl shadow-2xl text-center space-y-4">
+            <p className="text-red-400">{linkError ?? t('auth.invalidLink')}</p>
+            <Link to="/" className="font-medium text-indigo-400 hover:text-indigo-300">{t('auth.backToSignIn')}</Link>
+          </div>
+        ) : (
+          <form className="bg-gray-800 p-8 rounded-xl shadow-2xl space-y-4" onSubmit={handleSubmit(onSubmit)}>
+            <p className="text-gray-400 text-sm">{t('auth.account', { email: user.email ?? '' })}</p>
+            <div>
+              <input {...register('password')} type="password" placeholder={t('auth.newPassword')} className={inputClass} />
+              {errors.password && <p className="text-red-500 text-sm mt-1">{translateMessage(errors.password.message)}</p>}
+            </div>
+            <div>
+              <input {...register('confirm')} type="password" placeholder={t('auth.repeatPassword')} className={inputClass} />
+              {errors.confirm && <p className="text-red-500 text-sm mt-1">{translateMessage(errors.confirm.message)}</p>}
+            </div>
+            <button
+              type="submit"
+              disabled={updatePassword.isPending}
+              className="w-full py-3 px-4 font-semibold rounded-lg text-white bg-indigo-600 hover:bg-indigo-700 transition disabled:opacity-50"
+            >
+              {updatePassword.isPending ? t('common.processing') : t('auth.savePassword')}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ResetPasswordPage;
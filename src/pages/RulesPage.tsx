@@ -0,0 +1,170 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useForm, type SubmitHandler } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { FiArrowLeft, FiPlus, FiTrash2, FiEdit, FiX, FiZap } from 'react-icons/fi';
+import { selectableCategories, toCategoryOptions } from '../libs/categories';
+import { selectableAccounts } from '../libs/accounts';
+import { t, translateMessage } from '../libs/i18n';
+import { useCategoryRules } from '../hooks/useCategoryRules';
+import { useSaveCategoryRule } from '../hooks/useSaveCategoryRule';
+import { useDeleteCategoryRule } from '../hooks/useDeleteCategoryRule';
+import { useCategories } from '../hooks/useCategories';
+import { useAccounts } from '../hooks/useAccounts';
+import type { CategoryRule } from '../types/categoryRule';
+
+const ruleSchema = z.object({
+  pattern: z.string().trim().min(2, { message: 'validation.patternMin' }),
+  category_id: z.string().optional(),
+  account_id: z.string().optional(),
+}).refine((data) => !!data.category_id || !!data.account_id, {
+  message: 'validation.ruleTarget',
+  path: ['category_id'],
+});
+
+type RuleFormInputs = z.infer<typeof ruleSchema>;
+
+const EMPTY_RULE: RuleFormInputs = { pattern: '', category_id: '', account_id: '' };
+
+const RulesPage: React.FC = () => {
+  const { data: rules = [], isLoading: loading } = useCategoryRules();
+  const { data: categories = [] } = useCategories();
+  const { data: accounts = [] } = useAccounts();
+  const saveRule = useSaveCategoryRule();
+  const removeRule = useDeleteCategoryRule();
+  const [showModal, setShowModal] = useState(false);
+  const [editingRule, setEditingRule] = useState<CategoryRule | null>(null);
+
+  const { register, handleSubmit, reset, formState: { errors } } = useForm<RuleFormInputs>({
+    resolver: zodResolver(ruleSchema),
+    defaultValues: EMPTY_RULE,
+  });
+
+  const categoryOptions = toCategoryOptions(categories);
+  // En el formulario no se ofrecen las categorías archivadas, salvo la de la regla que se edita
+  const selectableIds = new Set(selectableCategories(categories, editingRule?.category_id).map((c) => c.id));
+  const categoryName = (id: string | null) => categoryOptions.find((c) => c.id === id)?.name;
+  const accountName = (id: string | null) => accounts.find((a) => a.id === id)?.name;
+
+  const openModalForNew = () => {
+    reset(EMPTY_RULE);
+    setEditingRule(null);
+    setShowModal(true);
+  };
+
+  const openModalForEdit = (rule: CategoryRule) => {
+    setEditingRule(rule);
+    reset({ pattern: rule.pattern, category_id: rule.category_id ?? '', account_id: rule.account_id ?? '' });
+    setShowModal(true);
+  };
+
+  const deleteRule = (ruleId: string) => {
+    if (window.confirm(t('rules.confirmDelete'))) {
+      removeRule.mutate(ruleId, {
+        onError: () => alert(t('rules.deleteError')),
+      });
+    }
+  };
+
+  const onSubmit: SubmitHandler<RuleFormInputs> = (formData) => {
+    saveRule.mutate({
+      pattern: formData.pattern,
+      category_id: formData.category_id || null,
+      account_id: formData.account_id || null,
+      id: editingRule?.id,
+    }, {
+      onError: (error) => alert(error.message),
+    });
+    setShowModal(false);
+  };
+
+  return (
+    <div className="text-white">
+      <div className="flex justify-between items-center mb-8">
+        <div>
+          <Link to="/categories" className="text-sm text-gray-400 hover:text-white flex items-center mb-2">
+            <FiArrowLeft className="mr-1" /> {t('categories.title')}
+          </Link>
+          <h1 className="text-4xl font-bold">{t('rules.title')}</h1>
+          <p className="text-gray-400 mt-1">{t('rules.subtitle')}</p>
+        </div>
+        <button
+          onClick={openModalForNew}
+          className="bg-indigo-600 hover:bg-indigo-500 text-white font-bold py-3 px-6 rounded-lg flex items-center transition"
+        >
+          <FiPlus className="mr-2" /> {t('rules.add')}
+        </button>
+      </div>
+
+      {loading ? <p>{t('common.loading')}</p> : (
+        <div className="bg-gray-800 p-6 rounded-2xl shadow-lg">
+          {rules.length === 0 ? (
+            <p className="text-gray-500">{t('rules.empty')}</p>
+          ) : (
+            <ul className="divide-y divide-gray-700">
+              {rules.map((rule) => (
+                <li key={rule.id} className="py-4 flex justify-between items-center">
+                  <div className="flex items-center gap-4">
+                    <span className="p-2 bg-gray-700 rounded-full"><FiZap className="text-indigo-400" /></span>
+                    <div>
+                      <p className="font-semibold text-lg">{t('rules.noteContains', { pattern: rule.pattern })}</p>
+                      <p className="text-sm text-gray-400">
+                        {[categoryName(rule.category_id), accountName(rule.account_id)].filter(Boolean).join(' · ')}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-4">
+                    <button onClick={() => openModalForEdit(rule)} className="text-gray-400 hover:text-white"><FiEdit size={18} /></button>
+                    <button onClick={() => deleteRule(rule.id)} className="text-gray-400 hover:text-red-500"><FiTrash2 size={18} /></button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {showModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-75 flex justify-center items-center z-50 p-4">
+          <div className="bg-gray-800 rounded-2xl p-8 w-full max-w-md relative">
+            <button onClick={() => setShowModal(false)} className="absolute top-4 right-4 text-gray-400 hover:text-white">
+              <FiX size={24} />
+            </button>
+            <h2 className="text-2xl font-bold mb-6">{editingRule ? t('rules.editTitle') : t('rules.newTitle')}</h2>
+            <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-300">{t('rules.pattern')}</label>
+                <input {...register('pattern')} placeholder="Walmart" className="mt-1 w-full bg-gray-700 border-gray-600 rounded-lg p-3" />
+                <p className="text-gray-400 text-sm mt-1">{t('rules.patternHelp')}</p>
+                {errors.pattern && <p className="text-red-500 text-sm mt-1">{translateMessage(errors.pattern.message)}</p>}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-300">{t('rules.category')}</label>
+                <select {...register('category_id')} className="mt-1 w-full bg-gray-700 border-gray-600 rounded-lg p-3">
+                  <option value="">{t('rules.unchanged')}</option>
+                  {categoryOptions.filter((c) => selectableIds.has(c.id)).map((c) => (<option key={c.id} value={c.id}>{c.name}</option>))}
+                </select>
+                {errors.category_id && <p className="text-red-500 text-sm mt-1">{translateMessage(errors.category_id.message)}</p>}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-300">{t('rules.account')}</label>
+                <select {...register('account_id')} className="mt-1 w-full bg-gray-700 border-gray-600 rounded-lg p-3">
+                  <option value="">{t('rules.unchanged')}</option>
+                  {selectableAccounts(accounts, editingRule?.account_id).map((a) => (<option key={a.id} value={a.id}>{a.name}</option>))}
+                </select>
+              </div>
+              <div className="pt-4">
+                <button type="submit" className="w-full bg-indigo-600 hover:bg-indigo-500 text-white font-bold py-3 rounded-lg transition">
+                  {t('rules.save')}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RulesPage;
@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { useForm, type SubmitHandler } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { FiGlobe, FiLock } from 'react-icons/fi';
+import { changePasswordSchema, type ChangePasswordInputs } from '../libs/schemas';
+import { LOCALES, LOCALE_NAMES, t, translateMessage, type Locale } from '../libs/i18n';
+import { CURRENCIES, getBaseCurrency, setBaseCurrency } from '../libs/currency';
+import { useLocale } from '../hooks/useLocale';
+import { useAuth } from '../hooks/useAuth';
+import { useUpdatePassword } from '../hooks/useUpdatePassword';
+
+const inputClass = 'mt-1 w-full bg-gray-700 border-gray-600 rounded-lg p-3';
+
+const EMPTY_PASSWORDS: ChangePasswordInputs = { current: '', password: '', confirm: '' };
+
+const SettingsPage: React.FC = () => {
+  const { user } = useAuth();
+  const updatePassword = useUpdatePassword();
+  const { locale, setLocale } = useLocale();
+  const [baseCurrency, setActiveBaseCurrency] = useState(getBaseCurrency);
+
+  const { register, handleSubmit, reset, formState: { errors } } = useForm<ChangePasswordInputs>({
+    resolver: zodResolver(changePasswordSchema),
+    defaultValues: EMPTY_PASSWORDS,
+  });
+
+  const onSubmit: SubmitHandler<ChangePasswordInputs> = ({ current, password }) => {
+    updatePassword.mutate({ password, currentPassword: current }, {
+      onSuccess: () => {
+        reset(EMPTY_PASSWORDS);
+        alert(t('settings.passwordUpdated'));
+      },
+      onError: (error) => alert(error.message),
+    });
+  };
+
+  const changeBaseCurrency = (currency: string) => {
+    setBaseCurrency(currency);
+    setActiveBaseCurrency(currency);
+  };
+
+  return (
+    <div className="text-white space-y-8">
+      <div>
+        <h1 className="text-4xl font-bold">{t('settings.title')}</h1>
+        <p className="text-gray-400 mt-1">{user?.email}</p>
+      </div>
+
+      <div className="bg-gray-800 p-6 rounded-2xl shadow-lg max-w-md">
+        <h2 className="text-2xl font-bold mb-4 flex items-center"><FiGlobe className="mr-2" /> {t('settings.preferences')}</h2>
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-300">{t('settings.language')}</label>
+            <select value={locale} onChange={(e) => setLocale(e.target.value as Locale)} className={inputClass}>
+              {LOCALES.map((l) => (<option key={l} value={l}>{LOCALE_NAMES[l]}</option>))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-300">{t('settings.baseCurrency')}</label>
+            <select value={baseCurrency} onChange={(e) => changeBaseCurrency(e.target.value)} className={inputClass}>
+              {CURRENCIES.map((c) => (<option key={c} value={c}>{c}</option>))}
+            </select>
+            <p className="text-gray-400 text-sm mt-1">{t('settings.baseCurrencyHelp')}</p>
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-gray-800 p-6 rounded-2xl shadow-lg max-w-md">
+        <h2 className="text-2xl font-bold mb-4 flex items-center"><FiLock className="mr-2" /> {t('settings.changePassword')}</h2>
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-300">{t('settings.currentPassword')}</label>
+            <input {...register('current')} type="password" autoComplete="current-password" className={inputClass} />
+            {errors.current && <p className="text-red-500 text-sm mt-1">{translateMessage(errors.current.message)}</p>}
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-300">{t('settings.newPassword')}</label>
+            <input {...register('password')} type="password" autoComplete="new-password" className={inputClass} />
+            {errors.password && <p className="text-red-500 text-sm mt-1">{translateMessage(errors.password.message)}</p>}
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-300">{t('settings.repeatNewPassword')}</label>
+            <input {...register('confirm')} type="password" autoComplete="new-password" className={inputClass} />
+            {errors.confirm && <p className="text-red-500 text-sm mt-1">{translateMessage(errors.confirm.message)}</p>}
+          </div>
+          <button
+            type="submit"
+            disabled={updatePassword.isPending}
+            className="w-full bg-indigo-600 hover:bg-indigo-500 text-white font-bold py-3 rounded-lg transition disabled:opacity-50"
+          >
+            {updatePassword.isPending ? t('common.saving') : t('settings.changePassword')}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPage;
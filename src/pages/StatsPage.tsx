@@ -0,0 +1,165 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  BarChart, Bar, LineChart, Line, XAxis, YAxis, CartesianGrid, ResponsiveContainer, Tooltip, Legend,
+} from 'recharts';
+import { FiTrendingUp, FiTrendingDown, FiPercent } from 'react-icons/fi';
+import KpiCard from '../components/KpiCard';
+import { CHART_COLORS } from '../libs/charts';
+import { createConverter, getBaseCurrency } from '../libs/currency';
+import { formatMoney, formatPercent } from '../libs/format';
+import { t } from '../libs/i18n';
+import {
+  fetchMonthlySummary, buildMonthlySeries, buildCategoryTrends, convertSummaryRows, getMonthsRange, savingsRate,
+  type MonthlySummaryRow,
+} from '../libs/stats';
+import { useExchangeRates } from '../hooks/useExchangeRates';
+
+type Range = '6' | '12' | '24';
+
+const RANGES: Range[] = ['6', '12', '24'];
+
+const ChartCard: React.FC<{ title: string; children: React.ReactNode; className?: string }> = ({ title, children, className = '' }) => (
+  <div className={`bg-gray-800 p-6 rounded-2xl shadow ${className}`}>
+    <h2 className="text-xl font-semibold mb-4">{title}</h2>
+    {children}
+  </div>
+);
+
+const StatsPage: React.FC = () => {
+  const [summary, setSummary] = useState<{ rows: MonthlySummaryRow[]; startDate: Date; endDate: Date } | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [activeRange, setActiveRange] = useState<Range>('12');
+  const { data: rates = [] } = useExchangeRates();
+  const baseCurrency = getBaseCurrency();
+
+  const fetchStats = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { startDate, endDate } = getMonthsRange(parseInt(activeRange));
+      setSummary({ rows: await fetchMonthlySummary(startDate, endDate), startDate, endDate });
+    } catch (err) {
+      console.error('Error cargando estadísticas:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [activeRange]);
+
+  useEffect(() => {
+    fetchStats();
+  }, [fetchStats]);
+
+  // Cada moneda se convierte a la moneda base antes de sumar los meses
+  const { monthly, trends, missingRates } = useMemo(() => {
+    if (!summary) return { monthly: [], trends: { categories: [], points: [] }, missingRates: [] };
+    const { convert, missing } = createConverter(rates, baseCurrency);
+    const rows = convertSummaryRows(summary.rows, convert);
+    return {
+      monthly: buildMonthlySeries(rows, summary.startDate, summary.endDate),
+      trends: buildCategoryTrends(rows, summary.startDate, summary.endDate),
+      missingRates: [...missing],
+    };
+  }, [summary, rates, baseCurrency]);
+
+  const totalIngresos = monthly.reduce((acc, m) => acc + m.ingresos, 0);
+  const totalGastos = monthly.reduce((acc, m) => acc + m.gastos, 0);
+  const rate = savingsRate(totalIngresos, totalGastos);
+
+  return (
+    <div className="text-white space-y-8">
+      <div className="flex flex-col md:flex-row md:justify-between md:items-end gap-4">
+        <div>
+          <h1 className="text-4xl font-bold">{t('stats.title')}</h1>
+          <p className="text-gray-400 mt-1">{t('stats.subtitle')}</p>
+        </div>
+        <div>
+          <label className="block text-sm text-gray-400 mb-1">{t('stats.range')}</label>
+          <select value={activeRange} onChange={(e) => setActiveRange(e.target.value as Range)} className="bg-gray-800 p-2 rounded-lg border border-gray-700">
+            {RANGES.map((range) => (<option key={range} value={range}>{t('stats.lastMonths', { count: range })}</option>))}
+          </select>
+        </div>
+      </div>
+
+      {missingRates.length > 0 && (
+        <p className="text-sm text-yellow-400">
+          {t('dashboard.missingRates', { currencies: missingRates.join(', '), base: baseCurrency })}
+        </p>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <KpiCard title={t('dashboard.income')} amount={totalIngresos} currency={baseCurrency} icon={<FiTrendingUp className="text-3xl text-green-400" />} />
+        <KpiCard title={t('dashboard.expenses')} amount={totalGastos} currency={baseCurrency} icon={<FiTrendingDown className="text-3xl text-red-400" />} />
+        <KpiCard
+          title={t('stats.savingsRate')}
+          amount={rate ?? 0}
+          format={(value) => (rate === null ? '—' : formatPercent(value, 1))}
+          icon={<FiPercent className="text-3xl text-indigo-400" />}
+        />
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center h-80 text-gray-400">{t('common.loading')}</div>
+      ) : (
+        <div className="grid grid-cols-1 xl:grid-cols-2 gap-8">
+          <ChartCard title={t('stats.incomeVsExpenses')}>
+            <ResponsiveContainer width="100%" height={300}>
+              <BarChart data={monthly}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                <XAxis dataKey="label" stroke="#9CA3AF" />
+                <YAxis stroke="#9CA3AF" />
+                <Tooltip formatter={(value: number) => formatMoney(value, baseCurrency)} />
+                <Legend />
+                <Bar dataKey="ingresos" name={t('dashboard.income')} fill="#10B981" />
+                <Bar dataKey="gastos" name={t('dashboard.expenses')} fill="#EF4444" />
+              </BarChart>
+            </ResponsiveContainer>
+          </ChartCard>
+
+          <ChartCard title={t('stats.cumulativeBalance')}>
+            <ResponsiveContainer width="100%" height={300}>
+              <LineChart data={monthly}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                <XAxis dataKey="label" stroke="#9CA3AF" />
+                <YAxis stroke="#9CA3AF" />
+                <Tooltip formatter={(value: number) => formatMoney(value, baseCurrency)} />
+                <Legend />
+                <Line type="monotone" dataKey="acumulado" name={t('stats.cumulative')} stroke="#6366F1" strokeWidth={2} />
+                <Line type="monotone" dataKey="neto" name={t('stats.monthNet')} stroke="#F59E0B" strokeDasharray="4 4" />
+              </LineChart>
+            </ResponsiveContainer>
+          </ChartCard>
+
+          <ChartCard title={t('stats.categoryTrend')}>
+            {trends.categories.length > 0 ? (
+              <ResponsiveContainer width="100%" height={300}>
+                <LineChart data={trends.points}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                  <XAxis dataKey="label" stroke="#9CA3AF" />
+                  <YAxis stroke="#9CA3AF" />
+                  <Tooltip formatter={(value: number) => formatMoney(value, baseCurrency)} />
+                  <Legend />
+                  {trends.categories.map((name, index) => (
+                    <Line key={name} type="monotone" dataKey={name} stroke={CHART_COLORS[index % CHART_COLORS.length]} strokeWidth={2} />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            ) : (<div className="flex items-center justify-center h-[300px] text-gray-400">{t('dashboard.noExpenses')}</div>)}
+          </ChartCard>
+
+          <ChartCard title={t('stats.monthlySavingsRate')}>
+            <ResponsiveContainer width="100%" height={300}>
+              <LineChart data={monthly}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                <XAxis dataKey="label" stroke="#9CA3AF" />
+                <YAxis stroke="#9CA3AF" tickFormatter={(value: number) => formatPercent(value, 1)} />
+                <Tooltip formatter={(value: number) => formatPercent(value, 1)} />
+                <Line type="monotone" dataKey="ahorro" name={t('stats.savingsRate')} stroke="#10B981" strokeWidth={2} connectNulls />
+              </LineChart>
+            </ResponsiveContainer>
+          </ChartCard>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StatsPage;
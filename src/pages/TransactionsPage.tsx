@@ -0,0 +1,204 @@
+import React, { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { FiTrendingUp, FiTrendingDown, FiDollarSign, FiChevronLeft, FiChevronRight, FiArrowUp, FiArrowDown, FiUpload } from 'react-icons/fi';
+import KpiCard from '../components/KpiCard';
+import TransactionModal from '../components/TransactionModal';
+import { getPeriodRange, toDateInput } from '../libs/periods';
+import { getBaseCurrency, getRatesToBase } from '../libs/currency';
+import { formatDate, formatMoney } from '../libs/format';
+import { t, type TranslationKey } from '../libs/i18n';
+import type { LedgerEntry, LedgerFilters, LedgerSortBy, SortDir } from '../libs/ledger';
+import { toCategoryOptions } from '../libs/categories';
+import { useAccounts } from '../hooks/useAccounts';
+import { useCategories } from '../hooks/useCategories';
+import { useExchangeRates } from '../hooks/useExchangeRates';
+import { useLedger } from '../hooks/useLedger';
+import type { RecordRef } from '../types/transaction';
+
+const PAGE_SIZE = 25;
+
+const KIND_LABELS: Record<LedgerEntry['kind'], TranslationKey> = {
+  in: 'common.income',
+  out: 'common.expense',
+  transfer: 'common.transfer',
+};
+
+const defaultFilters = (): LedgerFilters => {
+  const { startDate, endDate } = getPeriodRange('30');
+  return {
+    startDate: toDateInput(startDate),
+    endDate: toDateInput(endDate),
+    accountId: 'all',
+    categoryId: 'all',
+    kind: 'all',
+  };
+};
+
+const TransactionsPage: React.FC = () => {
+  const { data: accounts = [] } = useAccounts();
+  const { data: categories = [] } = useCategories();
+  const { data: rates = [] } = useExchangeRates();
+  const [editingRecord, setEditingRecord] = useState<RecordRef | null>(null);
+
+  // Filtros, orden y paginación
+  const [filters, setFilters] = useState<LedgerFilters>(defaultFilters);
+  const [sortBy, setSortBy] = useState<LedgerSortBy>('date');
+  const [sortDir, setSortDir] = useState<SortDir>('desc');
+  const [page, setPage] = useState(0);
+
+  // Con una cuenta filtrada los totales van en su moneda; sin filtro, en la moneda base
+  const baseCurrency = getBaseCurrency();
+  const filteredAccount = accounts.find((a) => a.id === filters.accountId);
+  const totalsCurrency = filteredAccount?.currency ?? baseCurrency;
+  const { factors, missing: missingRates } = useMemo(
+    () => getRatesToBase(rates, [...new Set(accounts.map((a) => a.currency))], baseCurrency),
+    [rates, accounts, baseCurrency]
+  );
+
+  const { data: ledger, isLoading: loading } = useLedger(filters, sortBy, sortDir, page, PAGE_SIZE, factors);
+  const entries = ledger?.entries ?? [];
+  const totals = { count: ledger?.totalCount ?? 0, ingresos: ledger?.totalIn ?? 0, gastos: ledger?.totalOut ?? 0 };
+
+  const updateFilter = <K extends keyof LedgerFilters>(key: K, value: LedgerFilters[K]) => {
+    setFilters((prev) => ({ ...prev, [key]: value }));
+    setPage(0);
+  };
+
+  const toggleSort = (column: LedgerSortBy) => {
+    if (sortBy === column) {
+      setSortDir(sortDir === 'asc' ? 'desc' : 'asc');
+    } else {
+      setSortBy(column);
+      setSortDir('desc');
+    }
+    setPage(0);
+  };
+
+  const totalPages = Math.max(1, Math.ceil(totals.count / PAGE_SIZE));
+
+  const SortIcon = ({ column }: { column: LedgerSortBy }) =>
+    sortBy !== column ? null : sortDir === 'asc' ? <FiArrowUp className="inline ml-1" /> : <FiArrowDown className="inline ml-1" />;
+
+  return (
+    <div className="text-white space-y-8">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-4xl font-bold">{t('transactions.title')}</h1>
+          <p className="text-gray-400 mt-1">{t('transactions.subtitle')}</p>
+        </div>
+        <Link
+          to="/transactions/import"
+          className="bg-indigo-600 hover:bg-indigo-500 text-white font-bold py-3 px-6 rounded-lg flex items-center transition"
+        >
+          <FiUpload className="mr-2" /> {t('transactions.importCsv')}
+        </Link>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4">
+        <div>
+          <label className="block text-sm text-gray-400 mb-1">{t('periods.from')}</label>
+          <input type="date" value={filters.startDate} onChange={(e) => updateFilter('startDate', e.target.value)} className="w-full bg-gray-800 p-2 rounded-lg border border-gray-700" />
+        </div>
+        <div>
+          <label className="block text-sm text-gray-400 mb-1">{t('periods.to')}</label>
+          <input type="date" value={filters.endDate} onChange={(e) => updateFilter('endDate', e.target.value)} className="w-full bg-gray-800 p-2 rounded-lg border border-gray-700" />
+        </div>
+        <div>
+          <label className="block text-sm text-gray-400 mb-1">{t('transactions.account')}</label>
+          <select value={filters.accountId} onChange={(e) => updateFilter('accountId', e.target.value)} className="w-full bg-gray-800 p-2 rounded-lg border border-gray-700">
+            <option value="all">{t('dashboard.all')}</option>
+            {accounts.map((acc) => (<option key={acc.id} value={acc.id}>{acc.name}</option>))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm text-gray-400 mb-1">{t('transactions.category')}</label>
+          <select value={filters.categoryId} onChange={(e) => updateFilter('categoryId', e.target.value)} className="w-full bg-gray-800 p-2 rounded-lg border border-gray-700">
+            <option value="all">{t('dashboard.all')}</option>
+            {toCategoryOptions(categories).map((cat) => (<option key={cat.id} value={cat.id}>{cat.name}</option>))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm text-gray-400 mb-1">{t('transactions.type')}</label>
+          <select value={filters.kind} onChange={(e) => updateFilter('kind', e.target.value as LedgerFilters['kind'])} className="w-full bg-gray-800 p-2 rounded-lg border border-gray-700">
+            <option value="all">{t('transactions.allTypes')}</option>
+            <option value="in">{t('dashboard.income')}</option>
+            <option value="out">{t('dashboard.expenses')}</option>
+            <option value="transfer">{t('transactions.transfers')}</option>
+          </select>
+        </div>
+      </div>
+
+      {!filteredAccount && missingRates.size > 0 && (
+        <p className="text-sm text-yellow-400">
+          {t('dashboard.missingRates', { currencies: [...missingRates].join(', '), base: baseCurrency })}
+        </p>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <KpiCard title={t('dashboard.income')} amount={totals.ingresos} currency={totalsCurrency} icon={<FiTrendingUp className="text-3xl text-green-400" />} />
+        <KpiCard title={t('dashboard.expenses')} amount={totals.gastos} currency={totalsCurrency} icon={<FiTrendingDown className="text-3xl text-red-400" />} />
+        <KpiCard title={t('dashboard.balance')} amount={totals.ingresos - totals.gastos} currency={totalsCurrency} icon={<FiDollarSign className="text-3xl text-indigo-400" />} />
+      </div>
+
+      <div className="bg-gray-800 p-6 rounded-2xl shadow-lg overflow-x-auto">
+        {loading ? <p className="text-gray-400">{t('common.loading')}</p> : entries.length === 0 ? (
+          <p className="text-gray-500">{t('transactions.empty')}</p>
+        ) : (
+          <table className="w-full text-left">
+            <thead>
+              <tr className="text-sm text-gray-400 border-b border-gray-700">
+                <th className="py-3 pr-4 cursor-pointer select-none" onClick={() => toggleSort('date')}>{t('transactions.date')}<SortIcon column="date" /></th>
+                <th className="py-3 pr-4">{t('transactions.type')}</th>
+                <th className="py-3 pr-4">{t('transactions.account')}</th>
+                <th className="py-3 pr-4">{t('transactions.category')}</th>
+                <th className="py-3 pr-4">{t('transactions.note')}</th>
+                <th className="py-3 pr-4 text-right cursor-pointer select-none" onClick={() => toggleSort('amount')}>{t('transactions.amount')}<SortIcon column="amount" /></th>
+                <th className="py-3 text-right">{t('transactions.runningTotal')}</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-700">
+              {entries.map((entry) => (
+                <tr
+                  key={`${entry.entry_type}-${entry.id}`}
+                  onClick={() => setEditingRecord({ type: entry.entry_type, id: entry.id })}
+                  className="cursor-pointer hover:bg-gray-700/50"
+                >
+                  <td className="py-3 pr-4 whitespace-nowrap">{formatDate(entry.date)}</td>
+                  <td className="py-3 pr-4">{t(KIND_LABELS[entry.kind])}</td>
+                  <td className="py-3 pr-4">
+                    {entry.kind === 'transfer' ? `${entry.account_name ?? '—'} → ${entry.to_account_name ?? '—'}` : entry.account_name ?? '—'}
+                  </td>
+                  <td className="py-3 pr-4">{entry.split ? t('transactions.split') : entry.category_name ?? '—'}</td>
+                  <td className="py-3 pr-4 text-gray-400">{entry.note || ''}</td>
+                  <td className={`py-3 pr-4 text-right font-semibold whitespace-nowrap ${
+                    entry.kind === 'in' ? 'text-green-400' : entry.kind === 'out' ? 'text-red-400' : 'text-gray-300'
+                  }`}>
+                    {entry.kind === 'in' ? '+' : entry.kind === 'out' ? '-' : ''}{formatMoney(entry.amount, entry.currency)}
+                  </td>
+                  <td className="py-3 text-right font-mono whitespace-nowrap">{formatMoney(entry.running_total, totalsCurrency)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        <div className="flex items-center justify-between mt-6 text-sm text-gray-400">
+          <span>{t('transactions.count', { count: totals.count })}</span>
+          <div className="flex items-center gap-4">
+            <button onClick={() => setPage(page - 1)} disabled={page === 0} className="p-2 rounded-lg hover:bg-gray-700 disabled:opacity-30">
+              <FiChevronLeft size={18} />
+            </button>
+            <span>{t('transactions.page', { page: page + 1, total: totalPages })}</span>
+            <button onClick={() => setPage(page + 1)} disabled={page + 1 >= totalPages} className="p-2 rounded-lg hover:bg-gray-700 disabled:opacity-30">
+              <FiChevronRight size={18} />
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <TransactionModal isOpen={!!editingRecord} onClose={() => setEditingRecord(null)} record={editingRecord} />
+    </div>
+  );
+};
+
+export default TransactionsPage;
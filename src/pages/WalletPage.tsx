@@ -0,0 +1,253 @@
+import React, { useState } from 'react';
+import { useForm, type SubmitHandler } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { FiCheck, FiLogOut, FiMail, FiPlus, FiTrash2, FiUser, FiX } from 'react-icons/fi';
+import { WALLET_ROLES } from '../libs/wallets';
+import { t, translateMessage } from '../libs/i18n';
+import { useAuth } from '../hooks/useAuth';
+import { useCurrentWallet } from '../hooks/useCurrentWallet';
+import { useSwitchWallet } from '../hooks/useSwitchWallet';
+import { useCreateWallet } from '../hooks/useCreateWallet';
+import { useWalletMembers } from '../hooks/useWalletMembers';
+import { useWalletInvitations } from '../hooks/useWalletInvitations';
+import { useInviteMember } from '../hooks/useInviteMember';
+import { useUpdateMemberRole } from '../hooks/useUpdateMemberRole';
+import { useRemoveMember } from '../hooks/useRemoveMember';
+import { useAcceptInvitation } from '../hooks/useAcceptInvitation';
+import { useDeleteInvitation } from '../hooks/useDeleteInvitation';
+import type { WalletMember, WalletRole } from '../types/wallet';
+
+const inviteSchema = z.object({
+  email: z.string().trim().email({ message: 'validation.email' }),
+  role: z.enum(['owner', 'editor', 'viewer']),
+});
+
+type InviteFormInputs = z.infer<typeof inviteSchema>;
+
+const inputClass = 'bg-gray-700 border-gray-600 rounded-lg p-3';
+
+const WalletPage: React.FC = () => {
+  const { user } = useAuth();
+  const { wallet, wallets, isLoading } = useCurrentWallet();
+  const walletId = wallet?.id ?? null;
+  const { data: members = [] } = useWalletMembers(walletId);
+  const { data: invitations } = useWalletInvitations(walletId);
+  const switchWallet = useSwitchWallet();
+  const createWallet = useCreateWallet();
+  const invite = useInviteMember();
+  const updateRole = useUpdateMemberRole();
+  const removeMember = useRemoveMember();
+  const acceptInvitation = useAcceptInvitation();
+  const deleteInvitation = useDeleteInvitation();
+  const [newWalletName, setNewWalletName] = useState('');
+
+  const { register, handleSubmit, reset, formState: { errors } } = useForm<InviteFormInputs>({
+    resolver: zodResolver(inviteSchema),
+    defaultValues: { email: '', role: 'editor' },
+  });
+
+  if (isLoading || !wallet) {
+    return <p className="text-white">{t('common.loading')}</p>;
+  }
+
+  const isOwner = wallet.role === 'owner';
+
+  const onCreateWallet = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newWalletName.trim()) return;
+    createWallet.mutate(newWalletName, {
+      onSuccess: () => setNewWalletName(''),
+      onError: (error) => alert(t('common.error', { message: error.message })),
+    });
+  };
+
+  const onInvite: SubmitHandler<InviteFormInputs> = (formData) => {
+    invite.mutate({ walletId: wallet.id, ...formData }, {
+      onSuccess: () => reset({ email: '', role: formData.role }),
+      onError: (error) => alert(error.message),
+    });
+  };
+
+  const changeRole = (member: WalletMember, role: WalletRole) => {
+    updateRole.mutate({ walletId: wallet.id, userId: member.user_id, role }, {
+      onError: (error) => alert(error.message),
+    });
+  };
+
+  const remove = (member: WalletMember) => {
+    const leaving = member.user_id === user?.id;
+    const message = leaving
+      ? t('wallet.confirmLeave', { wallet: wallet.name })
+      : t('wallet.confirmRemove', { email: member.email, wallet: wallet.name });
+    if (!window.confirm(message)) return;
+    removeMember.mutate({ walletId: wallet.id, userId: member.user_id }, {
+      onError: (error) => alert(error.message),
+    });
+  };
+
+  const cancelInvitation = (invitationId: string) => {
+    deleteInvitation.mutate(invitationId, {
+      onError: (error) => alert(error.message),
+    });
+  };
+
+  return (
+    <div className="text-white space-y-8">
+      <div>
+        <h1 className="text-4xl font-bold">{t('wallet.title')}</h1>
+        <p className="text-gray-400 mt-1">
+          {t('wallet.subtitle')}
+        </p>
+      </div>
+
+      {invitations && invitations.received.length > 0 && (
+        <div className="bg-gray-800 p-6 rounded-2xl shadow-lg">
+          <h2 className="text-2xl font-bold mb-4">{t('wallet.received')}</h2>
+          <ul className="divide-y divide-gray-700">
+            {invitations.received.map((invitation) => (
+              <li key={invitation.id} className="py-3 flex justify-between items-center">
+                <span>
+                  <span className="font-semibold">{invitation.walletName}</span>
+                  <span className="text-gray-400"> · {t(`walletRoles.${invitation.role}`)}</span>
+                </span>
+                <div className="flex items-center gap-4">
+                  <button
+                    onClick={() => acceptInvitation.mutate(invitation.id, { onError: (error) => alert(error.message) })}
+                    disabled={acceptInvitation.isPending}
+                    className="flex items-center gap-1 text-indigo-400 hover:text-indigo-300 disabled:opacity-50"
+                  >
+                    <FiCheck /> {t('wallet.accept')}
+                  </button>
+                  <button onClick={() => cancelInvitation(invitation.id)} className="text-gray-400 hover:text-red-500">
+                    <FiX size={18} />
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="bg-gray-800 p-6 rounded-2xl shadow-lg">
+        <h2 className="text-2xl font-bold mb-4">{t('wallet.mine')}</h2>
+        <ul className="divide-y divide-gray-700">
+          {wallets.map((w) => (
+            <li key={w.id} className="py-3 flex justify-between items-center">
+              <span>
+                <span className="font-semibold">{w.name}</span>
+                <span className="text-gray-400"> · {t(`walletRoles.${w.role}`)}</span>
+              </span>
+              {w.id === wallet.id ? (
+                <span className="text-sm text-green-400">{t('wallet.active')}</span>
+              ) : (
+                <button
+                  onClick={() => switchWallet.mutate(w.id, { onError: (error) => alert(error.message) })}
+                  disabled={switchWallet.isPending}
+                  className="text-sm text-indigo-400 hover:text-indigo-300 disabled:opacity-50"
+                >
+                  {t('wallet.use')}
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+        <form onSubmit={onCreateWallet} className="mt-4 flex gap-2">
+          <input
+            value={newWalletName}
+            onChange={(e) => setNewWalletName(e.target.value)}
+            placeholder={t('wallet.namePlaceholder')}
+            className={`${inputClass} flex-1`}
+          />
+          <button
+            type="submit"
+            disabled={createWallet.isPending || !newWalletName.trim()}
+            className="bg-indigo-600 hover:bg-indigo-500 text-white font-bold py-3 px-6 rounded-lg flex items-center transition disabled:opacity-50"
+          >
+            <FiPlus className="mr-2" /> {t('wallet.new')}
+          </button>
+        </form>
+      </div>
+
+      <div className="bg-gray-800 p-6 rounded-2xl shadow-lg">
+        <h2 className="text-2xl font-bold mb-4">{t('wallet.members', { wallet: wallet.name })}</h2>
+        <ul className="divide-y divide-gray-700">
+          {members.map((member) => {
+            const isSelf = member.user_id === user?.id;
+            return (
+              <li key={member.user_id} className="py-3 flex justify-between items-center gap-4">
+                <span className="flex items-center gap-3">
+                  <span className="p-2 bg-gray-700 rounded-full"><FiUser /></span>
+                  {member.email}{isSelf && <span className="text-gray-400">{t('wallet.you')}</span>}
+                </span>
+                <div className="flex items-center gap-4">
+                  {isOwner ? (
+                    <select
+                      value={member.role}
+                      onChange={(e) => changeRole(member, e.target.value as WalletRole)}
+                      className={`${inputClass} py-2`}
+                    >
+                      {WALLET_ROLES.map((role) => (<option key={role} value={role}>{t(`walletRoles.${role}`)}</option>))}
+                    </select>
+                  ) : (
+                    <span className="text-gray-400">{t(`walletRoles.${member.role}`)}</span>
+                  )}
+                  {(isOwner || isSelf) && (
+                    <button
+                      onClick={() => remove(member)}
+                      title={isSelf ? t('wallet.leave') : t('wallet.remove')}
+                      className="text-gray-400 hover:text-red-500"
+                    >
+                      {isSelf ? <FiLogOut size={18} /> : <FiTrash2 size={18} />}
+                    </button>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+
+      {isOwner && (
+        <div className="bg-gray-800 p-6 rounded-2xl shadow-lg">
+          <h2 className="text-2xl font-bold mb-4">{t('wallet.invite')}</h2>
+          <form onSubmit={handleSubmit(onInvite)} className="flex flex-wrap gap-2 items-start">
+            <div className="flex-1 min-w-[12rem]">
+              <input {...register('email')} type="email" placeholder={t('wallet.emailPlaceholder')} className={`${inputClass} w-full`} />
+              {errors.email && <p className="text-red-500 text-sm mt-1">{translateMessage(errors.email.message)}</p>}
+            </div>
+            <select {...register('role')} className={inputClass}>
+              {WALLET_ROLES.map((role) => (<option key={role} value={role}>{t(`walletRoles.${role}`)}</option>))}
+            </select>
+            <button
+              type="submit"
+              disabled={invite.isPending}
+              className="bg-indigo-600 hover:bg-indigo-500 text-white font-bold py-3 px-6 rounded-lg flex items-center transition disabled:opacity-50"
+            >
+              <FiMail className="mr-2" /> {t('wallet.invite')}
+            </button>
+          </form>
+          <p className="text-sm text-gray-400 mt-2">{t('wallet.inviteHelp')}</p>
+
+          {invitations && invitations.sent.length > 0 && (
+            <ul className="divide-y divide-gray-700 mt-4">
+              {invitations.sent.map((invitation) => (
+                <li key={invitation.id} className="py-3 flex justify-between items-center">
+                  <span>
+                    {invitation.email}
+                    <span className="text-gray-400"> · {t(`walletRoles.${invitation.role}`)} · {t('wallet.pending')}</span>
+                  </span>
+                  <button onClick={() => cancelInvitation(invitation.id)} title={t('wallet.cancelInvitation')} className="text-gray-400 hover:text-red-500">
+                    <FiX size={18} />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WalletPage;
@@ -0,0 +1,13 @@
+import type { Tables } from "./database";
+
+export type AccountType = "cash" | "checking" | "savings" | "credit_card" | "loan" | "investment";
+
+// `type` tiene un CHECK en la tabla; el generador lo tipa como string.
+// credit_limit, statement_day y payment_due_day solo aplican a tarjetas de crédito.
+// Una cuenta archivada (archived_at) no se ofrece al registrar movimientos.
+export type Account = Pick<
+  Tables<"accounts">,
+  "id" | "name" | "institution" | "opening_balance" | "currency" | "credit_limit" | "statement_day" | "payment_due_day" | "archived_at"
+> & {
+  type: AccountType;
+};
@@ -0,0 +1,13 @@
+import type { Tables } from "./database";
+
+export type AuditTable = "accounts" | "categories" | "transactions" | "transfers";
+export type AuditAction = "insert" | "update" | "delete";
+
+// Fila completa antes (old_data) y después (new_data) del cambio: en un alta solo
+// hay new_data y en una eliminación solo old_data
+export type AuditEntry = Pick<Tables<"audit_log">, "id" | "created_at" | "user_id" | "record_id"> & {
+  table_name: AuditTable;
+  action: AuditAction;
+  old_data: Record<string, unknown> | null;
+  new_data: Record<string, unknown> | null;
+};
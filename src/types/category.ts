@@ -0,0 +1,8 @@
+import type { Tables } from "./database";
+
+// `type` tiene un CHECK en la tabla; el generador lo tipa como string.
+// parent_id apunta a la categoría principal (un solo nivel de subcategorías).
+// Una categoría archivada (archived_at) no se ofrece al registrar movimientos.
+export type Category = Pick<Tables<"categories">, "id" | "name" | "color" | "parent_id" | "archived_at"> & {
+  type: "income" | "expense";
+};
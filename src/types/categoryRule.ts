@@ -0,0 +1,4 @@
+import type { Tables } from "./database";
+
+// Al menos uno de category_id o account_id está definido (CHECK en la tabla)
+export type CategoryRule = Pick<Tables<"category_rules">, "id" | "pattern" | "category_id" | "account_id">;
@@ -0,0 +1,1205 @@
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
+export type Database = {
+  // Allows to automatically instantiate createClient with right options
+  // instead of createClient<Database, { PostgrestVersion: 'XX' }>(URL, KEY)
+  __InternalSupabase: {
+    PostgrestVersion: "12.2.3 (519615d)"
+  }
+  public: {
+    Tables: {
+      accounts: {
+        Row: {
+          archived_at: string | null
+          created_at: string | null
+          credit_limit: number | null
+          currency: string
+          id: string
+          institution: string | null
+          name: string
+          opening_balance: number
+          payment_due_day: number | null
+          statement_day: number | null
+          type: string
+          user_id: string
+          wallet_id: string
+        }
+        Insert: {
+          archived_at?: string | null
+          created_at?: string | null
+          credit_limit?: number | null
+          currency?: string
+          id?: string
+          institution?: string | null
+          name: string
+          opening_balance?: number
+          payment_due_day?: number | null
+          statement_day?: number | null
+          type?: string
+          user_id?: string
+          wallet_id?: string
+        }
+        Update: {
+          archived_at?: string | null
+          created_at?: string | null
+          credit_limit?: number | null
+          currency?: string
+          id?: string
+          institution?: string | null
+          name?: string
+          opening_balance?: number
+          payment_due_day?: number | null
+          statement_day?: number | null
+          type?: string
+          user_id?: string
+          wallet_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "accounts_wallet_id_fkey"
+            columns: ["wallet_id"]
+            isOneToOne: false
+            referencedRelation: "wallets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      audit_log: {
+        Row: {
+          action: string
+          created_at: string
+          id: string
+          new_data: Json | null
+          old_data: Json | null
+          record_id: string
+          table_name: string
+          user_id: string | null
+          wallet_id: string
+        }
+        Insert: {
+          action: string
+          created_at?: string
+          id?: string
+          new_data?: Json | null
+          old_data?: Json | null
+          record_id: string
+          table_name: string
+          user_id?: string | null
+          wallet_id: string
+        }
+        Update: {
+          action?: string
+          created_at?: string
+          id?: string
+          new_data?: Json | null
+          old_data?: Json | null
+          record_id?: string
+          table_name?: string
+          user_id?: string | null
+          wallet_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "audit_log_wallet_id_fkey"
+            columns: ["wallet_id"]
+            isOneToOne: false
+            referencedRelation: "wallets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      budgets: {
+        Row: {
+          amount: number
+          category_id: string
+          created_at: string | null
+          id: string
+          user_id: string
+          wallet_id: string
+        }
+        Insert: {
+          amount: number
+          category_id: string
+          created_at?: string | null
+          id?: string
+          user_id?: string
+          wallet_id?: string
+        }
+        Update: {
+          amount?: number
+          category_id?: string
+          created_at?: string | null
+          id?: string
+          user_id?: string
+          wallet_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "budgets_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "budgets_wallet_id_fkey"
+            columns: ["wallet_id"]
+            isOneToOne: false
+            referencedRelation: "wallets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      categories: {
+        Row: {
+          archived_at: string | null
+          color: string | null
+          created_at: string | null
+          id: string
+          name: string
+          parent_id: string | null
+          type: string
+          user_id: string
+          wallet_id: string
+        }
+        Insert: {
+          archived_at?: string | null
+          color?: string | null
+          created_at?: string | null
+          id?: string
+          name: string
+          parent_id?: string | null
+          type: string
+          user_id?: string
+          wallet_id?: string
+        }
+        Update: {
+          archived_at?: string | null
+          color?: string | null
+          created_at?: string | null
+          id?: string
+          name?: string
+          parent_id?: string | null
+          type?: string
+          user_id?: string
+          wallet_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "categories_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "categories_wallet_id_fkey"
+            columns: ["wallet_id"]
+            isOneToOne: false
+            referencedRelation: "wallets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      category_rules: {
+        Row: {
+          account_id: string | null
+          category_id: string | null
+          created_at: string | null
+          id: string
+          pattern: string
+          user_id: string
+          wallet_id: string
+        }
+        Insert: {
+          account_id?: string | null
+          category_id?: string | null
+          created_at?: string | null
+          id?: string
+          pattern: string
+          user_id?: string
+          wallet_id?: string
+        }
+        Update: {
+          account_id?: string | null
+          category_id?: string | null
+          created_at?: string | null
+          id?: string
+          pattern?: string
+          user_id?: string
+          wallet_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "category_rules_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "category_rules_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "category_rules_wallet_id_fkey"
+            columns: ["wallet_id"]
+            isOneToOne: false
+            referencedRelation: "wallets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      exchange_rates: {
+        Row: {
+          created_at: string | null
+          from_currency: string
+          id: string
+          rate: number
+          to_currency: string
+          user_id: string
+          wallet_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          from_currency: string
+          id?: string
+          rate: number
+          to_currency: string
+          user_id?: string
+          wallet_id?: string
+        }
+        Update: {
+          created_at?: string | null
+          from_currency?: string
+          id?: string
+          rate?: number
+          to_currency?: string
+          user_id?: string
+          wallet_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "exchange_rates_wallet_id_fkey"
+            columns: ["wallet_id"]
+            isOneToOne: false
+            referencedRelation: "wallets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      goals: {
+        Row: {
+          account_id: string | null
+          created_at: string | null
+          currency: string
+          deadline: string
+          id: string
+          name: string
+          source: string
+          target_amount: number
+          user_id: string
+          wallet_id: string
+        }
+        Insert: {
+          account_id?: string | null
+          created_at?: string | null
+          currency?: string
+          deadline: string
+          id?: string
+          name: string
+          source?: string
+          target_amount: number
+          user_id?: string
+          wallet_id?: string
+        }
+        Update: {
+          account_id?: string | null
+          created_at?: string | null
+          currency?: string
+          deadline?: string
+          id?: string
+          name?: string
+          source?: string
+          target_amount?: number
+          user_id?: string
+          wallet_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "goals_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "goals_wallet_id_fkey"
+            columns: ["wallet_id"]
+            isOneToOne: false
+            referencedRelation: "wallets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          active_wallet_id: string | null
+          email: string | null
+          user_id: string
+        }
+        Insert: {
+          active_wallet_id?: string | null
+          email?: string | null
+          user_id: string
+        }
+        Update: {
+          active_wallet_id?: string | null
+          email?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "profiles_active_wallet_id_fkey"
+            columns: ["active_wallet_id"]
+            isOneToOne: false
+            referencedRelation: "wallets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      reconciliations: {
+        Row: {
+          account_id: string
+          created_at: string | null
+          id: string
+          statement_balance: number
+          statement_date: string
+          user_id: string
+          wallet_id: string
+        }
+        Insert: {
+          account_id: string
+          created_at?: string | null
+          id?: string
+          statement_balance: number
+          statement_date: string
+          user_id?: string
+          wallet_id?: string
+        }
+        Update: {
+          account_id?: string
+          created_at?: string | null
+          id?: string
+          statement_balance?: number
+          statement_date?: string
+          user_id?: string
+          wallet_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reconciliations_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reconciliations_wallet_id_fkey"
+            columns: ["wallet_id"]
+            isOneToOne: false
+            referencedRelation: "wallets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      recurring_occurrences: {
+        Row: {
+          amount: number
+          created_at: string | null
+          due_date: string
+          id: string
+          note: string | null
+          rule_id: string
+          status: string
+          transaction_id: string | null
+          transfer_id: string | null
+          user_id: string
+          wallet_id: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string | null
+          due_date: string
+          id?: string
+          note?: string | null
+          rule_id: string
+          status?: string
+          transaction_id?: string | null
+          transfer_id?: string | null
+          user_id?: string
+          wallet_id?: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string | null
+          due_date?: string
+          id?: string
+          note?: string | null
+          rule_id?: string
+          status?: string
+          transaction_id?: string | null
+          transfer_id?: string | null
+          user_id?: string
+          wallet_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recurring_occurrences_rule_id_fkey"
+            columns: ["rule_id"]
+            isOneToOne: false
+            referencedRelation: "recurring_rules"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recurring_occurrences_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recurring_occurrences_transfer_id_fkey"
+            columns: ["transfer_id"]
+            isOneToOne: false
+            referencedRelation: "transfers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recurring_occurrences_wallet_id_fkey"
+            columns: ["wallet_id"]
+            isOneToOne: false
+            referencedRelation: "wallets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      recurring_rules: {
+        Row: {
+          account_id: string
+          active: boolean
+          amount: number
+          auto_confirm: boolean
+          category_id: string | null
+          created_at: string | null
+          end_date: string | null
+          frequency: string
+          id: string
+          kind: string
+          next_date: string
+          note: string | null
+          start_date: string
+          to_account_id: string | null
+          user_id: string
+          wallet_id: string
+        }
+        Insert: {
+          account_id: string
+          active?: boolean
+          amount: number
+          auto_confirm?: boolean
+          category_id?: string | null
+          created_at?: string | null
+          end_date?: string | null
+          frequency: string
+          id?: string
+          kind: string
+          next_date: string
+          note?: string | null
+          start_date: string
+          to_account_id?: string | null
+          user_id?: string
+          wallet_id?: string
+        }
+        Update: {
+          account_id?: string
+          active?: boolean
+          amount?: number
+          auto_confirm?: boolean
+          category_id?: string | null
+          created_at?: string | null
+          end_date?: string | null
+          frequency?: string
+          id?: string
+          kind?: string
+          next_date?: string
+          note?: string | null
+          start_date?: string
+          to_account_id?: string | null
+          user_id?: string
+          wallet_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recurring_rules_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recurring_rules_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recurring_rules_to_account_id_fkey"
+            columns: ["to_account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recurring_rules_wallet_id_fkey"
+            columns: ["wallet_id"]
+            isOneToOne: false
+            referencedRelation: "wallets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      transaction_attachments: {
+        Row: {
+          created_at: string | null
+          file_name: string
+          id: string
+          mime_type: string
+          path: string
+          size: number
+          transaction_id: string
+          user_id: string
+          wallet_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          file_name: string
+          id?: string
+          mime_type: string
+          path: string
+          size: number
+          transaction_id: string
+          user_id?: string
+          wallet_id?: string
+        }
+        Update: {
+          created_at?: string | null
+          file_name?: string
+          id?: string
+          mime_type?: string
+          path?: string
+          size?: number
+          transaction_id?: string
+          user_id?: string
+          wallet_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transaction_attachments_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transaction_attachments_wallet_id_fkey"
+            columns: ["wallet_id"]
+            isOneToOne: false
+            referencedRelation: "wallets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      transaction_splits: {
+        Row: {
+          amount: number
+          category_id: string | null
+          created_at: string | null
+          id: string
+          transaction_id: string
+          user_id: string
+          wallet_id: string
+        }
+        Insert: {
+          amount: number
+          category_id?: string | null
+          created_at?: string | null
+          id?: string
+          transaction_id: string
+          user_id?: string
+          wallet_id?: string
+        }
+        Update: {
+          amount?: number
+          category_id?: string | null
+          created_at?: string | null
+          id?: string
+          transaction_id?: string
+          user_id?: string
+          wallet_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transaction_splits_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transaction_splits_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transaction_splits_wallet_id_fkey"
+            columns: ["wallet_id"]
+            isOneToOne: false
+            referencedRelation: "wallets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      transactions: {
+        Row: {
+          account_id: string
+          amount: number
+          category_id: string | null
+          cleared: boolean
+          created_at: string | null
+          date: string
+          id: string
+          kind: string
+          note: string | null
+          reconciliation_id: string | null
+          user_id: string
+          wallet_id: string
+        }
+        Insert: {
+          account_id: string
+          amount: number
+          category_id?: string | null
+          cleared?: boolean
+          created_at?: string | null
+          date?: string
+          id?: string
+          kind: string
+          note?: string | null
+          reconciliation_id?: string | null
+          user_id?: string
+          wallet_id?: string
+        }
+        Update: {
+          account_id?: string
+          amount?: number
+          category_id?: string | null
+          cleared?: boolean
+          created_at?: string | null
+          date?: string
+          id?: string
+          kind?: string
+          note?: string | null
+          reconciliation_id?: string | null
+          user_id?: string
+          wallet_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transactions_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_reconciliation_id_fkey"
+            columns: ["reconciliation_id"]
+            isOneToOne: false
+            referencedRelation: "reconciliations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_wallet_id_fkey"
+            columns: ["wallet_id"]
+            isOneToOne: false
+            referencedRelation: "wallets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      transfers: {
+        Row: {
+          amount: number
+          created_at: string | null
+          date: string
+          from_account_id: string
+          from_reconciliation_id: string | null
+          goal_id: string | null
+          id: string
+          note: string | null
+          to_account_id: string
+          to_amount: number | null
+          to_reconciliation_id: string | null
+          user_id: string
+          wallet_id: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string | null
+          date?: string
+          from_account_id: string
+          from_reconciliation_id?: string | null
+          goal_id?: string | null
+          id?: string
+          note?: string | null
+          to_account_id: string
+          to_amount?: number | null
+          to_reconciliation_id?: string | null
+          user_id?: string
+          wallet_id?: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string | null
+          date?: string
+          from_account_id?: string
+          from_reconciliation_id?: string | null
+          goal_id?: string | null
+          id?: string
+          note?: string | null
+          to_account_id?: string
+          to_amount?: number | null
+          to_reconciliation_id?: string | null
+          user_id?: string
+          wallet_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transfers_from_account_id_fkey"
+            columns: ["from_account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transfers_from_reconciliation_id_fkey"
+            columns: ["from_reconciliation_id"]
+            isOneToOne: false
+            referencedRelation: "reconciliations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transfers_goal_id_fkey"
+            columns: ["goal_id"]
+            isOneToOne: false
+            referencedRelation: "goals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transfers_to_account_id_fkey"
+            columns: ["to_account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transfers_to_reconciliation_id_fkey"
+            columns: ["to_reconciliation_id"]
+            isOneToOne: false
+            referencedRelation: "reconciliations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transfers_wallet_id_fkey"
+            columns: ["wallet_id"]
+            isOneToOne: false
+            referencedRelation: "wallets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      wallet_invitations: {
+        Row: {
+          created_at: string | null
+          email: string
+          id: string
+          invited_by: string
+          role: string
+          wallet_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          email: string
+          id?: string
+          invited_by?: string
+          role: string
+          wallet_id: string
+        }
+        Update: {
+          created_at?: string | null
+          email?: string
+          id?: string
+          invited_by?: string
+          role?: string
+          wallet_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "wallet_invitations_wallet_id_fkey"
+            columns: ["wallet_id"]
+            isOneToOne: false
+            referencedRelation: "wallets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      wallet_members: {
+        Row: {
+          created_at: string | null
+          role: string
+          user_id: string
+          wallet_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          role: string
+          user_id: string
+          wallet_id: string
+        }
+        Update: {
+          created_at?: string | null
+          role?: string
+          user_id?: string
+          wallet_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "wallet_members_wallet_id_fkey"
+            columns: ["wallet_id"]
+            isOneToOne: false
+            referencedRelation: "wallets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      wallets: {
+        Row: {
+          created_at: string | null
+          created_by: string
+          id: string
+          name: string
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string
+          id?: string
+          name: string
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string
+          id?: string
+          name?: string
+        }
+        Relationships: []
+      }
+    }
+    Views: {
+      account_balances: {
+        Row: {
+          account_id: string | null
+          currency: string | null
+          current_balance: number | null
+          opening_balance: number | null
+          user_id: string | null
+        }
+        Relationships: []
+      }
+      goal_progress: {
+        Row: {
+          account_id: string | null
+          currency: string | null
+          deadline: string | null
+          goal_id: string | null
+          name: string | null
+          saved_amount: number | null
+          source: string | null
+          target_amount: number | null
+          user_id: string | null
+        }
+        Relationships: []
+      }
+      transaction_lines: {
+        Row: {
+          account_id: string | null
+          amount: number | null
+          category_id: string | null
+          date: string | null
+          kind: string | null
+          transaction_id: string | null
+          user_id: string | null
+          wallet_id: string | null
+        }
+        Relationships: []
+      }
+    }
+    Functions: {
+      accept_wallet_invitation: {
+        Args: { p_invitation_id: string }
+        Returns: string
+      }
+      can_edit_current_wallet: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      confirm_recurring_occurrence: {
+        Args: { p_occurrence_id: string }
+        Returns: undefined
+      }
+      create_wallet: {
+        Args: { p_name: string }
+        Returns: string
+      }
+      current_wallet_id: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      delete_account: {
+        Args: { p_account_id: string; p_target_account_id?: string }
+        Returns: undefined
+      }
+      delete_category: {
+        Args: { p_category_id: string; p_target_category_id?: string }
+        Returns: undefined
+      }
+      generate_recurring_occurrences: {
+        Args: { p_until?: string }
+        Returns: number
+      }
+      get_ledger_entries: {
+        Args: {
+          p_account_id?: string
+          p_category_id?: string
+          p_end_date?: string
+          p_kind?: string
+          p_limit?: number
+          p_offset?: number
+          p_rates?: Json
+          p_sort_by?: string
+          p_sort_dir?: string
+          p_start_date?: string
+        }
+        Returns: {
+          account_id: string
+          account_name: string
+          amount: number
+          category_id: string
+          category_name: string
+          created_at: string
+          currency: string
+          date: string
+          entry_type: string
+          id: string
+          kind: string
+          note: string
+          running_total: number
+          signed_amount: number
+          split: boolean
+          to_account_id: string
+          to_account_name: string
+          total_count: number
+          total_in: number
+          total_out: number
+        }[]
+      }
+      get_monthly_summary: {
+        Args: { p_end_date: string; p_start_date: string }
+        Returns: {
+          category_id: string
+          category_name: string
+          currency: string
+          kind: string
+          month: string
+          total_amount: number
+        }[]
+      }
+      get_performance_summary: {
+        Args: { p_end_date: string; p_start_date: string }
+        Returns: {
+          category_id: string
+          category_name: string
+          kind: string
+          total_amount: number
+        }[]
+      }
+      get_performance_summary_by_currency: {
+        Args: { p_end_date: string; p_start_date: string }
+        Returns: {
+          category_id: string
+          category_name: string
+          currency: string
+          kind: string
+          total_amount: number
+        }[]
+      }
+      next_recurrence_date: {
+        Args: { p_anchor: string; p_date: string; p_frequency: string }
+        Returns: string
+      }
+      reconcile_account: {
+        Args: {
+          p_account_id: string
+          p_statement_balance: number
+          p_statement_date: string
+          p_transaction_ids: string[]
+          p_transfer_ids?: string[]
+        }
+        Returns: string
+      }
+      restore_transaction_version: {
+        Args: { p_audit_id: string }
+        Returns: undefined
+      }
+      set_transaction_splits: {
+        Args: { p_splits: Json; p_transaction_id: string }
+        Returns: undefined
+      }
+      suggest_category: {
+        Args: { p_kind: string; p_note: string }
+        Returns: string
+      }
+      switch_wallet: {
+        Args: { p_wallet_id: string }
+        Returns: undefined
+      }
+      wallet_role: {
+        Args: { p_wallet_id: string }
+        Returns: string
+      }
+    }
+    Enums: {
+      [_ in never]: never
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
+  }
+}
+
+type DatabaseWithoutInternals = Omit<Database, "__InternalSupabase">
+
+type DefaultSchema = DatabaseWithoutInternals[Extract<keyof Database, "public">]
+
+export type Tables<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof (DefaultSchema["Tables"] & DefaultSchema["Views"])
+    | { schema: keyof DatabaseWithoutInternals },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof (DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"] &
+        DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Views"])
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? (DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"] &
+      DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Views"])[TableName] extends {
+      Row: infer R
+    }
+    ? R
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof (DefaultSchema["Tables"] &
+        DefaultSchema["Views"])
+    ? (DefaultSchema["Tables"] &
+        DefaultSchema["Views"])[DefaultSchemaTableNameOrOptions] extends {
+        Row: infer R
+      }
+      ? R
+      : never
+    : never
+
+export type TablesInsert<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof DefaultSchema["Tables"]
+    | { schema: keyof DatabaseWithoutInternals },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"]
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"][TableName] extends {
+      Insert: infer I
+    }
+    ? I
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof DefaultSchema["Tables"]
+    ? DefaultSchema["Tables"][DefaultSchemaTableNameOrOptions] extends {
+        Insert: infer I
+      }
+      ? I
+      : never
+    : never
+
+export type TablesUpdate<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof DefaultSchema["Tables"]
+    | { schema: keyof DatabaseWithoutInternals },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"]
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"][TableName] extends {
+      Update: infer U
+    }
+    ? U
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof DefaultSchema["Tables"]
+    ? DefaultSchema["Tables"][DefaultSchemaTableNameOrOptions] extends {
+        Update: infer U
+      }
+      ? U
+      : never
+    : never
+
+export const Constants = {
+  public: {
+    Enums: {},
+  },
+} as const
@@ -0,0 +1,8 @@
+import type { Tables } from "./database";
+
+export type GoalSource = "account" | "transfers";
+
+// `source` tiene un CHECK en la tabla; el generador lo tipa como string
+export type Goal = Pick<Tables<"goals">, "id" | "name" | "target_amount" | "deadline" | "account_id" | "currency"> & {
+  source: GoalSource;
+};
@@ -1,6 +0,0 @@
-export type Task = {
-  id: string;
-  text: string;
-  created_at: string;
-  user_id: string;
-};
@@ -0,0 +1,12 @@
+import type { Tables } from "./database";
+
+export type RecentTransaction = Pick<Tables<"transactions">, "id" | "amount" | "date"> & {
+  kind: "in" | "out";
+  categories: Pick<Tables<"categories">, "name"> | null;
+  accounts: Pick<Tables<"accounts">, "currency"> | null;
+  // Dividida en varias categorías (categories queda en null)
+  split: boolean;
+};
+
+// Registro que TransactionModal abre en modo edición
+export type RecordRef = { type: "transaction" | "transfer"; id: string };
@@ -0,0 +1,18 @@
+import type { Tables } from "./database";
+
+export type WalletRole = "owner" | "editor" | "viewer";
+
+// `role` tiene un CHECK en las tablas; el generador lo tipa como string
+export type Wallet = Pick<Tables<"wallets">, "id" | "name"> & {
+  role: WalletRole;
+};
+
+export type WalletMember = Pick<Tables<"wallet_members">, "user_id"> & {
+  email: string;
+  role: WalletRole;
+};
+
+export type WalletInvitation = Pick<Tables<"wallet_invitations">, "id" | "email" | "wallet_id"> & {
+  role: WalletRole;
+  walletName: string;
+};
@@ -0,0 +1,122 @@
+-- Esquema base de la billetera: cuentas, categorías, transacciones y transferencias.
+-- Las migraciones posteriores (saldos, presupuestos, monedas...) parten de aquí.
+-- En un proyecto que ya tenía estas tablas creadas a mano, marca esta migración
+-- como aplicada con `npx supabase migration repair --status applied 20261018000000`.
+CREATE EXTENSION IF NOT EXISTS "uuid-ossp" WITH SCHEMA extensions;
+
+CREATE TABLE accounts (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  user_id UUID REFERENCES auth.users(id) NOT NULL,
+  name TEXT NOT NULL,
+  institution TEXT,
+  opening_balance NUMERIC(12, 2) NOT NULL DEFAULT 0 CHECK (opening_balance >= 0)
+);
+
+CREATE TABLE categories (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  user_id UUID REFERENCES auth.users(id) NOT NULL,
+  name TEXT NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('income', 'expense')),
+  color TEXT
+);
+
+-- Una cuenta con registros no se puede eliminar; una categoría sí (quedan sin categoría)
+CREATE TABLE transactions (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  user_id UUID REFERENCES auth.users(id) NOT NULL,
+  account_id UUID REFERENCES accounts(id) NOT NULL,
+  category_id UUID REFERENCES categories(id) ON DELETE SET NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('in', 'out')),
+  amount NUMERIC(12, 2) NOT NULL CHECK (amount > 0),
+  date DATE NOT NULL DEFAULT CURRENT_DATE,
+  note TEXT
+);
+
+CREATE TABLE transfers (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  user_id UUID REFERENCES auth.users(id) NOT NULL,
+  from_account_id UUID REFERENCES accounts(id) NOT NULL,
+  to_account_id UUID REFERENCES accounts(id) NOT NULL,
+  amount NUMERIC(12, 2) NOT NULL CHECK (amount > 0),
+  date DATE NOT NULL DEFAULT CURRENT_DATE,
+  note TEXT,
+  CHECK (from_account_id <> to_account_id)
+);
+
+CREATE INDEX transactions_user_date_idx ON transactions (user_id, date);
+CREATE INDEX transactions_account_idx ON transactions (account_id);
+CREATE INDEX transfers_user_date_idx ON transfers (user_id, date);
+
+-- Add Row Level Security (RLS)
+ALTER TABLE accounts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE categories ENABLE ROW LEVEL SECURITY;
+ALTER TABLE transactions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE transfers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can see their own accounts" ON accounts
+  FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can create their own accounts" ON accounts
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own accounts" ON accounts
+  FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own accounts" ON accounts
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can see their own categories" ON categories
+  FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can create their own categories" ON categories
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own categories" ON categories
+  FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own categories" ON categories
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can see their own transactions" ON transactions
+  FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can create their own transactions" ON transactions
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own transactions" ON transactions
+  FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own transactions" ON transactions
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can see their own transfers" ON transfers
+  FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can create their own transfers" ON transfers
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own transfers" ON transfers
+  FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own transfers" ON transfers
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Totales del periodo por tipo y categoría
+CREATE OR REPLACE FUNCTION get_performance_summary(
+  p_start_date TIMESTAMP WITH TIME ZONE,
+  p_end_date TIMESTAMP WITH TIME ZONE
+)
+RETURNS TABLE (
+  kind TEXT,
+  category_id UUID,
+  category_name TEXT,
+  total_amount NUMERIC
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  SELECT
+    t.kind::TEXT AS kind,
+    t.category_id,
+    COALESCE(c.name, 'Sin categoría') AS category_name,
+    SUM(t.amount) AS total_amount
+  FROM transactions t
+  LEFT JOIN categories c ON c.id = t.category_id
+  WHERE t.user_id = auth.uid()
+    AND t.date >= p_start_date::DATE
+    AND t.date <= p_end_date::DATE
+  GROUP BY 1, 2, 3;
+$$;
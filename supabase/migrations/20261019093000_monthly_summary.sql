@@ -0,0 +1,31 @@
+-- Complemento de get_performance_summary: mismos totales por tipo y categoría,
+-- pero agrupados por mes para las gráficas de tendencia de Estadísticas.
+CREATE OR REPLACE FUNCTION get_monthly_summary(
+  p_start_date TIMESTAMP WITH TIME ZONE,
+  p_end_date TIMESTAMP WITH TIME ZONE
+)
+RETURNS TABLE (
+  month DATE,
+  kind TEXT,
+  category_id UUID,
+  category_name TEXT,
+  total_amount NUMERIC
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  SELECT
+    date_trunc('month', t.date)::DATE AS month,
+    t.kind::TEXT AS kind,
+    t.category_id,
+    COALESCE(c.name, 'Sin categoría') AS category_name,
+    SUM(t.amount) AS total_amount
+  FROM transactions t
+  LEFT JOIN categories c ON c.id = t.category_id
+  WHERE t.user_id = auth.uid()
+    AND t.date >= p_start_date::DATE
+    AND t.date <= p_end_date::DATE
+  GROUP BY 1, 2, 3, 4
+  ORDER BY 1;
+$$;
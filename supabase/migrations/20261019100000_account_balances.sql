@@ -0,0 +1,29 @@
+-- Saldo actual de cada cuenta: saldo inicial + ingresos - gastos
+-- + transferencias recibidas - transferencias enviadas.
+-- Es una vista (no una columna mantenida por triggers), así que siempre refleja
+-- el estado actual aunque los registros se editen o se eliminen.
+CREATE OR REPLACE VIEW account_balances
+WITH (security_invoker = true)
+AS
+SELECT
+  a.id AS account_id,
+  a.user_id,
+  a.opening_balance,
+  a.opening_balance
+    + COALESCE((
+        SELECT SUM(CASE WHEN t.kind = 'in' THEN t.amount ELSE -t.amount END)
+        FROM transactions t
+        WHERE t.account_id = a.id
+      ), 0)
+    + COALESCE((
+        SELECT SUM(tr.amount)
+        FROM transfers tr
+        WHERE tr.to_account_id = a.id
+      ), 0)
+    - COALESCE((
+        SELECT SUM(tr.amount)
+        FROM transfers tr
+        WHERE tr.from_account_id = a.id
+      ), 0)
+    AS current_balance
+FROM accounts a;
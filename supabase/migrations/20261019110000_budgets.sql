@@ -0,0 +1,24 @@
+-- Límite de gasto mensual por categoría de gasto
+CREATE TABLE budgets (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  user_id UUID REFERENCES auth.users(id) NOT NULL,
+  category_id UUID REFERENCES categories(id) ON DELETE CASCADE NOT NULL,
+  amount NUMERIC(12, 2) NOT NULL CHECK (amount > 0),
+  UNIQUE (user_id, category_id)
+);
+
+-- Add Row Level Security (RLS)
+ALTER TABLE budgets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can see their own budgets" ON budgets
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own budgets" ON budgets
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own budgets" ON budgets
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own budgets" ON budgets
+  FOR DELETE USING (auth.uid() = user_id);
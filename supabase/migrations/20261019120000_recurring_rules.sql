@@ -0,0 +1,157 @@
+-- Plantillas de ingresos, gastos y transferencias que se repiten
+CREATE TABLE recurring_rules (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  user_id UUID REFERENCES auth.users(id) NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('in', 'out', 'transfer')),
+  amount NUMERIC(12, 2) NOT NULL CHECK (amount > 0),
+  -- Cuenta del ingreso/gasto, o cuenta de origen de la transferencia
+  account_id UUID REFERENCES accounts(id) ON DELETE CASCADE NOT NULL,
+  to_account_id UUID REFERENCES accounts(id) ON DELETE CASCADE,
+  category_id UUID REFERENCES categories(id) ON DELETE SET NULL,
+  note TEXT,
+  frequency TEXT NOT NULL CHECK (frequency IN ('daily', 'weekly', 'monthly', 'yearly')),
+  start_date DATE NOT NULL,
+  end_date DATE,
+  -- Próxima fecha que todavía no se ha generado
+  next_date DATE NOT NULL,
+  -- true: se registra sola; false: queda pendiente de confirmación
+  auto_confirm BOOLEAN NOT NULL DEFAULT false,
+  active BOOLEAN NOT NULL DEFAULT true,
+  CHECK (kind <> 'transfer' OR (to_account_id IS NOT NULL AND to_account_id <> account_id)),
+  CHECK (end_date IS NULL OR end_date >= start_date)
+);
+
+-- Cada fecha generada de una regla. UNIQUE (rule_id, due_date) hace que generar
+-- dos veces el mismo periodo no duplique nada.
+CREATE TABLE recurring_occurrences (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  user_id UUID REFERENCES auth.users(id) NOT NULL,
+  rule_id UUID REFERENCES recurring_rules(id) ON DELETE CASCADE NOT NULL,
+  due_date DATE NOT NULL,
+  amount NUMERIC(12, 2) NOT NULL CHECK (amount > 0),
+  note TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'confirmed', 'skipped')),
+  transaction_id UUID REFERENCES transactions(id) ON DELETE SET NULL,
+  transfer_id UUID REFERENCES transfers(id) ON DELETE SET NULL,
+  UNIQUE (rule_id, due_date)
+);
+
+-- Add Row Level Security (RLS)
+ALTER TABLE recurring_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE recurring_occurrences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can see their own recurring rules" ON recurring_rules
+  FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can create their own recurring rules" ON recurring_rules
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own recurring rules" ON recurring_rules
+  FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own recurring rules" ON recurring_rules
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can see their own occurrences" ON recurring_occurrences
+  FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can create their own occurrences" ON recurring_occurrences
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own occurrences" ON recurring_occurrences
+  FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own occurrences" ON recurring_occurrences
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Siguiente fecha de la serie. Se calcula desde la fecha ancla para que una regla
+-- del día 31 vuelva al 31 después de febrero en lugar de quedarse en el 28.
+CREATE OR REPLACE FUNCTION next_recurrence_date(p_date DATE, p_frequency TEXT, p_anchor DATE)
+RETURNS DATE
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_frequency
+    WHEN 'daily' THEN p_date + 1
+    WHEN 'weekly' THEN p_date + 7
+    WHEN 'monthly' THEN (p_anchor + make_interval(months =>
+      ((EXTRACT(YEAR FROM p_date) - EXTRACT(YEAR FROM p_anchor)) * 12
+        + EXTRACT(MONTH FROM p_date) - EXTRACT(MONTH FROM p_anchor))::INTEGER + 1))::DATE
+    WHEN 'yearly' THEN (p_anchor + make_interval(years =>
+      (EXTRACT(YEAR FROM p_date) - EXTRACT(YEAR FROM p_anchor))::INTEGER + 1))::DATE
+  END;
+$$;
+
+-- Registra una ocurrencia pendiente como transaction o transfer
+CREATE OR REPLACE FUNCTION confirm_recurring_occurrence(p_occurrence_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  o recurring_occurrences%ROWTYPE;
+  r recurring_rules%ROWTYPE;
+  v_id UUID;
+BEGIN
+  SELECT * INTO o FROM recurring_occurrences WHERE id = p_occurrence_id AND status = 'pending' FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+  SELECT * INTO r FROM recurring_rules WHERE id = o.rule_id;
+
+  IF r.kind = 'transfer' THEN
+    INSERT INTO transfers (user_id, from_account_id, to_account_id, amount, date, note)
+    VALUES (o.user_id, r.account_id, r.to_account_id, o.amount, o.due_date, o.note)
+    RETURNING id INTO v_id;
+    UPDATE recurring_occurrences SET status = 'confirmed', transfer_id = v_id WHERE id = o.id;
+  ELSE
+    INSERT INTO transactions (user_id, account_id, category_id, kind, amount, date, note)
+    VALUES (o.user_id, r.account_id, r.category_id, r.kind, o.amount, o.due_date, o.note)
+    RETURNING id INTO v_id;
+    UPDATE recurring_occurrences SET status = 'confirmed', transaction_id = v_id WHERE id = o.id;
+  END IF;
+END;
+$$;
+
+-- Genera las ocurrencias vencidas hasta p_until de todas las reglas activas del
+-- usuario. Las reglas con auto_confirm se registran de inmediato; las demás
+-- quedan como 'pending'. Devuelve cuántas ocurrencias nuevas se crearon.
+CREATE OR REPLACE FUNCTION generate_recurring_occurrences(p_until DATE DEFAULT CURRENT_DATE)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  r recurring_rules%ROWTYPE;
+  v_due DATE;
+  v_occurrence_id UUID;
+  v_created INTEGER := 0;
+BEGIN
+  FOR r IN
+    SELECT * FROM recurring_rules
+    WHERE user_id = auth.uid() AND active AND next_date <= p_until
+    FOR UPDATE
+  LOOP
+    v_due := r.next_date;
+    WHILE v_due <= p_until AND (r.end_date IS NULL OR v_due <= r.end_date) LOOP
+      v_occurrence_id := NULL;
+      INSERT INTO recurring_occurrences (user_id, rule_id, due_date, amount, note)
+      VALUES (r.user_id, r.id, v_due, r.amount, r.note)
+      ON CONFLICT (rule_id, due_date) DO NOTHING
+      RETURNING id INTO v_occurrence_id;
+
+      IF v_occurrence_id IS NOT NULL THEN
+        v_created := v_created + 1;
+        IF r.auto_confirm THEN
+          PERFORM confirm_recurring_occurrence(v_occurrence_id);
+        END IF;
+      END IF;
+
+      v_due := next_recurrence_date(v_due, r.frequency, r.start_date);
+    END LOOP;
+
+    UPDATE recurring_rules
+    SET next_date = v_due,
+        active = (r.end_date IS NULL OR v_due <= r.end_date)
+    WHERE id = r.id;
+  END LOOP;
+
+  RETURN v_created;
+END;
+$$;
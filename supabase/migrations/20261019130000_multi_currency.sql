@@ -0,0 +1,92 @@
+-- Moneda por cuenta (código ISO 4217)
+ALTER TABLE accounts
+  ADD COLUMN currency TEXT NOT NULL DEFAULT 'GTQ' CHECK (currency ~ '^[A-Z]{3}$');
+
+-- Monto acreditado en la cuenta destino, en su propia moneda.
+-- NULL cuando ambas cuentas usan la misma moneda (se acredita `amount`).
+ALTER TABLE transfers
+  ADD COLUMN to_amount NUMERIC(12, 2) CHECK (to_amount > 0);
+
+-- Tipos de cambio que mantiene el usuario: 1 from_currency = rate to_currency
+CREATE TABLE exchange_rates (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  user_id UUID REFERENCES auth.users(id) NOT NULL,
+  from_currency TEXT NOT NULL CHECK (from_currency ~ '^[A-Z]{3}$'),
+  to_currency TEXT NOT NULL CHECK (to_currency ~ '^[A-Z]{3}$'),
+  rate NUMERIC(18, 8) NOT NULL CHECK (rate > 0),
+  UNIQUE (user_id, from_currency, to_currency),
+  CHECK (from_currency <> to_currency)
+);
+
+-- Add Row Level Security (RLS)
+ALTER TABLE exchange_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can see their own exchange rates" ON exchange_rates
+  FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can create their own exchange rates" ON exchange_rates
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own exchange rates" ON exchange_rates
+  FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own exchange rates" ON exchange_rates
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Las transferencias recibidas suman to_amount cuando existe; se agrega la moneda
+CREATE OR REPLACE VIEW account_balances
+WITH (security_invoker = true)
+AS
+SELECT
+  a.id AS account_id,
+  a.user_id,
+  a.opening_balance,
+  a.opening_balance
+    + COALESCE((
+        SELECT SUM(CASE WHEN t.kind = 'in' THEN t.amount ELSE -t.amount END)
+        FROM transactions t
+        WHERE t.account_id = a.id
+      ), 0)
+    + COALESCE((
+        SELECT SUM(COALESCE(tr.to_amount, tr.amount))
+        FROM transfers tr
+        WHERE tr.to_account_id = a.id
+      ), 0)
+    - COALESCE((
+        SELECT SUM(tr.amount)
+        FROM transfers tr
+        WHERE tr.from_account_id = a.id
+      ), 0)
+    AS current_balance,
+  a.currency
+FROM accounts a;
+
+-- Igual que get_performance_summary, separado por la moneda de la cuenta para
+-- que el cliente pueda convertir cada total a la moneda base.
+CREATE OR REPLACE FUNCTION get_performance_summary_by_currency(
+  p_start_date TIMESTAMP WITH TIME ZONE,
+  p_end_date TIMESTAMP WITH TIME ZONE
+)
+RETURNS TABLE (
+  kind TEXT,
+  category_id UUID,
+  category_name TEXT,
+  currency TEXT,
+  total_amount NUMERIC
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  SELECT
+    t.kind::TEXT AS kind,
+    t.category_id,
+    COALESCE(c.name, 'Sin categoría') AS category_name,
+    a.currency,
+    SUM(t.amount) AS total_amount
+  FROM transactions t
+  JOIN accounts a ON a.id = t.account_id
+  LEFT JOIN categories c ON c.id = t.category_id
+  WHERE t.user_id = auth.uid()
+    AND t.date >= p_start_date::DATE
+    AND t.date <= p_end_date::DATE
+  GROUP BY 1, 2, 3, 4;
+$$;
@@ -0,0 +1,286 @@
+-- Una transacción puede dividirse en varias líneas de categoría (p. ej. un ticket
+-- del supermercado: despensa, hogar y cuidado personal). La transacción dividida
+-- queda con category_id NULL y sus líneas deben sumar exactamente su monto.
+CREATE TABLE transaction_splits (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  user_id UUID REFERENCES auth.users(id) NOT NULL,
+  transaction_id UUID REFERENCES transactions(id) ON DELETE CASCADE NOT NULL,
+  category_id UUID REFERENCES categories(id) ON DELETE SET NULL,
+  amount NUMERIC(12, 2) NOT NULL CHECK (amount > 0)
+);
+
+CREATE INDEX transaction_splits_transaction_idx ON transaction_splits (transaction_id);
+
+-- Add Row Level Security (RLS)
+ALTER TABLE transaction_splits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can see their own transaction splits" ON transaction_splits
+  FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can create their own transaction splits" ON transaction_splits
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own transaction splits" ON transaction_splits
+  FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own transaction splits" ON transaction_splits
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Reemplaza las líneas de una transacción. p_splits es un arreglo JSON de
+-- { category_id, amount }; vacío quita la división. Valida que la suma coincida
+-- con el monto de la transacción.
+CREATE OR REPLACE FUNCTION set_transaction_splits(p_transaction_id UUID, p_splits JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  t transactions%ROWTYPE;
+  v_total NUMERIC;
+BEGIN
+  SELECT * INTO t FROM transactions WHERE id = p_transaction_id AND user_id = auth.uid() FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transacción no encontrada';
+  END IF;
+
+  DELETE FROM transaction_splits WHERE transaction_id = p_transaction_id;
+
+  IF jsonb_array_length(COALESCE(p_splits, '[]'::JSONB)) = 0 THEN
+    RETURN;
+  END IF;
+
+  SELECT SUM((s->>'amount')::NUMERIC) INTO v_total FROM jsonb_array_elements(p_splits) s;
+  IF v_total <> t.amount THEN
+    RAISE EXCEPTION 'Las líneas suman % pero la transacción es de %', v_total, t.amount;
+  END IF;
+
+  INSERT INTO transaction_splits (user_id, transaction_id, category_id, amount)
+  SELECT t.user_id, t.id, (s->>'category_id')::UUID, (s->>'amount')::NUMERIC
+  FROM jsonb_array_elements(p_splits) s;
+
+  UPDATE transactions SET category_id = NULL WHERE id = t.id;
+END;
+$$;
+
+-- Cada transacción expandida en sus líneas de categoría: una fila por línea si
+-- está dividida, o la transacción completa si no. Los resúmenes parten de aquí.
+CREATE OR REPLACE VIEW transaction_lines
+WITH (security_invoker = true)
+AS
+SELECT
+  t.id AS transaction_id,
+  t.user_id,
+  t.account_id,
+  t.kind,
+  t.date,
+  COALESCE(s.category_id, t.category_id) AS category_id,
+  COALESCE(s.amount, t.amount) AS amount
+FROM transactions t
+LEFT JOIN transaction_splits s ON s.transaction_id = t.id;
+
+CREATE OR REPLACE FUNCTION get_performance_summary(
+  p_start_date TIMESTAMP WITH TIME ZONE,
+  p_end_date TIMESTAMP WITH TIME ZONE
+)
+RETURNS TABLE (
+  kind TEXT,
+  category_id UUID,
+  category_name TEXT,
+  total_amount NUMERIC
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  SELECT
+    l.kind::TEXT AS kind,
+    l.category_id,
+    COALESCE(c.name, 'Sin categoría') AS category_name,
+    SUM(l.amount) AS total_amount
+  FROM transaction_lines l
+  LEFT JOIN categories c ON c.id = l.category_id
+  WHERE l.user_id = auth.uid()
+    AND l.date >= p_start_date::DATE
+    AND l.date <= p_end_date::DATE
+  GROUP BY 1, 2, 3;
+$$;
+
+CREATE OR REPLACE FUNCTION get_performance_summary_by_currency(
+  p_start_date TIMESTAMP WITH TIME ZONE,
+  p_end_date TIMESTAMP WITH TIME ZONE
+)
+RETURNS TABLE (
+  kind TEXT,
+  category_id UUID,
+  category_name TEXT,
+  currency TEXT,
+  total_amount NUMERIC
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  SELECT
+    l.kind::TEXT AS kind,
+    l.category_id,
+    COALESCE(c.name, 'Sin categoría') AS category_name,
+    a.currency,
+    SUM(l.amount) AS total_amount
+  FROM transaction_lines l
+  JOIN accounts a ON a.id = l.account_id
+  LEFT JOIN categories c ON c.id = l.category_id
+  WHERE l.user_id = auth.uid()
+    AND l.date >= p_start_date::DATE
+    AND l.date <= p_end_date::DATE
+  GROUP BY 1, 2, 3, 4;
+$$;
+
+-- Estadísticas y presupuestos también reparten cada línea en su categoría
+CREATE OR REPLACE FUNCTION get_monthly_summary(
+  p_start_date TIMESTAMP WITH TIME ZONE,
+  p_end_date TIMESTAMP WITH TIME ZONE
+)
+RETURNS TABLE (
+  month DATE,
+  kind TEXT,
+  category_id UUID,
+  category_name TEXT,
+  total_amount NUMERIC
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  SELECT
+    date_trunc('month', l.date)::DATE AS month,
+    l.kind::TEXT AS kind,
+    l.category_id,
+    COALESCE(c.name, 'Sin categoría') AS category_name,
+    SUM(l.amount) AS total_amount
+  FROM transaction_lines l
+  LEFT JOIN categories c ON c.id = l.category_id
+  WHERE l.user_id = auth.uid()
+    AND l.date >= p_start_date::DATE
+    AND l.date <= p_end_date::DATE
+  GROUP BY 1, 2, 3, 4
+  ORDER BY 1;
+$$;
+
+-- En el libro de registros una transacción dividida aparece como 'Dividida' y
+-- el filtro por categoría la encuentra por cualquiera de sus líneas.
+CREATE OR REPLACE FUNCTION get_ledger_entries(
+  p_start_date TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_end_date TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_account_id UUID DEFAULT NULL,
+  p_category_id UUID DEFAULT NULL,
+  p_kind TEXT DEFAULT NULL,           -- 'in' | 'out' | 'transfer'
+  p_sort_by TEXT DEFAULT 'date',      -- 'date' | 'amount'
+  p_sort_dir TEXT DEFAULT 'desc',     -- 'asc' | 'desc'
+  p_limit INTEGER DEFAULT 25,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  entry_type TEXT,
+  kind TEXT,
+  amount NUMERIC,
+  signed_amount NUMERIC,
+  date DATE,
+  note TEXT,
+  account_id UUID,
+  account_name TEXT,
+  to_account_id UUID,
+  to_account_name TEXT,
+  category_id UUID,
+  category_name TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  running_total NUMERIC,
+  total_in NUMERIC,
+  total_out NUMERIC,
+  total_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  WITH entries AS (
+    SELECT
+      t.id,
+      'transaction'::TEXT AS entry_type,
+      t.kind::TEXT AS kind,
+      t.amount,
+      CASE WHEN t.kind = 'in' THEN t.amount ELSE -t.amount END AS signed_amount,
+      t.date::DATE AS date,
+      t.note,
+      t.account_id,
+      a.name AS account_name,
+      NULL::UUID AS to_account_id,
+      NULL::TEXT AS to_account_name,
+      t.category_id,
+      CASE WHEN EXISTS (SELECT 1 FROM transaction_splits s WHERE s.transaction_id = t.id)
+        THEN 'Dividida' ELSE c.name END AS category_name,
+      t.created_at
+    FROM transactions t
+    LEFT JOIN accounts a ON a.id = t.account_id
+    LEFT JOIN categories c ON c.id = t.category_id
+    WHERE t.user_id = auth.uid()
+
+    UNION ALL
+
+    -- Una transferencia no cambia el patrimonio total; solo suma o resta
+    -- cuando se filtra por una de las cuentas involucradas.
+    SELECT
+      tr.id,
+      'transfer'::TEXT,
+      'transfer'::TEXT,
+      tr.amount,
+      CASE
+        WHEN p_account_id IS NULL THEN 0
+        WHEN tr.from_account_id = p_account_id THEN -tr.amount
+        ELSE tr.amount
+      END,
+      tr.date::DATE,
+      tr.note,
+      tr.from_account_id,
+      fa.name,
+      tr.to_account_id,
+      ta.name,
+      NULL::UUID,
+      NULL::TEXT,
+      tr.created_at
+    FROM transfers tr
+    LEFT JOIN accounts fa ON fa.id = tr.from_account_id
+    LEFT JOIN accounts ta ON ta.id = tr.to_account_id
+    WHERE tr.user_id = auth.uid()
+  ),
+  filtered AS (
+    SELECT e.*
+    FROM entries e
+    WHERE (p_start_date IS NULL OR e.date >= p_start_date::DATE)
+      AND (p_end_date IS NULL OR e.date <= p_end_date::DATE)
+      AND (p_account_id IS NULL OR e.account_id = p_account_id OR e.to_account_id = p_account_id)
+      AND (p_category_id IS NULL OR e.category_id = p_category_id OR EXISTS (
+        SELECT 1 FROM transaction_splits s WHERE s.transaction_id = e.id AND s.category_id = p_category_id
+      ))
+      AND (p_kind IS NULL OR e.kind = p_kind)
+  ),
+  with_totals AS (
+    SELECT
+      f.*,
+      SUM(f.signed_amount) OVER (ORDER BY f.date, f.created_at, f.id) AS running_total,
+      SUM(CASE WHEN f.kind = 'in' THEN f.amount ELSE 0 END) OVER () AS total_in,
+      SUM(CASE WHEN f.kind = 'out' THEN f.amount ELSE 0 END) OVER () AS total_out,
+      COUNT(*) OVER () AS total_count
+    FROM filtered f
+  )
+  SELECT *
+  FROM with_totals w
+  ORDER BY
+    CASE WHEN p_sort_by = 'amount' AND p_sort_dir = 'asc' THEN w.amount END ASC,
+    CASE WHEN p_sort_by = 'amount' AND p_sort_dir = 'desc' THEN w.amount END DESC,
+    CASE WHEN p_sort_dir = 'asc' THEN w.date END ASC,
+    CASE WHEN p_sort_dir = 'desc' THEN w.date END DESC,
+    CASE WHEN p_sort_dir = 'asc' THEN w.created_at END ASC,
+    CASE WHEN p_sort_dir = 'desc' THEN w.created_at END DESC,
+    w.id
+  LIMIT p_limit
+  OFFSET p_offset;
+$$;
@@ -0,0 +1,186 @@
+-- Subcategorías de un solo nivel (Transporte -> Gasolina / Parqueo / Uber).
+-- Al eliminar una categoría padre sus hijas pasan a ser categorías principales;
+-- sus transacciones no cambian.
+ALTER TABLE categories
+  ADD COLUMN parent_id UUID REFERENCES categories(id) ON DELETE SET NULL;
+
+CREATE INDEX categories_parent_idx ON categories (parent_id);
+
+-- El padre debe ser del mismo usuario y tipo, y ser una categoría principal; una
+-- categoría que ya tiene hijas no puede moverse debajo de otra.
+CREATE OR REPLACE FUNCTION check_category_parent()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  parent categories%ROWTYPE;
+BEGIN
+  IF NEW.parent_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.parent_id = NEW.id THEN
+    RAISE EXCEPTION 'Una categoría no puede ser su propia subcategoría';
+  END IF;
+
+  SELECT * INTO parent FROM categories WHERE id = NEW.parent_id;
+  IF NOT FOUND OR parent.user_id <> NEW.user_id THEN
+    RAISE EXCEPTION 'Categoría padre no encontrada';
+  END IF;
+  IF parent.parent_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Las subcategorías no pueden tener subcategorías';
+  END IF;
+  IF parent.type <> NEW.type THEN
+    RAISE EXCEPTION 'La subcategoría debe ser del mismo tipo que su categoría padre';
+  END IF;
+  IF EXISTS (SELECT 1 FROM categories WHERE parent_id = NEW.id) THEN
+    RAISE EXCEPTION 'Una categoría con subcategorías no puede moverse dentro de otra';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER categories_check_parent
+  BEFORE INSERT OR UPDATE OF parent_id, type ON categories
+  FOR EACH ROW EXECUTE FUNCTION check_category_parent();
+
+-- Si el padre cambia de tipo (gasto <-> ingreso), sus hijas lo siguen
+CREATE OR REPLACE FUNCTION sync_category_children_type()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE categories SET type = NEW.type WHERE parent_id = NEW.id AND type <> NEW.type;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER categories_sync_children_type
+  AFTER UPDATE OF type ON categories
+  FOR EACH ROW WHEN (OLD.type IS DISTINCT FROM NEW.type)
+  EXECUTE FUNCTION sync_category_children_type();
+
+-- En el libro de registros, filtrar por una categoría principal incluye sus subcategorías
+CREATE OR REPLACE FUNCTION get_ledger_entries(
+  p_start_date TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_end_date TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_account_id UUID DEFAULT NULL,
+  p_category_id UUID DEFAULT NULL,
+  p_kind TEXT DEFAULT NULL,           -- 'in' | 'out' | 'transfer'
+  p_sort_by TEXT DEFAULT 'date',      -- 'date' | 'amount'
+  p_sort_dir TEXT DEFAULT 'desc',     -- 'asc' | 'desc'
+  p_limit INTEGER DEFAULT 25,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  entry_type TEXT,
+  kind TEXT,
+  amount NUMERIC,
+  signed_amount NUMERIC,
+  date DATE,
+  note TEXT,
+  account_id UUID,
+  account_name TEXT,
+  to_account_id UUID,
+  to_account_name TEXT,
+  category_id UUID,
+  category_name TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  running_total NUMERIC,
+  total_in NUMERIC,
+  total_out NUMERIC,
+  total_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  WITH filter_categories AS (
+    SELECT c.id FROM categories c WHERE c.id = p_category_id OR c.parent_id = p_category_id
+  ),
+  entries AS (
+    SELECT
+      t.id,
+      'transaction'::TEXT AS entry_type,
+      t.kind::TEXT AS kind,
+      t.amount,
+      CASE WHEN t.kind = 'in' THEN t.amount ELSE -t.amount END AS signed_amount,
+      t.date::DATE AS date,
+      t.note,
+      t.account_id,
+      a.name AS account_name,
+      NULL::UUID AS to_account_id,
+      NULL::TEXT AS to_account_name,
+      t.category_id,
+      CASE WHEN EXISTS (SELECT 1 FROM transaction_splits s WHERE s.transaction_id = t.id)
+        THEN 'Dividida' ELSE c.name END AS category_name,
+      t.created_at
+    FROM transactions t
+    LEFT JOIN accounts a ON a.id = t.account_id
+    LEFT JOIN categories c ON c.id = t.category_id
+    WHERE t.user_id = auth.uid()
+
+    UNION ALL
+
+    -- Una transferencia no cambia el patrimonio total; solo suma o resta
+    -- cuando se filtra por una de las cuentas involucradas.
+    SELECT
+      tr.id,
+      'transfer'::TEXT,
+      'transfer'::TEXT,
+      tr.amount,
+      CASE
+        WHEN p_account_id IS NULL THEN 0
+        WHEN tr.from_account_id = p_account_id THEN -tr.amount
+        ELSE tr.amount
+      END,
+      tr.date::DATE,
+      tr.note,
+      tr.from_account_id,
+      fa.name,
+      tr.to_account_id,
+      ta.name,
+      NULL::UUID,
+      NULL::TEXT,
+      tr.created_at
+    FROM transfers tr
+    LEFT JOIN accounts fa ON fa.id = tr.from_account_id
+    LEFT JOIN accounts ta ON ta.id = tr.to_account_id
+    WHERE tr.user_id = auth.uid()
+  ),
+  filtered AS (
+    SELECT e.*
+    FROM entries e
+    WHERE (p_start_date IS NULL OR e.date >= p_start_date::DATE)
+      AND (p_end_date IS NULL OR e.date <= p_end_date::DATE)
+      AND (p_account_id IS NULL OR e.account_id = p_account_id OR e.to_account_id = p_account_id)
+      AND (p_category_id IS NULL OR e.category_id IN (SELECT fc.id FROM filter_categories fc) OR EXISTS (
+        SELECT 1 FROM transaction_splits s
+        WHERE s.transaction_id = e.id AND s.category_id IN (SELECT fc.id FROM filter_categories fc)
+      ))
+      AND (p_kind IS NULL OR e.kind = p_kind)
+  ),
+  with_totals AS (
+    SELECT
+      f.*,
+      SUM(f.signed_amount) OVER (ORDER BY f.date, f.created_at, f.id) AS running_total,
+      SUM(CASE WHEN f.kind = 'in' THEN f.amount ELSE 0 END) OVER () AS total_in,
+      SUM(CASE WHEN f.kind = 'out' THEN f.amount ELSE 0 END) OVER () AS total_out,
+      COUNT(*) OVER () AS total_count
+    FROM filtered f
+  )
+  SELECT *
+  FROM with_totals w
+  ORDER BY
+    CASE WHEN p_sort_by = 'amount' AND p_sort_dir = 'asc' THEN w.amount END ASC,
+    CASE WHEN p_sort_by = 'amount' AND p_sort_dir = 'desc' THEN w.amount END DESC,
+    CASE WHEN p_sort_dir = 'asc' THEN w.date END ASC,
+    CASE WHEN p_sort_dir = 'desc' THEN w.date END DESC,
+    CASE WHEN p_sort_dir = 'asc' THEN w.created_at END ASC,
+    CASE WHEN p_sort_dir = 'desc' THEN w.created_at END DESC,
+    w.id
+  LIMIT p_limit
+  OFFSET p_offset;
+$$;
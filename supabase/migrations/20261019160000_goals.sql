@@ -0,0 +1,58 @@
+-- Metas de ahorro (un viaje, el fondo de emergencia...). El avance sale del saldo
+-- de la cuenta vinculada o de las transferencias que se asignan a la meta.
+CREATE TABLE goals (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  user_id UUID REFERENCES auth.users(id) NOT NULL,
+  name TEXT NOT NULL,
+  target_amount NUMERIC(12, 2) NOT NULL CHECK (target_amount > 0),
+  deadline DATE NOT NULL,
+  -- 'account': el saldo actual de account_id; 'transfers': la suma de las transferencias con goal_id
+  source TEXT NOT NULL DEFAULT 'account' CHECK (source IN ('account', 'transfers')),
+  account_id UUID REFERENCES accounts(id) ON DELETE SET NULL,
+  -- Moneda de la meta cuando no hay cuenta vinculada
+  currency TEXT NOT NULL DEFAULT 'GTQ'
+);
+
+ALTER TABLE transfers
+  ADD COLUMN goal_id UUID REFERENCES goals(id) ON DELETE SET NULL;
+
+CREATE INDEX transfers_goal_idx ON transfers (goal_id) WHERE goal_id IS NOT NULL;
+
+-- Add Row Level Security (RLS)
+ALTER TABLE goals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can see their own goals" ON goals
+  FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can create their own goals" ON goals
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own goals" ON goals
+  FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own goals" ON goals
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Lo ahorrado de cada meta. Una transferencia asignada cuenta con el monto que
+-- llegó a la cuenta destino (to_amount si las monedas son distintas).
+CREATE OR REPLACE VIEW goal_progress
+WITH (security_invoker = true)
+AS
+SELECT
+  g.id AS goal_id,
+  g.user_id,
+  g.name,
+  g.target_amount,
+  g.deadline,
+  g.source,
+  g.account_id,
+  COALESCE(a.currency, g.currency) AS currency,
+  CASE
+    WHEN g.source = 'account' THEN COALESCE(b.current_balance, 0)
+    ELSE COALESCE((
+      SELECT SUM(COALESCE(tr.to_amount, tr.amount))
+      FROM transfers tr
+      WHERE tr.goal_id = g.id
+    ), 0)
+  END AS saved_amount
+FROM goals g
+LEFT JOIN accounts a ON a.id = g.account_id AND g.source = 'account'
+LEFT JOIN account_balances b ON b.account_id = g.account_id AND g.source = 'account';
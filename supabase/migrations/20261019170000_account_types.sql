@@ -0,0 +1,19 @@
+-- Tipos de cuenta. Las tarjetas de crédito y los préstamos son pasivos: su saldo
+-- es negativo mientras se deba, así que el saldo inicial ya no puede exigir >= 0.
+ALTER TABLE accounts DROP CONSTRAINT IF EXISTS accounts_opening_balance_check;
+
+ALTER TABLE accounts
+  ADD COLUMN type TEXT NOT NULL DEFAULT 'checking'
+    CHECK (type IN ('cash', 'checking', 'savings', 'credit_card', 'loan', 'investment')),
+  -- Solo tarjetas de crédito: límite, día de corte y día de pago (1-31; en meses
+  -- más cortos se toma el último día)
+  ADD COLUMN credit_limit NUMERIC(12, 2) CHECK (credit_limit > 0),
+  ADD COLUMN statement_day SMALLINT CHECK (statement_day BETWEEN 1 AND 31),
+  ADD COLUMN payment_due_day SMALLINT CHECK (payment_due_day BETWEEN 1 AND 31),
+  ADD CONSTRAINT accounts_credit_card_fields_check CHECK (
+    type = 'credit_card' OR (credit_limit IS NULL AND statement_day IS NULL AND payment_due_day IS NULL)
+  ),
+  -- Un activo no empieza en negativo; un pasivo sí (lo que se debe al abrirlo)
+  ADD CONSTRAINT accounts_opening_balance_sign_check CHECK (
+    type IN ('credit_card', 'loan') OR opening_balance >= 0
+  );
@@ -0,0 +1,121 @@
+-- Conciliación contra el estado de cuenta del banco. Cada transacción puede marcarse
+-- como confirmada por el banco (cleared); al conciliar una cuenta, las transacciones
+-- marcadas quedan ligadas a la conciliación y bloqueadas.
+CREATE TABLE reconciliations (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  user_id UUID REFERENCES auth.users(id) NOT NULL,
+  account_id UUID REFERENCES accounts(id) ON DELETE CASCADE NOT NULL,
+  statement_date DATE NOT NULL,
+  statement_balance NUMERIC(12, 2) NOT NULL
+);
+
+CREATE INDEX reconciliations_account_idx ON reconciliations (account_id, statement_date);
+
+ALTER TABLE transactions
+  ADD COLUMN cleared BOOLEAN NOT NULL DEFAULT FALSE,
+  -- Deshacer la conciliación (eliminarla) libera sus transacciones
+  ADD COLUMN reconciliation_id UUID REFERENCES reconciliations(id) ON DELETE SET NULL;
+
+-- Add Row Level Security (RLS)
+ALTER TABLE reconciliations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can see their own reconciliations" ON reconciliations
+  FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can create their own reconciliations" ON reconciliations
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own reconciliations" ON reconciliations
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Una transacción conciliada no se edita ni se elimina. La única actualización
+-- permitida es la que la libera (reconciliation_id -> NULL al deshacer la conciliación).
+CREATE OR REPLACE FUNCTION prevent_reconciled_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF OLD.reconciliation_id IS NOT NULL THEN
+    IF TG_OP = 'DELETE' OR NEW.reconciliation_id IS NOT DISTINCT FROM OLD.reconciliation_id THEN
+      RAISE EXCEPTION 'La transacción está conciliada; deshaz la conciliación para modificarla';
+    END IF;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER transactions_prevent_reconciled_changes
+  BEFORE UPDATE OR DELETE ON transactions
+  FOR EACH ROW EXECUTE FUNCTION prevent_reconciled_changes();
+
+-- Cierra la conciliación: el saldo confirmado de la cuenta a la fecha del estado
+-- de cuenta debe coincidir con el saldo del banco. Ese saldo es el saldo inicial,
+-- las transacciones confirmadas (las ya conciliadas más p_transaction_ids) y las
+-- transferencias hasta esa fecha, que no se confirman una por una.
+CREATE OR REPLACE FUNCTION reconcile_account(
+  p_account_id UUID,
+  p_statement_date DATE,
+  p_statement_balance NUMERIC,
+  p_transaction_ids UUID[]
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_cleared_balance NUMERIC;
+  v_reconciliation_id UUID;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM accounts WHERE id = p_account_id AND user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Cuenta no encontrada';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM transactions
+    WHERE id = ANY(p_transaction_ids)
+      AND (account_id <> p_account_id OR date > p_statement_date OR reconciliation_id IS NOT NULL)
+  ) THEN
+    RAISE EXCEPTION 'Hay transacciones que no pertenecen a esta conciliación';
+  END IF;
+
+  SELECT
+    a.opening_balance
+    + COALESCE((
+        SELECT SUM(CASE WHEN t.kind = 'in' THEN t.amount ELSE -t.amount END)
+        FROM transactions t
+        WHERE t.account_id = a.id
+          AND t.date <= p_statement_date
+          AND (t.reconciliation_id IS NOT NULL OR t.id = ANY(p_transaction_ids))
+      ), 0)
+    + COALESCE((
+        SELECT SUM(COALESCE(tr.to_amount, tr.amount))
+        FROM transfers tr
+        WHERE tr.to_account_id = a.id AND tr.date <= p_statement_date
+      ), 0)
+    - COALESCE((
+        SELECT SUM(tr.amount)
+        FROM transfers tr
+        WHERE tr.from_account_id = a.id AND tr.date <= p_statement_date
+      ), 0)
+  INTO v_cleared_balance
+  FROM accounts a
+  WHERE a.id = p_account_id;
+
+  IF v_cleared_balance <> p_statement_balance THEN
+    RAISE EXCEPTION 'El saldo confirmado (%) no coincide con el del estado de cuenta (%)', v_cleared_balance, p_statement_balance;
+  END IF;
+
+  INSERT INTO reconciliations (user_id, account_id, statement_date, statement_balance)
+  VALUES (auth.uid(), p_account_id, p_statement_date, p_statement_balance)
+  RETURNING id INTO v_reconciliation_id;
+
+  UPDATE transactions
+  SET cleared = TRUE, reconciliation_id = v_reconciliation_id
+  WHERE id = ANY(p_transaction_ids);
+
+  RETURN v_reconciliation_id;
+END;
+$$;
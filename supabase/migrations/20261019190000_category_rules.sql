@@ -0,0 +1,55 @@
+-- Reglas de categorización: "la nota contiene 'Walmart' -> Supermercado, cuenta
+-- Tarjeta BI". Prellenan el formulario y categorizan las filas importadas.
+CREATE TABLE category_rules (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  user_id UUID REFERENCES auth.users(id) NOT NULL,
+  -- Texto que debe aparecer en la nota, sin distinguir mayúsculas ni tildes
+  pattern TEXT NOT NULL CHECK (length(trim(pattern)) > 0),
+  -- Una regla sin su categoría o su cuenta ya no dice lo mismo: se elimina con ellas
+  category_id UUID REFERENCES categories(id) ON DELETE CASCADE,
+  account_id UUID REFERENCES accounts(id) ON DELETE CASCADE,
+  CONSTRAINT category_rules_target_check CHECK (category_id IS NOT NULL OR account_id IS NOT NULL)
+);
+
+-- Add Row Level Security (RLS)
+ALTER TABLE category_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can see their own category rules" ON category_rules
+  FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can create their own category rules" ON category_rules
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own category rules" ON category_rules
+  FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own category rules" ON category_rules
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Sugerencia cuando ninguna regla aplica: la categoría más usada en las
+-- transacciones del mismo tipo cuya nota comparte palabras con p_note. Pesan más
+-- las notas que comparten más palabras; a igual puntaje, la más reciente.
+CREATE OR REPLACE FUNCTION suggest_category(p_note TEXT, p_kind TEXT)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  WITH words AS (
+    SELECT DISTINCT word
+    FROM regexp_split_to_table(lower(p_note), '[^[:alnum:]]+') AS word
+    WHERE length(word) >= 3
+  ),
+  matches AS (
+    SELECT t.id, t.category_id, t.date, COUNT(*) AS shared_words
+    FROM transactions t
+    JOIN words w ON lower(t.note) LIKE '%' || w.word || '%'
+    WHERE t.user_id = auth.uid()
+      AND t.kind = p_kind
+      AND t.category_id IS NOT NULL
+    GROUP BY t.id, t.category_id, t.date
+  )
+  SELECT category_id
+  FROM matches
+  GROUP BY category_id
+  ORDER BY SUM(shared_words) DESC, MAX(date) DESC
+  LIMIT 1;
+$$;
@@ -0,0 +1,38 @@
+-- Comprobantes (fotos de recibos, facturas en PDF) de cada transacción. Los archivos
+-- viven en el bucket privado "attachments" bajo <user_id>/<transaction_id>/.
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('attachments', 'attachments', FALSE, 5242880, ARRAY['image/jpeg', 'image/png', 'image/webp', 'application/pdf'])
+ON CONFLICT (id) DO NOTHING;
+
+-- Cada usuario solo ve y modifica lo que está bajo su propia carpeta
+CREATE POLICY "Users can see their own attachment files" ON storage.objects
+  FOR SELECT USING (bucket_id = 'attachments' AND (storage.foldername(name))[1] = auth.uid()::text);
+CREATE POLICY "Users can upload their own attachment files" ON storage.objects
+  FOR INSERT WITH CHECK (bucket_id = 'attachments' AND (storage.foldername(name))[1] = auth.uid()::text);
+CREATE POLICY "Users can delete their own attachment files" ON storage.objects
+  FOR DELETE USING (bucket_id = 'attachments' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+-- Storage no permite borrar archivos desde SQL: al eliminar la transacción la fila
+-- desaparece por la cascada y el cliente elimina los archivos (ver useDeleteTransaction)
+CREATE TABLE transaction_attachments (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  user_id UUID REFERENCES auth.users(id) NOT NULL,
+  transaction_id UUID REFERENCES transactions(id) ON DELETE CASCADE NOT NULL,
+  path TEXT NOT NULL UNIQUE,
+  file_name TEXT NOT NULL,
+  mime_type TEXT NOT NULL,
+  size INTEGER NOT NULL CHECK (size > 0 AND size <= 5242880)
+);
+
+CREATE INDEX transaction_attachments_transaction_idx ON transaction_attachments (transaction_id);
+
+-- Add Row Level Security (RLS)
+ALTER TABLE transaction_attachments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can see their own attachments" ON transaction_attachments
+  FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can create their own attachments" ON transaction_attachments
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own attachments" ON transaction_attachments
+  FOR DELETE USING (auth.uid() = user_id);
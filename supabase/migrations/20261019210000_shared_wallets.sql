@@ -0,0 +1,788 @@
+-- Billeteras compartidas. Las cuentas, categorías, registros y todo lo que cuelga
+-- de ellos pertenece a una billetera; sus miembros la ven según su rol:
+--   owner  — administra miembros e invitaciones, y edita todo
+--   editor — crea, edita y elimina registros, cuentas, categorías...
+--   viewer — solo lectura
+-- Cada usuario trabaja en una billetera activa a la vez (profiles.active_wallet_id);
+-- las políticas filtran por ella, así que las consultas no necesitan cambiar.
+-- user_id se conserva en cada tabla como quien creó la fila.
+CREATE TABLE wallets (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  created_by UUID REFERENCES auth.users(id) NOT NULL DEFAULT auth.uid()
+);
+
+CREATE TABLE wallet_members (
+  wallet_id UUID REFERENCES wallets(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  role TEXT NOT NULL CHECK (role IN ('owner', 'editor', 'viewer')),
+  PRIMARY KEY (wallet_id, user_id)
+);
+
+CREATE INDEX wallet_members_user_idx ON wallet_members (user_id);
+
+-- Invitación por correo: la acepta quien inicie sesión con ese correo
+CREATE TABLE wallet_invitations (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  wallet_id UUID REFERENCES wallets(id) ON DELETE CASCADE NOT NULL,
+  email TEXT NOT NULL CHECK (email = lower(trim(email))),
+  role TEXT NOT NULL CHECK (role IN ('owner', 'editor', 'viewer')),
+  invited_by UUID REFERENCES auth.users(id) NOT NULL DEFAULT auth.uid(),
+  UNIQUE (wallet_id, email)
+);
+
+-- Correo visible para los demás miembros y billetera activa de cada usuario. Los que
+-- se registran por teléfono (o con proveedores que no comparten el correo) no tienen
+-- email: el perfil se crea igual y los demás miembros ven "—".
+CREATE TABLE profiles (
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE PRIMARY KEY,
+  email TEXT,
+  active_wallet_id UUID REFERENCES wallets(id) ON DELETE SET NULL
+);
+
+-- Rol del usuario actual en una billetera (NULL si no es miembro). SECURITY DEFINER
+-- para que las políticas de wallet_members puedan usarla sin recursión.
+CREATE OR REPLACE FUNCTION wallet_role(p_wallet_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role FROM wallet_members WHERE wallet_id = p_wallet_id AND user_id = auth.uid();
+$$;
+
+-- La billetera activa si el usuario todavía es miembro; si no, la más antigua
+-- de las suyas
+CREATE OR REPLACE FUNCTION current_wallet_id()
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT m.wallet_id
+  FROM wallet_members m
+  LEFT JOIN profiles p ON p.user_id = m.user_id
+  WHERE m.user_id = auth.uid()
+  ORDER BY (m.wallet_id = p.active_wallet_id) DESC NULLS LAST, m.created_at
+  LIMIT 1;
+$$;
+
+CREATE OR REPLACE FUNCTION can_edit_current_wallet()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(wallet_role(current_wallet_id()) IN ('owner', 'editor'), FALSE);
+$$;
+
+-- Crea la billetera con p_user_id como propietario y la deja activa. Es interna:
+-- la usan el registro de usuarios y create_wallet.
+CREATE OR REPLACE FUNCTION create_wallet_for(p_user_id UUID, p_name TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_wallet_id UUID;
+BEGIN
+  INSERT INTO wallets (name, created_by) VALUES (trim(p_name), p_user_id) RETURNING id INTO v_wallet_id;
+  INSERT INTO wallet_members (wallet_id, user_id, role) VALUES (v_wallet_id, p_user_id, 'owner');
+  UPDATE profiles SET active_wallet_id = v_wallet_id WHERE user_id = p_user_id;
+  RETURN v_wallet_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION create_wallet_for(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Cada usuario nuevo empieza con su billetera personal
+CREATE OR REPLACE FUNCTION handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO profiles (user_id, email) VALUES (NEW.id, lower(NEW.email));
+  PERFORM create_wallet_for(NEW.id, 'Personal');
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_auth_user_created
+  AFTER INSERT ON auth.users
+  FOR EACH ROW EXECUTE FUNCTION handle_new_user();
+
+-- Los usuarios que ya existen reciben su billetera personal con todos sus datos
+INSERT INTO profiles (user_id, email)
+SELECT id, lower(email) FROM auth.users;
+
+SELECT create_wallet_for(user_id, 'Personal') FROM profiles;
+
+CREATE OR REPLACE FUNCTION create_wallet(p_name TEXT)
+RETURNS UUID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT create_wallet_for(auth.uid(), p_name);
+$$;
+
+CREATE OR REPLACE FUNCTION switch_wallet(p_wallet_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF wallet_role(p_wallet_id) IS NULL THEN
+    RAISE EXCEPTION 'No eres miembro de esta billetera';
+  END IF;
+  UPDATE profiles SET active_wallet_id = p_wallet_id WHERE user_id = auth.uid();
+END;
+$$;
+
+-- Une al usuario a la billetera de una invitación dirigida a su correo y la deja activa
+CREATE OR REPLACE FUNCTION accept_wallet_invitation(p_invitation_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invitation wallet_invitations%ROWTYPE;
+BEGIN
+  SELECT * INTO v_invitation FROM wallet_invitations
+  WHERE id = p_invitation_id AND email = lower(auth.jwt() ->> 'email');
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invitación no encontrada';
+  END IF;
+
+  INSERT INTO wallet_members (wallet_id, user_id, role)
+  VALUES (v_invitation.wallet_id, auth.uid(), v_invitation.role)
+  ON CONFLICT (wallet_id, user_id) DO NOTHING;
+  DELETE FROM wallet_invitations WHERE id = v_invitation.id;
+  UPDATE profiles SET active_wallet_id = v_invitation.wallet_id WHERE user_id = auth.uid();
+
+  RETURN v_invitation.wallet_id;
+END;
+$$;
+
+-- Una billetera nunca se queda sin propietario (salvo cuando se elimina completa)
+CREATE OR REPLACE FUNCTION ensure_wallet_owner()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF OLD.role = 'owner'
+    AND (TG_OP = 'DELETE' OR NEW.role <> 'owner')
+    AND EXISTS (SELECT 1 FROM wallets WHERE id = OLD.wallet_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM wallet_members
+      WHERE wallet_id = OLD.wallet_id AND role = 'owner' AND user_id <> OLD.user_id
+    )
+  THEN
+    RAISE EXCEPTION 'La billetera debe tener al menos un propietario';
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER wallet_members_ensure_owner
+  BEFORE UPDATE OR DELETE ON wallet_members
+  FOR EACH ROW EXECUTE FUNCTION ensure_wallet_owner();
+
+-- Add Row Level Security (RLS)
+ALTER TABLE wallets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE wallet_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE wallet_invitations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE profiles ENABLE ROW LEVEL SECURITY;
+
+-- Quien tiene una invitación pendiente ve el nombre de la billetera que lo invita
+CREATE POLICY "Members can see their wallets" ON wallets
+  FOR SELECT USING (
+    wallet_role(id) IS NOT NULL
+    OR EXISTS (SELECT 1 FROM wallet_invitations i WHERE i.wallet_id = wallets.id AND i.email = lower(auth.jwt() ->> 'email'))
+  );
+CREATE POLICY "Owners can update their wallets" ON wallets
+  FOR UPDATE USING (wallet_role(id) = 'owner');
+
+CREATE POLICY "Members can see the members of their wallets" ON wallet_members
+  FOR SELECT USING (wallet_role(wallet_id) IS NOT NULL);
+CREATE POLICY "Owners can change member roles" ON wallet_members
+  FOR UPDATE USING (wallet_role(wallet_id) = 'owner');
+-- El propietario saca a un miembro; cualquiera puede salirse
+CREATE POLICY "Owners can remove members and members can leave" ON wallet_members
+  FOR DELETE USING (wallet_role(wallet_id) = 'owner' OR user_id = auth.uid());
+
+CREATE POLICY "Owners and invitees can see invitations" ON wallet_invitations
+  FOR SELECT USING (wallet_role(wallet_id) = 'owner' OR email = lower(auth.jwt() ->> 'email'));
+CREATE POLICY "Owners can invite" ON wallet_invitations
+  FOR INSERT WITH CHECK (wallet_role(wallet_id) = 'owner' AND invited_by = auth.uid());
+-- El propietario cancela la invitación; el invitado la rechaza
+CREATE POLICY "Owners and invitees can delete invitations" ON wallet_invitations
+  FOR DELETE USING (wallet_role(wallet_id) = 'owner' OR email = lower(auth.jwt() ->> 'email'));
+
+CREATE POLICY "Users can see their own profile and their wallet members" ON profiles
+  FOR SELECT USING (
+    user_id = auth.uid()
+    OR EXISTS (SELECT 1 FROM wallet_members m WHERE m.user_id = profiles.user_id AND wallet_role(m.wallet_id) IS NOT NULL)
+  );
+
+-- La asignación de billetera no modifica las transacciones conciliadas
+ALTER TABLE transactions DISABLE TRIGGER transactions_prevent_reconciled_changes;
+
+-- Todas las tablas con datos del usuario pasan a la billetera: se asignan a la
+-- billetera personal de quien las creó y sus políticas se reemplazan por las de
+-- la billetera activa. Crear exige ser editor y registrarse como autor (user_id).
+DO $$
+DECLARE
+  v_table TEXT;
+  v_label TEXT;
+  v_policy RECORD;
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY[
+    'accounts', 'categories', 'transactions', 'transfers', 'transaction_splits',
+    'budgets', 'recurring_rules', 'recurring_occurrences', 'exchange_rates',
+    'goals', 'reconciliations', 'category_rules', 'transaction_attachments'
+  ] LOOP
+    v_label := replace(v_table, '_', ' ');
+
+    EXECUTE format('ALTER TABLE %I ADD COLUMN wallet_id UUID REFERENCES wallets(id)', v_table);
+    EXECUTE format('UPDATE %I t SET wallet_id = p.active_wallet_id FROM profiles p WHERE p.user_id = t.user_id', v_table);
+    EXECUTE format(
+      'ALTER TABLE %I ALTER COLUMN wallet_id SET NOT NULL, ALTER COLUMN wallet_id SET DEFAULT current_wallet_id(), ALTER COLUMN user_id SET DEFAULT auth.uid()',
+      v_table
+    );
+    EXECUTE format('CREATE INDEX %I ON %I (wallet_id)', v_table || '_wallet_idx', v_table);
+
+    FOR v_policy IN SELECT policyname FROM pg_policies WHERE schemaname = 'public' AND tablename = v_table LOOP
+      EXECUTE format('DROP POLICY %I ON %I', v_policy.policyname, v_table);
+    END LOOP;
+
+    EXECUTE format(
+      'CREATE POLICY %I ON %I FOR SELECT USING (wallet_id = (SELECT current_wallet_id()))',
+      'Members can see the wallet ' || v_label, v_table
+    );
+    EXECUTE format(
+      'CREATE POLICY %I ON %I FOR INSERT WITH CHECK (wallet_id = (SELECT current_wallet_id()) AND user_id = auth.uid() AND (SELECT can_edit_current_wallet()))',
+      'Editors can create wallet ' || v_label, v_table
+    );
+    EXECUTE format(
+      'CREATE POLICY %I ON %I FOR UPDATE USING (wallet_id = (SELECT current_wallet_id()) AND (SELECT can_edit_current_wallet())) WITH CHECK (wallet_id = (SELECT current_wallet_id()))',
+      'Editors can update wallet ' || v_label, v_table
+    );
+    EXECUTE format(
+      'CREATE POLICY %I ON %I FOR DELETE USING (wallet_id = (SELECT current_wallet_id()) AND (SELECT can_edit_current_wallet()))',
+      'Editors can delete wallet ' || v_label, v_table
+    );
+  END LOOP;
+END;
+$$;
+
+ALTER TABLE transactions ENABLE TRIGGER transactions_prevent_reconciled_changes;
+
+-- Presupuestos y tipos de cambio son únicos por billetera, no por usuario
+ALTER TABLE budgets DROP CONSTRAINT budgets_user_id_category_id_key;
+ALTER TABLE budgets ADD CONSTRAINT budgets_wallet_id_category_id_key UNIQUE (wallet_id, category_id);
+ALTER TABLE exchange_rates DROP CONSTRAINT exchange_rates_user_id_from_currency_to_currency_key;
+ALTER TABLE exchange_rates ADD CONSTRAINT exchange_rates_wallet_id_from_currency_to_currency_key
+  UNIQUE (wallet_id, from_currency, to_currency);
+
+-- Los comprobantes nuevos se guardan bajo <wallet_id>/; los anteriores siguen bajo
+-- <user_id>/ y solo los ve quien los subió
+DROP POLICY "Users can see their own attachment files" ON storage.objects;
+DROP POLICY "Users can upload their own attachment files" ON storage.objects;
+DROP POLICY "Users can delete their own attachment files" ON storage.objects;
+
+CREATE POLICY "Members can see the wallet attachment files" ON storage.objects
+  FOR SELECT USING (
+    bucket_id = 'attachments'
+    AND (storage.foldername(name))[1] IN (current_wallet_id()::text, auth.uid()::text)
+  );
+CREATE POLICY "Editors can upload wallet attachment files" ON storage.objects
+  FOR INSERT WITH CHECK (
+    bucket_id = 'attachments'
+    AND (storage.foldername(name))[1] = current_wallet_id()::text
+    AND can_edit_current_wallet()
+  );
+CREATE POLICY "Editors can delete wallet attachment files" ON storage.objects
+  FOR DELETE USING (
+    bucket_id = 'attachments'
+    AND (
+      (storage.foldername(name))[1] = auth.uid()::text
+      OR ((storage.foldername(name))[1] = current_wallet_id()::text AND can_edit_current_wallet())
+    )
+  );
+
+-- Las funciones filtraban por auth.uid(); ahora trabajan sobre la billetera activa.
+-- Lo que registran queda a nombre de quien las ejecuta.
+
+-- La categoría padre debe ser de la misma billetera
+CREATE OR REPLACE FUNCTION check_category_parent()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  parent categories%ROWTYPE;
+BEGIN
+  IF NEW.parent_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.parent_id = NEW.id THEN
+    RAISE EXCEPTION 'Una categoría no puede ser su propia subcategoría';
+  END IF;
+
+  SELECT * INTO parent FROM categories WHERE id = NEW.parent_id;
+  IF NOT FOUND OR parent.wallet_id <> NEW.wallet_id THEN
+    RAISE EXCEPTION 'Categoría padre no encontrada';
+  END IF;
+  IF parent.parent_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Las subcategorías no pueden tener subcategorías';
+  END IF;
+  IF parent.type <> NEW.type THEN
+    RAISE EXCEPTION 'La subcategoría debe ser del mismo tipo que su categoría padre';
+  END IF;
+  IF EXISTS (SELECT 1 FROM categories WHERE parent_id = NEW.id) THEN
+    RAISE EXCEPTION 'Una categoría con subcategorías no puede moverse dentro de otra';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE VIEW transaction_lines
+WITH (security_invoker = true)
+AS
+SELECT
+  t.id AS transaction_id,
+  t.user_id,
+  t.account_id,
+  t.kind,
+  t.date,
+  COALESCE(s.category_id, t.category_id) AS category_id,
+  COALESCE(s.amount, t.amount) AS amount,
+  t.wallet_id
+FROM transactions t
+LEFT JOIN transaction_splits s ON s.transaction_id = t.id;
+
+CREATE OR REPLACE FUNCTION get_performance_summary(
+  p_start_date TIMESTAMP WITH TIME ZONE,
+  p_end_date TIMESTAMP WITH TIME ZONE
+)
+RETURNS TABLE (
+  kind TEXT,
+  category_id UUID,
+  category_name TEXT,
+  total_amount NUMERIC
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  SELECT
+    l.kind::TEXT AS kind,
+    l.category_id,
+    COALESCE(c.name, 'Sin categoría') AS category_name,
+    SUM(l.amount) AS total_amount
+  FROM transaction_lines l
+  LEFT JOIN categories c ON c.id = l.category_id
+  WHERE l.wallet_id = current_wallet_id()
+    AND l.date >= p_start_date::DATE
+    AND l.date <= p_end_date::DATE
+  GROUP BY 1, 2, 3;
+$$;
+
+CREATE OR REPLACE FUNCTION get_performance_summary_by_currency(
+  p_start_date TIMESTAMP WITH TIME ZONE,
+  p_end_date TIMESTAMP WITH TIME ZONE
+)
+RETURNS TABLE (
+  kind TEXT,
+  category_id UUID,
+  category_name TEXT,
+  currency TEXT,
+  total_amount NUMERIC
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  SELECT
+    l.kind::TEXT AS kind,
+    l.category_id,
+    COALESCE(c.name, 'Sin categoría') AS category_name,
+    a.currency,
+    SUM(l.amount) AS total_amount
+  FROM transaction_lines l
+  JOIN accounts a ON a.id = l.account_id
+  LEFT JOIN categories c ON c.id = l.category_id
+  WHERE l.wallet_id = current_wallet_id()
+    AND l.date >= p_start_date::DATE
+    AND l.date <= p_end_date::DATE
+  GROUP BY 1, 2, 3, 4;
+$$;
+
+CREATE OR REPLACE FUNCTION get_monthly_summary(
+  p_start_date TIMESTAMP WITH TIME ZONE,
+  p_end_date TIMESTAMP WITH TIME ZONE
+)
+RETURNS TABLE (
+  month DATE,
+  kind TEXT,
+  category_id UUID,
+  category_name TEXT,
+  total_amount NUMERIC
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  SELECT
+    date_trunc('month', l.date)::DATE AS month,
+    l.kind::TEXT AS kind,
+    l.category_id,
+    COALESCE(c.name, 'Sin categoría') AS category_name,
+    SUM(l.amount) AS total_amount
+  FROM transaction_lines l
+  LEFT JOIN categories c ON c.id = l.category_id
+  WHERE l.wallet_id = current_wallet_id()
+    AND l.date >= p_start_date::DATE
+    AND l.date <= p_end_date::DATE
+  GROUP BY 1, 2, 3, 4
+  ORDER BY 1;
+$$;
+
+CREATE OR REPLACE FUNCTION get_ledger_entries(
+  p_start_date TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_end_date TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_account_id UUID DEFAULT NULL,
+  p_category_id UUID DEFAULT NULL,
+  p_kind TEXT DEFAULT NULL,           -- 'in' | 'out' | 'transfer'
+  p_sort_by TEXT DEFAULT 'date',      -- 'date' | 'amount'
+  p_sort_dir TEXT DEFAULT 'desc',     -- 'asc' | 'desc'
+  p_limit INTEGER DEFAULT 25,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  entry_type TEXT,
+  kind TEXT,
+  amount NUMERIC,
+  signed_amount NUMERIC,
+  date DATE,
+  note TEXT,
+  account_id UUID,
+  account_name TEXT,
+  to_account_id UUID,
+  to_account_name TEXT,
+  category_id UUID,
+  category_name TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  running_total NUMERIC,
+  total_in NUMERIC,
+  total_out NUMERIC,
+  total_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  WITH filter_categories AS (
+    SELECT c.id FROM categories c WHERE c.id = p_category_id OR c.parent_id = p_category_id
+  ),
+  entries AS (
+    SELECT
+      t.id,
+      'transaction'::TEXT AS entry_type,
+      t.kind::TEXT AS kind,
+      t.amount,
+      CASE WHEN t.kind = 'in' THEN t.amount ELSE -t.amount END AS signed_amount,
+      t.date::DATE AS date,
+      t.note,
+      t.account_id,
+      a.name AS account_name,
+      NULL::UUID AS to_account_id,
+      NULL::TEXT AS to_account_name,
+      t.category_id,
+      CASE WHEN EXISTS (SELECT 1 FROM transaction_splits s WHERE s.transaction_id = t.id)
+        THEN 'Dividida' ELSE c.name END AS category_name,
+      t.created_at
+    FROM transactions t
+    LEFT JOIN accounts a ON a.id = t.account_id
+    LEFT JOIN categories c ON c.id = t.category_id
+    WHERE t.wallet_id = current_wallet_id()
+
+    UNION ALL
+
+    -- Una transferencia no cambia el patrimonio total; solo suma o resta
+    -- cuando se filtra por una de las cuentas involucradas.
+    SELECT
+      tr.id,
+      'transfer'::TEXT,
+      'transfer'::TEXT,
+      tr.amount,
+      CASE
+        WHEN p_account_id IS NULL THEN 0
+        WHEN tr.from_account_id = p_account_id THEN -tr.amount
+        ELSE tr.amount
+      END,
+      tr.date::DATE,
+      tr.note,
+      tr.from_account_id,
+      fa.name,
+      tr.to_account_id,
+      ta.name,
+      NULL::UUID,
+      NULL::TEXT,
+      tr.created_at
+    FROM transfers tr
+    LEFT JOIN accounts fa ON fa.id = tr.from_account_id
+    LEFT JOIN accounts ta ON ta.id = tr.to_account_id
+    WHERE tr.wallet_id = current_wallet_id()
+  ),
+  filtered AS (
+    SELECT e.*
+    FROM entries e
+    WHERE (p_start_date IS NULL OR e.date >= p_start_date::DATE)
+      AND (p_end_date IS NULL OR e.date <= p_end_date::DATE)
+      AND (p_account_id IS NULL OR e.account_id = p_account_id OR e.to_account_id = p_account_id)
+      AND (p_category_id IS NULL OR e.category_id IN (SELECT fc.id FROM filter_categories fc) OR EXISTS (
+        SELECT 1 FROM transaction_splits s
+        WHERE s.transaction_id = e.id AND s.category_id IN (SELECT fc.id FROM filter_categories fc)
+      ))
+      AND (p_kind IS NULL OR e.kind = p_kind)
+  ),
+  with_totals AS (
+    SELECT
+      f.*,
+      SUM(f.signed_amount) OVER (ORDER BY f.date, f.created_at, f.id) AS running_total,
+      SUM(CASE WHEN f.kind = 'in' THEN f.amount ELSE 0 END) OVER () AS total_in,
+      SUM(CASE WHEN f.kind = 'out' THEN f.amount ELSE 0 END) OVER () AS total_out,
+      COUNT(*) OVER () AS total_count
+    FROM filtered f
+  )
+  SELECT *
+  FROM with_totals w
+  ORDER BY
+    CASE WHEN p_sort_by = 'amount' AND p_sort_dir = 'asc' THEN w.amount END ASC,
+    CASE WHEN p_sort_by = 'amount' AND p_sort_dir = 'desc' THEN w.amount END DESC,
+    CASE WHEN p_sort_dir = 'asc' THEN w.date END ASC,
+    CASE WHEN p_sort_dir = 'desc' THEN w.date END DESC,
+    CASE WHEN p_sort_dir = 'asc' THEN w.created_at END ASC,
+    CASE WHEN p_sort_dir = 'desc' THEN w.created_at END DESC,
+    w.id
+  LIMIT p_limit
+  OFFSET p_offset;
+$$;
+
+CREATE OR REPLACE FUNCTION set_transaction_splits(p_transaction_id UUID, p_splits JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  t transactions%ROWTYPE;
+  v_total NUMERIC;
+BEGIN
+  SELECT * INTO t FROM transactions WHERE id = p_transaction_id AND wallet_id = current_wallet_id() FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transacción no encontrada';
+  END IF;
+
+  DELETE FROM transaction_splits WHERE transaction_id = p_transaction_id;
+
+  IF jsonb_array_length(COALESCE(p_splits, '[]'::JSONB)) = 0 THEN
+    RETURN;
+  END IF;
+
+  SELECT SUM((s->>'amount')::NUMERIC) INTO v_total FROM jsonb_array_elements(p_splits) s;
+  IF v_total <> t.amount THEN
+    RAISE EXCEPTION 'Las líneas suman % pero la transacción es de %', v_total, t.amount;
+  END IF;
+
+  INSERT INTO transaction_splits (user_id, wallet_id, transaction_id, category_id, amount)
+  SELECT auth.uid(), t.wallet_id, t.id, (s->>'category_id')::UUID, (s->>'amount')::NUMERIC
+  FROM jsonb_array_elements(p_splits) s;
+
+  UPDATE transactions SET category_id = NULL WHERE id = t.id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION confirm_recurring_occurrence(p_occurrence_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  o recurring_occurrences%ROWTYPE;
+  r recurring_rules%ROWTYPE;
+  v_id UUID;
+BEGIN
+  SELECT * INTO o FROM recurring_occurrences WHERE id = p_occurrence_id AND status = 'pending' FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+  SELECT * INTO r FROM recurring_rules WHERE id = o.rule_id;
+
+  IF r.kind = 'transfer' THEN
+    INSERT INTO transfers (user_id, wallet_id, from_account_id, to_account_id, amount, date, note)
+    VALUES (auth.uid(), o.wallet_id, r.account_id, r.to_account_id, o.amount, o.due_date, o.note)
+    RETURNING id INTO v_id;
+    UPDATE recurring_occurrences SET status = 'confirmed', transfer_id = v_id WHERE id = o.id;
+  ELSE
+    INSERT INTO transactions (user_id, wallet_id, account_id, category_id, kind, amount, date, note)
+    VALUES (auth.uid(), o.wallet_id, r.account_id, r.category_id, r.kind, o.amount, o.due_date, o.note)
+    RETURNING id INTO v_id;
+    UPDATE recurring_occurrences SET status = 'confirmed', transaction_id = v_id WHERE id = o.id;
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION generate_recurring_occurrences(p_until DATE DEFAULT CURRENT_DATE)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  r recurring_rules%ROWTYPE;
+  v_due DATE;
+  v_occurrence_id UUID;
+  v_created INTEGER := 0;
+BEGIN
+  FOR r IN
+    SELECT * FROM recurring_rules
+    WHERE wallet_id = current_wallet_id() AND active AND next_date <= p_until
+    FOR UPDATE
+  LOOP
+    v_due := r.next_date;
+    WHILE v_due <= p_until AND (r.end_date IS NULL OR v_due <= r.end_date) LOOP
+      v_occurrence_id := NULL;
+      INSERT INTO recurring_occurrences (user_id, wallet_id, rule_id, due_date, amount, note)
+      VALUES (auth.uid(), r.wallet_id, r.id, v_due, r.amount, r.note)
+      ON CONFLICT (rule_id, due_date) DO NOTHING
+      RETURNING id INTO v_occurrence_id;
+
+      IF v_occurrence_id IS NOT NULL THEN
+        v_created := v_created + 1;
+        IF r.auto_confirm THEN
+          PERFORM confirm_recurring_occurrence(v_occurrence_id);
+        END IF;
+      END IF;
+
+      v_due := next_recurrence_date(v_due, r.frequency, r.start_date);
+    END LOOP;
+
+    UPDATE recurring_rules
+    SET next_date = v_due,
+        active = (r.end_date IS NULL OR v_due <= r.end_date)
+    WHERE id = r.id;
+  END LOOP;
+
+  RETURN v_created;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION reconcile_account(
+  p_account_id UUID,
+  p_statement_date DATE,
+  p_statement_balance NUMERIC,
+  p_transaction_ids UUID[]
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_cleared_balance NUMERIC;
+  v_reconciliation_id UUID;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM accounts WHERE id = p_account_id AND wallet_id = current_wallet_id()) THEN
+    RAISE EXCEPTION 'Cuenta no encontrada';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM transactions
+    WHERE id = ANY(p_transaction_ids)
+      AND (account_id <> p_account_id OR date > p_statement_date OR reconciliation_id IS NOT NULL)
+  ) THEN
+    RAISE EXCEPTION 'Hay transacciones que no pertenecen a esta conciliación';
+  END IF;
+
+  SELECT
+    a.opening_balance
+    + COALESCE((
+        SELECT SUM(CASE WHEN t.kind = 'in' THEN t.amount ELSE -t.amount END)
+        FROM transactions t
+        WHERE t.account_id = a.id
+          AND t.date <= p_statement_date
+          AND (t.reconciliation_id IS NOT NULL OR t.id = ANY(p_transaction_ids))
+      ), 0)
+    + COALESCE((
+        SELECT SUM(COALESCE(tr.to_amount, tr.amount))
+        FROM transfers tr
+        WHERE tr.to_account_id = a.id AND tr.date <= p_statement_date
+      ), 0)
+    - COALESCE((
+        SELECT SUM(tr.amount)
+        FROM transfers tr
+        WHERE tr.from_account_id = a.id AND tr.date <= p_statement_date
+      ), 0)
+  INTO v_cleared_balance
+  FROM accounts a
+  WHERE a.id = p_account_id;
+
+  IF v_cleared_balance <> p_statement_balance THEN
+    RAISE EXCEPTION 'El saldo confirmado (%) no coincide con el del estado de cuenta (%)', v_cleared_balance, p_statement_balance;
+  END IF;
+
+  INSERT INTO reconciliations (user_id, wallet_id, account_id, statement_date, statement_balance)
+  VALUES (auth.uid(), current_wallet_id(), p_account_id, p_statement_date, p_statement_balance)
+  RETURNING id INTO v_reconciliation_id;
+
+  UPDATE transactions
+  SET cleared = TRUE, reconciliation_id = v_reconciliation_id
+  WHERE id = ANY(p_transaction_ids);
+
+  RETURN v_reconciliation_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION suggest_category(p_note TEXT, p_kind TEXT)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  WITH words AS (
+    SELECT DISTINCT word
+    FROM regexp_split_to_table(lower(p_note), '[^[:alnum:]]+') AS word
+    WHERE length(word) >= 3
+  ),
+  matches AS (
+    SELECT t.id, t.category_id, t.date, COUNT(*) AS shared_words
+    FROM transactions t
+    JOIN words w ON lower(t.note) LIKE '%' || w.word || '%'
+    WHERE t.wallet_id = current_wallet_id()
+      AND t.kind = p_kind
+      AND t.category_id IS NOT NULL
+    GROUP BY t.id, t.category_id, t.date
+  )
+  SELECT category_id
+  FROM matches
+  GROUP BY category_id
+  ORDER BY SUM(shared_words) DESC, MAX(date) DESC
+  LIMIT 1;
+$$;
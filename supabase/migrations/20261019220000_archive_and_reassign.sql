@@ -0,0 +1,127 @@
+-- Cuentas y categorías archivadas: dejan de ofrecerse al registrar movimientos pero
+-- siguen en los reportes y saldos. Restaurarlas es volver archived_at a NULL.
+ALTER TABLE accounts ADD COLUMN archived_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE categories ADD COLUMN archived_at TIMESTAMP WITH TIME ZONE;
+
+-- Cambiar la categoría de una transacción conciliada no altera el saldo conciliado:
+-- se permite para poder reasignar (o soltar, con ON DELETE SET NULL) una categoría
+-- que se elimina. Cualquier otro cambio sigue bloqueado.
+CREATE OR REPLACE FUNCTION prevent_reconciled_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF OLD.reconciliation_id IS NOT NULL THEN
+    IF TG_OP = 'DELETE' THEN
+      RAISE EXCEPTION 'La transacción está conciliada; deshaz la conciliación para modificarla';
+    END IF;
+    IF NEW.reconciliation_id IS NOT DISTINCT FROM OLD.reconciliation_id
+      AND to_jsonb(NEW) - 'category_id' <> to_jsonb(OLD) - 'category_id' THEN
+      RAISE EXCEPTION 'La transacción está conciliada; deshaz la conciliación para modificarla';
+    END IF;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Elimina una cuenta. Con p_target_account_id, antes pasa sus transacciones,
+-- transferencias, recurrentes, metas y reglas a esa cuenta (de la misma moneda).
+-- Las conciliaciones de la cuenta eliminada se deshacen: las transacciones movidas
+-- quedan sin confirmar en la cuenta destino. Sin destino, la cuenta no puede tener
+-- movimientos.
+CREATE OR REPLACE FUNCTION delete_account(p_account_id UUID, p_target_account_id UUID DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_source accounts%ROWTYPE;
+  v_target accounts%ROWTYPE;
+BEGIN
+  SELECT * INTO v_source FROM accounts WHERE id = p_account_id AND wallet_id = current_wallet_id() FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Cuenta no encontrada';
+  END IF;
+
+  IF p_target_account_id IS NULL THEN
+    IF EXISTS (SELECT 1 FROM transactions WHERE account_id = p_account_id)
+      OR EXISTS (SELECT 1 FROM transfers WHERE p_account_id IN (from_account_id, to_account_id)) THEN
+      RAISE EXCEPTION 'La cuenta tiene movimientos; muévelos a otra cuenta o archívala';
+    END IF;
+  ELSE
+    SELECT * INTO v_target FROM accounts WHERE id = p_target_account_id AND wallet_id = v_source.wallet_id;
+    IF NOT FOUND OR v_target.id = v_source.id THEN
+      RAISE EXCEPTION 'Cuenta destino no encontrada';
+    END IF;
+    IF v_target.currency <> v_source.currency THEN
+      RAISE EXCEPTION 'La cuenta destino debe tener la misma moneda (%)', v_source.currency;
+    END IF;
+    -- Una transferencia entre ambas cuentas quedaría de la cuenta a sí misma
+    IF EXISTS (
+      SELECT 1 FROM transfers
+      WHERE (from_account_id, to_account_id) IN ((p_account_id, p_target_account_id), (p_target_account_id, p_account_id))
+    ) OR EXISTS (
+      SELECT 1 FROM recurring_rules
+      WHERE (account_id, to_account_id) IN ((p_account_id, p_target_account_id), (p_target_account_id, p_account_id))
+    ) THEN
+      RAISE EXCEPTION 'Hay transferencias entre ambas cuentas; elimínalas o elige otra cuenta destino';
+    END IF;
+
+    DELETE FROM reconciliations WHERE account_id = p_account_id;
+
+    UPDATE transactions SET account_id = p_target_account_id, cleared = FALSE WHERE account_id = p_account_id;
+    UPDATE transfers SET from_account_id = p_target_account_id WHERE from_account_id = p_account_id;
+    UPDATE transfers SET to_account_id = p_target_account_id WHERE to_account_id = p_account_id;
+    UPDATE recurring_rules SET account_id = p_target_account_id WHERE account_id = p_account_id;
+    UPDATE recurring_rules SET to_account_id = p_target_account_id WHERE to_account_id = p_account_id;
+    UPDATE goals SET account_id = p_target_account_id WHERE account_id = p_account_id;
+    UPDATE category_rules SET account_id = p_target_account_id WHERE account_id = p_account_id;
+  END IF;
+
+  DELETE FROM accounts WHERE id = p_account_id;
+END;
+$$;
+
+-- Elimina una categoría. Con p_target_category_id (del mismo tipo), antes pasa a
+-- ella las transacciones, líneas divididas, recurrentes y reglas; el presupuesto se
+-- mueve si la categoría destino no tiene uno propio. Las subcategorías pasan a ser
+-- principales (ON DELETE SET NULL).
+CREATE OR REPLACE FUNCTION delete_category(p_category_id UUID, p_target_category_id UUID DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_source categories%ROWTYPE;
+  v_target categories%ROWTYPE;
+BEGIN
+  SELECT * INTO v_source FROM categories WHERE id = p_category_id AND wallet_id = current_wallet_id() FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Categoría no encontrada';
+  END IF;
+
+  IF p_target_category_id IS NOT NULL THEN
+    SELECT * INTO v_target FROM categories WHERE id = p_target_category_id AND wallet_id = v_source.wallet_id;
+    IF NOT FOUND OR v_target.id = v_source.id THEN
+      RAISE EXCEPTION 'Categoría destino no encontrada';
+    END IF;
+    IF v_target.type <> v_source.type THEN
+      RAISE EXCEPTION 'La categoría destino debe ser del mismo tipo';
+    END IF;
+
+    UPDATE transactions SET category_id = p_target_category_id WHERE category_id = p_category_id;
+    UPDATE transaction_splits SET category_id = p_target_category_id WHERE category_id = p_category_id;
+    UPDATE recurring_rules SET category_id = p_target_category_id WHERE category_id = p_category_id;
+    UPDATE category_rules SET category_id = p_target_category_id WHERE category_id = p_category_id;
+    UPDATE budgets SET category_id = p_target_category_id
+    WHERE category_id = p_category_id
+      AND NOT EXISTS (SELECT 1 FROM budgets b WHERE b.category_id = p_target_category_id);
+  END IF;
+
+  DELETE FROM categories WHERE id = p_category_id;
+END;
+$$;
@@ -0,0 +1,120 @@
+-- Historial de cambios de cuentas, categorías, transacciones y transferencias: cada
+-- alta, modificación y eliminación guarda la fila antes y después del cambio, quién
+-- lo hizo y cuándo. Solo lo escriben los triggers; los miembros de la billetera lo leen.
+CREATE TABLE audit_log (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  wallet_id UUID REFERENCES wallets(id) ON DELETE CASCADE NOT NULL,
+  -- NULL cuando el cambio no lo hizo un usuario (migraciones, tareas del servidor)
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  table_name TEXT NOT NULL CHECK (table_name IN ('accounts', 'categories', 'transactions', 'transfers')),
+  record_id UUID NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('insert', 'update', 'delete')),
+  old_data JSONB,
+  new_data JSONB
+);
+
+CREATE INDEX audit_log_record_idx ON audit_log (table_name, record_id, created_at DESC);
+CREATE INDEX audit_log_wallet_idx ON audit_log (wallet_id, created_at DESC);
+
+-- Add Row Level Security (RLS)
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can see the wallet audit log" ON audit_log
+  FOR SELECT USING (wallet_id = (SELECT current_wallet_id()));
+
+-- SECURITY DEFINER: el historial no tiene políticas de escritura. Las
+-- actualizaciones que no cambian nada no se registran.
+CREATE OR REPLACE FUNCTION record_audit_log()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_old JSONB := CASE WHEN TG_OP <> 'INSERT' THEN to_jsonb(OLD) END;
+  v_new JSONB := CASE WHEN TG_OP <> 'DELETE' THEN to_jsonb(NEW) END;
+  v_row JSONB := COALESCE(v_new, v_old);
+BEGIN
+  IF TG_OP = 'UPDATE' AND v_old = v_new THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO audit_log (wallet_id, user_id, table_name, record_id, action, old_data, new_data)
+  VALUES ((v_row->>'wallet_id')::UUID, auth.uid(), TG_TABLE_NAME, (v_row->>'id')::UUID, lower(TG_OP), v_old, v_new);
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER accounts_audit_log
+  AFTER INSERT OR UPDATE OR DELETE ON accounts
+  FOR EACH ROW EXECUTE FUNCTION record_audit_log();
+CREATE TRIGGER categories_audit_log
+  AFTER INSERT OR UPDATE OR DELETE ON categories
+  FOR EACH ROW EXECUTE FUNCTION record_audit_log();
+CREATE TRIGGER transactions_audit_log
+  AFTER INSERT OR UPDATE OR DELETE ON transactions
+  FOR EACH ROW EXECUTE FUNCTION record_audit_log();
+CREATE TRIGGER transfers_audit_log
+  AFTER INSERT OR UPDATE OR DELETE ON transfers
+  FOR EACH ROW EXECUTE FUNCTION record_audit_log();
+
+-- Devuelve una transacción a la versión que dejó un cambio del historial (o a la
+-- que tenía antes de eliminarse). Si se eliminó, se vuelve a crear con el mismo id
+-- a nombre de quien la restaura. No se restauran la conciliación, las líneas
+-- divididas ni los comprobantes; si la cuenta ya no existe no se puede restaurar.
+CREATE OR REPLACE FUNCTION restore_transaction_version(p_audit_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_entry audit_log%ROWTYPE;
+  v_data JSONB;
+  v_category_id UUID;
+BEGIN
+  SELECT * INTO v_entry FROM audit_log
+  WHERE id = p_audit_id AND table_name = 'transactions' AND wallet_id = current_wallet_id();
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Versión no encontrada';
+  END IF;
+  IF NOT can_edit_current_wallet() THEN
+    RAISE EXCEPTION 'No tienes permiso para modificar esta billetera';
+  END IF;
+
+  v_data := COALESCE(v_entry.new_data, v_entry.old_data);
+
+  IF NOT EXISTS (SELECT 1 FROM accounts WHERE id = (v_data->>'account_id')::UUID) THEN
+    RAISE EXCEPTION 'La cuenta de esta versión ya no existe';
+  END IF;
+  -- Una categoría eliminada se pierde, igual que con ON DELETE SET NULL
+  SELECT id INTO v_category_id FROM categories WHERE id = (v_data->>'category_id')::UUID;
+
+  IF EXISTS (SELECT 1 FROM transactions WHERE id = v_entry.record_id) THEN
+    UPDATE transactions
+    SET account_id = (v_data->>'account_id')::UUID,
+        category_id = v_category_id,
+        kind = v_data->>'kind',
+        amount = (v_data->>'amount')::NUMERIC,
+        date = (v_data->>'date')::DATE,
+        note = v_data->>'note',
+        cleared = COALESCE((v_data->>'cleared')::BOOLEAN, FALSE)
+    WHERE id = v_entry.record_id;
+  ELSE
+    INSERT INTO transactions (id, user_id, wallet_id, account_id, category_id, kind, amount, date, note, cleared)
+    VALUES (
+      v_entry.record_id,
+      auth.uid(),
+      v_entry.wallet_id,
+      (v_data->>'account_id')::UUID,
+      v_category_id,
+      v_data->>'kind',
+      (v_data->>'amount')::NUMERIC,
+      (v_data->>'date')::DATE,
+      v_data->>'note',
+      COALESCE((v_data->>'cleared')::BOOLEAN, FALSE)
+    );
+  END IF;
+END;
+$$;
@@ -0,0 +1,177 @@
+-- Montos en la moneda de cada cuenta. El resumen mensual se separa por moneda para
+-- que el cliente convierta cada total a la moneda base, igual que el del dashboard.
+DROP FUNCTION get_monthly_summary(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE);
+
+CREATE FUNCTION get_monthly_summary(
+  p_start_date TIMESTAMP WITH TIME ZONE,
+  p_end_date TIMESTAMP WITH TIME ZONE
+)
+RETURNS TABLE (
+  month DATE,
+  kind TEXT,
+  category_id UUID,
+  category_name TEXT,
+  currency TEXT,
+  total_amount NUMERIC
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  SELECT
+    date_trunc('month', l.date)::DATE AS month,
+    l.kind::TEXT AS kind,
+    l.category_id,
+    COALESCE(c.name, 'Sin categoría') AS category_name,
+    a.currency,
+    SUM(l.amount) AS total_amount
+  FROM transaction_lines l
+  JOIN accounts a ON a.id = l.account_id
+  LEFT JOIN categories c ON c.id = l.category_id
+  WHERE l.wallet_id = current_wallet_id()
+    AND l.date >= p_start_date::DATE
+    AND l.date <= p_end_date::DATE
+  GROUP BY 1, 2, 3, 4, 5
+  ORDER BY 1;
+$$;
+
+-- Cada registro trae la moneda de su monto. Una transferencia vista desde su cuenta
+-- destino acredita to_amount (en la moneda de esa cuenta) cuando existe.
+-- Con una cuenta filtrada todo está en su moneda; sin filtro, el saldo acumulado y
+-- los totales se convierten con p_rates ({"USD": 7.8, ...}: cuánto vale 1 unidad en
+-- la moneda base). Una moneda sin tasa no suma, como en los totales del dashboard.
+DROP FUNCTION get_ledger_entries(
+  TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, UUID, UUID, TEXT, TEXT, TEXT, INTEGER, INTEGER
+);
+
+CREATE FUNCTION get_ledger_entries(
+  p_start_date TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_end_date TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_account_id UUID DEFAULT NULL,
+  p_category_id UUID DEFAULT NULL,
+  p_kind TEXT DEFAULT NULL,           -- 'in' | 'out' | 'transfer'
+  p_sort_by TEXT DEFAULT 'date',      -- 'date' | 'amount'
+  p_sort_dir TEXT DEFAULT 'desc',     -- 'asc' | 'desc'
+  p_limit INTEGER DEFAULT 25,
+  p_offset INTEGER DEFAULT 0,
+  p_rates JSONB DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  entry_type TEXT,
+  kind TEXT,
+  amount NUMERIC,
+  signed_amount NUMERIC,
+  currency TEXT,
+  date DATE,
+  note TEXT,
+  account_id UUID,
+  account_name TEXT,
+  to_account_id UUID,
+  to_account_name TEXT,
+  category_id UUID,
+  category_name TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  running_total NUMERIC,
+  total_in NUMERIC,
+  total_out NUMERIC,
+  total_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  WITH filter_categories AS (
+    SELECT c.id FROM categories c WHERE c.id = p_category_id OR c.parent_id = p_category_id
+  ),
+  entries AS (
+    SELECT
+      t.id,
+      'transaction'::TEXT AS entry_type,
+      t.kind::TEXT AS kind,
+      t.amount,
+      CASE WHEN t.kind = 'in' THEN t.amount ELSE -t.amount END AS signed_amount,
+      a.currency,
+      t.date::DATE AS date,
+      t.note,
+      t.account_id,
+      a.name AS account_name,
+      NULL::UUID AS to_account_id,
+      NULL::TEXT AS to_account_name,
+      t.category_id,
+      CASE WHEN EXISTS (SELECT 1 FROM transaction_splits s WHERE s.transaction_id = t.id)
+        THEN 'Dividida' ELSE c.name END AS category_name,
+      t.created_at
+    FROM transactions t
+    LEFT JOIN accounts a ON a.id = t.account_id
+    LEFT JOIN categories c ON c.id = t.category_id
+    WHERE t.wallet_id = current_wallet_id()
+
+    UNION ALL
+
+    -- Una transferencia no cambia el patrimonio total; solo suma o resta
+    -- cuando se filtra por una de las cuentas involucradas.
+    SELECT
+      tr.id,
+      'transfer'::TEXT,
+      'transfer'::TEXT,
+      CASE WHEN tr.to_account_id = p_account_id THEN COALESCE(tr.to_amount, tr.amount) ELSE tr.amount END,
+      CASE
+        WHEN p_account_id IS NULL THEN 0
+        WHEN tr.from_account_id = p_account_id THEN -tr.amount
+        ELSE COALESCE(tr.to_amount, tr.amount)
+      END,
+      CASE WHEN tr.to_account_id = p_account_id THEN ta.currency ELSE fa.currency END,
+      tr.date::DATE,
+      tr.note,
+      tr.from_account_id,
+      fa.name,
+      tr.to_account_id,
+      ta.name,
+      NULL::UUID,
+      NULL::TEXT,
+      tr.created_at
+    FROM transfers tr
+    LEFT JOIN accounts fa ON fa.id = tr.from_account_id
+    LEFT JOIN accounts ta ON ta.id = tr.to_account_id
+    WHERE tr.wallet_id = current_wallet_id()
+  ),
+  filtered AS (
+    SELECT
+      e.*,
+      CASE WHEN p_account_id IS NULL AND p_rates IS NOT NULL
+        THEN COALESCE((p_rates->>e.currency)::NUMERIC, 0) ELSE 1 END AS rate
+    FROM entries e
+    WHERE (p_start_date IS NULL OR e.date >= p_start_date::DATE)
+      AND (p_end_date IS NULL OR e.date <= p_end_date::DATE)
+      AND (p_account_id IS NULL OR e.account_id = p_account_id OR e.to_account_id = p_account_id)
+      AND (p_category_id IS NULL OR e.category_id IN (SELECT fc.id FROM filter_categories fc) OR EXISTS (
+        SELECT 1 FROM transaction_splits s
+        WHERE s.transaction_id = e.id AND s.category_id IN (SELECT fc.id FROM filter_categories fc)
+      ))
+      AND (p_kind IS NULL OR e.kind = p_kind)
+  ),
+  with_totals AS (
+    SELECT
+      f.id, f.entry_type, f.kind, f.amount, f.signed_amount, f.currency, f.date, f.note,
+      f.account_id, f.account_name, f.to_account_id, f.to_account_name,
+      f.category_id, f.category_name, f.created_at,
+      SUM(f.signed_amount * f.rate) OVER (ORDER BY f.date, f.created_at, f.id) AS running_total,
+      SUM(CASE WHEN f.kind = 'in' THEN f.amount * f.rate ELSE 0 END) OVER () AS total_in,
+      SUM(CASE WHEN f.kind = 'out' THEN f.amount * f.rate ELSE 0 END) OVER () AS total_out,
+      COUNT(*) OVER () AS total_count
+    FROM filtered f
+  )
+  SELECT *
+  FROM with_totals w
+  ORDER BY
+    CASE WHEN p_sort_by = 'amount' AND p_sort_dir = 'asc' THEN w.amount END ASC,
+    CASE WHEN p_sort_by = 'amount' AND p_sort_dir = 'desc' THEN w.amount END DESC,
+    CASE WHEN p_sort_dir = 'asc' THEN w.date END ASC,
+    CASE WHEN p_sort_dir = 'desc' THEN w.date END DESC,
+    CASE WHEN p_sort_dir = 'asc' THEN w.created_at END ASC,
+    CASE WHEN p_sort_dir = 'desc' THEN w.created_at END DESC,
+    w.id
+  LIMIT p_limit
+  OFFSET p_offset;
+$$;
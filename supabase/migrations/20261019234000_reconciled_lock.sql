@@ -0,0 +1,28 @@
+-- Liberar una transacción conciliada (reconciliation_id -> NULL al deshacer la
+-- conciliación) no puede venir acompañado de otros cambios: si no, un solo UPDATE
+-- la editaría y la desbloquearía a la vez. Mientras siga conciliada solo se permite
+-- cambiar su categoría, que no altera el saldo conciliado.
+CREATE OR REPLACE FUNCTION prevent_reconciled_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF OLD.reconciliation_id IS NOT NULL THEN
+    IF TG_OP = 'DELETE' THEN
+      RAISE EXCEPTION 'La transacción está conciliada; deshaz la conciliación para modificarla';
+    END IF;
+    IF NEW.reconciliation_id IS NULL THEN
+      IF to_jsonb(NEW) - 'reconciliation_id' - 'cleared' <> to_jsonb(OLD) - 'reconciliation_id' - 'cleared' THEN
+        RAISE EXCEPTION 'La transacción está conciliada; deshaz la conciliación para modificarla';
+      END IF;
+    ELSIF to_jsonb(NEW) - 'category_id' <> to_jsonb(OLD) - 'category_id' THEN
+      RAISE EXCEPTION 'La transacción está conciliada; deshaz la conciliación para modificarla';
+    END IF;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$;
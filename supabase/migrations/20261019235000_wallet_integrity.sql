@@ -0,0 +1,105 @@
+-- Las políticas de actualización solo miran la billetera de la fila. Estos triggers
+-- cubren lo que no ven: user_id registra quién creó la fila y no se reescribe, y una
+-- fila solo puede apuntar a cuentas, categorías y demás registros de su billetera.
+CREATE OR REPLACE FUNCTION prevent_author_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.user_id IS DISTINCT FROM OLD.user_id THEN
+    RAISE EXCEPTION 'No se puede cambiar quién creó el registro';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Argumentos en pares: columna y tabla a la que apunta. SECURITY DEFINER para
+-- comparar la billetera real de la fila referenciada, no solo la que deja ver RLS.
+-- En una actualización solo se revisan las referencias que cambian.
+CREATE OR REPLACE FUNCTION check_wallet_references()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_new JSONB := to_jsonb(NEW);
+  v_old JSONB := CASE WHEN TG_OP = 'UPDATE' THEN to_jsonb(OLD) END;
+  v_id UUID;
+  v_same_wallet BOOLEAN;
+BEGIN
+  FOR i IN 0 .. TG_NARGS - 1 BY 2 LOOP
+    v_id := (v_new ->> TG_ARGV[i])::UUID;
+    CONTINUE WHEN v_id IS NULL
+      OR (TG_OP = 'UPDATE' AND v_id IS NOT DISTINCT FROM (v_old ->> TG_ARGV[i])::UUID AND NEW.wallet_id = OLD.wallet_id);
+
+    EXECUTE format('SELECT EXISTS (SELECT 1 FROM %I WHERE id = $1 AND wallet_id = $2)', TG_ARGV[i + 1])
+      INTO v_same_wallet
+      USING v_id, NEW.wallet_id;
+    IF NOT v_same_wallet THEN
+      RAISE EXCEPTION 'El registro referenciado en % no pertenece a esta billetera', TG_ARGV[i];
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+DO $$
+DECLARE
+  v_table TEXT;
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY[
+    'accounts', 'categories', 'transactions', 'transfers', 'transaction_splits',
+    'budgets', 'recurring_rules', 'recurring_occurrences', 'exchange_rates',
+    'goals', 'reconciliations', 'category_rules', 'transaction_attachments'
+  ] LOOP
+    EXECUTE format(
+      'CREATE TRIGGER %I BEFORE UPDATE ON %I FOR EACH ROW EXECUTE FUNCTION prevent_author_change()',
+      v_table || '_prevent_author_change', v_table
+    );
+  END LOOP;
+END;
+$$;
+
+CREATE TRIGGER categories_check_wallet_references
+  BEFORE INSERT OR UPDATE ON categories
+  FOR EACH ROW EXECUTE FUNCTION check_wallet_references('parent_id', 'categories');
+CREATE TRIGGER transactions_check_wallet_references
+  BEFORE INSERT OR UPDATE ON transactions
+  FOR EACH ROW EXECUTE FUNCTION check_wallet_references(
+    'account_id', 'accounts', 'category_id', 'categories', 'reconciliation_id', 'reconciliations'
+  );
+CREATE TRIGGER transfers_check_wallet_references
+  BEFORE INSERT OR UPDATE ON transfers
+  FOR EACH ROW EXECUTE FUNCTION check_wallet_references(
+    'from_account_id', 'accounts', 'to_account_id', 'accounts', 'goal_id', 'goals'
+  );
+CREATE TRIGGER transaction_splits_check_wallet_references
+  BEFORE INSERT OR UPDATE ON transaction_splits
+  FOR EACH ROW EXECUTE FUNCTION check_wallet_references('transaction_id', 'transactions', 'category_id', 'categories');
+CREATE TRIGGER budgets_check_wallet_references
+  BEFORE INSERT OR UPDATE ON budgets
+  FOR EACH ROW EXECUTE FUNCTION check_wallet_references('category_id', 'categories');
+CREATE TRIGGER recurring_rules_check_wallet_references
+  BEFORE INSERT OR UPDATE ON recurring_rules
+  FOR EACH ROW EXECUTE FUNCTION check_wallet_references(
+    'account_id', 'accounts', 'to_account_id', 'accounts', 'category_id', 'categories'
+  );
+CREATE TRIGGER recurring_occurrences_check_wallet_references
+  BEFORE INSERT OR UPDATE ON recurring_occurrences
+  FOR EACH ROW EXECUTE FUNCTION check_wallet_references(
+    'rule_id', 'recurring_rules', 'transaction_id', 'transactions', 'transfer_id', 'transfers'
+  );
+CREATE TRIGGER goals_check_wallet_references
+  BEFORE INSERT OR UPDATE ON goals
+  FOR EACH ROW EXECUTE FUNCTION check_wallet_references('account_id', 'accounts');
+CREATE TRIGGER reconciliations_check_wallet_references
+  BEFORE INSERT OR UPDATE ON reconciliations
+  FOR EACH ROW EXECUTE FUNCTION check_wallet_references('account_id', 'accounts');
+CREATE TRIGGER category_rules_check_wallet_references
+  BEFORE INSERT OR UPDATE ON category_rules
+  FOR EACH ROW EXECUTE FUNCTION check_wallet_references('category_id', 'categories', 'account_id', 'accounts');
+CREATE TRIGGER transaction_attachments_check_wallet_references
+  BEFORE INSERT OR UPDATE ON transaction_attachments
+  FOR EACH ROW EXECUTE FUNCTION check_wallet_references('transaction_id', 'transactions');
@@ -0,0 +1,19 @@
+-- Un usuario sin correo (teléfono u OAuth) puede agregarlo después, y cualquiera
+-- puede cambiarlo: el perfil lo refleja
+CREATE OR REPLACE FUNCTION handle_user_email_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE profiles SET email = lower(NEW.email) WHERE user_id = NEW.id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_auth_user_email_changed
+  AFTER UPDATE OF email ON auth.users
+  FOR EACH ROW
+  WHEN (NEW.email IS DISTINCT FROM OLD.email)
+  EXECUTE FUNCTION handle_user_email_change();
@@ -0,0 +1,73 @@
+-- Restaurar una versión con otro monto o categoría elimina las líneas divididas de la
+-- transacción: ya no sumarían el monto restaurado y transaction_lines seguiría
+-- usando sus categorías en lugar de la restaurada. El historial no guarda las líneas,
+-- así que no se recuperan; la confirmación en la app lo advierte.
+-- Una transacción eliminada vuelve con su autor original (user_id no se reescribe),
+-- o con quien la restaura si esa cuenta ya no existe. Las políticas solo dejan
+-- insertar filas propias: por eso es SECURITY DEFINER y todo se limita a la
+-- billetera de la versión.
+CREATE OR REPLACE FUNCTION restore_transaction_version(p_audit_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entry audit_log%ROWTYPE;
+  v_data JSONB;
+  v_category_id UUID;
+  v_author_id UUID;
+BEGIN
+  SELECT * INTO v_entry FROM audit_log
+  WHERE id = p_audit_id AND table_name = 'transactions' AND wallet_id = current_wallet_id();
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Versión no encontrada';
+  END IF;
+  IF NOT can_edit_current_wallet() THEN
+    RAISE EXCEPTION 'No tienes permiso para modificar esta billetera';
+  END IF;
+
+  v_data := COALESCE(v_entry.new_data, v_entry.old_data);
+
+  IF NOT EXISTS (SELECT 1 FROM accounts WHERE id = (v_data->>'account_id')::UUID AND wallet_id = v_entry.wallet_id) THEN
+    RAISE EXCEPTION 'La cuenta de esta versión ya no existe';
+  END IF;
+  -- Una categoría eliminada se pierde, igual que con ON DELETE SET NULL
+  SELECT id INTO v_category_id FROM categories
+  WHERE id = (v_data->>'category_id')::UUID AND wallet_id = v_entry.wallet_id;
+
+  IF EXISTS (SELECT 1 FROM transactions WHERE id = v_entry.record_id AND wallet_id = v_entry.wallet_id) THEN
+    DELETE FROM transaction_splits s
+    USING transactions t
+    WHERE s.transaction_id = t.id
+      AND t.id = v_entry.record_id
+      AND (t.amount <> (v_data->>'amount')::NUMERIC OR t.category_id IS DISTINCT FROM v_category_id);
+
+    UPDATE transactions
+    SET account_id = (v_data->>'account_id')::UUID,
+        category_id = v_category_id,
+        kind = v_data->>'kind',
+        amount = (v_data->>'amount')::NUMERIC,
+        date = (v_data->>'date')::DATE,
+        note = v_data->>'note',
+        cleared = COALESCE((v_data->>'cleared')::BOOLEAN, FALSE)
+    WHERE id = v_entry.record_id AND wallet_id = v_entry.wallet_id;
+  ELSE
+    SELECT id INTO v_author_id FROM auth.users WHERE id = (v_data->>'user_id')::UUID;
+
+    INSERT INTO transactions (id, user_id, wallet_id, account_id, category_id, kind, amount, date, note, cleared)
+    VALUES (
+      v_entry.record_id,
+      COALESCE(v_author_id, auth.uid()),
+      v_entry.wallet_id,
+      (v_data->>'account_id')::UUID,
+      v_category_id,
+      v_data->>'kind',
+      (v_data->>'amount')::NUMERIC,
+      (v_data->>'date')::DATE,
+      v_data->>'note',
+      COALESCE((v_data->>'cleared')::BOOLEAN, FALSE)
+    );
+  END IF;
+END;
+$$;
@@ -0,0 +1,169 @@
+-- Las transferencias se concilian como las transacciones: cada lado aparece en el
+-- estado de cuenta de su banco y se marca al conciliar esa cuenta. Antes se contaban
+-- todas por fecha, aunque el banco todavía no las reflejara.
+ALTER TABLE transfers
+  -- Deshacer la conciliación (eliminarla) libera el lado correspondiente
+  ADD COLUMN from_reconciliation_id UUID REFERENCES reconciliations(id) ON DELETE SET NULL,
+  ADD COLUMN to_reconciliation_id UUID REFERENCES reconciliations(id) ON DELETE SET NULL;
+
+-- Las conciliaciones que ya existen incluyeron todas las transferencias hasta su
+-- fecha: cada lado queda en la primera que lo cubrió
+UPDATE transfers tr
+SET from_reconciliation_id = (
+      SELECT r.id FROM reconciliations r
+      WHERE r.account_id = tr.from_account_id AND r.statement_date >= tr.date
+      ORDER BY r.statement_date, r.created_at
+      LIMIT 1
+    ),
+    to_reconciliation_id = (
+      SELECT r.id FROM reconciliations r
+      WHERE r.account_id = tr.to_account_id AND r.statement_date >= tr.date
+      ORDER BY r.statement_date, r.created_at
+      LIMIT 1
+    );
+
+-- Con algún lado conciliado la transferencia no se elimina ni cambia de monto o fecha.
+-- Liberar un lado no puede venir acompañado de otros cambios (igual que en
+-- transactions); fuera de eso se puede cambiar la meta y mover a otra cuenta el lado
+-- que no está conciliado.
+CREATE OR REPLACE FUNCTION prevent_reconciled_transfer_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_free_keys TEXT[] := ARRAY['from_reconciliation_id', 'to_reconciliation_id'];
+BEGIN
+  IF OLD.from_reconciliation_id IS NULL AND OLD.to_reconciliation_id IS NULL THEN
+    IF TG_OP = 'DELETE' THEN
+      RETURN OLD;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RAISE EXCEPTION 'La transferencia está conciliada; deshaz la conciliación para modificarla';
+  END IF;
+
+  IF NOT ((OLD.from_reconciliation_id IS NOT NULL AND NEW.from_reconciliation_id IS NULL)
+       OR (OLD.to_reconciliation_id IS NOT NULL AND NEW.to_reconciliation_id IS NULL)) THEN
+    v_free_keys := v_free_keys || 'goal_id';
+    IF OLD.from_reconciliation_id IS NULL THEN
+      v_free_keys := v_free_keys || 'from_account_id';
+    END IF;
+    IF OLD.to_reconciliation_id IS NULL THEN
+      v_free_keys := v_free_keys || 'to_account_id';
+    END IF;
+  END IF;
+
+  IF to_jsonb(NEW) - v_free_keys <> to_jsonb(OLD) - v_free_keys THEN
+    RAISE EXCEPTION 'La transferencia está conciliada; deshaz la conciliación para modificarla';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER transfers_prevent_reconciled_changes
+  BEFORE UPDATE OR DELETE ON transfers
+  FOR EACH ROW EXECUTE FUNCTION prevent_reconciled_transfer_changes();
+
+DROP TRIGGER transfers_check_wallet_references ON transfers;
+CREATE TRIGGER transfers_check_wallet_references
+  BEFORE INSERT OR UPDATE ON transfers
+  FOR EACH ROW EXECUTE FUNCTION check_wallet_references(
+    'from_account_id', 'accounts', 'to_account_id', 'accounts', 'goal_id', 'goals',
+    'from_reconciliation_id', 'reconciliations', 'to_reconciliation_id', 'reconciliations'
+  );
+
+-- El saldo confirmado es el saldo inicial más las transacciones y los lados de
+-- transferencia de la cuenta ya conciliados o marcados ahora (p_transaction_ids y
+-- p_transfer_ids) hasta la fecha del estado de cuenta.
+DROP FUNCTION reconcile_account(UUID, DATE, NUMERIC, UUID[]);
+
+CREATE FUNCTION reconcile_account(
+  p_account_id UUID,
+  p_statement_date DATE,
+  p_statement_balance NUMERIC,
+  p_transaction_ids UUID[],
+  p_transfer_ids UUID[] DEFAULT '{}'
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_cleared_balance NUMERIC;
+  v_reconciliation_id UUID;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM accounts WHERE id = p_account_id AND wallet_id = current_wallet_id()) THEN
+    RAISE EXCEPTION 'Cuenta no encontrada';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM transactions
+    WHERE id = ANY(p_transaction_ids)
+      AND (account_id <> p_account_id OR date > p_statement_date OR reconciliation_id IS NOT NULL)
+  ) THEN
+    RAISE EXCEPTION 'Hay transacciones que no pertenecen a esta conciliación';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM transfers
+    WHERE id = ANY(p_transfer_ids)
+      AND (date > p_statement_date OR NOT (
+        (from_account_id = p_account_id AND from_reconciliation_id IS NULL)
+        OR (to_account_id = p_account_id AND to_reconciliation_id IS NULL)
+      ))
+  ) THEN
+    RAISE EXCEPTION 'Hay transferencias que no pertenecen a esta conciliación';
+  END IF;
+
+  SELECT
+    a.opening_balance
+    + COALESCE((
+        SELECT SUM(CASE WHEN t.kind = 'in' THEN t.amount ELSE -t.amount END)
+        FROM transactions t
+        WHERE t.account_id = a.id
+          AND t.date <= p_statement_date
+          AND (t.reconciliation_id IS NOT NULL OR t.id = ANY(p_transaction_ids))
+      ), 0)
+    + COALESCE((
+        SELECT SUM(COALESCE(tr.to_amount, tr.amount))
+        FROM transfers tr
+        WHERE tr.to_account_id = a.id
+          AND tr.date <= p_statement_date
+          AND (tr.to_reconciliation_id IS NOT NULL OR tr.id = ANY(p_transfer_ids))
+      ), 0)
+    - COALESCE((
+        SELECT SUM(tr.amount)
+        FROM transfers tr
+        WHERE tr.from_account_id = a.id
+          AND tr.date <= p_statement_date
+          AND (tr.from_reconciliation_id IS NOT NULL OR tr.id = ANY(p_transfer_ids))
+      ), 0)
+  INTO v_cleared_balance
+  FROM accounts a
+  WHERE a.id = p_account_id;
+
+  IF v_cleared_balance <> p_statement_balance THEN
+    RAISE EXCEPTION 'El saldo confirmado (%) no coincide con el del estado de cuenta (%)', v_cleared_balance, p_statement_balance;
+  END IF;
+
+  INSERT INTO reconciliations (user_id, wallet_id, account_id, statement_date, statement_balance)
+  VALUES (auth.uid(), current_wallet_id(), p_account_id, p_statement_date, p_statement_balance)
+  RETURNING id INTO v_reconciliation_id;
+
+  UPDATE transactions
+  SET cleared = TRUE, reconciliation_id = v_reconciliation_id
+  WHERE id = ANY(p_transaction_ids);
+
+  UPDATE transfers
+  SET from_reconciliation_id = v_reconciliation_id
+  WHERE id = ANY(p_transfer_ids) AND from_account_id = p_account_id;
+
+  UPDATE transfers
+  SET to_reconciliation_id = v_reconciliation_id
+  WHERE id = ANY(p_transfer_ids) AND to_account_id = p_account_id;
+
+  RETURN v_reconciliation_id;
+END;
+$$;